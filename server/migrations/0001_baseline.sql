@@ -0,0 +1,31 @@
+-- Baseline schema: the tables loginUser, ensureWeek and fetchParts rely on.
+-- Written with "if not exists" so databases created by hand before migrations
+-- existed can adopt this history without being rebuilt.
+
+create extension if not exists pgcrypto;
+
+create table if not exists users (
+  id uuid primary key default gen_random_uuid(),
+  firebase_uid text not null unique,
+  name text,
+  phone text unique,
+  is_admin boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists weeks (
+  id uuid primary key default gen_random_uuid(),
+  week_key text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists parts (
+  week_id uuid not null references weeks(id) on delete cascade,
+  number integer not null,
+  claimed_by uuid references users(id) on delete set null,
+  claimed_name text,
+  claimed_at timestamptz,
+  primary key (week_id, number)
+);
+
+create index if not exists parts_claimed_by_idx on parts (claimed_by);
@@ -0,0 +1,3 @@
+-- Weeks now come from the server calendar, so remember the window each key covers.
+alter table weeks add column if not exists starts_at timestamptz;
+alter table weeks add column if not exists ends_at timestamptz;
@@ -0,0 +1,37 @@
+-- Independent khatma circles. Each group owns its weeks and its admins;
+-- the board that existed before groups becomes the first group.
+
+create table groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  invite_code text not null unique,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table group_members (
+  group_id uuid not null references groups(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  is_admin boolean not null default false,
+  joined_at timestamptz not null default now(),
+  primary key (group_id, user_id)
+);
+
+create index group_members_user_idx on group_members (user_id);
+
+-- Only existing deployments get the carried-over group; fresh ones start empty.
+insert into groups (name, invite_code)
+select 'الختمة العامة', upper(substr(md5(random()::text), 1, 8))
+where exists (select 1 from users) or exists (select 1 from weeks);
+
+insert into group_members (group_id, user_id, is_admin)
+select g.id, u.id, u.is_admin
+from users u
+cross join groups g;
+
+alter table weeks add column group_id uuid references groups(id) on delete cascade;
+update weeks set group_id = (select id from groups limit 1);
+alter table weeks alter column group_id set not null;
+
+alter table weeks drop constraint if exists weeks_week_key_key;
+alter table weeks add constraint weeks_group_week_key_key unique (group_id, week_key);
@@ -0,0 +1,3 @@
+-- Reading a part is tracked separately from claiming it; a week is complete once every part is read.
+alter table parts add column completed_at timestamptz;
+alter table weeks add column completed_at timestamptz;
@@ -0,0 +1,11 @@
+-- Per-week claim deadlines. A part is due at the earlier of the week deadline and
+-- claimed_at + claim_hold_hours; the scheduler flags or releases it once that passes.
+alter table weeks add column claim_deadline timestamptz;
+alter table weeks add column claim_hold_hours integer check (claim_hold_hours > 0);
+alter table weeks add column overdue_action text not null default 'flag'
+  check (overdue_action in ('flag', 'release'));
+
+alter table parts add column due_at timestamptz;
+alter table parts add column overdue_at timestamptz;
+
+create index parts_due_at_idx on parts (due_at) where claimed_by is not null and completed_at is null;
@@ -0,0 +1,12 @@
+-- One-time login codes. Only a keyed hash of each code is stored.
+create table otp_codes (
+  id uuid primary key default gen_random_uuid(),
+  phone text not null,
+  code_hash text not null,
+  attempts integer not null default 0,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index otp_codes_phone_idx on otp_codes (phone, created_at desc);
@@ -0,0 +1,3 @@
+-- Admins can book a part for someone without an account; the admin holds it and
+-- claimed_name carries the reader's name.
+alter table parts add column on_behalf boolean not null default false;
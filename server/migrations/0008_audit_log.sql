@@ -0,0 +1,26 @@
+-- Who changed what. Rows are never updated or deleted, and ids are kept without
+-- foreign keys so entries outlive the users and weeks they mention.
+create table audit_log (
+  id bigserial primary key,
+  group_id uuid not null,
+  week_id uuid,
+  part_number integer,
+  actor_id uuid,
+  target_user_id uuid,
+  action text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_group_idx on audit_log (group_id, id desc);
+
+create function audit_log_append_only() returns trigger as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$ language plpgsql;
+
+create trigger audit_log_append_only
+  before update or delete on audit_log
+  for each row execute function audit_log_append_only();
@@ -0,0 +1,7 @@
+-- Every change to a week's parts bumps weeks.revision and stamps the changed parts
+-- with it, so a client that missed broadcasts can ask for everything newer than
+-- the last revision it saw.
+alter table weeks add column revision integer not null default 0;
+alter table parts add column revision integer not null default 0;
+
+create index parts_revision_idx on parts (week_id, revision);
@@ -0,0 +1,18 @@
+-- Web Push subscriptions, one per browser endpoint.
+create table push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+create index push_subscriptions_user_idx on push_subscriptions (user_id);
+
+-- Each week is announced and reminded about once, even across restarts.
+alter table weeks add column opened_notified_at timestamptz;
+alter table weeks add column reminder_sent_at timestamptz;
+
+-- Weeks that already exist have opened long ago; do not announce them now.
+update weeks set opened_notified_at = now();
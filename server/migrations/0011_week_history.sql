@@ -0,0 +1,26 @@
+-- A reset clears a week's parts in place. What had been read is copied here
+-- first, so history and statistics survive it.
+create table archived_readings (
+  id bigserial primary key,
+  week_id uuid not null references weeks(id) on delete cascade,
+  part_number integer not null,
+  user_id uuid references users(id) on delete set null,
+  reader_name text,
+  on_behalf boolean not null default false,
+  completed_at timestamptz not null,
+  archived_at timestamptz not null default now()
+);
+
+create index archived_readings_week_idx on archived_readings (week_id);
+create index archived_readings_user_idx on archived_readings (user_id);
+
+-- Every part ever read: what the weeks show now plus what resets archived.
+create view readings as
+  select week_id, number as part_number, claimed_by as user_id, claimed_name as reader_name, on_behalf, completed_at
+  from parts
+  where completed_at is not null
+  union all
+  select week_id, part_number, user_id, reader_name, on_behalf, completed_at
+  from archived_readings;
+
+create index weeks_group_starts_idx on weeks (group_id, starts_at desc);
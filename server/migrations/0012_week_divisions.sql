@@ -0,0 +1,18 @@
+-- How a week's khatma is split: 30 juz, 60 hizb or 240 rub' al-hizb. Parts are
+-- numbered 1..N within whichever division the week uses.
+alter table weeks add column division text not null default 'juz';
+alter table weeks add constraint weeks_division_check check (division in ('juz', 'hizb', 'rub'));
+
+-- Archived readings keep the division they were read under, since a week can be
+-- re-split after a reset.
+alter table archived_readings add column division text not null default 'juz';
+
+create or replace view readings as
+  select p.week_id, p.number as part_number, p.claimed_by as user_id, p.claimed_name as reader_name, p.on_behalf,
+    p.completed_at, w.division
+  from parts p
+  join weeks w on w.id = p.week_id
+  where p.completed_at is not null
+  union all
+  select week_id, part_number, user_id, reader_name, on_behalf, completed_at, division
+  from archived_readings;
@@ -0,0 +1,8 @@
+-- Per-week fair-share policies, checked when members claim parts for themselves.
+-- max_parts_per_user caps how many parts one member holds in the week; during the
+-- first first_claim_hours after the week starts each member may hold a single part.
+-- Admin assignments are not limited, and admins' own claims are only when
+-- admins_exempt is off.
+alter table weeks add column max_parts_per_user integer check (max_parts_per_user > 0);
+alter table weeks add column first_claim_hours integer check (first_claim_hours > 0);
+alter table weeks add column admins_exempt boolean not null default true;
@@ -0,0 +1,30 @@
+-- Members waiting for a taken part. When the part is freed it goes to the
+-- longest-waiting member the week's claim policies still allow.
+create table part_waitlist (
+  week_id uuid not null references weeks(id) on delete cascade,
+  part_number integer not null,
+  user_id uuid not null references users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (week_id, part_number, user_id)
+);
+
+create index part_waitlist_user_idx on part_waitlist (user_id, week_id);
+
+-- "My part for yours" proposals between two members of the same week. Accepting
+-- swaps the holders of both parts in one transaction.
+create table swap_requests (
+  id uuid primary key default gen_random_uuid(),
+  week_id uuid not null references weeks(id) on delete cascade,
+  from_user uuid not null references users(id) on delete cascade,
+  from_number integer not null,
+  to_user uuid not null references users(id) on delete cascade,
+  to_number integer not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'cancelled', 'stale')),
+  created_at timestamptz not null default now(),
+  decided_at timestamptz
+);
+
+create unique index swap_requests_pending_idx on swap_requests (week_id, from_number, to_number)
+  where status = 'pending';
+create index swap_requests_to_user_idx on swap_requests (to_user, week_id) where status = 'pending';
@@ -0,0 +1,10 @@
+-- What a week's khatma is read for: an optional title, a dedication (for a deceased
+-- relative, a sick member, a Ramadan intention...) and the dua read when it completes.
+alter table weeks add column title text check (char_length(title) <= 120);
+alter table weeks add column dedication text check (char_length(dedication) <= 500);
+alter table weeks add column closing_dua text check (char_length(closing_dua) <= 2000);
+
+-- A holder's own intention for the part they read. Private ones are only ever sent
+-- back to the holder; they are cleared with the claim.
+alter table parts add column intention text check (char_length(intention) <= 200);
+alter table parts add column intention_public boolean not null default false;
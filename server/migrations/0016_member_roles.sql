@@ -0,0 +1,27 @@
+-- Group permissions move from one is_admin flag to roles. Today's admins hold
+-- every right, so they become owners; moderators are new.
+alter table group_members add column role text not null default 'member'
+  check (role in ('owner', 'moderator', 'member'));
+update group_members set role = 'owner' where is_admin;
+
+-- A group nobody administers falls back to whoever created it.
+update group_members m
+set role = 'owner'
+from groups g
+where g.id = m.group_id
+  and g.created_by = m.user_id
+  and not exists (select 1 from group_members o where o.group_id = m.group_id and o.role = 'owner');
+
+alter table group_members drop column is_admin;
+
+-- Phones listed in ADMIN_PHONES are promoted once, on their first login after
+-- being listed. Whoever is already a site admin counts as promoted.
+create table admin_bootstrap_grants (
+  phone text primary key,
+  user_id uuid references users(id) on delete set null,
+  granted_at timestamptz not null default now()
+);
+
+insert into admin_bootstrap_grants (phone, user_id)
+select phone, id from users where is_admin and phone is not null
+on conflict (phone) do nothing;
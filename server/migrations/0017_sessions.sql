@@ -0,0 +1,19 @@
+-- One row per signed-in device. Access tokens are short-lived JWTs naming the
+-- session; the refresh token that renews them is stored only as a hash and is
+-- replaced on every use.
+create table sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  refresh_hash text not null unique,
+  -- The token the current one replaced. Seeing it again means it was copied.
+  previous_hash text,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  rotated_at timestamptz,
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+
+create index sessions_user_idx on sessions (user_id) where revoked_at is null;
+create index sessions_previous_hash_idx on sessions (previous_hash) where previous_hash is not null;
@@ -0,0 +1,9 @@
+-- Fixed-window request counters shared by every API instance, used when
+-- RATE_LIMIT_STORE=postgres. Expired windows are pruned periodically.
+create table rate_limits (
+  key text primary key,
+  count integer not null,
+  reset_at timestamptz not null
+);
+
+create index rate_limits_reset_idx on rate_limits (reset_at);
@@ -0,0 +1,3 @@
+-- The language a member reads the app, notifications and shared rosters in. Null
+-- until they pick one (or sign in from a device that reports a supported one).
+alter table users add column locale text check (locale in ('ar', 'en', 'tr', 'ur', 'id'));
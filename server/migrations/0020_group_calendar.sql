@@ -0,0 +1,10 @@
+-- How long each of a group's khatmas runs: a number of days, a week or a Hijri
+-- month. Rows in weeks now hold one cycle each, whatever its length; the name stays.
+alter table groups add column cycle_unit text not null default 'week'
+  check (cycle_unit in ('day', 'week', 'month'));
+alter table groups add column cycle_days smallint not null default 1
+  check (cycle_days between 1 and 30);
+
+-- Days added to the Umm al-Qura calendar so Hijri dates follow the local moon sighting.
+alter table groups add column hijri_offset smallint not null default 0
+  check (hijri_offset between -2 and 2);
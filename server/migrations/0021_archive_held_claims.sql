@@ -0,0 +1,16 @@
+-- A reset now archives every claim it clears, not only finished readings, so a part
+-- that was held but not yet read leaves a record too. Such rows have no completed_at.
+alter table archived_readings alter column completed_at drop not null;
+alter table archived_readings add column claimed_at timestamptz;
+
+-- Readings stay what was actually read; archived claims without a completion are left out.
+create or replace view readings as
+  select p.week_id, p.number as part_number, p.claimed_by as user_id, p.claimed_name as reader_name, p.on_behalf,
+    p.completed_at, w.division
+  from parts p
+  join weeks w on w.id = p.week_id
+  where p.completed_at is not null
+  union all
+  select week_id, part_number, user_id, reader_name, on_behalf, completed_at, division
+  from archived_readings
+  where completed_at is not null;
@@ -0,0 +1,3 @@
+-- Every permission is a group role now; the site-wide flag no longer grants anything.
+-- admin_bootstrap_grants keeps the record of which listed phones were already granted.
+alter table users drop column is_admin;
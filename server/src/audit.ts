@@ -0,0 +1,107 @@
+import type { PoolClient } from "pg";
+import type { AuditAction } from "@khatma/contract";
+import { pool } from "./db.js";
+import type { Division } from "./quran.js";
+
+export { AUDIT_ACTIONS, type AuditAction } from "@khatma/contract";
+
+export type AuditEntry = {
+  groupId: string;
+  weekId?: string | null;
+  partNumber?: number | null;
+  // null when the server acted on its own, e.g. the claim-expiry job.
+  actorId: string | null;
+  targetUserId?: string | null;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditFilters = {
+  action?: AuditAction;
+  actorId?: string;
+  weekId?: string;
+  partNumber?: number;
+  // Keyset cursor: only entries with a smaller id than this.
+  before?: string;
+  limit: number;
+};
+
+export type AuditRow = {
+  id: string;
+  week_id: string | null;
+  week_key: string | null;
+  division: Division | null;
+  part_number: number | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  target_user_id: string | null;
+  target_name: string | null;
+  action: AuditAction;
+  before: unknown;
+  after: unknown;
+  created_at: Date;
+};
+
+// Written inside the caller's transaction so the entry commits or rolls back with the change.
+export async function recordAudit(client: Pick<PoolClient, "query">, entry: AuditEntry): Promise<void> {
+  await client.query(
+    `
+    insert into audit_log (group_id, week_id, part_number, actor_id, target_user_id, action, before, after)
+    values ($1, $2, $3, $4, $5, $6, $7, $8)
+    `,
+    [
+      entry.groupId,
+      entry.weekId ?? null,
+      entry.partNumber ?? null,
+      entry.actorId,
+      entry.targetUserId ?? null,
+      entry.action,
+      entry.before === undefined ? null : JSON.stringify(entry.before),
+      entry.after === undefined ? null : JSON.stringify(entry.after),
+    ],
+  );
+}
+
+export async function listAudit(groupId: string, filters: AuditFilters): Promise<AuditRow[]> {
+  const where = ["a.group_id=$1"];
+  const params: unknown[] = [groupId];
+  const add = (clause: string, value: unknown) => {
+    params.push(value);
+    where.push(clause.replace("?", `$${params.length}`));
+  };
+  if (filters.action) add("a.action=?", filters.action);
+  if (filters.actorId) add("a.actor_id=?", filters.actorId);
+  if (filters.weekId) add("a.week_id=?", filters.weekId);
+  if (filters.partNumber !== undefined) add("a.part_number=?", filters.partNumber);
+  if (filters.before) add("a.id<?", filters.before);
+  params.push(filters.limit);
+
+  const { rows } = await pool.query<AuditRow>(
+    `
+    select
+      a.id::text as id,
+      a.week_id,
+      w.week_key,
+      w.division,
+      a.part_number,
+      a.actor_id,
+      actor.name as actor_name,
+      a.target_user_id,
+      target.name as target_name,
+      a.action,
+      a.before,
+      a.after,
+      a.created_at
+    from audit_log a
+    left join weeks w on w.id = a.week_id
+    left join users actor on actor.id = a.actor_id
+    left join users target on target.id = a.target_user_id
+    where ${where.join(" and ")}
+    order by a.id desc
+    limit $${params.length}
+    `,
+    params,
+  );
+  return rows;
+}
@@ -1,33 +1,80 @@
 import jwt, { type Secret, type SignOptions } from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
+import type { DefaultEventsMap, ExtendedError, Socket } from "socket.io";
+import type { ClientToServerEvents } from "@khatma/contract";
+import type { ServerEvents } from "./contract.js";
+import { isSessionActive } from "./sessions.js";
 
 const AUTH_SECRET: Secret = process.env.AUTH_SECRET || "change-me";
-const TOKEN_TTL: SignOptions["expiresIn"] = (process.env.AUTH_TOKEN_TTL || "30d") as SignOptions["expiresIn"];
+// Short on purpose: a leaked access token dies on its own, and a revoked session
+// stops being renewed. Clients trade their refresh token for a new one.
+const ACCESS_TOKEN_TTL: SignOptions["expiresIn"] = (process.env.AUTH_ACCESS_TTL || "15m") as SignOptions["expiresIn"];
 
+// Only identifiers: names and rights are read from the database, so a rename or a
+// demotion takes effect on the next request rather than when the token expires.
 export interface SessionPayload {
   userId: string;
-  name: string | null;
-  phone: string | null;
-  isAdmin: boolean;
+  sessionId: string;
 }
 
-export interface AuthenticatedRequest extends Request {
+// Loose about the payload so a route can still reach its session after validate()
+// has replaced the body and query with their parsed types.
+export interface AuthenticatedRequest extends Request<Record<string, string>, unknown, unknown, unknown> {
   session: SessionPayload;
 }
 
-export function signSession(payload: SessionPayload): string {
-  return jwt.sign(payload, AUTH_SECRET, { expiresIn: TOKEN_TTL });
+export interface SocketSession {
+  session: SessionPayload;
+}
+
+export type SessionSocket = Socket<ClientToServerEvents, ServerEvents, DefaultEventsMap, SocketSession>;
+
+export function signAccessToken(payload: SessionPayload): string {
+  return jwt.sign({ userId: payload.userId, sessionId: payload.sessionId }, AUTH_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
+}
+
+// Also checks the session is still live, so revoking it locks out tokens already handed out.
+export async function verifyToken(token: string): Promise<SessionPayload | null> {
+  let decoded: Partial<SessionPayload>;
+  try {
+    decoded = jwt.verify(token, AUTH_SECRET) as Partial<SessionPayload>;
+  } catch {
+    return null;
+  }
+  // Tokens from before sessions existed carry no session and cannot be revoked.
+  if (!decoded.userId || !decoded.sessionId) return null;
+  if (!(await isSessionActive(decoded.sessionId))) return null;
+  return { userId: decoded.userId, sessionId: decoded.sessionId };
 }
 
-export function verify(req: Request, res: Response, next: NextFunction) {
+export async function verify(req: Request, res: Response, next: NextFunction) {
   try {
     const header = req.headers.authorization || "";
-    if (!header.startsWith("Bearer ")) return res.status(401).send("NO_TOKEN");
-    const token = header.slice(7);
-    const decoded = jwt.verify(token, AUTH_SECRET) as SessionPayload;
-    (req as AuthenticatedRequest).session = decoded;
+    if (!header.startsWith("Bearer ")) return res.status(401).json({ error: "NO_TOKEN" });
+    const session = await verifyToken(header.slice(7));
+    if (!session) return res.status(401).json({ error: "BAD_TOKEN" });
+    (req as AuthenticatedRequest).session = session;
     next();
   } catch (error) {
-    res.status(401).send("BAD_TOKEN");
+    console.error("session check error", error);
+    res.status(500).json({ error: "SESSION_CHECK_FAILED" });
   }
 }
+
+// Socket.IO counterpart of verify: the client sends the same token as `auth.token`.
+export function verifySocket(socket: SessionSocket, next: (err?: ExtendedError) => void) {
+  const token = socket.handshake.auth?.token;
+  if (typeof token !== "string" || !token) return next(new Error("NO_TOKEN"));
+  verifyToken(token)
+    .then((session) => {
+      if (!session) return next(new Error("BAD_TOKEN"));
+      socket.data.session = session;
+      next();
+    })
+    .catch((error) => {
+      console.error("socket session check error", error);
+      next(new Error("SESSION_CHECK_FAILED"));
+    });
+}
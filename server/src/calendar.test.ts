@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { hijriDate, hijriInstant } from "@khatma/contract";
+import { cycleWindowAt, type CycleSettings, type WeekCalendarConfig } from "./calendar.js";
+
+// On the Umm al-Qura calendar Ramadan 1447 runs 18 Feb – 19 Mar 2026 (30 days) and
+// Shawwal 20 Mar – 17 Apr 2026 (29 days).
+
+const UTC: WeekCalendarConfig = { startDay: 1, startHour: 0, timeZone: "UTC" };
+const MONTH: CycleSettings = { unit: "month", days: 1, hijriOffset: 0 };
+const WEEK: CycleSettings = { unit: "week", days: 1, hijriOffset: 0 };
+
+function window(instant: string, cycle: CycleSettings, config = UTC) {
+  const { key, startsAt, endsAt } = cycleWindowAt(new Date(instant), cycle, null, config);
+  return { key, startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString() };
+}
+
+describe("hijriInstant", () => {
+  test("moves the instant by the offset in whole days", () => {
+    const instant = new Date("2026-02-18T10:30:00Z");
+    assert.equal(hijriInstant(instant, 0).toISOString(), "2026-02-18T10:30:00.000Z");
+    assert.equal(hijriInstant(instant, 2).toISOString(), "2026-02-20T10:30:00.000Z");
+    assert.equal(hijriInstant(instant.getTime(), -1).toISOString(), "2026-02-17T10:30:00.000Z");
+  });
+
+  test("gives the group's date when its sighting runs ahead of or behind Umm al-Qura", () => {
+    assert.deepEqual(hijriDate(new Date("2026-02-18T12:00:00Z"), 0), { year: 1447, month: 9, day: 1 });
+    assert.deepEqual(hijriDate(new Date("2026-02-18T12:00:00Z"), -1), { year: 1447, month: 8, day: 29 });
+    assert.deepEqual(hijriDate(new Date("2026-02-17T12:00:00Z"), 1), { year: 1447, month: 9, day: 1 });
+  });
+});
+
+describe("cycleWindowAt", () => {
+  test("runs a Hijri month from its first day to the first day of the next", () => {
+    const ramadan = {
+      key: "H1447-09",
+      startsAt: "2026-02-18T00:00:00.000Z",
+      endsAt: "2026-03-20T00:00:00.000Z",
+    };
+    assert.deepEqual(window("2026-02-18T00:00:00Z", MONTH), ramadan);
+    assert.deepEqual(window("2026-03-19T23:59:59Z", MONTH), ramadan);
+    assert.deepEqual(window("2026-03-20T00:00:00Z", MONTH), {
+      key: "H1447-10",
+      startsAt: "2026-03-20T00:00:00.000Z",
+      endsAt: "2026-04-18T00:00:00.000Z",
+    });
+  });
+
+  test("moves the month boundary with the group's offset", () => {
+    const early = { ...MONTH, hijriOffset: 1 };
+    assert.deepEqual(window("2026-02-17T12:00:00Z", early), {
+      key: "H1447-09",
+      startsAt: "2026-02-17T00:00:00.000Z",
+      endsAt: "2026-03-19T00:00:00.000Z",
+    });
+    assert.equal(window("2026-02-17T12:00:00Z", MONTH).key, "H1447-08");
+  });
+
+  test("turns the month over at the group's local start hour", () => {
+    const riyadh: WeekCalendarConfig = { startDay: 1, startHour: 0, timeZone: "Asia/Riyadh" };
+    // Midnight in Riyadh is 21:00 UTC the evening before.
+    assert.equal(window("2026-02-17T20:59:59Z", MONTH, riyadh).key, "H1447-08");
+    assert.deepEqual(window("2026-02-17T21:00:00Z", MONTH, riyadh), {
+      key: "H1447-09",
+      startsAt: "2026-02-17T21:00:00.000Z",
+      endsAt: "2026-03-19T21:00:00.000Z",
+    });
+  });
+
+  test("leaves endsAt to the next cycle", () => {
+    const { endsAt } = cycleWindowAt(new Date("2026-02-18T09:00:00Z"), WEEK, null, UTC);
+    assert.equal(endsAt.toISOString(), "2026-02-23T00:00:00.000Z");
+    assert.equal(cycleWindowAt(new Date(endsAt.getTime() - 1), WEEK, null, UTC).key, "W8-2026");
+    const next = cycleWindowAt(endsAt, WEEK, null, UTC);
+    assert.equal(next.key, "W9-2026");
+    assert.equal(next.startsAt.toISOString(), endsAt.toISOString());
+  });
+});
@@ -0,0 +1,163 @@
+import { hijriDate, type CycleUnit } from "@khatma/contract";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeekCalendarConfig {
+  // 0 = Sunday … 6 = Saturday, as in Date#getUTCDay.
+  startDay: number;
+  startHour: number;
+  timeZone: string;
+}
+
+// How one group's khatmas follow each other; see groups.cycle_unit.
+export interface CycleSettings {
+  unit: CycleUnit;
+  days: number;
+  hijriOffset: number;
+}
+
+export interface CycleWindow {
+  key: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+type Bounds = { key: string; start: number; end: number };
+
+function readStartDay(raw: string | undefined): number {
+  const value = Number(raw ?? 1);
+  return Number.isInteger(value) && value >= 0 && value <= 6 ? value : 1;
+}
+
+function readStartHour(raw: string | undefined): number {
+  const value = Number(raw ?? 0);
+  return Number.isInteger(value) && value >= 0 && value <= 23 ? value : 0;
+}
+
+// Monday 00:00 UTC by default, which yields the same keys as ISO weeks ("W44-2025").
+export const WEEK_CALENDAR: WeekCalendarConfig = {
+  startDay: readStartDay(process.env.WEEK_START_DAY),
+  startHour: readStartHour(process.env.WEEK_START_HOUR),
+  timeZone: process.env.WEEK_TIME_ZONE || "UTC",
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock time in `timeZone`, encoded as if it were a UTC timestamp.
+function toWallClock(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+function fromWallClock(wallClock: number, timeZone: string): Date {
+  // Two passes settle the offset even when the guess lands across a DST change.
+  let guess = wallClock;
+  for (let i = 0; i < 2; i += 1) {
+    const offset = toWallClock(new Date(guess), timeZone) - guess;
+    guess = wallClock - offset;
+  }
+  return new Date(guess);
+}
+
+function weekKeyFor(startWallClock: number): string {
+  // The week is named after its fourth day, like ISO weeks are named after their Thursday.
+  const middle = new Date(startWallClock + 3 * DAY_MS);
+  const year = middle.getUTCFullYear();
+  const dayOfYear = Math.floor((middle.getTime() - Date.UTC(year, 0, 1)) / DAY_MS);
+  return `W${Math.floor(dayOfYear / 7) + 1}-${year}`;
+}
+
+function dateKey(wallClock: number): string {
+  return new Date(wallClock).toISOString().slice(0, 10);
+}
+
+// The start of the day `wallClock` falls in, days turning over at startHour.
+function dayStartOf(wallClock: number, config: WeekCalendarConfig): number {
+  const today = new Date(wallClock);
+  const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate(), config.startHour);
+  return start > wallClock ? start - DAY_MS : start;
+}
+
+function weekBounds(wallClock: number, config: WeekCalendarConfig): Bounds {
+  const today = dayStartOf(wallClock, config);
+  const start = today - ((new Date(today).getUTCDay() - config.startDay + 7) % 7) * DAY_MS;
+  return { key: weekKeyFor(start), start, end: start + 7 * DAY_MS };
+}
+
+// Day cycles are named after their first day ("D2026-02-18"). Longer ones run back to
+// back from the previous cycle, or from today when the group has none yet.
+function dayBounds(wallClock: number, days: number, after: number | null, config: WeekCalendarConfig): Bounds {
+  const today = dayStartOf(wallClock, config);
+  const length = days * DAY_MS;
+  const anchor = days > 1 && after !== null ? after : today;
+  const start = anchor + Math.floor((wallClock - anchor) / length) * length;
+  return { key: `D${dateKey(start)}`, start, end: start + length };
+}
+
+// Hijri months are named by year and month ("H1447-09") and have 29 or 30 days.
+function monthBounds(wallClock: number, hijriOffset: number, config: WeekCalendarConfig): Bounds {
+  const today = dayStartOf(wallClock, config);
+  const date = hijriDate(today, hijriOffset);
+  const start = today - (date.day - 1) * DAY_MS;
+  const end = hijriDate(start + 29 * DAY_MS, hijriOffset).day === 1 ? start + 29 * DAY_MS : start + 30 * DAY_MS;
+  return { key: `H${date.year}-${String(date.month).padStart(2, "0")}`, start, end };
+}
+
+// The cycle running at `instant`. `previousEnd` is when the group's last cycle ended:
+// after a change of length the new cycle starts there, so the first one may run short.
+export function cycleWindowAt(
+  instant: Date,
+  cycle: CycleSettings,
+  previousEnd: Date | null = null,
+  config: WeekCalendarConfig = WEEK_CALENDAR,
+): CycleWindow {
+  const wallClock = toWallClock(instant, config.timeZone);
+  const after = previousEnd ? toWallClock(previousEnd, config.timeZone) : null;
+  let bounds: Bounds;
+  switch (cycle.unit) {
+    case "day":
+      bounds = dayBounds(wallClock, cycle.days, after, config);
+      break;
+    case "week":
+      bounds = weekBounds(wallClock, config);
+      break;
+    case "month":
+      bounds = monthBounds(wallClock, cycle.hijriOffset, config);
+      break;
+  }
+  if (after !== null && after > bounds.start && after <= wallClock) {
+    // Its period may already have had a cycle under the old length, so the name gets the start day too.
+    return {
+      key: `${bounds.key}.${dateKey(after)}`,
+      startsAt: fromWallClock(after, config.timeZone),
+      endsAt: fromWallClock(bounds.end, config.timeZone),
+    };
+  }
+
+  return {
+    key: bounds.key,
+    startsAt: fromWallClock(bounds.start, config.timeZone),
+    endsAt: fromWallClock(bounds.end, config.timeZone),
+  };
+}
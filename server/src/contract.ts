@@ -0,0 +1,77 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import {
+  routes,
+  validationError,
+  type ApiError,
+  type BodyOf,
+  type EventHandlers,
+  type QueryOf,
+  type ResponseOf,
+  type RouteName,
+  type Schema,
+  type ServerEventPayloads,
+} from "@khatma/contract";
+
+// pg returns timestamps as Date objects and res.json turns them into the ISO strings
+// the contract describes, so a handler may send either.
+export type Sendable<T> = T extends string
+  ? T | Date
+  : T extends readonly (infer U)[]
+    ? readonly Sendable<U>[]
+    : T extends object
+      ? { [K in keyof T]: Sendable<T[K]> }
+      : T;
+
+export type ServerEvents = EventHandlers<Sendable<ServerEventPayloads>>;
+
+export type RouteRequest<R extends RouteName> = Request<
+  Record<string, string>,
+  unknown,
+  [BodyOf<R>] extends [never] ? Request["body"] : BodyOf<R>,
+  [QueryOf<R>] extends [never] ? Request["query"] : Request["query"] & QueryOf<R>
+>;
+export type RouteResponse<R extends RouteName> = Response<Sendable<ResponseOf<R>> | ApiError>;
+
+// Path parameters named like :groupId are row ids, which Postgres stores as uuids.
+const ID_PARAM = /Id$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Checks the path ids, body and query against the route's schemas and hands the handler
+// the parsed values, defaults filled in. A failing check answers 400 with its error code.
+// It runs before permission checks, so a malformed id never reaches a query.
+export function validate<R extends RouteName>(name: R) {
+  const { body, query } = routes[name] as { body?: Schema; query?: Schema };
+  return (req: RouteRequest<R>, res: RouteResponse<R>, next: NextFunction) => {
+    for (const [param, value] of Object.entries(req.params)) {
+      if (ID_PARAM.test(param) && !UUID.test(value))
+        return res.status(400).json({ error: "INVALID_PARAMS", field: param });
+    }
+    if (body) {
+      const parsed = body.safeParse(req.body ?? {});
+      if (!parsed.success) return res.status(400).json(validationError(parsed.error, "INVALID_BODY"));
+      req.body = parsed.data as BodyOf<R>;
+    }
+    if (query) {
+      const parsed = query.safeParse(req.query);
+      if (!parsed.success) return res.status(400).json(validationError(parsed.error, "INVALID_QUERY"));
+      // Express 5 only offers a getter for req.query; an own property shadows it.
+      Object.defineProperty(req, "query", { value: parsed.data, enumerable: true });
+    }
+    next();
+  };
+}
+
+// Fails startup when the server and the contract disagree about a route, so the
+// web client can never be typed against an endpoint that is not there.
+export function assertRoutesMounted(app: Express) {
+  const mounted = new Set<string>();
+  for (const layer of app.router.stack) {
+    const route = layer.route as { path: string; methods: Record<string, boolean> } | undefined;
+    if (!route) continue;
+    for (const method of Object.keys(route.methods)) mounted.add(`${method.toUpperCase()} ${route.path}`);
+  }
+  const missing = Object.values(routes)
+    .map((route) => `${route.method} ${route.path}`)
+    .filter((key) => !mounted.has(key));
+  if (missing.length) throw new Error(`routes in the contract but not on the server: ${missing.join(", ")}`);
+}
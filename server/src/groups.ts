@@ -0,0 +1,195 @@
+import { randomInt } from "crypto";
+import type { PoolClient } from "pg";
+import type { CycleUnit } from "@khatma/contract";
+import type { CycleSettings } from "./calendar.js";
+import { pool } from "./db.js";
+import type { Role } from "./permissions.js";
+
+// No 0/O or 1/I so codes survive being read out over the phone.
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_LENGTH = 8;
+
+export type GroupSummary = {
+  id: string;
+  name: string;
+  invite_code: string;
+  role: Role;
+  member_count: number;
+  cycle_unit: CycleUnit;
+  cycle_days: number;
+  hijri_offset: number;
+};
+
+export type Membership = {
+  group_id: string;
+  user_id: string;
+  role: Role;
+};
+
+export function generateInviteCode(): string {
+  let code = "";
+  for (let i = 0; i < INVITE_LENGTH; i += 1) {
+    code += INVITE_ALPHABET[randomInt(INVITE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeInviteCode(raw: string): string {
+  return raw.replace(/[\s-]+/g, "").toUpperCase();
+}
+
+export async function getMembership(
+  groupId: string,
+  userId: string,
+  client: Pick<PoolClient, "query"> = pool,
+): Promise<Membership | null> {
+  const { rows } = await client.query<Membership>(
+    "select group_id, user_id, role from group_members where group_id=$1 and user_id=$2",
+    [groupId, userId],
+  );
+  return rows[0] ?? null;
+}
+
+export async function canSeeWeek(weekId: string, userId: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `
+    select 1 from weeks w
+    join group_members m on m.group_id = w.group_id
+    where w.id=$1 and m.user_id=$2
+    `,
+    [weekId, userId],
+  );
+  return Boolean(rowCount);
+}
+
+export async function listGroupsForUser(userId: string): Promise<GroupSummary[]> {
+  const { rows } = await pool.query<GroupSummary>(
+    `
+    select
+      g.id,
+      g.name,
+      g.invite_code,
+      m.role,
+      (select count(*)::int from group_members gm where gm.group_id = g.id) as member_count,
+      g.cycle_unit,
+      g.cycle_days,
+      g.hijri_offset
+    from group_members m
+    join groups g on g.id = m.group_id
+    where m.user_id=$1
+    order by m.joined_at asc
+    `,
+    [userId],
+  );
+  return rows;
+}
+
+export async function getGroupForUser(groupId: string, userId: string): Promise<GroupSummary | null> {
+  const groups = await listGroupsForUser(userId);
+  return groups.find((group) => group.id === groupId) ?? null;
+}
+
+export async function createGroup(client: PoolClient, name: string, creatorId: string): Promise<string> {
+  // Retry on the rare invite code collision instead of surfacing it.
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const inserted = await client.query<{ id: string }>(
+      `
+      insert into groups (name, invite_code, created_by) values ($1, $2, $3)
+      on conflict (invite_code) do nothing
+      returning id
+      `,
+      [name, generateInviteCode(), creatorId],
+    );
+    if (inserted.rowCount) {
+      const groupId = inserted.rows[0].id;
+      await client.query(
+        "insert into group_members (group_id, user_id, role) values ($1, $2, 'owner')",
+        [groupId, creatorId],
+      );
+      return groupId;
+    }
+  }
+  throw new Error("INVITE_CODE_EXHAUSTED");
+}
+
+// Invitees always join as members; owners raise roles through the role route.
+export async function joinGroupByInvite(inviteCode: string, userId: string): Promise<string | null> {
+  const group = await pool.query<{ id: string }>("select id from groups where invite_code=$1", [
+    normalizeInviteCode(inviteCode),
+  ]);
+  if (!group.rowCount) return null;
+  const groupId = group.rows[0].id;
+  await pool.query(
+    `
+    insert into group_members (group_id, user_id, role) values ($1, $2, 'member')
+    on conflict (group_id, user_id) do nothing
+    `,
+    [groupId, userId],
+  );
+  return groupId;
+}
+
+export async function getGroupCycle(
+  groupId: string,
+  client: Pick<PoolClient, "query"> = pool,
+): Promise<CycleSettings> {
+  const { rows } = await client.query<{ unit: CycleUnit; days: number; hijri_offset: number }>(
+    "select cycle_unit as unit, cycle_days as days, hijri_offset from groups where id=$1",
+    [groupId],
+  );
+  return { unit: rows[0].unit, days: rows[0].days, hijriOffset: rows[0].hijri_offset };
+}
+
+export async function setGroupCycle(groupId: string, cycle: CycleSettings): Promise<void> {
+  await pool.query("update groups set cycle_unit=$2, cycle_days=$3, hijri_offset=$4 where id=$1", [
+    groupId,
+    cycle.unit,
+    cycle.days,
+    cycle.hijriOffset,
+  ]);
+}
+
+export async function regenerateInviteCode(groupId: string): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const code = generateInviteCode();
+    const taken = await pool.query("select 1 from groups where invite_code=$1", [code]);
+    if (taken.rowCount) continue;
+    await pool.query("update groups set invite_code=$2 where id=$1", [groupId, code]);
+    return code;
+  }
+  throw new Error("INVITE_CODE_EXHAUSTED");
+}
+
+export type GroupMember = {
+  user_id: string;
+  name: string | null;
+  phone: string | null;
+  role: Role;
+};
+
+export async function listMembers(groupId: string): Promise<GroupMember[]> {
+  const { rows } = await pool.query<GroupMember>(
+    `
+    select m.user_id, u.name, u.phone, m.role
+    from group_members m
+    join users u on u.id = m.user_id
+    where m.group_id=$1
+    order by u.name asc nulls last
+    `,
+    [groupId],
+  );
+  return rows;
+}
+
+// Groups whose last cycle has ended (or that never had one), so their next one is due.
+export async function listGroupIdsDueRollover(): Promise<string[]> {
+  const { rows } = await pool.query<{ id: string }>(
+    `
+    select g.id from groups g
+    where not exists (
+      select 1 from weeks w where w.group_id = g.id and w.starts_at <= now() and w.ends_at > now()
+    )
+    `,
+  );
+  return rows.map((row) => row.id);
+}
@@ -0,0 +1,266 @@
+import { DEFAULT_LOCALE, formatMessage, type Locale, type Message, type MessageParams } from "@khatma/contract";
+import { pool } from "./db.js";
+
+// What the server writes for members to read outside the app: push notifications,
+// the sign-in SMS and roster exports. Arabic defines the keys; every other catalog
+// has to fill them all.
+const ar = {
+  "unit.juz": "الجزء {ordinal}",
+  "unit.hizb.first": "الحزب {number} (النصف الأول من الجزء {juz})",
+  "unit.hizb.second": "الحزب {number} (النصف الثاني من الجزء {juz})",
+  "unit.rub": "الربع {ordinal} من الحزب {hizb}",
+  // Definite nouns for one unit or several, picked by count.
+  "units.juz": { one: "الجزء", other: "الأجزاء" },
+  "units.hizb": { one: "الحزب", other: "الأحزاب" },
+  "units.rub": { one: "الربع", other: "الأرباع" },
+  "list.separator": "، ",
+  "surah.start": "سورة {surah}، الآية {ayah}",
+
+  "otp.sms": "رمز الدخول إلى ختمة: {code}",
+
+  "push.weekOpened.title": "بدأت ختمة جديدة",
+  "push.weekOpened.body": "الختمة الجديدة متاحة للحجز الآن في {group}.",
+  "push.completed.title": "تمّت الختمة بحمد الله",
+  "push.completed.body": "اكتملت قراءة {units} كلها في {group}. تقبّل الله منا ومنكم.",
+  "push.assigned.title": "عُيّن لك جزء جديد",
+  "push.assigned.body": "عيّنك المشرف لقراءة {unit} في {group}.",
+  "push.waitlist.title": "جاء دورك في قائمة الانتظار",
+  "push.waitlist.body": "أصبح {unit} محجوزاً لك في {group}.",
+  "push.swap.title": "طلب تبادل",
+  "push.swap.body": "{from} يعرض {offer} مقابل {want} المحجوز لك في {group}.",
+  "push.swap.someone": "أحد المشاركين",
+  "push.reminder.title": "تذكير بإتمام القراءة",
+  "push.reminder.body": "لم يُعلَّم {units} {numbers} كمقروء بعد في {group}.",
+
+  "roster.khatma": "ختمة {group}",
+  "roster.week": "الأسبوع {key}",
+  "roster.range": "{from} – {to}",
+  "roster.heading": "قائمة المشاركين حسب {units}:",
+  "roster.unitFrom": "{unit}، من {start}",
+  "roster.participant": "مشارك",
+  "roster.open": "متاح",
+  "roster.claimed": "محجوز",
+  "roster.read": "مقروء",
+  "roster.openList": "{units} المتاحة: {numbers}",
+  "roster.openCount": "عدد {units} المتاحة: {open} من {total}",
+  "roster.allTaken": "جميع {units} محجوزة والحمد لله.",
+  "roster.csv.number": "الرقم",
+  "roster.csv.unit": "الوحدة",
+  "roster.csv.surah": "السورة",
+  "roster.csv.ayah": "الآية",
+  "roster.csv.reader": "القارئ",
+  "roster.csv.status": "الحالة",
+  "roster.csv.completedAt": "وقت الإتمام",
+} satisfies Record<string, Message>;
+
+export type ServerMessageKey = keyof typeof ar;
+type Catalog = Record<ServerMessageKey, Message>;
+
+const en: Catalog = {
+  "unit.juz": "Juz {number}",
+  "unit.hizb.first": "Hizb {number} (first half of Juz {juz})",
+  "unit.hizb.second": "Hizb {number} (second half of Juz {juz})",
+  "unit.rub": "Quarter {quarter} of Hizb {hizb}",
+  "units.juz": { one: "juz", other: "juz" },
+  "units.hizb": { one: "hizb", other: "hizbs" },
+  "units.rub": { one: "quarter", other: "quarters" },
+  "list.separator": ", ",
+  "surah.start": "Surah {surah}, ayah {ayah}",
+
+  "otp.sms": "Your Khatma sign-in code: {code}",
+
+  "push.weekOpened.title": "A new khatma has started",
+  "push.weekOpened.body": "The new khatma in {group} is open for claiming.",
+  "push.completed.title": "The khatma is complete, alhamdulillah",
+  "push.completed.body": "All {units} in {group} have been read. May Allah accept it from us and from you.",
+  "push.assigned.title": "You have a new part",
+  "push.assigned.body": "An admin assigned you {unit} in {group}.",
+  "push.waitlist.title": "Your turn on the waiting list",
+  "push.waitlist.body": "{unit} in {group} is now yours.",
+  "push.swap.title": "Swap request",
+  "push.swap.body": "{from} offers {offer} in exchange for your {want} in {group}.",
+  "push.swap.someone": "A participant",
+  "push.reminder.title": "Reminder to finish your reading",
+  "push.reminder.body": "Not yet marked as read in {group}: {units} {numbers}.",
+
+  "roster.khatma": "{group} khatma",
+  "roster.week": "Week {key}",
+  "roster.range": "{from} – {to}",
+  "roster.heading": "Participants by {units}:",
+  "roster.unitFrom": "{unit}, from {start}",
+  "roster.participant": "Participant",
+  "roster.open": "Open",
+  "roster.claimed": "Taken",
+  "roster.read": "Read",
+  "roster.openList": "Open {units}: {numbers}",
+  "roster.openCount": "Open {units}: {open} of {total}",
+  "roster.allTaken": "All {units} are taken, alhamdulillah.",
+  "roster.csv.number": "No.",
+  "roster.csv.unit": "Part",
+  "roster.csv.surah": "Surah",
+  "roster.csv.ayah": "Ayah",
+  "roster.csv.reader": "Reader",
+  "roster.csv.status": "Status",
+  "roster.csv.completedAt": "Completed at",
+};
+
+const tr: Catalog = {
+  "unit.juz": "{number}. Cüz",
+  "unit.hizb.first": "{number}. Hizb ({juz}. cüzün ilk yarısı)",
+  "unit.hizb.second": "{number}. Hizb ({juz}. cüzün ikinci yarısı)",
+  "unit.rub": "{hizb}. Hizbin {quarter}. çeyreği",
+  "units.juz": { one: "cüz", other: "cüzler" },
+  "units.hizb": { one: "hizb", other: "hizbler" },
+  "units.rub": { one: "çeyrek", other: "çeyrekler" },
+  "list.separator": ", ",
+  "surah.start": "{surah} Suresi, {ayah}. ayet",
+
+  "otp.sms": "Hatim giriş kodunuz: {code}",
+
+  "push.weekOpened.title": "Yeni bir hatim başladı",
+  "push.weekOpened.body": "{group} grubundaki yeni hatimde bölüm almaya başlayabilirsiniz.",
+  "push.completed.title": "Hatim tamamlandı, elhamdülillah",
+  "push.completed.body": "{group} grubunda tüm {units} okundu. Allah bizden ve sizden kabul etsin.",
+  "push.assigned.title": "Size yeni bir bölüm verildi",
+  "push.assigned.body": "Yönetici size {group} grubunda {unit} okumayı verdi.",
+  "push.waitlist.title": "Bekleme listesinde sıra sizde",
+  "push.waitlist.body": "{group} grubunda {unit} artık sizin.",
+  "push.swap.title": "Değişim isteği",
+  "push.swap.body": "{from}, {group} grubunda sizdeki {want} karşılığında {offer} teklif ediyor.",
+  "push.swap.someone": "Bir katılımcı",
+  "push.reminder.title": "Okumanızı tamamlama hatırlatması",
+  "push.reminder.body": "{group} grubunda henüz okundu olarak işaretlenmedi: {units} {numbers}.",
+
+  "roster.khatma": "{group} hatmi",
+  "roster.week": "{key} haftası",
+  "roster.range": "{from} – {to}",
+  "roster.heading": "Katılımcı listesi ({units}):",
+  "roster.unitFrom": "{unit}, başlangıç: {start}",
+  "roster.participant": "Katılımcı",
+  "roster.open": "Boş",
+  "roster.claimed": "Alındı",
+  "roster.read": "Okundu",
+  "roster.openList": "Boş {units}: {numbers}",
+  "roster.openCount": "Boş {units}: {open} / {total}",
+  "roster.allTaken": "Tüm {units} alındı, elhamdülillah.",
+  "roster.csv.number": "No",
+  "roster.csv.unit": "Bölüm",
+  "roster.csv.surah": "Sure",
+  "roster.csv.ayah": "Ayet",
+  "roster.csv.reader": "Okuyan",
+  "roster.csv.status": "Durum",
+  "roster.csv.completedAt": "Tamamlanma zamanı",
+};
+
+const ur: Catalog = {
+  "unit.juz": "پارہ {number}",
+  "unit.hizb.first": "حزب {number} (پارہ {juz} کا پہلا نصف)",
+  "unit.hizb.second": "حزب {number} (پارہ {juz} کا دوسرا نصف)",
+  "unit.rub": "حزب {hizb} کا ربع {quarter}",
+  "units.juz": { one: "پارہ", other: "پارے" },
+  "units.hizb": { one: "حزب", other: "احزاب" },
+  "units.rub": { one: "ربع", other: "ارباع" },
+  "list.separator": "، ",
+  "surah.start": "سورۂ {surah}، آیت {ayah}",
+
+  "otp.sms": "ختمہ میں داخلے کا کوڈ: {code}",
+
+  "push.weekOpened.title": "نیا ختم شروع ہو گیا",
+  "push.weekOpened.body": "{group} میں نیا ختم اب بکنگ کے لیے کھلا ہے۔",
+  "push.completed.title": "الحمدللہ، ختم مکمل ہو گیا",
+  "push.completed.body": "{group} میں تمام {units} پڑھ لیے گئے۔ اللہ ہم سب کی طرف سے قبول فرمائے۔",
+  "push.assigned.title": "آپ کو نیا حصہ دیا گیا ہے",
+  "push.assigned.body": "منتظم نے آپ کو {group} میں {unit} پڑھنے کے لیے دیا ہے۔",
+  "push.waitlist.title": "انتظار کی فہرست میں آپ کی باری آ گئی",
+  "push.waitlist.body": "{group} میں {unit} اب آپ کے نام ہے۔",
+  "push.swap.title": "تبادلے کی درخواست",
+  "push.swap.body": "{from} {group} میں آپ کے {want} کے بدلے {offer} پیش کر رہے ہیں۔",
+  "push.swap.someone": "ایک شریک",
+  "push.reminder.title": "پڑھائی مکمل کرنے کی یاد دہانی",
+  "push.reminder.body": "{group} میں ابھی تک پڑھا ہوا نشان نہیں لگا: {units} {numbers}۔",
+
+  "roster.khatma": "{group} کا ختم",
+  "roster.week": "ہفتہ {key}",
+  "roster.range": "{from} – {to}",
+  "roster.heading": "{units} کے لحاظ سے شرکاء کی فہرست:",
+  "roster.unitFrom": "{unit}، {start} سے",
+  "roster.participant": "شریک",
+  "roster.open": "دستیاب",
+  "roster.claimed": "بک",
+  "roster.read": "پڑھا گیا",
+  "roster.openList": "دستیاب {units}: {numbers}",
+  "roster.openCount": "دستیاب {units}: {total} میں سے {open}",
+  "roster.allTaken": "الحمدللہ، تمام {units} بک ہو گئے۔",
+  "roster.csv.number": "نمبر",
+  "roster.csv.unit": "حصہ",
+  "roster.csv.surah": "سورت",
+  "roster.csv.ayah": "آیت",
+  "roster.csv.reader": "قاری",
+  "roster.csv.status": "حالت",
+  "roster.csv.completedAt": "مکمل ہونے کا وقت",
+};
+
+const id: Catalog = {
+  "unit.juz": "Juz {number}",
+  "unit.hizb.first": "Hizb {number} (paruh pertama Juz {juz})",
+  "unit.hizb.second": "Hizb {number} (paruh kedua Juz {juz})",
+  "unit.rub": "Seperempat ke-{quarter} Hizb {hizb}",
+  "units.juz": "juz",
+  "units.hizb": "hizb",
+  "units.rub": "seperempat",
+  "list.separator": ", ",
+  "surah.start": "Surah {surah}, ayat {ayah}",
+
+  "otp.sms": "Kode masuk Khatma Anda: {code}",
+
+  "push.weekOpened.title": "Khatam baru telah dimulai",
+  "push.weekOpened.body": "Khatam baru di {group} sudah bisa dipesan.",
+  "push.completed.title": "Alhamdulillah, khatam telah selesai",
+  "push.completed.body": "Semua {units} di {group} telah dibaca. Semoga Allah menerima dari kita semua.",
+  "push.assigned.title": "Anda mendapat bagian baru",
+  "push.assigned.body": "Admin menugaskan Anda membaca {unit} di {group}.",
+  "push.waitlist.title": "Giliran Anda di daftar tunggu",
+  "push.waitlist.body": "{unit} di {group} kini menjadi milik Anda.",
+  "push.swap.title": "Permintaan tukar",
+  "push.swap.body": "{from} menawarkan {offer} untuk {want} milik Anda di {group}.",
+  "push.swap.someone": "Seorang peserta",
+  "push.reminder.title": "Pengingat menyelesaikan bacaan",
+  "push.reminder.body": "Belum ditandai sudah dibaca di {group}: {units} {numbers}.",
+
+  "roster.khatma": "Khatam {group}",
+  "roster.week": "Pekan {key}",
+  "roster.range": "{from} – {to}",
+  "roster.heading": "Daftar peserta per {units}:",
+  "roster.unitFrom": "{unit}, dari {start}",
+  "roster.participant": "Peserta",
+  "roster.open": "Tersedia",
+  "roster.claimed": "Dipesan",
+  "roster.read": "Sudah dibaca",
+  "roster.openList": "{units} yang tersedia: {numbers}",
+  "roster.openCount": "{units} yang tersedia: {open} dari {total}",
+  "roster.allTaken": "Semua {units} sudah dipesan, alhamdulillah.",
+  "roster.csv.number": "No",
+  "roster.csv.unit": "Bagian",
+  "roster.csv.surah": "Surah",
+  "roster.csv.ayah": "Ayat",
+  "roster.csv.reader": "Pembaca",
+  "roster.csv.status": "Status",
+  "roster.csv.completedAt": "Waktu selesai",
+};
+
+const CATALOGS: Record<Locale, Catalog> = { ar, en, tr, ur, id };
+
+export function translate(locale: Locale | null, key: ServerMessageKey, params?: MessageParams): string {
+  const resolved = locale ?? DEFAULT_LOCALE;
+  return formatMessage(resolved, CATALOGS[resolved][key], params);
+}
+
+export function joinList(locale: Locale, items: readonly (string | number)[]): string {
+  return items.join(translate(locale, "list.separator"));
+}
+
+// Members who never picked a language get the default one.
+export async function userLocale(userId: string): Promise<Locale> {
+  const { rows } = await pool.query<{ locale: Locale | null }>("select locale from users where id=$1", [userId]);
+  return rows[0]?.locale ?? DEFAULT_LOCALE;
+}
@@ -2,23 +2,87 @@ import "dotenv/config";
 import cors from "cors";
 import express, { type Request, type Response } from "express";
 import { createServer } from "http";
-import { Server } from "socket.io";
+import { Server, type DefaultEventsMap } from "socket.io";
 import type { PoolClient } from "pg";
 import { randomUUID } from "crypto";
+import {
+  clientEvents,
+  DEFAULT_LOCALE,
+  type ClientToServerEvents,
+  type JoinAck,
+  type Locale,
+  type OverdueAction,
+  type Part,
+} from "@khatma/contract";
 import { pool } from "./db.js";
-import { verify, signSession, type AuthenticatedRequest } from "./auth.js";
+import {
+  verify,
+  verifySocket,
+  signAccessToken,
+  type AuthenticatedRequest,
+  type SessionSocket,
+  type SocketSession,
+} from "./auth.js";
+import { listAudit, recordAudit } from "./audit.js";
+import { OtpError, requestOtp, verifyOtp } from "./otp.js";
+import { userLocale } from "./i18n.js";
+import { rosterCsv, rosterPng, rosterText } from "./roster.js";
+import { memberStats, participationReport } from "./stats.js";
+import { listPendingSwaps, listWaitlist, type SwapRow } from "./swaps.js";
+import {
+  createSession,
+  listSessions,
+  revokeByRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  rotateSession,
+} from "./sessions.js";
+import { unitCount, type Division } from "./quran.js";
+import { deleteSubscription, pushEnabled, saveSubscription, vapidPublicKey } from "./push.js";
+import {
+  notifyKhatmaCompleted,
+  notifyPartAssigned,
+  notifySwapRequested,
+  notifyWaitlistAssigned,
+  notifyWeekOpened,
+  sendWeeklyReminders,
+} from "./notifications.js";
+import { createSmsSender } from "./sms.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { can, isStaff, permissionsOf, requirePermission, type PermittedRequest, type Role } from "./permissions.js";
+import { schedule } from "./scheduler.js";
+import { assertRoutesMounted, validate, type RouteResponse, type ServerEvents } from "./contract.js";
+import { pruneRateLimits, rateLimit } from "./rateLimit.js";
+import { cycleWindowAt, type CycleWindow } from "./calendar.js";
+import {
+  canSeeWeek,
+  createGroup,
+  getGroupCycle,
+  getGroupForUser,
+  getMembership,
+  joinGroupByInvite,
+  listGroupIdsDueRollover,
+  listGroupsForUser,
+  listMembers,
+  regenerateInviteCode,
+  setGroupCycle,
+  type GroupSummary,
+} from "./groups.js";
 
 const PORT = Number(process.env.PORT || 8080);
-const DEFAULT_ADMIN_NAME = (process.env.DEFAULT_ADMIN_NAME || "محمد عز الدين").trim();
+const WEEK_ROLLOVER_CHECK_MS = 30_000;
+const CLAIM_EXPIRY_CHECK_MS = Number(process.env.CLAIM_EXPIRY_CHECK_MS || 60_000);
+const REMINDER_CHECK_MS = 10 * 60_000;
+const RATE_LIMIT_PRUNE_MS = 10 * 60_000;
 const DEFAULT_ADMIN_PHONE = normalizePhone(process.env.DEFAULT_ADMIN_PHONE || "");
 const allowedOrigins = (process.env.CORS_ORIGIN || process.env.WEB_ORIGIN || "")
   .split(",")
   .map((v) => v.trim())
   .filter(Boolean);
-const ADMIN_PHONE_LIST = (process.env.ADMIN_PHONES || "+971523783612")
-  .split(",")
+const ADMIN_PHONE_LIST = [...(process.env.ADMIN_PHONES || "+971523783612").split(","), DEFAULT_ADMIN_PHONE]
   .map((v) => normalizePhone(v))
   .filter(Boolean);
+const smsSender = createSmsSender();
 
 function normalizePhone(raw: string | null | undefined): string | null {
   if (!raw) return null;
@@ -28,6 +92,12 @@ function normalizePhone(raw: string | null | undefined): string | null {
 }
 
 const app = express();
+// Behind a reverse proxy, req.ip (and so every per-IP rate limit) must come from X-Forwarded-For.
+// TRUST_PROXY takes Express's own values: a hop count, "loopback", a subnet list.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
 app.use(
   cors({
     origin: allowedOrigins.length ? allowedOrigins : true,
@@ -37,15 +107,63 @@ app.use(
 app.use(express.json());
 
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerEvents, DefaultEventsMap, SocketSession>(httpServer, {
   cors: {
     origin: allowedOrigins.length ? allowedOrigins : "*",
   },
 });
 
-io.on("connection", (socket) => {
-  socket.on("join-week", (weekId: string) => {
-    if (weekId) socket.join(weekId);
+function weekRoom(weekId: string) {
+  return `week:${weekId}`;
+}
+
+function groupRoom(groupId: string) {
+  return `group:${groupId}`;
+}
+
+// Private events for one person, on every device they are connected from.
+function userRoom(userId: string) {
+  return `user:${userId}`;
+}
+
+// The sockets of one signed-in device, so revoking its session can cut them off.
+function sessionRoom(sessionId: string) {
+  return `session:${sessionId}`;
+}
+
+function disconnectSessions(sessionIds: string[]) {
+  for (const sessionId of sessionIds) io.in(sessionRoom(sessionId)).disconnectSockets(true);
+}
+
+io.use(verifySocket);
+
+io.on("connection", (socket: SessionSocket) => {
+  const { userId, sessionId } = socket.data.session;
+  socket.join([userRoom(userId), sessionRoom(sessionId)]);
+
+  socket.on("join-group", async (groupId, ack?: (result: JoinAck) => void) => {
+    try {
+      if (!clientEvents["join-group"].safeParse(groupId).success || !(await getMembership(groupId, userId))) {
+        return ack?.({ error: "NOT_MEMBER" });
+      }
+      socket.join(groupRoom(groupId));
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error("join-group error", error);
+      ack?.({ error: "JOIN_FAILED" });
+    }
+  });
+  socket.on("join-week", async (weekId, ack?: (result: JoinAck) => void) => {
+    try {
+      if (!clientEvents["join-week"].safeParse(weekId).success || !(await canSeeWeek(weekId, userId))) {
+        return ack?.({ error: "NOT_MEMBER" });
+      }
+      socket.join(weekRoom(weekId));
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error("join-week error", error);
+      ack?.({ error: "JOIN_FAILED" });
+    }
   });
 });
 
@@ -54,23 +172,87 @@ type DbUserRow = {
   firebase_uid: string;
   name: string | null;
   phone: string | null;
-  is_admin: boolean;
+  locale: Locale | null;
 };
 
-type PartRow = {
-  number: number;
-  claimed_by: string | null;
-  claimed_name: string | null;
-  claimed_is_admin: boolean | null;
+// A part as the database hands it back: the contract's shape with its timestamps still Dates.
+type PartRow = Omit<Part, "completed_at" | "due_at" | "overdue_at"> & {
+  completed_at: Date | null;
+  due_at: Date | null;
+  overdue_at: Date | null;
 };
 
-function computeAdminFlag(name: string | null, phone: string | null, current = false): boolean {
-  const matchName = !!DEFAULT_ADMIN_NAME && !!name && name === DEFAULT_ADMIN_NAME;
-  const matchPhone = !!phone && ADMIN_PHONE_LIST.includes(phone);
-  return current || matchName || matchPhone;
+// Everything a part carries for its current holder; cleared together whenever it is freed.
+const CLEAR_CLAIM_SQL =
+  "claimed_by=null, claimed_name=null, claimed_at=null, completed_at=null, due_at=null, overdue_at=null, on_behalf=false, " +
+  "intention=null, intention_public=false";
+
+function emptyPart(number: number, revision = 0): PartRow {
+  return {
+    number,
+    claimed_by: null,
+    claimed_name: null,
+    claimed_is_admin: null,
+    completed_at: null,
+    due_at: null,
+    overdue_at: null,
+    on_behalf: false,
+    intention: null,
+    intention_public: false,
+    revision,
+  };
+}
+
+type HolderRow = Pick<PartRow, "claimed_by" | "claimed_name" | "completed_at" | "on_behalf">;
+const HOLDER_COLUMNS = "claimed_by, claimed_name, completed_at, on_behalf";
+
+// The part's holder as recorded in the audit log; null when the part is free.
+function holderState(row: HolderRow | undefined) {
+  if (!row?.claimed_by) return null;
+  return {
+    claimedBy: row.claimed_by,
+    claimedName: row.claimed_name,
+    completedAt: row.completed_at,
+    onBehalf: row.on_behalf,
+  };
+}
+
+// Only a phone number proven through OTP can grant admin; names are free text anyone can type.
+// A listed phone is granted once: it takes over the groups it belongs to that have no owner,
+// and leaves every role already given alone. After that the database is the only source, so
+// a later demotion survives the next login.
+async function bootstrapAdmin(user: DbUserRow): Promise<void> {
+  if (!user.phone || !ADMIN_PHONE_LIST.includes(user.phone)) return;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const granted = await client.query(
+      "insert into admin_bootstrap_grants (phone, user_id) values ($1, $2) on conflict (phone) do nothing",
+      [user.phone, user.id],
+    );
+    if (!granted.rowCount) {
+      await client.query("ROLLBACK");
+      return;
+    }
+    await client.query(
+      `
+      update group_members m
+      set role='owner'
+      where m.user_id=$1
+        and not exists (select 1 from group_members o where o.group_id = m.group_id and o.role = 'owner')
+      `,
+      [user.id],
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
-async function loginUser(nameInput: string, phoneInput: string): Promise<DbUserRow> {
+async function loginUser(nameInput: string, phoneInput: string, locale: Locale | null): Promise<DbUserRow> {
   const name = nameInput.trim() || null;
   const phone = normalizePhone(phoneInput);
   if (!phone) {
@@ -78,44 +260,44 @@ async function loginUser(nameInput: string, phoneInput: string): Promise<DbUserR
   }
 
   const existing = await pool.query<DbUserRow>(
-    "select id, firebase_uid, name, phone, is_admin from users where phone=$1",
+    "select id, firebase_uid, name, phone, locale from users where phone=$1",
     [phone],
   );
 
   if (existing.rowCount) {
     const current = existing.rows[0];
-    const updatedAdmin = computeAdminFlag(name || current.name, phone, current.is_admin);
     const { rows } = await pool.query<DbUserRow>(
       `
       update users
       set
         name = $2,
         phone = $3,
-        is_admin = $4
+        locale = coalesce(locale, $4)
       where id=$1
-      returning id, firebase_uid, name, phone, is_admin
+      returning id, firebase_uid, name, phone, locale
       `,
-      [current.id, name || current.name, phone, updatedAdmin],
+      [current.id, name || current.name, phone, locale],
     );
+    await bootstrapAdmin(rows[0]);
     return rows[0];
   }
 
   const authKey = randomUUID();
-  const isAdmin = computeAdminFlag(name, phone);
   const { rows } = await pool.query<DbUserRow>(
     `
-    insert into users (firebase_uid, name, phone, is_admin)
+    insert into users (firebase_uid, name, phone, locale)
     values ($1, $2, $3, $4)
-    returning id, firebase_uid, name, phone, is_admin
+    returning id, firebase_uid, name, phone, locale
     `,
-    [authKey, name, phone, isAdmin],
+    [authKey, name, phone, locale],
   );
+  await bootstrapAdmin(rows[0]);
   return rows[0];
 }
 
-async function getUserById(id: string): Promise<DbUserRow> {
-  const { rows } = await pool.query<DbUserRow>(
-    "select id, firebase_uid, name, phone, is_admin from users where id=$1",
+async function getUserById(id: string, client: Pick<PoolClient, "query"> = pool): Promise<DbUserRow> {
+  const { rows } = await client.query<DbUserRow>(
+    "select id, firebase_uid, name, phone, locale from users where id=$1",
     [id],
   );
   if (!rows.length) {
@@ -124,118 +306,704 @@ async function getUserById(id: string): Promise<DbUserRow> {
   return rows[0];
 }
 
-async function updateUserProfile(userId: string, profile: { name?: string; phone?: string }): Promise<DbUserRow> {
+// The phone number is the verified login identity, so profile updates only ever touch the name and language.
+async function updateUserProfile(userId: string, profile: { name?: string; locale?: Locale }): Promise<DbUserRow> {
   const existing = await getUserById(userId);
   const name = profile.name?.trim() || existing.name;
-  const phone = normalizePhone(profile.phone || existing.phone);
-  const isAdmin = computeAdminFlag(name, phone, existing.is_admin);
   const { rows } = await pool.query<DbUserRow>(
     `
     update users
-    set name=$2, phone=$3, is_admin=$4
+    set name=$2, locale=$3
     where id=$1
-    returning id, firebase_uid, name, phone, is_admin
+    returning id, firebase_uid, name, phone, locale
     `,
-    [userId, name, phone, isAdmin],
+    [userId, name, profile.locale ?? existing.locale],
   );
   return rows[0];
 }
 
-async function ensureWeek(client: PoolClient, weekKey: string): Promise<string> {
-  const existing = await client.query<{ id: string }>("select id from weeks where week_key=$1", [weekKey]);
+type WeekInfo = {
+  id: string;
+  groupId: string;
+  key: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  completedAt: Date | null;
+  claimDeadline: Date | null;
+  claimHoldHours: number | null;
+  overdueAction: OverdueAction;
+  maxPartsPerUser: number | null;
+  firstClaimHours: number | null;
+  adminsExempt: boolean;
+  title: string | null;
+  dedication: string | null;
+  closingDua: string | null;
+  revision: number;
+  division: Division;
+};
+
+type DbWeekRow = {
+  id: string;
+  group_id: string;
+  week_key: string;
+  starts_at: Date | null;
+  ends_at: Date | null;
+  completed_at: Date | null;
+  claim_deadline: Date | null;
+  claim_hold_hours: number | null;
+  overdue_action: OverdueAction;
+  max_parts_per_user: number | null;
+  first_claim_hours: number | null;
+  admins_exempt: boolean;
+  title: string | null;
+  dedication: string | null;
+  closing_dua: string | null;
+  revision: number;
+  division: Division;
+};
+
+const WEEK_COLUMNS = `
+  id, group_id, week_key, starts_at, ends_at, completed_at, claim_deadline, claim_hold_hours, overdue_action,
+  max_parts_per_user, first_claim_hours, admins_exempt, title, dedication, closing_dua, revision, division
+`;
+
+function toWeekInfo(row: DbWeekRow): WeekInfo {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    key: row.week_key,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    completedAt: row.completed_at,
+    claimDeadline: row.claim_deadline,
+    claimHoldHours: row.claim_hold_hours,
+    overdueAction: row.overdue_action,
+    maxPartsPerUser: row.max_parts_per_user,
+    firstClaimHours: row.first_claim_hours,
+    adminsExempt: row.admins_exempt,
+    title: row.title,
+    dedication: row.dedication,
+    closingDua: row.closing_dua,
+    revision: row.revision,
+    division: row.division,
+  };
+}
+
+async function selectWeek(client: PoolClient, groupId: string, weekKey: string): Promise<WeekInfo | null> {
+  const { rows } = await client.query<DbWeekRow>(
+    `select ${WEEK_COLUMNS} from weeks where group_id=$1 and week_key=$2`,
+    [groupId, weekKey],
+  );
+  return rows[0] ? toWeekInfo(rows[0]) : null;
+}
+
+// A week row holds one cycle of its group's calendar, whatever the cycle's length.
+async function ensureWeek(client: PoolClient, groupId: string, window: CycleWindow): Promise<string> {
+  const weekKey = window.key;
+  const existing = await client.query<{ id: string }>(
+    "select id from weeks where group_id=$1 and week_key=$2",
+    [groupId, weekKey],
+  );
   if (existing.rowCount) return existing.rows[0].id;
 
-  const inserted = await client.query<{ id: string }>(
-    "insert into weeks (week_key) values ($1) returning id",
-    [weekKey],
+  // Rollover and the first request of a week can race; the unique key decides who inserts.
+  // A new week is split the same way as the group's latest one.
+  const inserted = await client.query<{ id: string; division: Division }>(
+    `
+    insert into weeks (group_id, week_key, starts_at, ends_at, division)
+    values ($1, $2, $3, $4, coalesce(
+      (select division from weeks where group_id=$1 order by starts_at desc nulls last, created_at desc limit 1),
+      'juz'
+    ))
+    on conflict (group_id, week_key) do nothing
+    returning id, division
+    `,
+    [groupId, weekKey, window.startsAt, window.endsAt],
+  );
+  if (!inserted.rowCount) {
+    const winner = await client.query<{ id: string }>(
+      "select id from weeks where group_id=$1 and week_key=$2",
+      [groupId, weekKey],
+    );
+    return winner.rows[0].id;
+  }
+  const { id: weekId, division } = inserted.rows[0];
+  await client.query("insert into parts (week_id, number) select $1, n from generate_series(1, $2::int) as n", [
+    weekId,
+    unitCount(division),
+  ]);
+  // Carry the group's claim rules and policies forward, keeping the deadline at the same point of the week.
+  await client.query(
+    `
+    update weeks w
+    set
+      claim_hold_hours = prev.claim_hold_hours,
+      overdue_action = prev.overdue_action,
+      claim_deadline = w.starts_at + (prev.claim_deadline - prev.starts_at),
+      max_parts_per_user = prev.max_parts_per_user,
+      first_claim_hours = prev.first_claim_hours,
+      admins_exempt = prev.admins_exempt
+    from (
+      select claim_hold_hours, overdue_action, claim_deadline, starts_at, max_parts_per_user, first_claim_hours,
+        admins_exempt
+      from weeks
+      where group_id=$2 and id<>$1
+      order by starts_at desc nulls last, created_at desc
+      limit 1
+    ) prev
+    where w.id=$1
+    `,
+    [weekId, groupId],
   );
-  const weekId = inserted.rows[0].id;
-  await client.query("insert into parts (week_id, number) select $1, n from generate_series(1,30) as n", [weekId]);
   return weekId;
 }
 
-async function getWeek(client: PoolClient, weekKey: string): Promise<{ id: string; key: string }> {
-  const week = await client.query<{ id: string; week_key: string }>(
-    "select id, week_key from weeks where week_key=$1",
-    [weekKey],
+// A week the group already has, or the running one; other keys are not created on request.
+async function getWeek(client: PoolClient, groupId: string, weekKey: string): Promise<WeekInfo | null> {
+  const week = await selectWeek(client, groupId, weekKey);
+  if (week) return week;
+  const current = await getCurrentWeek(client, groupId);
+  return current.key === weekKey ? current : null;
+}
+
+// The cycle running at `at`. A new one follows the group's cycle settings from where
+// the last one ended, so changing them never cuts the running cycle short.
+async function getCurrentWeek(client: PoolClient, groupId: string, at = new Date()): Promise<WeekInfo> {
+  const running = await client.query<DbWeekRow>(
+    `
+    select ${WEEK_COLUMNS} from weeks
+    where group_id=$1 and starts_at <= $2 and ends_at > $2
+    order by starts_at desc
+    limit 1
+    `,
+    [groupId, at],
+  );
+  if (running.rowCount) return toWeekInfo(running.rows[0]);
+
+  const previous = await client.query<{ ends_at: Date | null }>(
+    "select max(ends_at) as ends_at from weeks where group_id=$1 and ends_at <= $2",
+    [groupId, at],
   );
-  if (week.rowCount) return { id: week.rows[0].id, key: week.rows[0].week_key };
-  const id = await ensureWeek(client, weekKey);
-  return { id, key: weekKey };
+  const window = cycleWindowAt(at, await getGroupCycle(groupId, client), previous.rows[0].ends_at);
+  await ensureWeek(client, groupId, window);
+  return (await selectWeek(client, groupId, window.key))!;
 }
 
-async function fetchParts(weekId: string): Promise<PartRow[]> {
-  const { rows } = await pool.query<PartRow>(
+async function getWeekById(client: Pick<PoolClient, "query">, weekId: string): Promise<WeekInfo | null> {
+  const { rows } = await client.query<DbWeekRow>(`select ${WEEK_COLUMNS} from weeks where id=$1`, [weekId]);
+  return rows[0] ? toWeekInfo(rows[0]) : null;
+}
+
+async function getWeekGroupId(client: PoolClient, weekId: string): Promise<string | null> {
+  const { rows } = await client.query<{ group_id: string }>("select group_id from weeks where id=$1", [weekId]);
+  return rows[0]?.group_id ?? null;
+}
+
+// Weeks that have ended are history: nothing in them changes any more.
+async function isWeekClosed(client: Pick<PoolClient, "query">, weekId: string): Promise<boolean> {
+  const { rowCount } = await client.query("select 1 from weeks where id=$1 and ends_at <= now()", [weekId]);
+  return Boolean(rowCount);
+}
+
+type ClaimRefusal = { error: "CLAIM_LIMIT_REACHED"; limit: number } | { error: "FIRST_CLAIM_WINDOW"; opensAt: string };
+
+// Checks the week's fair-share policies for a member claiming a part for themselves.
+// Locks the weeks row so one member's concurrent claims are counted one at a time;
+// call it after locking the part, the order every other writer takes them in.
+async function claimPolicyRefusal(
+  client: PoolClient,
+  weekId: string,
+  userId: string,
+  isAdmin: boolean,
+): Promise<ClaimRefusal | null> {
+  const { rows } = await client.query<{
+    max_parts_per_user: number | null;
+    admins_exempt: boolean;
+    opens_at: Date | null;
+    first_claim_only: boolean;
+    held: number;
+  }>(
     `
     select
-      p.number,
-      p.claimed_by,
-      p.claimed_name,
-      u.is_admin as claimed_is_admin
-    from parts p
-    left join users u on u.id = p.claimed_by
-    where p.week_id=$1
-    order by p.number asc
+      w.max_parts_per_user,
+      w.admins_exempt,
+      w.starts_at + w.first_claim_hours * interval '1 hour' as opens_at,
+      coalesce(w.starts_at + w.first_claim_hours * interval '1 hour' > now(), false) as first_claim_only,
+      (select count(*)::int from parts p where p.week_id = w.id and p.claimed_by = $2 and not p.on_behalf) as held
+    from weeks w
+    where w.id=$1
+    for update
+    `,
+    [weekId, userId],
+  );
+  const policy = rows[0];
+  if (!policy || (isAdmin && policy.admins_exempt)) return null;
+  if (policy.max_parts_per_user !== null && policy.held >= policy.max_parts_per_user) {
+    return { error: "CLAIM_LIMIT_REACHED", limit: policy.max_parts_per_user };
+  }
+  if (policy.first_claim_only && policy.held > 0) {
+    return { error: "FIRST_CLAIM_WINDOW", opensAt: policy.opens_at!.toISOString() };
+  }
+  return null;
+}
+
+// Hands a part that was just freed to the longest-waiting member the week's policies
+// still allow. Members over their limit keep their place for a later release; those
+// who left the group are dropped. Call with the part locked and already cleared.
+async function promoteWaitlist(client: PoolClient, weekId: string, number: number): Promise<string | null> {
+  const waiters = await client.query<{ user_id: string; name: string | null; group_id: string; role: Role | null }>(
+    `
+    select q.user_id, u.name, w.group_id, m.role
+    from part_waitlist q
+    join weeks w on w.id = q.week_id
+    join users u on u.id = q.user_id
+    left join group_members m on m.group_id = w.group_id and m.user_id = q.user_id
+    where q.week_id=$1 and q.part_number=$2
+    order by q.created_at, q.user_id
     `,
+    [weekId, number],
+  );
+  for (const waiter of waiters.rows) {
+    if (waiter.role === null) {
+      await client.query("delete from part_waitlist where week_id=$1 and part_number=$2 and user_id=$3", [
+        weekId,
+        number,
+        waiter.user_id,
+      ]);
+      continue;
+    }
+    if (await claimPolicyRefusal(client, weekId, waiter.user_id, isStaff(waiter.role))) continue;
+
+    await client.query(
+      `
+      update parts p
+      set
+        claimed_by=$3,
+        claimed_name=$4,
+        claimed_at=now(),
+        due_at=least(w.claim_deadline, now() + make_interval(hours => w.claim_hold_hours)),
+        overdue_at=null,
+        on_behalf=false,
+        intention=null,
+        intention_public=false
+      from weeks w
+      where w.id = p.week_id and p.week_id=$1 and p.number=$2
+      `,
+      [weekId, number, waiter.user_id, waiter.name],
+    );
+    await client.query("delete from part_waitlist where week_id=$1 and part_number=$2 and user_id=$3", [
+      weekId,
+      number,
+      waiter.user_id,
+    ]);
+    await recordAudit(client, {
+      groupId: waiter.group_id,
+      weekId,
+      partNumber: number,
+      actorId: null,
+      targetUserId: waiter.user_id,
+      action: "waitlist_assign",
+      after: { claimedBy: waiter.user_id, claimedName: waiter.name },
+    });
+    return waiter.user_id;
+  }
+  return null;
+}
+
+// Tells a member the waitlist gave them a part; call after the transaction commits.
+function announceWaitlistAssignment(userId: string, groupId: string, weekId: string, number: number) {
+  io.to(userRoom(userId)).emit("waitlist:assigned", { groupId, weekId, number });
+  notifyWaitlistAssigned(userId, weekId, number).catch((error) => console.error("waitlist push error", error));
+}
+
+// Call inside the transaction that changes the parts. The weeks row lock orders
+// concurrent writers, so revisions follow commit order. Stamps every part when
+// numbers is omitted.
+async function bumpRevision(client: PoolClient, weekId: string, numbers?: number[]): Promise<number> {
+  const { rows } = await client.query<{ revision: number }>(
+    "update weeks set revision = revision + 1 where id=$1 returning revision",
+    [weekId],
+  );
+  const revision = rows[0].revision;
+  await client.query("update parts set revision=$2 where week_id=$1 and ($3::int[] is null or number = any($3::int[]))", [
+    weekId,
+    revision,
+    numbers ?? null,
+  ]);
+  return revision;
+}
+
+// claimed_is_admin marks owners and moderators of the week's own group, not elsewhere.
+const PART_SELECT = `
+  select
+    p.number,
+    p.claimed_by,
+    p.claimed_name,
+    m.role <> 'member' as claimed_is_admin,
+    p.completed_at,
+    p.due_at,
+    p.overdue_at,
+    p.on_behalf,
+    case when p.intention_public then p.intention end as intention,
+    p.intention_public,
+    p.revision
+  from parts p
+  join weeks w on w.id = p.week_id
+  left join group_members m on m.group_id = w.group_id and m.user_id = p.claimed_by
+`;
+
+async function fetchParts(weekId: string): Promise<PartRow[]> {
+  const { rows } = await pool.query<PartRow>(
+    `${PART_SELECT} where p.week_id=$1 order by p.number asc`,
     [weekId],
   );
   return rows;
 }
 
+async function fetchPartsSince(weekId: string, revision: number): Promise<PartRow[]> {
+  const { rows } = await pool.query<PartRow>(
+    `${PART_SELECT} where p.week_id=$1 and p.revision > $2 order by p.number asc`,
+    [weekId, revision],
+  );
+  return rows;
+}
+
+async function fetchPart(weekId: string, number: number): Promise<PartRow | null> {
+  const { rows } = await pool.query<PartRow>(`${PART_SELECT} where p.week_id=$1 and p.number=$2`, [
+    weekId,
+    number,
+  ]);
+  return rows[0] ?? null;
+}
+
 function broadcastPartUpdate(weekId: string, payload: PartRow) {
-  io.to(weekId).emit("part:update", payload);
+  io.to(weekRoom(weekId)).emit("part:update", payload);
+}
+
+function serializeGroup(group: GroupSummary) {
+  return {
+    id: group.id,
+    name: group.name,
+    inviteCode: can(group.role, "manage_invites") ? group.invite_code : null,
+    role: group.role,
+    permissions: permissionsOf(group.role),
+    memberCount: group.member_count,
+    cycleUnit: group.cycle_unit,
+    cycleDays: group.cycle_days,
+    hijriOffset: group.hijri_offset,
+  };
+}
+
+function serializeWeek(week: WeekInfo) {
+  return {
+    weekId: week.id,
+    groupId: week.groupId,
+    weekKey: week.key,
+    startsAt: week.startsAt?.toISOString() ?? null,
+    endsAt: week.endsAt?.toISOString() ?? null,
+    completedAt: week.completedAt?.toISOString() ?? null,
+    claimDeadline: week.claimDeadline?.toISOString() ?? null,
+    claimHoldHours: week.claimHoldHours,
+    overdueAction: week.overdueAction,
+    maxPartsPerUser: week.maxPartsPerUser,
+    firstClaimHours: week.firstClaimHours,
+    adminsExempt: week.adminsExempt,
+    title: week.title,
+    dedication: week.dedication,
+    closingDua: week.closingDua,
+    revision: week.revision,
+    closed: Boolean(week.endsAt && week.endsAt.getTime() <= Date.now()),
+    division: week.division,
+    unitCount: unitCount(week.division),
+  };
+}
+
+// Creates a group's next cycle as soon as its last one ends and tells its open boards to follow it.
+async function checkWeekRollover() {
+  const groupIds = await listGroupIdsDueRollover();
+  if (!groupIds.length) return;
+
+  const client = await pool.connect();
+  try {
+    const weeks: WeekInfo[] = [];
+    await client.query("BEGIN");
+    for (const groupId of groupIds) {
+      weeks.push(await getCurrentWeek(client, groupId));
+    }
+    await client.query("COMMIT");
+    for (const week of weeks) {
+      io.to(groupRoom(week.groupId)).emit("week:current", serializeWeek(week));
+    }
+    for (const week of weeks) {
+      notifyWeekOpened(week.id, week.groupId).catch((error) => console.error("week opened push error", error));
+    }
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("week rollover error", error);
+  } finally {
+    client.release();
+  }
+}
+
+type ExpiredClaim = {
+  week_id: string;
+  group_id: string;
+  number: number;
+  claimed_by: string;
+  claimed_name: string | null;
+  revision: number;
+  // Who the waitlist passed a released part on to, if anyone.
+  promoted?: string | null;
+};
+
+// Flags or frees claims whose due time has passed, depending on each week's overdue_action.
+async function processOverdueClaims() {
+  const client = await pool.connect();
+  let flagged: ExpiredClaim[] = [];
+  let released: ExpiredClaim[] = [];
+  try {
+    await client.query("BEGIN");
+    // Weeks that already ended are left alone: their claims are the record of who held what.
+    flagged = (
+      await client.query<ExpiredClaim>(
+        `
+        update parts p
+        set overdue_at=now()
+        from weeks w
+        where w.id = p.week_id
+          and w.overdue_action = 'flag'
+          and (w.ends_at is null or w.ends_at > now())
+          and p.claimed_by is not null
+          and p.completed_at is null
+          and p.overdue_at is null
+          and p.due_at <= now()
+        returning p.week_id, w.group_id, p.number, p.claimed_by, p.claimed_name
+        `,
+      )
+    ).rows;
+    released = (
+      await client.query<ExpiredClaim>(
+        `
+        with expired as (
+          select p.week_id, w.group_id, p.number, p.claimed_by, p.claimed_name
+          from parts p
+          join weeks w on w.id = p.week_id
+          where w.overdue_action = 'release'
+            and (w.ends_at is null or w.ends_at > now())
+            and p.claimed_by is not null
+            and p.completed_at is null
+            and p.due_at <= now()
+          for update of p
+        )
+        update parts p
+        set ${CLEAR_CLAIM_SQL}
+        from expired e
+        where p.week_id = e.week_id and p.number = e.number
+        returning p.week_id, e.group_id, p.number, e.claimed_by, e.claimed_name
+        `,
+      )
+    ).rows;
+    for (const row of released) {
+      await recordAudit(client, {
+        groupId: row.group_id,
+        weekId: row.week_id,
+        partNumber: row.number,
+        actorId: null,
+        targetUserId: row.claimed_by,
+        action: "expire",
+        before: { claimedBy: row.claimed_by, claimedName: row.claimed_name },
+      });
+      row.promoted = await promoteWaitlist(client, row.week_id, row.number);
+    }
+    // One revision per part, so each broadcast below is a single step for the client.
+    for (const row of [...flagged, ...released]) {
+      row.revision = await bumpRevision(client, row.week_id, [row.number]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  for (const row of flagged) {
+    const part = await fetchPart(row.week_id, row.number);
+    if (part) broadcastPartUpdate(row.week_id, part);
+  }
+  for (const row of released) {
+    const part = row.promoted ? await fetchPart(row.week_id, row.number) : null;
+    broadcastPartUpdate(row.week_id, part ?? emptyPart(row.number, row.revision));
+    io.to(userRoom(row.claimed_by)).emit("claim:expired", {
+      groupId: row.group_id,
+      weekId: row.week_id,
+      number: row.number,
+    });
+    if (row.promoted) announceWaitlistAssignment(row.promoted, row.group_id, row.week_id, row.number);
+  }
 }
 
-app.get("/api/health", (_req, res) => {
+app.get("/api/health", (_req, res: RouteResponse<"health">) => {
   res.json({ ok: true });
 });
 
-app.post("/api/auth/login", async (req: Request, res: Response) => {
-  const { name, phone } = (req.body || {}) as { name?: string; phone?: string };
-  if (!name || !phone) {
-    return res.status(400).json({ error: "NAME_AND_PHONE_REQUIRED" });
+const OTP_ERROR_STATUS: Record<OtpError["code"], number> = {
+  OTP_TOO_SOON: 429,
+  OTP_EXPIRED: 410,
+  OTP_INVALID: 401,
+  OTP_TOO_MANY_ATTEMPTS: 429,
+};
+
+function sendOtpError(res: Response, error: OtpError) {
+  if (error.retryAfter) res.setHeader("Retry-After", String(error.retryAfter));
+  res.status(OTP_ERROR_STATUS[error.code]).json({ error: error.code, retryAfter: error.retryAfter ?? null });
+}
+
+function bodyPhone(req: Request) {
+  return normalizePhone((req.body as { phone?: string } | undefined)?.phone);
+}
+
+app.post(
+  "/api/auth/otp/request",
+  rateLimit("otp-request", { phone: bodyPhone }),
+  validate("requestOtp"),
+  async (req, res) => {
+    const phone = normalizePhone(req.body.phone)!;
+
+    try {
+      const result = await requestOtp(phone, smsSender, req.body.locale ?? DEFAULT_LOCALE);
+      res.json({ sent: true, ...result });
+    } catch (error) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
+      console.error("otp request error", error);
+      res.status(500).json({ error: "OTP_SEND_FAILED" });
+    }
+  },
+);
+
+app.post(
+  "/api/auth/otp/verify",
+  rateLimit("otp-verify", { phone: bodyPhone }),
+  validate("verifyOtp"),
+  async (req, res) => {
+    const { name, phone, code, locale } = req.body;
+    const normalizedPhone = normalizePhone(phone)!;
+
+    try {
+      await verifyOtp(normalizedPhone, code);
+      const user = await loginUser(name, normalizedPhone, locale ?? null);
+      const { sessionId, refreshToken } = await createSession(user.id, req.get("user-agent") ?? null);
+      res.json({
+        token: signAccessToken({ userId: user.id, sessionId }),
+        refreshToken,
+        user: {
+          id: user.id,
+          name: user.name,
+          phone: user.phone,
+          locale: user.locale,
+        },
+      });
+    } catch (error) {
+      if (error instanceof OtpError) return sendOtpError(res, error);
+      console.error("auth login error", error);
+      res.status(500).json({ error: "LOGIN_FAILED" });
+    }
+  },
+);
+
+// Renews an expired access token. The refresh token is single-use: the response carries its replacement.
+app.post(
+  "/api/auth/refresh",
+  rateLimit("refresh"),
+  validate("refreshSession"),
+  async (req, res: RouteResponse<"refreshSession">) => {
+    try {
+      const result = await rotateSession(req.body.refreshToken);
+      if (!result.ok) {
+        // A raced renewal is harmless, the other tab already holds the new token.
+        return res.status(result.error === "REFRESH_RACED" ? 409 : 401).json({ error: result.error });
+      }
+      res.json({
+        token: signAccessToken({ userId: result.userId, sessionId: result.sessionId }),
+        refreshToken: result.refreshToken,
+      });
+    } catch (error) {
+      console.error("token refresh error", error);
+      res.status(500).json({ error: "REFRESH_FAILED" });
+    }
+  },
+);
+
+app.post("/api/auth/logout", validate("logout"), async (req, res: RouteResponse<"logout">) => {
+  try {
+    const sessionId = await revokeByRefreshToken(req.body.refreshToken);
+    if (sessionId) disconnectSessions([sessionId]);
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("logout error", error);
+    res.status(500).json({ error: "LOGOUT_FAILED" });
   }
+});
 
+app.get("/api/sessions", verify, validate("listSessions"), async (req, res: RouteResponse<"listSessions">) => {
   try {
-    const user = await loginUser(name, phone);
-    const token = signSession({
-      userId: user.id,
-      name: user.name,
-      phone: user.phone,
-      isAdmin: user.is_admin,
-    });
-    res.json({
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        phone: user.phone,
-        isAdmin: user.is_admin,
-      },
-    });
+    const { userId, sessionId } = (req as AuthenticatedRequest).session;
+    const sessions = await listSessions(userId);
+    res.json({ sessions: sessions.map((session) => ({ ...session, current: session.id === sessionId })) });
   } catch (error) {
-    console.error("auth login error", error);
-    res.status(500).json({ error: "LOGIN_FAILED" });
+    console.error("sessions list error", error);
+    res.status(500).json({ error: "SESSIONS_FETCH_FAILED" });
   }
 });
 
-app.post("/api/profile", verify, async (req: Request, res: Response) => {
+// Signs out every other device; the one asking stays signed in.
+app.delete(
+  "/api/sessions",
+  verify,
+  validate("revokeOtherSessions"),
+  async (req, res: RouteResponse<"revokeOtherSessions">) => {
+    try {
+      const { userId, sessionId } = (req as AuthenticatedRequest).session;
+      const revoked = await revokeUserSessions(userId, sessionId);
+      disconnectSessions(revoked);
+      res.json({ revoked: revoked.length });
+    } catch (error) {
+      console.error("sessions revoke error", error);
+      res.status(500).json({ error: "SESSIONS_REVOKE_FAILED" });
+    }
+  },
+);
+
+app.delete(
+  "/api/sessions/:sessionId",
+  verify,
+  validate("revokeSession"),
+  async (req, res: RouteResponse<"revokeSession">) => {
+    const { sessionId } = req.params;
+    try {
+      const session = req as AuthenticatedRequest;
+      if (!(await revokeSession(sessionId, session.session.userId))) {
+        return res.status(404).json({ error: "SESSION_NOT_FOUND" });
+      }
+      disconnectSessions([sessionId]);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("session revoke error", error);
+      res.status(500).json({ error: "SESSION_REVOKE_FAILED" });
+    }
+  },
+);
+
+app.post("/api/profile", verify, validate("updateProfile"), async (req, res: RouteResponse<"updateProfile">) => {
   try {
     const session = req as AuthenticatedRequest;
-    const { name, phone } = (req.body || {}) as { name?: string; phone?: string };
-    const user = await updateUserProfile(session.session.userId, { name, phone });
-    const token = signSession({
-      userId: user.id,
-      name: user.name,
-      phone: user.phone,
-      isAdmin: user.is_admin,
-    });
+    const { name, locale } = req.body;
+    const user = await updateUserProfile(session.session.userId, { name, locale });
     res.json({
-      token,
       userId: user.id,
       name: user.name,
       phone: user.phone,
-      isAdmin: user.is_admin,
+      locale: user.locale,
     });
   } catch (error) {
     console.error("profile error", error);
@@ -243,207 +1011,1678 @@ app.post("/api/profile", verify, async (req: Request, res: Response) => {
   }
 });
 
-app.get("/api/weeks/:weekKey", async (req, res) => {
-  const { weekKey } = req.params;
-  if (!weekKey) return res.status(400).json({ error: "WEEK_REQUIRED" });
-  const client = await pool.connect();
+app.get("/api/me/stats", verify, validate("myStats"), async (req, res: RouteResponse<"myStats">) => {
+  const groupId = req.query.groupId || null;
   try {
-    await client.query("BEGIN");
-    const week = await getWeek(client, weekKey);
-    await client.query("COMMIT");
-
-    const parts = await fetchParts(week.id);
-    res.json({ weekId: week.id, weekKey: week.key, parts });
+    const session = req as AuthenticatedRequest;
+    if (groupId && !(await getMembership(groupId, session.session.userId))) {
+      return res.status(403).json({ error: "NOT_MEMBER" });
+    }
+    res.json({ groupId, ...(await memberStats(session.session.userId, groupId)) });
   } catch (error) {
-    await client.query("ROLLBACK");
-    console.error("week fetch error", error);
-    res.status(500).json({ error: "WEEK_FETCH_FAILED" });
-  } finally {
-    client.release();
+    console.error("stats error", error);
+    res.status(500).json({ error: "STATS_FAILED" });
   }
 });
 
-app.post("/api/weeks/:weekId/parts/:number/claim", verify, async (req: Request, res: Response) => {
-  const { weekId, number } = req.params;
-  const n = Number(number);
-  if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
-  const profile = (req.body?.profile || {}) as { name?: string; phone?: string };
+app.get("/api/push/public-key", (_req: Request, res: RouteResponse<"pushPublicKey">) => {
+  const publicKey = vapidPublicKey();
+  if (!publicKey) return res.status(503).json({ error: "PUSH_DISABLED" });
+  res.json({ publicKey });
+});
 
-  const client = await pool.connect();
-  try {
-    const session = req as AuthenticatedRequest;
-    let user = await getUserById(session.session.userId);
-    if (profile.name || profile.phone) {
-      user = await updateUserProfile(user.id, profile);
-    }
-    await client.query("BEGIN");
-    const existing = await client.query<{ claimed_by: string | null }>(
-      "select claimed_by from parts where week_id=$1 and number=$2 for update",
-      [weekId, n],
-    );
-    if (!existing.rowCount) {
-      await client.query("ROLLBACK");
-      return res.status(404).json({ error: "PART_NOT_FOUND" });
-    }
-    if (existing.rows[0].claimed_by) {
-      await client.query("ROLLBACK");
-      return res.status(409).json({ error: "ALREADY_CLAIMED" });
+app.post(
+  "/api/push/subscriptions",
+  verify,
+  validate("subscribePush"),
+  async (req, res: RouteResponse<"subscribePush">) => {
+    const { endpoint, keys } = req.body;
+    try {
+      const session = req as AuthenticatedRequest;
+      await saveSubscription(session.session.userId, { endpoint, p256dh: keys.p256dh, auth: keys.auth });
+      res.status(201).json({ ok: true });
+    } catch (error) {
+      console.error("push subscribe error", error);
+      res.status(500).json({ error: "SUBSCRIBE_FAILED" });
     }
+  },
+);
 
-    const claimedName = profile.name?.trim() || user.name || null;
-
-    await client.query(
-      "update parts set claimed_by=$3, claimed_name=$4, claimed_at=now() where week_id=$1 and number=$2",
-      [weekId, n, user.id, claimedName],
-    );
-    await client.query("COMMIT");
+app.delete(
+  "/api/push/subscriptions",
+  verify,
+  validate("unsubscribePush"),
+  async (req, res: RouteResponse<"unsubscribePush">) => {
+    try {
+      const session = req as AuthenticatedRequest;
+      await deleteSubscription(session.session.userId, req.body.endpoint);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("push unsubscribe error", error);
+      res.status(500).json({ error: "UNSUBSCRIBE_FAILED" });
+    }
+  },
+);
 
-    const payload: PartRow = {
-      number: n,
-      claimed_by: user.id,
-      claimed_name: claimedName,
-      claimed_is_admin: user.is_admin,
-    };
-    broadcastPartUpdate(weekId, payload);
-    res.json(payload);
+app.get("/api/groups", verify, validate("listGroups"), async (req, res: RouteResponse<"listGroups">) => {
+  try {
+    const session = req as AuthenticatedRequest;
+    const groups = await listGroupsForUser(session.session.userId);
+    res.json({ groups: groups.map(serializeGroup) });
   } catch (error) {
-    await client.query("ROLLBACK");
-    console.error("claim error", error);
-    res.status(500).json({ error: "CLAIM_FAILED" });
-  } finally {
-    client.release();
+    console.error("groups list error", error);
+    res.status(500).json({ error: "GROUPS_FETCH_FAILED" });
   }
 });
 
-app.post("/api/weeks/:weekId/parts/:number/release", verify, async (req: Request, res: Response) => {
-  const { weekId, number } = req.params;
-  const n = Number(number);
-  if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
-
+app.post("/api/groups", verify, validate("createGroup"), async (req, res: RouteResponse<"createGroup">) => {
   const client = await pool.connect();
   try {
     const session = req as AuthenticatedRequest;
-    const user = await getUserById(session.session.userId);
     await client.query("BEGIN");
-    const existing = await client.query<{ claimed_by: string | null }>(
-      "select claimed_by from parts where week_id=$1 and number=$2 for update",
-      [weekId, n],
-    );
-    if (!existing.rowCount) {
-      await client.query("ROLLBACK");
-      return res.status(404).json({ error: "PART_NOT_FOUND" });
-    }
-    if (!existing.rows[0].claimed_by || existing.rows[0].claimed_by !== user.id) {
-      await client.query("ROLLBACK");
-      return res.status(403).json({ error: "NOT_OWNER" });
-    }
-
-    await client.query(
-      "update parts set claimed_by=null, claimed_name=null, claimed_at=null where week_id=$1 and number=$2",
-      [weekId, n],
-    );
+    const groupId = await createGroup(client, req.body.name, session.session.userId);
+    await getCurrentWeek(client, groupId);
     await client.query("COMMIT");
 
-    const payload: PartRow = { number: n, claimed_by: null, claimed_name: null, claimed_is_admin: null };
-    broadcastPartUpdate(weekId, payload);
-    res.json(payload);
+    const group = await getGroupForUser(groupId, session.session.userId);
+    res.status(201).json(serializeGroup(group!));
   } catch (error) {
     await client.query("ROLLBACK");
-    console.error("release error", error);
-    res.status(500).json({ error: "RELEASE_FAILED" });
+    console.error("group create error", error);
+    res.status(500).json({ error: "GROUP_CREATE_FAILED" });
   } finally {
     client.release();
   }
 });
 
-app.post("/api/weeks/:weekKey/reset", verify, async (req: Request, res: Response) => {
-  const { weekKey } = req.params;
-  if (!weekKey) return res.status(400).json({ error: "WEEK_REQUIRED" });
-
-  const profile = (req.body?.profile || {}) as { name?: string; phone?: string };
-  const client = await pool.connect();
+app.post("/api/groups/join", verify, validate("joinGroup"), async (req, res: RouteResponse<"joinGroup">) => {
+  const { inviteCode } = req.body;
   try {
     const session = req as AuthenticatedRequest;
-    let user = await getUserById(session.session.userId);
-    if (profile.name || profile.phone) {
-      user = await updateUserProfile(user.id, profile);
-    }
-    await client.query("BEGIN");
-    if (!user.is_admin) {
+    const user = await getUserById(session.session.userId);
+    const groupId = await joinGroupByInvite(inviteCode, user.id);
+    if (!groupId) return res.status(404).json({ error: "INVITE_CODE_INVALID" });
+
+    const group = await getGroupForUser(groupId, user.id);
+    res.json(serializeGroup(group!));
+  } catch (error) {
+    console.error("group join error", error);
+    res.status(500).json({ error: "GROUP_JOIN_FAILED" });
+  }
+});
+
+app.post(
+  "/api/groups/:groupId/invite-code",
+  verify,
+  validate("regenerateInviteCode"),
+  requirePermission("manage_invites"),
+  async (req, res) => {
+    const { groupId } = req.params;
+    try {
+      const inviteCode = await regenerateInviteCode(groupId);
+      res.json({ groupId, inviteCode });
+    } catch (error) {
+      console.error("invite code error", error);
+      res.status(500).json({ error: "INVITE_CODE_FAILED" });
+    }
+  },
+);
+
+app.patch(
+  "/api/groups/:groupId/calendar",
+  verify,
+  validate("setGroupCalendar"),
+  requirePermission("configure_week"),
+  async (req, res: RouteResponse<"setGroupCalendar">) => {
+    const { groupId } = req.params;
+    const { cycleUnit, cycleDays, hijriOffset } = req.body;
+    try {
+      const admin = (req as PermittedRequest).member;
+      // A day count only means something for day cycles; the others keep the default.
+      await setGroupCycle(groupId, { unit: cycleUnit, days: cycleUnit === "day" ? cycleDays : 1, hijriOffset });
+      const group = await getGroupForUser(groupId, admin.user_id);
+      res.json(serializeGroup(group!));
+    } catch (error) {
+      console.error("group calendar error", error);
+      res.status(500).json({ error: "CALENDAR_CHANGE_FAILED" });
+    }
+  },
+);
+
+app.get(
+  "/api/groups/:groupId/members",
+  verify,
+  validate("listMembers"),
+  requirePermission("assign_parts"),
+  async (req, res) => {
+    const { groupId } = req.params;
+    try {
+      const members = await listMembers(groupId);
+      res.json({
+        members: members.map((m) => ({ userId: m.user_id, name: m.name, phone: m.phone, role: m.role })),
+      });
+    } catch (error) {
+      console.error("members list error", error);
+      res.status(500).json({ error: "MEMBERS_FETCH_FAILED" });
+    }
+  },
+);
+
+app.get(
+  "/api/groups/:groupId/weeks/current",
+  verify,
+  validate("currentWeek"),
+  async (req, res: RouteResponse<"currentWeek">) => {
+    const { groupId } = req.params;
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      const member = await getMembership(groupId, session.session.userId, client);
+      if (!member) return res.status(403).json({ error: "NOT_MEMBER" });
+
+      await client.query("BEGIN");
+      const week = await getCurrentWeek(client, groupId);
+      await client.query("COMMIT");
+
+      const parts = await fetchParts(week.id);
+      res.json({ ...serializeWeek(week), parts });
+    } catch (error) {
       await client.query("ROLLBACK");
-      return res.status(403).json({ error: "NOT_ADMIN" });
+      console.error("current week error", error);
+      res.status(500).json({ error: "WEEK_FETCH_FAILED" });
+    } finally {
+      client.release();
     }
-    const week = await getWeek(client, weekKey);
-    await client.query(
-      "update parts set claimed_by=null, claimed_name=null, claimed_at=null where week_id=$1",
-      [week.id],
-    );
-    await client.query("COMMIT");
+  },
+);
+
+app.get(
+  "/api/groups/:groupId/weeks/:weekKey",
+  verify,
+  validate("groupWeek"),
+  async (req, res: RouteResponse<"groupWeek">) => {
+    const { groupId, weekKey } = req.params;
+    if (!weekKey) return res.status(400).json({ error: "WEEK_REQUIRED" });
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      const member = await getMembership(groupId, session.session.userId, client);
+      if (!member) return res.status(403).json({ error: "NOT_MEMBER" });
+
+      await client.query("BEGIN");
+      const week = await getWeek(client, groupId, weekKey);
+      await client.query("COMMIT");
+      if (!week) return res.status(404).json({ error: "WEEK_NOT_FOUND" });
+
+      const parts = await fetchParts(week.id);
+      res.json({ ...serializeWeek(week), parts });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("week fetch error", error);
+      res.status(500).json({ error: "WEEK_FETCH_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+type WeekListRow = DbWeekRow & { claimed_count: number; read_count: number };
+
+// A group's weeks, newest first, with how far each got.
+app.get("/api/weeks", verify, validate("listWeeks"), async (req, res: RouteResponse<"listWeeks">) => {
+  const { groupId, limit } = req.query;
+  const before = req.query.before ? new Date(req.query.before) : null;
 
-    const freshParts = await fetchParts(week.id);
-    io.to(week.id).emit("week:reset", { weekId: week.id, parts: freshParts });
-    res.json({ weekId: week.id, parts: freshParts });
+  try {
+    const session = req as AuthenticatedRequest;
+    const member = await getMembership(groupId, session.session.userId);
+    if (!member) return res.status(403).json({ error: "NOT_MEMBER" });
+
+    const { rows } = await pool.query<WeekListRow>(
+      `
+    select
+      ${WEEK_COLUMNS},
+      (select count(*)::int from parts p where p.week_id = w.id and p.claimed_by is not null) as claimed_count,
+      (select count(*)::int from parts p where p.week_id = w.id and p.completed_at is not null) as read_count
+    from weeks w
+    where w.group_id=$1 and w.starts_at is not null and ($2::timestamptz is null or w.starts_at < $2)
+    order by w.starts_at desc
+    limit $3
+    `,
+      [groupId, before, limit],
+    );
+    res.json({
+      weeks: rows.map((row) => ({
+        ...serializeWeek(toWeekInfo(row)),
+        claimedCount: row.claimed_count,
+        readCount: row.read_count,
+      })),
+      nextCursor: rows.length === limit ? rows[rows.length - 1].starts_at!.toISOString() : null,
+    });
   } catch (error) {
-    await client.query("ROLLBACK");
-    console.error("reset error", error);
-    res.status(500).json({ error: "RESET_FAILED" });
-  } finally {
-    client.release();
+    console.error("weeks list error", error);
+    res.status(500).json({ error: "WEEKS_FETCH_FAILED" });
   }
 });
 
-app.patch("/api/users/:userId/admin", verify, async (req: Request, res: Response) => {
-  const { userId } = req.params;
-  const { makeAdmin, weekId, partNumber } = (req.body || {}) as {
-    makeAdmin?: boolean;
-    weekId?: string;
-    partNumber?: number;
-  };
-  if (typeof makeAdmin !== "boolean") {
-    return res.status(400).json({ error: "INVALID_BODY" });
+app.get("/api/weeks/:weekId", verify, validate("getWeek"), async (req, res: RouteResponse<"getWeek">) => {
+  const { weekId } = req.params;
+  try {
+    const session = req as AuthenticatedRequest;
+    if (!(await canSeeWeek(weekId, session.session.userId))) return res.status(403).json({ error: "NOT_MEMBER" });
+
+    const week = await getWeekById(pool, weekId);
+    if (!week) return res.status(404).json({ error: "WEEK_NOT_FOUND" });
+    const parts = await fetchParts(weekId);
+    res.json({ ...serializeWeek(week), parts });
+  } catch (error) {
+    console.error("week fetch error", error);
+    res.status(500).json({ error: "WEEK_FETCH_FAILED" });
   }
+});
+
+// Everything a client that last saw `since` needs to catch up: the week itself and
+// the parts that changed after that revision.
+app.get(
+  "/api/weeks/:weekId/changes",
+  verify,
+  validate("weekChanges"),
+  async (req, res: RouteResponse<"weekChanges">) => {
+    const { weekId } = req.params;
+    const { since } = req.query;
+
+    try {
+      const session = req as AuthenticatedRequest;
+      if (!(await canSeeWeek(weekId, session.session.userId))) return res.status(403).json({ error: "NOT_MEMBER" });
+
+      // Week first: a change landing in between then shows up as a newer part, never a missed one.
+      const week = await getWeekById(pool, weekId);
+      if (!week) return res.status(404).json({ error: "WEEK_NOT_FOUND" });
+      const parts = await fetchPartsSince(weekId, since);
+      res.json({ ...serializeWeek(week), since, parts });
+    } catch (error) {
+      console.error("changes fetch error", error);
+      res.status(500).json({ error: "CHANGES_FETCH_FAILED" });
+    }
+  },
+);
+
+// The week's roster for sharing outside the app, in fetchParts order.
+app.get("/api/weeks/:weekId/roster", verify, rateLimit("roster"), validate("roster"), async (req, res: Response) => {
+  const { weekId } = req.params;
+  const { format } = req.query;
 
   try {
     const session = req as AuthenticatedRequest;
-    const actor = await getUserById(session.session.userId);
-    if (!actor.is_admin) {
-      return res.status(403).json({ error: "NOT_ADMIN" });
+    const week = await getWeekById(pool, weekId);
+    if (!week) return res.status(404).json({ error: "WEEK_NOT_FOUND" });
+    const group = await getGroupForUser(week.groupId, session.session.userId);
+    if (!group) return res.status(403).json({ error: "NOT_MEMBER" });
+
+    const parts = await fetchParts(weekId);
+    const roster = {
+      locale: await userLocale(session.session.userId),
+      groupName: group.name,
+      weekKey: week.key,
+      startsAt: week.startsAt,
+      endsAt: week.endsAt,
+      division: week.division,
+      title: week.title,
+      dedication: week.dedication,
+      hijriOffset: group.hijri_offset,
+    };
+    const filename = `khatma-${week.key}`;
+    if (format === "csv") {
+      res.type("text/csv; charset=utf-8");
+      res.attachment(`${filename}.csv`);
+      return res.send(rosterCsv(roster, parts));
     }
+    if (format === "png") {
+      res.type("image/png");
+      res.attachment(`${filename}.png`);
+      return res.send(await rosterPng(roster, parts));
+    }
+    res.type("text/plain; charset=utf-8");
+    res.send(rosterText(roster, parts));
+  } catch (error) {
+    console.error("roster export error", error);
+    res.status(500).json({ error: "ROSTER_EXPORT_FAILED" });
+  }
+});
 
-    const update = await pool.query<DbUserRow>(
-      "update users set is_admin=$2 where id=$1 returning id, name, phone, is_admin",
-      [userId, makeAdmin],
-    );
-    if (!update.rowCount) {
-      return res.status(404).json({ error: "USER_NOT_FOUND" });
+app.post(
+  "/api/weeks/:weekId/parts/:number/claim",
+  verify,
+  rateLimit("claim"),
+  validate("claimPart"),
+  async (req, res) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+    const profile = req.body.profile ?? {};
+
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      let user = await getUserById(session.session.userId);
+      if (profile.name || profile.phone) {
+        user = await updateUserProfile(user.id, profile);
+      }
+      await client.query("BEGIN");
+      const groupId = await getWeekGroupId(client, weekId);
+      const member = groupId ? await getMembership(groupId, user.id, client) : null;
+      if (!member) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_MEMBER" });
+      }
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<{ claimed_by: string | null }>(
+        "select claimed_by from parts where week_id=$1 and number=$2 for update",
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (existing.rows[0].claimed_by) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "ALREADY_CLAIMED" });
+      }
+      const refusal = await claimPolicyRefusal(client, weekId, user.id, isStaff(member.role));
+      if (refusal) {
+        await client.query("ROLLBACK");
+        return res.status(409).json(refusal);
+      }
+
+      const claimedName = profile.name?.trim() || user.name || null;
+
+      const claimed = await client.query<{ due_at: Date | null }>(
+        `
+      update parts p
+      set
+        claimed_by=$3,
+        claimed_name=$4,
+        claimed_at=now(),
+        due_at=least(w.claim_deadline, now() + make_interval(hours => w.claim_hold_hours)),
+        overdue_at=null,
+        on_behalf=false,
+        intention=null,
+        intention_public=false
+      from weeks w
+      where w.id = p.week_id and p.week_id=$1 and p.number=$2
+      returning p.due_at
+      `,
+        [weekId, n, user.id, claimedName],
+      );
+      const revision = await bumpRevision(client, weekId, [n]);
+      await recordAudit(client, {
+        groupId: member.group_id,
+        weekId,
+        partNumber: n,
+        actorId: user.id,
+        targetUserId: user.id,
+        action: "claim",
+        after: { claimedBy: user.id, claimedName },
+      });
+      await client.query("delete from part_waitlist where week_id=$1 and part_number=$2 and user_id=$3", [
+        weekId,
+        n,
+        user.id,
+      ]);
+      await client.query("COMMIT");
+
+      const payload: PartRow = {
+        ...emptyPart(n),
+        claimed_by: user.id,
+        claimed_name: claimedName,
+        claimed_is_admin: isStaff(member.role),
+        due_at: claimed.rows[0].due_at,
+        revision,
+      };
+      broadcastPartUpdate(weekId, payload);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("claim error", error);
+      res.status(500).json({ error: "CLAIM_FAILED" });
+    } finally {
+      client.release();
     }
+  },
+);
+
+app.post(
+  "/api/weeks/:weekId/parts/:number/release",
+  verify,
+  validate("releasePart"),
+  async (req, res: RouteResponse<"releasePart">) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
 
-    if (weekId && Number.isInteger(partNumber)) {
-      const part = await pool.query<PartRow>(
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      const user = await getUserById(session.session.userId);
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<HolderRow & { group_id: string }>(
         `
-        select
-          p.number,
-          p.claimed_by,
-          p.claimed_name,
-          u.is_admin as claimed_is_admin
-        from parts p
-        left join users u on u.id = p.claimed_by
-        where p.week_id=$1 and p.number=$2
-        `,
-        [weekId, partNumber],
+      select p.claimed_by, p.claimed_name, p.completed_at, p.on_behalf, w.group_id
+      from parts p
+      join weeks w on w.id = p.week_id
+      where p.week_id=$1 and p.number=$2
+      for update of p
+      `,
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (!existing.rows[0].claimed_by || existing.rows[0].claimed_by !== user.id) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_OWNER" });
+      }
+
+      await client.query(`update parts set ${CLEAR_CLAIM_SQL} where week_id=$1 and number=$2`, [weekId, n]);
+      await client.query("update weeks set completed_at=null where id=$1", [weekId]);
+      await recordAudit(client, {
+        groupId: existing.rows[0].group_id,
+        weekId,
+        partNumber: n,
+        actorId: user.id,
+        targetUserId: user.id,
+        action: "release",
+        before: holderState(existing.rows[0]),
+      });
+      const promoted = await promoteWaitlist(client, weekId, n);
+      const revision = await bumpRevision(client, weekId, [n]);
+      await client.query("COMMIT");
+
+      const payload = promoted ? (await fetchPart(weekId, n))! : emptyPart(n, revision);
+      broadcastPartUpdate(weekId, payload);
+      if (promoted) announceWaitlistAssignment(promoted, existing.rows[0].group_id, weekId, n);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("release error", error);
+      res.status(500).json({ error: "RELEASE_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+app.post(
+  "/api/weeks/:weekId/parts/:number/complete",
+  verify,
+  validate("completePart"),
+  async (req, res: RouteResponse<"completePart">) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+    const { completed } = req.body;
+
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<{ claimed_by: string | null }>(
+        "select claimed_by from parts where week_id=$1 and number=$2 for update",
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (existing.rows[0].claimed_by !== session.session.userId) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_OWNER" });
+      }
+
+      await client.query(
+        `
+      update parts set completed_at = case when $3 then coalesce(completed_at, now()) else null end
+      where week_id=$1 and number=$2
+      `,
+        [weekId, n, completed],
+      );
+      await bumpRevision(client, weekId, [n]);
+      // Lock the week row so two final parts finishing together announce the khatma only once.
+      const week = await client.query<{ completed_at: Date | null; remaining: number }>(
+        `
+      select
+        w.completed_at,
+        (select count(*)::int from parts p where p.week_id = w.id and p.completed_at is null) as remaining
+      from weeks w
+      where w.id=$1
+      for update
+      `,
+        [weekId],
+      );
+      const { completed_at: weekCompletedAt, remaining } = week.rows[0];
+      let khatmaCompletedAt: Date | null = null;
+      if (remaining === 0 && !weekCompletedAt) {
+        const update = await client.query<{ completed_at: Date }>(
+          "update weeks set completed_at=now() where id=$1 returning completed_at",
+          [weekId],
+        );
+        khatmaCompletedAt = update.rows[0].completed_at;
+      } else if (remaining > 0 && weekCompletedAt) {
+        await client.query("update weeks set completed_at=null where id=$1", [weekId]);
+      }
+      await client.query("COMMIT");
+
+      const payload = (await fetchPart(weekId, n))!;
+      io.to(weekRoom(weekId)).emit("part:completed", payload);
+      if (khatmaCompletedAt) {
+        io.to(weekRoom(weekId)).emit("week:completed", { weekId, completedAt: khatmaCompletedAt.toISOString() });
+        notifyKhatmaCompleted(weekId).catch((error) => console.error("khatma completed push error", error));
+      }
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("complete error", error);
+      res.status(500).json({ error: "COMPLETE_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// The holder's own intention for their part. Public ones go out with the part;
+// private ones only come back to the holder.
+app.patch(
+  "/api/weeks/:weekId/parts/:number/intention",
+  verify,
+  validate("setIntention"),
+  async (req, res: RouteResponse<"setIntention">) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || !Number.isInteger(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+    const { isPublic } = req.body;
+    const intention = req.body.text || null;
+
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<HolderRow>(
+        `select ${HOLDER_COLUMNS} from parts where week_id=$1 and number=$2 for update`,
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (existing.rows[0].claimed_by !== session.session.userId || existing.rows[0].on_behalf) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_OWNER" });
+      }
+      await client.query("update parts set intention=$3, intention_public=$4 where week_id=$1 and number=$2", [
+        weekId,
+        n,
+        intention,
+        Boolean(intention) && isPublic,
+      ]);
+      await bumpRevision(client, weekId, [n]);
+      await client.query("COMMIT");
+
+      broadcastPartUpdate(weekId, (await fetchPart(weekId, n))!);
+      res.json({ number: n, text: intention, isPublic: Boolean(intention) && isPublic });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("intention error", error);
+      res.status(500).json({ error: "INTENTION_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+app.get(
+  "/api/weeks/:weekId/intentions",
+  verify,
+  validate("myIntentions"),
+  async (req, res: RouteResponse<"myIntentions">) => {
+    const { weekId } = req.params;
+    try {
+      const session = req as AuthenticatedRequest;
+      const { rows } = await pool.query<{ number: number; text: string; isPublic: boolean }>(
+        `
+      select number, intention as text, intention_public as "isPublic"
+      from parts
+      where week_id=$1 and claimed_by=$2 and not on_behalf and intention is not null
+      order by number
+      `,
+        [weekId, session.session.userId],
+      );
+      res.json({ intentions: rows });
+    } catch (error) {
+      console.error("intentions fetch error", error);
+      res.status(500).json({ error: "INTENTIONS_FETCH_FAILED" });
+    }
+  },
+);
+
+app.post(
+  "/api/weeks/:weekId/parts/:number/admin/release",
+  verify,
+  validate("forceRelease"),
+  requirePermission("assign_parts"),
+  async (req, res) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+
+    const admin = (req as PermittedRequest).member;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<HolderRow>(
+        `select ${HOLDER_COLUMNS} from parts where week_id=$1 and number=$2 for update`,
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (!existing.rows[0].claimed_by) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "NOT_CLAIMED" });
+      }
+
+      await client.query(`update parts set ${CLEAR_CLAIM_SQL} where week_id=$1 and number=$2`, [weekId, n]);
+      await client.query("update weeks set completed_at=null where id=$1", [weekId]);
+      await recordAudit(client, {
+        groupId: admin.group_id,
+        weekId,
+        partNumber: n,
+        actorId: admin.user_id,
+        targetUserId: existing.rows[0].on_behalf ? null : existing.rows[0].claimed_by,
+        action: "force_release",
+        before: holderState(existing.rows[0]),
+      });
+      const promoted = await promoteWaitlist(client, weekId, n);
+      const revision = await bumpRevision(client, weekId, [n]);
+      await client.query("COMMIT");
+
+      const payload = promoted ? (await fetchPart(weekId, n))! : emptyPart(n, revision);
+      broadcastPartUpdate(weekId, payload);
+      if (promoted) announceWaitlistAssignment(promoted, admin.group_id, weekId, n);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("admin release error", error);
+      res.status(500).json({ error: "RELEASE_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Hands a part to an existing member (userId) or, for someone without an account,
+// books it under the acting admin with the reader's name (name).
+app.post(
+  "/api/weeks/:weekId/parts/:number/admin/assign",
+  verify,
+  validate("assignPart"),
+  requirePermission("assign_parts"),
+  async (req, res) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || Number.isNaN(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+    const { userId, name: guestName } = req.body;
+
+    const admin = (req as PermittedRequest).member;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+
+      let holderId = admin.user_id;
+      let holderName = guestName ?? null;
+      const onBehalf = !userId;
+      if (userId) {
+        const assignee = await getMembership(admin.group_id, userId, client);
+        if (!assignee) {
+          await client.query("ROLLBACK");
+          return res.status(404).json({ error: "MEMBER_NOT_FOUND" });
+        }
+        const user = await getUserById(userId, client);
+        holderId = user.id;
+        holderName = user.name;
+      }
+
+      const existing = await client.query<HolderRow>(
+        `select ${HOLDER_COLUMNS} from parts where week_id=$1 and number=$2 for update`,
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+
+      await client.query(
+        `
+      update parts p
+      set
+        claimed_by=$3,
+        claimed_name=$4,
+        claimed_at=now(),
+        completed_at=null,
+        due_at=least(w.claim_deadline, now() + make_interval(hours => w.claim_hold_hours)),
+        overdue_at=null,
+        on_behalf=$5,
+        intention=null,
+        intention_public=false
+      from weeks w
+      where w.id = p.week_id and p.week_id=$1 and p.number=$2
+      `,
+        [weekId, n, holderId, holderName, onBehalf],
+      );
+      await client.query("update weeks set completed_at=null where id=$1", [weekId]);
+      await bumpRevision(client, weekId, [n]);
+      await recordAudit(client, {
+        groupId: admin.group_id,
+        weekId,
+        partNumber: n,
+        actorId: admin.user_id,
+        targetUserId: userId ?? null,
+        action: "assign",
+        before: holderState(existing.rows[0]),
+        after: { claimedBy: holderId, claimedName: holderName, onBehalf },
+      });
+      if (userId) {
+        await client.query("delete from part_waitlist where week_id=$1 and part_number=$2 and user_id=$3", [
+          weekId,
+          n,
+          userId,
+        ]);
+      }
+      await client.query("COMMIT");
+
+      const payload = (await fetchPart(weekId, n))!;
+      broadcastPartUpdate(weekId, payload);
+      if (userId && userId !== admin.user_id) {
+        io.to(userRoom(userId)).emit("part:assigned", { groupId: admin.group_id, weekId, number: n });
+        notifyPartAssigned(userId, weekId, n).catch((error) => console.error("part assigned push error", error));
+      }
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("admin assign error", error);
+      res.status(500).json({ error: "ASSIGN_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Joins the queue for a part someone else holds. Locks the part so a release that
+// lands at the same moment either frees it first (PART_AVAILABLE) or promotes us.
+app.post(
+  "/api/weeks/:weekId/parts/:number/waitlist",
+  verify,
+  validate("joinWaitlist"),
+  async (req, res: RouteResponse<"joinWaitlist">) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || !Number.isInteger(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      const userId = session.session.userId;
+      await client.query("BEGIN");
+      const groupId = await getWeekGroupId(client, weekId);
+      if (!groupId || !(await getMembership(groupId, userId, client))) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_MEMBER" });
+      }
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const existing = await client.query<HolderRow>(
+        `select ${HOLDER_COLUMNS} from parts where week_id=$1 and number=$2 for update`,
+        [weekId, n],
+      );
+      if (!existing.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      const holder = existing.rows[0];
+      if (!holder.claimed_by) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "PART_AVAILABLE" });
+      }
+      if (holder.claimed_by === userId && !holder.on_behalf) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "ALREADY_HOLDER" });
+      }
+      await client.query(
+        "insert into part_waitlist (week_id, part_number, user_id) values ($1, $2, $3) on conflict do nothing",
+        [weekId, n, userId],
+      );
+      await client.query("COMMIT");
+
+      const entry = (await listWaitlist(weekId, userId)).find((row) => row.number === n);
+      res.json(entry ?? { number: n, position: 1 });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("waitlist join error", error);
+      res.status(500).json({ error: "WAITLIST_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+app.delete(
+  "/api/weeks/:weekId/parts/:number/waitlist",
+  verify,
+  validate("leaveWaitlist"),
+  async (req, res: RouteResponse<"leaveWaitlist">) => {
+    const { weekId, number } = req.params;
+    const n = Number(number);
+    if (!weekId || !Number.isInteger(n)) return res.status(400).json({ error: "BAD_REQUEST" });
+
+    try {
+      const session = req as AuthenticatedRequest;
+      await pool.query("delete from part_waitlist where week_id=$1 and part_number=$2 and user_id=$3", [
+        weekId,
+        n,
+        session.session.userId,
+      ]);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("waitlist leave error", error);
+      res.status(500).json({ error: "WAITLIST_FAILED" });
+    }
+  },
+);
+
+app.get(
+  "/api/weeks/:weekId/waitlist",
+  verify,
+  validate("myWaitlist"),
+  async (req, res: RouteResponse<"myWaitlist">) => {
+    const { weekId } = req.params;
+    try {
+      const session = req as AuthenticatedRequest;
+      if (!(await canSeeWeek(weekId, session.session.userId))) return res.status(403).json({ error: "NOT_MEMBER" });
+      res.json({ entries: await listWaitlist(weekId, session.session.userId) });
+    } catch (error) {
+      console.error("waitlist fetch error", error);
+      res.status(500).json({ error: "WAITLIST_FETCH_FAILED" });
+    }
+  },
+);
+
+// Swappable parts are held by a member for themselves and not read yet; a part booked
+// for a guest has nobody who could answer the proposal.
+function swapRefusal(part: HolderRow | undefined, holderId: string): "SWAP_UNAVAILABLE" | "PART_COMPLETED" | null {
+  if (!part || part.claimed_by !== holderId || part.on_behalf) return "SWAP_UNAVAILABLE";
+  if (part.completed_at) return "PART_COMPLETED";
+  return null;
+}
+
+// Both parts locked in number order, the same order whichever side starts the swap.
+async function lockSwapParts(client: PoolClient, weekId: string, a: number, b: number) {
+  const { rows } = await client.query<HolderRow & { number: number }>(
+    `select number, ${HOLDER_COLUMNS} from parts where week_id=$1 and number = any($2::int[]) order by number for update`,
+    [weekId, [a, b]],
+  );
+  return new Map(rows.map((row) => [row.number, row]));
+}
+
+app.post(
+  "/api/weeks/:weekId/swaps",
+  verify,
+  validate("proposeSwap"),
+  async (req, res: RouteResponse<"proposeSwap">) => {
+    const { weekId } = req.params;
+    const { offerNumber: offer, wantNumber: want } = req.body;
+
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      const userId = session.session.userId;
+      await client.query("BEGIN");
+      const groupId = await getWeekGroupId(client, weekId);
+      if (!groupId || !(await getMembership(groupId, userId, client))) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_MEMBER" });
+      }
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const parts = await lockSwapParts(client, weekId, offer, want);
+      const offered = parts.get(offer);
+      const wanted = parts.get(want);
+      if (!offered || !wanted) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "PART_NOT_FOUND" });
+      }
+      if (offered.claimed_by !== userId || offered.on_behalf) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "NOT_OWNER" });
+      }
+      const refusal = offered.completed_at
+        ? "PART_COMPLETED"
+        : wanted.claimed_by && wanted.claimed_by !== userId
+          ? swapRefusal(wanted, wanted.claimed_by)
+          : "SWAP_UNAVAILABLE";
+      if (refusal) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: refusal });
+      }
+      const inserted = await client.query<{ id: string }>(
+        `
+      insert into swap_requests (week_id, from_user, from_number, to_user, to_number)
+      values ($1, $2, $3, $4, $5)
+      on conflict (week_id, from_number, to_number) where status = 'pending' do nothing
+      returning id
+      `,
+        [weekId, userId, offer, wanted.claimed_by, want],
       );
-      if (part.rowCount) {
-        broadcastPartUpdate(weekId, part.rows[0]);
+      if (!inserted.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "SWAP_EXISTS" });
       }
+      await client.query("COMMIT");
+
+      const swapId = inserted.rows[0].id;
+      io.to(userRoom(wanted.claimed_by!)).emit("swap:requested", { groupId, weekId, swapId });
+      notifySwapRequested(wanted.claimed_by!, weekId, offered.claimed_name, offer, want).catch((error) =>
+        console.error("swap push error", error),
+      );
+      res.json({ id: swapId, offerNumber: offer, wantNumber: want });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("swap request error", error);
+      res.status(500).json({ error: "SWAP_FAILED" });
+    } finally {
+      client.release();
     }
+  },
+);
 
-    res.json({ userId, isAdmin: update.rows[0].is_admin });
+app.get("/api/weeks/:weekId/swaps", verify, validate("listSwaps"), async (req, res: RouteResponse<"listSwaps">) => {
+  const { weekId } = req.params;
+  try {
+    const session = req as AuthenticatedRequest;
+    if (!(await canSeeWeek(weekId, session.session.userId))) return res.status(403).json({ error: "NOT_MEMBER" });
+    res.json(await listPendingSwaps(weekId, session.session.userId));
   } catch (error) {
-    console.error("admin toggle error", error);
-    res.status(500).json({ error: "ADMIN_TOGGLE_FAILED" });
+    console.error("swaps fetch error", error);
+    res.status(500).json({ error: "SWAPS_FETCH_FAILED" });
   }
 });
 
-httpServer.listen(PORT, () => {
-  console.log(`api listening on ${PORT}`);
+// Accepting swaps the two holders in one transaction. A proposal whose parts changed
+// hands or were read since it was sent is marked stale instead.
+app.post("/api/swaps/:swapId/accept", verify, validate("acceptSwap"), async (req, res: RouteResponse<"acceptSwap">) => {
+  const { swapId } = req.params;
+  const client = await pool.connect();
+  try {
+    const session = req as AuthenticatedRequest;
+    const userId = session.session.userId;
+    await client.query("BEGIN");
+    const found = await client.query<SwapRow>(
+      "select id, week_id, from_user, from_number, to_user, to_number, status from swap_requests where id=$1 for update",
+      [swapId],
+    );
+    const swap = found.rows[0];
+    if (!swap) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "SWAP_NOT_FOUND" });
+    }
+    if (swap.to_user !== userId) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "NOT_RECIPIENT" });
+    }
+    if (swap.status !== "pending") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "SWAP_NOT_PENDING" });
+    }
+    const weekId = swap.week_id;
+    if (await isWeekClosed(client, weekId)) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "WEEK_CLOSED" });
+    }
+    const parts = await lockSwapParts(client, weekId, swap.from_number, swap.to_number);
+    const offered = parts.get(swap.from_number);
+    const wanted = parts.get(swap.to_number);
+    if (swapRefusal(offered, swap.from_user) || swapRefusal(wanted, swap.to_user)) {
+      await client.query("update swap_requests set status='stale', decided_at=now() where id=$1", [swapId]);
+      await client.query("COMMIT");
+      io.to(weekRoom(weekId)).emit("swaps:changed", { weekId });
+      return res.status(409).json({ error: "SWAP_STALE" });
+    }
+
+    const moves = [
+      { number: swap.from_number, from: offered!, to: { id: swap.to_user, name: wanted!.claimed_name } },
+      { number: swap.to_number, from: wanted!, to: { id: swap.from_user, name: offered!.claimed_name } },
+    ];
+    const groupId = (await getWeekGroupId(client, weekId))!;
+    const revisions: number[] = [];
+    for (const move of moves) {
+      await client.query(
+        `
+      update parts p
+      set
+        claimed_by=$3,
+        claimed_name=$4,
+        claimed_at=now(),
+        due_at=least(w.claim_deadline, now() + make_interval(hours => w.claim_hold_hours)),
+        overdue_at=null,
+        on_behalf=false,
+        intention=null,
+        intention_public=false
+      from weeks w
+      where w.id = p.week_id and p.week_id=$1 and p.number=$2
+      `,
+        [weekId, move.number, move.to.id, move.to.name],
+      );
+      await recordAudit(client, {
+        groupId,
+        weekId,
+        partNumber: move.number,
+        actorId: userId,
+        targetUserId: move.to.id,
+        action: "swap",
+        before: holderState(move.from),
+        after: { claimedBy: move.to.id, claimedName: move.to.name },
+      });
+      // One revision per part, so the two broadcasts below are single steps for the client.
+      revisions.push(await bumpRevision(client, weekId, [move.number]));
+    }
+    await client.query("update swap_requests set status='accepted', decided_at=now() where id=$1", [swapId]);
+    // Other proposals about either part no longer describe who holds what.
+    await client.query(
+      `
+    update swap_requests set status='stale', decided_at=now()
+    where week_id=$1 and status='pending' and id<>$2
+      and (from_number = any($3::int[]) or to_number = any($3::int[]))
+    `,
+      [weekId, swapId, [swap.from_number, swap.to_number]],
+    );
+    await client.query("COMMIT");
+
+    const payloads: PartRow[] = [];
+    for (const move of moves) {
+      const part = (await fetchPart(weekId, move.number))!;
+      broadcastPartUpdate(weekId, part);
+      payloads.push(part);
+    }
+    io.to(weekRoom(weekId)).emit("swaps:changed", { weekId });
+    res.json({ parts: payloads });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("swap accept error", error);
+    res.status(500).json({ error: "SWAP_FAILED" });
+  } finally {
+    client.release();
+  }
 });
+
+// The recipient declines, or the sender withdraws, a proposal that is still pending.
+async function closeSwap(
+  req: Request,
+  res: RouteResponse<"declineSwap" | "cancelSwap">,
+  status: "declined" | "cancelled",
+) {
+  const { swapId } = req.params;
+  try {
+    const session = req as AuthenticatedRequest;
+    const column = status === "declined" ? "to_user" : "from_user";
+    const { rows } = await pool.query<{ week_id: string }>(
+      `
+      update swap_requests set status=$3, decided_at=now()
+      where id=$1 and ${column}=$2 and status='pending'
+      returning week_id
+      `,
+      [swapId, session.session.userId, status],
+    );
+    if (!rows.length) return res.status(404).json({ error: "SWAP_NOT_FOUND" });
+    io.to(weekRoom(rows[0].week_id)).emit("swaps:changed", { weekId: rows[0].week_id });
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("swap close error", error);
+    res.status(500).json({ error: "SWAP_FAILED" });
+  }
+}
+
+app.post("/api/swaps/:swapId/decline", verify, validate("declineSwap"), (req, res) => closeSwap(req, res, "declined"));
+app.post("/api/swaps/:swapId/cancel", verify, validate("cancelSwap"), (req, res) => closeSwap(req, res, "cancelled"));
+
+app.patch(
+  "/api/weeks/:weekId/claim-rules",
+  verify,
+  validate("setClaimRules"),
+  requirePermission("configure_week"),
+  async (req, res) => {
+    const { weekId } = req.params;
+    const claimDeadline = req.body.claimDeadline ? new Date(req.body.claimDeadline) : null;
+    const claimHoldHours = req.body.claimHoldHours ?? null;
+    const { overdueAction } = req.body;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+
+      await client.query(
+        "update weeks set claim_deadline=$2, claim_hold_hours=$3, overdue_action=$4 where id=$1",
+        [weekId, claimDeadline, claimHoldHours, overdueAction],
+      );
+      // Outstanding claims follow the new rules; the scheduler re-flags anything still late.
+      const rescheduled = await client.query<{ number: number }>(
+        `
+      update parts p
+      set
+        due_at=least(w.claim_deadline, p.claimed_at + make_interval(hours => w.claim_hold_hours)),
+        overdue_at=null
+      from weeks w
+      where w.id = p.week_id and p.week_id=$1 and p.claimed_by is not null and p.completed_at is null
+      returning p.number
+      `,
+        [weekId],
+      );
+      await bumpRevision(
+        client,
+        weekId,
+        rescheduled.rows.map((row) => row.number),
+      );
+      await client.query("COMMIT");
+
+      // Claims the new rules already make late are flagged or freed before the week is read
+      // back, so week:updated carries the sweep's revision and boards don't drop it as stale.
+      // The rules are committed either way; the scheduler retries a failed sweep.
+      await processOverdueClaims().catch((error) => console.error("claim expiry error", error));
+      const week = (await getWeekById(pool, weekId))!;
+      const parts = await fetchParts(weekId);
+      const payload = { ...serializeWeek(week), parts };
+      io.to(weekRoom(weekId)).emit("week:updated", payload);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("claim rules error", error);
+      res.status(500).json({ error: "CLAIM_RULES_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Fair-share policies for members' own claims. Parts already held stay put; the
+// policies only decide later claims.
+app.patch(
+  "/api/weeks/:weekId/claim-policy",
+  verify,
+  validate("setClaimPolicy"),
+  requirePermission("configure_week"),
+  async (req, res) => {
+    const { weekId } = req.params;
+    const maxPartsPerUser = req.body.maxPartsPerUser ?? null;
+    const firstClaimHours = req.body.firstClaimHours ?? null;
+    const { adminsExempt } = req.body;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      await client.query(
+        "update weeks set max_parts_per_user=$2, first_claim_hours=$3, admins_exempt=$4 where id=$1",
+        [weekId, maxPartsPerUser, firstClaimHours, adminsExempt],
+      );
+      await bumpRevision(client, weekId, []);
+      await client.query("COMMIT");
+
+      const week = (await getWeekById(pool, weekId))!;
+      const parts = await fetchParts(weekId);
+      const payload = { ...serializeWeek(week), parts };
+      io.to(weekRoom(weekId)).emit("week:updated", payload);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("claim policy error", error);
+      res.status(500).json({ error: "CLAIM_POLICY_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Admin-written text shown with the week: empty strings clear a field.
+app.patch(
+  "/api/weeks/:weekId/details",
+  verify,
+  validate("setWeekDetails"),
+  requirePermission("configure_week"),
+  async (req, res) => {
+    const { weekId } = req.params;
+    const details: Partial<Record<"title" | "dedication" | "closingDua", string | null>> = {};
+    for (const field of ["title", "dedication", "closingDua"] as const) {
+      if (req.body[field] !== undefined) details[field] = req.body[field] || null;
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      await client.query(
+        `
+      update weeks
+      set
+        title = case when $2 then $3 else title end,
+        dedication = case when $4 then $5 else dedication end,
+        closing_dua = case when $6 then $7 else closing_dua end
+      where id=$1
+      `,
+        [
+          weekId,
+          "title" in details,
+          details.title ?? null,
+          "dedication" in details,
+          details.dedication ?? null,
+          "closingDua" in details,
+          details.closingDua ?? null,
+        ],
+      );
+      await bumpRevision(client, weekId, []);
+      await client.query("COMMIT");
+
+      const week = (await getWeekById(pool, weekId))!;
+      const parts = await fetchParts(weekId);
+      const payload = { ...serializeWeek(week), parts };
+      io.to(weekRoom(weekId)).emit("week:updated", payload);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("week details error", error);
+      res.status(500).json({ error: "WEEK_DETAILS_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Re-splits a week that nobody has claimed anything in yet; later weeks follow it.
+app.patch(
+  "/api/weeks/:weekId/division",
+  verify,
+  validate("setDivision"),
+  requirePermission("configure_week"),
+  async (req, res) => {
+    const { weekId } = req.params;
+    const { division } = req.body;
+
+    const admin = (req as PermittedRequest).member;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      if (await isWeekClosed(client, weekId)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const current = await client.query<{ division: Division }>("select division from weeks where id=$1 for update", [
+        weekId,
+      ]);
+      const before = current.rows[0].division;
+      if (before !== division) {
+        const held = await client.query("select 1 from parts where week_id=$1 and claimed_by is not null for update", [
+          weekId,
+        ]);
+        if (held.rowCount) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: "PARTS_CLAIMED" });
+        }
+        await client.query("delete from parts where week_id=$1", [weekId]);
+        await client.query("delete from part_waitlist where week_id=$1", [weekId]);
+        await client.query("insert into parts (week_id, number) select $1, n from generate_series(1, $2::int) as n", [
+          weekId,
+          unitCount(division),
+        ]);
+        await client.query("update weeks set division=$2, completed_at=null where id=$1", [weekId, division]);
+        await bumpRevision(client, weekId);
+        await recordAudit(client, {
+          groupId: admin.group_id,
+          weekId,
+          actorId: admin.user_id,
+          action: "set_division",
+          before: { division: before },
+          after: { division },
+        });
+      }
+      await client.query("COMMIT");
+
+      const week = (await getWeekById(pool, weekId))!;
+      const parts = await fetchParts(weekId);
+      const payload = { ...serializeWeek(week), parts };
+      if (before !== division) io.to(weekRoom(weekId)).emit("week:updated", payload);
+      res.json(payload);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("division change error", error);
+      res.status(500).json({ error: "DIVISION_CHANGE_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+app.post(
+  "/api/groups/:groupId/weeks/:weekKey/reset",
+  verify,
+  validate("resetWeek"),
+  requirePermission("reset_week"),
+  async (req, res) => {
+    const { groupId, weekKey } = req.params;
+    if (!weekKey) return res.status(400).json({ error: "WEEK_REQUIRED" });
+
+    const profile = req.body.profile ?? {};
+    const client = await pool.connect();
+    try {
+      const session = req as AuthenticatedRequest;
+      let user = await getUserById(session.session.userId);
+      if (profile.name || profile.phone) {
+        user = await updateUserProfile(user.id, profile);
+      }
+      await client.query("BEGIN");
+      const week = await getWeek(client, groupId, weekKey);
+      if (!week) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "WEEK_NOT_FOUND" });
+      }
+      if (await isWeekClosed(client, week.id)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "WEEK_CLOSED" });
+      }
+      const held = await client.query<HolderRow & { number: number }>(
+        `select number, ${HOLDER_COLUMNS} from parts where week_id=$1 and claimed_by is not null order by number for update`,
+        [week.id],
+      );
+      // Keep every claim before clearing it, read or not, so history and statistics survive the reset.
+      await client.query(
+        `
+      insert into archived_readings
+        (week_id, part_number, user_id, reader_name, on_behalf, claimed_at, completed_at, division)
+      select p.week_id, p.number, p.claimed_by, p.claimed_name, p.on_behalf, p.claimed_at, p.completed_at, w.division
+      from parts p join weeks w on w.id = p.week_id
+      where p.week_id=$1 and p.claimed_by is not null
+      `,
+        [week.id],
+      );
+      await client.query(`update parts set ${CLEAR_CLAIM_SQL} where week_id=$1`, [week.id]);
+      // Every part is free again, so nobody is waiting and nothing is left to swap.
+      await client.query("delete from part_waitlist where week_id=$1", [week.id]);
+      await client.query(
+        "update swap_requests set status='stale', decided_at=now() where week_id=$1 and status='pending'",
+        [week.id],
+      );
+      await client.query("update weeks set completed_at=null where id=$1", [week.id]);
+      const revision = await bumpRevision(client, week.id);
+      await recordAudit(client, {
+        groupId,
+        weekId: week.id,
+        actorId: user.id,
+        action: "reset",
+        before: held.rows.map((row) => ({ number: row.number, ...holderState(row) })),
+      });
+      await client.query("COMMIT");
+
+      const freshParts = await fetchParts(week.id);
+      io.to(weekRoom(week.id)).emit("week:reset", { weekId: week.id, revision, parts: freshParts });
+      res.json({ weekId: week.id, revision, parts: freshParts });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("reset error", error);
+      res.status(500).json({ error: "RESET_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// Owners hand out roles. A group always keeps at least one owner, so the last one
+// cannot be demoted; all owner rows are locked to make that count reliable.
+app.patch(
+  "/api/groups/:groupId/members/:userId/role",
+  verify,
+  validate("setMemberRole"),
+  requirePermission("manage_roles"),
+  async (req, res) => {
+    const { groupId, userId } = req.params;
+    const { role } = req.body;
+
+    const actor = (req as PermittedRequest).member;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const owners = await client.query<{ user_id: string }>(
+        "select user_id from group_members where group_id=$1 and role='owner' for update",
+        [groupId],
+      );
+      const current = await client.query<{ role: Role }>(
+        "select role from group_members where group_id=$1 and user_id=$2 for update",
+        [groupId, userId],
+      );
+      if (!current.rowCount) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "MEMBER_NOT_FOUND" });
+      }
+      const before = current.rows[0].role;
+      if (before === "owner" && role !== "owner" && owners.rowCount === 1) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "LAST_OWNER" });
+      }
+      if (before === role) {
+        await client.query("ROLLBACK");
+        return res.json({ groupId, userId, role });
+      }
+
+      await client.query("update group_members set role=$3 where group_id=$1 and user_id=$2", [groupId, userId, role]);
+      await recordAudit(client, {
+        groupId,
+        actorId: actor.user_id,
+        targetUserId: userId,
+        action: "set_role",
+        before: { role: before },
+        after: { role },
+      });
+      // The admin star shows on every part the member holds in the group's open weeks.
+      const held = await client.query<{ week_id: string; number: number }>(
+        `
+      select p.week_id, p.number
+      from parts p
+      join weeks w on w.id = p.week_id
+      where w.group_id=$1 and p.claimed_by=$2 and not p.on_behalf and (w.ends_at is null or w.ends_at > now())
+      order by p.week_id, p.number
+      `,
+        [groupId, userId],
+      );
+      for (const row of held.rows) {
+        await bumpRevision(client, row.week_id, [row.number]);
+      }
+      await client.query("COMMIT");
+
+      for (const row of held.rows) {
+        const part = await fetchPart(row.week_id, row.number);
+        if (part) broadcastPartUpdate(row.week_id, part);
+      }
+      res.json({ groupId, userId, role });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("role change error", error);
+      res.status(500).json({ error: "ROLE_CHANGE_FAILED" });
+    } finally {
+      client.release();
+    }
+  },
+);
+
+// For a member who lost a phone or whose account was misused: every device they are
+// signed in on has to log in again with a fresh code.
+app.delete(
+  "/api/groups/:groupId/members/:userId/sessions",
+  verify,
+  validate("revokeMemberSessions"),
+  requirePermission("revoke_sessions"),
+  async (req, res) => {
+    const { groupId, userId } = req.params;
+    try {
+      const actor = (req as PermittedRequest).member;
+      if (!(await getMembership(groupId, userId))) return res.status(404).json({ error: "MEMBER_NOT_FOUND" });
+
+      const revoked = await revokeUserSessions(userId);
+      await recordAudit(pool, {
+        groupId,
+        actorId: actor.user_id,
+        targetUserId: userId,
+        action: "revoke_sessions",
+        after: { revoked: revoked.length },
+      });
+      disconnectSessions(revoked);
+      res.json({ revoked: revoked.length });
+    } catch (error) {
+      console.error("member sessions revoke error", error);
+      res.status(500).json({ error: "SESSIONS_REVOKE_FAILED" });
+    }
+  },
+);
+
+app.get(
+  "/api/groups/:groupId/audit",
+  verify,
+  validate("auditLog"),
+  requirePermission("view_audit"),
+  async (req, res) => {
+    const { groupId } = req.params;
+    const { action, limit } = req.query;
+
+    try {
+      const rows = await listAudit(groupId, {
+        action,
+        actorId: req.query.actorId || undefined,
+        weekId: req.query.weekId || undefined,
+        partNumber: req.query.part,
+        before: req.query.before,
+        limit,
+      });
+      res.json({
+        entries: rows.map((row) => ({
+          id: row.id,
+          action: row.action,
+          weekId: row.week_id,
+          weekKey: row.week_key,
+          division: row.division,
+          partNumber: row.part_number,
+          actorId: row.actor_id,
+          actorName: row.actor_name,
+          targetUserId: row.target_user_id,
+          targetName: row.target_name,
+          before: row.before,
+          after: row.after,
+          createdAt: row.created_at,
+        })),
+        nextCursor: rows.length === limit ? rows[rows.length - 1].id : null,
+      });
+    } catch (error) {
+      console.error("audit fetch error", error);
+      res.status(500).json({ error: "AUDIT_FETCH_FAILED" });
+    }
+  },
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REPORT_DEFAULT_DAYS = 90;
+const REPORT_MAX_DAYS = 366 * 2;
+
+function parseDay(raw: string): Date | null {
+  const day = new Date(`${raw}T00:00:00Z`);
+  return Number.isNaN(day.getTime()) ? null : day;
+}
+
+// Both ends are calendar days and inclusive; without them the last 90 days are reported.
+app.get(
+  "/api/groups/:groupId/reports/participation",
+  verify,
+  validate("participationReport"),
+  requirePermission("view_reports"),
+  async (req, res) => {
+    const { groupId } = req.params;
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    const to = req.query.to === undefined ? today : parseDay(req.query.to);
+    const from =
+      req.query.from === undefined
+        ? to && new Date(to.getTime() - REPORT_DEFAULT_DAYS * DAY_MS)
+        : parseDay(req.query.from);
+    if (!from || !to || from > to || to.getTime() - from.getTime() > REPORT_MAX_DAYS * DAY_MS) {
+      return res.status(400).json({ error: "INVALID_RANGE" });
+    }
+
+    try {
+      const report = await participationReport(groupId, from, new Date(to.getTime() + DAY_MS));
+      res.json({
+        from: from.toISOString().slice(0, 10),
+        to: to.toISOString().slice(0, 10),
+        ...report,
+      });
+    } catch (error) {
+      console.error("participation report error", error);
+      res.status(500).json({ error: "REPORT_FAILED" });
+    }
+  },
+);
+
+assertRoutesMounted(app);
+
+assertSchemaCurrent(pool)
+  .then(() => {
+    httpServer.listen(PORT, () => {
+      console.log(`api listening on ${PORT}`);
+    });
+    schedule("week-rollover", WEEK_ROLLOVER_CHECK_MS, checkWeekRollover);
+    schedule("claim-expiry", CLAIM_EXPIRY_CHECK_MS, processOverdueClaims);
+    if (pushEnabled()) schedule("weekly-reminder", REMINDER_CHECK_MS, sendWeeklyReminders);
+    schedule("rate-limit-prune", RATE_LIMIT_PRUNE_MS, pruneRateLimits);
+  })
+  .catch((error) => {
+    console.error("refusing to start: run `npm run migrate` first", error);
+    process.exit(1);
+  });
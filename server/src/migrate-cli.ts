@@ -0,0 +1,36 @@
+import "dotenv/config";
+import { pool } from "./db.js";
+import { migrateUp, migrationStatus } from "./migrate.js";
+
+async function main(command: string) {
+  if (command === "up") {
+    const applied = await migrateUp(pool);
+    console.log(applied.length ? `applied ${applied.length} migration(s)` : "schema already up to date");
+    return;
+  }
+
+  if (command === "status") {
+    const status = await migrationStatus(pool);
+    for (const row of status.applied) {
+      console.log(`applied  ${row.version}_${row.name}  ${row.applied_at.toISOString()}`);
+    }
+    for (const migration of status.pending) {
+      console.log(`pending  ${migration.version}_${migration.name}`);
+    }
+    for (const migration of status.mismatched) {
+      console.log(`ERROR    ${migration.version}_${migration.name}  ${migration.reason}`);
+    }
+    if (status.mismatched.length) process.exitCode = 1;
+    return;
+  }
+
+  console.error("usage: migrate <up|status>");
+  process.exitCode = 1;
+}
+
+main(process.argv[2] || "status")
+  .catch((error) => {
+    console.error("migration error", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
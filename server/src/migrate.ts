@@ -0,0 +1,146 @@
+import { createHash } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import type { Pool, PoolClient } from "pg";
+
+// Resolves to server/migrations both from src/ (ts-node) and dist/ (compiled).
+const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations/", import.meta.url));
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+// Arbitrary key shared by every instance so only one of them migrates at a time.
+const MIGRATION_LOCK_ID = 727_001;
+
+export interface Migration {
+  version: number;
+  name: string;
+  checksum: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Applied migrations whose file changed (or disappeared) after they ran.
+  mismatched: { version: number; name: string; reason: "CHECKSUM_MISMATCH" | "MISSING_FILE" }[];
+}
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex");
+}
+
+export async function loadMigrations(dir = MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".sql")).sort();
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) throw new Error(`BAD_MIGRATION_NAME: ${file}`);
+    const sql = await readFile(`${dir}${file}`, "utf8");
+    migrations.push({ version: Number(match[1]), name: match[2], checksum: checksum(sql), sql });
+  }
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i += 1) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`DUPLICATE_MIGRATION_VERSION: ${migrations[i].version}`);
+    }
+  }
+  return migrations;
+}
+
+async function ensureMigrationsTable(client: PoolClient) {
+  await client.query(`
+    create table if not exists schema_migrations (
+      version integer primary key,
+      name text not null,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+}
+
+async function readStatus(client: PoolClient, migrations: Migration[]): Promise<MigrationStatus> {
+  const { rows: applied } = await client.query<AppliedMigration>(
+    "select version, name, checksum, applied_at from schema_migrations order by version asc",
+  );
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const appliedVersions = new Set(applied.map((row) => row.version));
+
+  const mismatched: MigrationStatus["mismatched"] = [];
+  for (const row of applied) {
+    const file = byVersion.get(row.version);
+    if (!file) mismatched.push({ version: row.version, name: row.name, reason: "MISSING_FILE" });
+    else if (file.checksum !== row.checksum) {
+      mismatched.push({ version: row.version, name: row.name, reason: "CHECKSUM_MISMATCH" });
+    }
+  }
+
+  return {
+    applied,
+    pending: migrations.filter((m) => !appliedVersions.has(m.version)),
+    mismatched,
+  };
+}
+
+export async function migrationStatus(pool: Pool): Promise<MigrationStatus> {
+  const migrations = await loadMigrations();
+  const client = await pool.connect();
+  try {
+    await ensureMigrationsTable(client);
+    return await readStatus(client, migrations);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Applies every pending migration in version order, each in its own transaction.
+ * Refuses to run when an already-applied file was edited afterwards.
+ */
+export async function migrateUp(pool: Pool, log: (line: string) => void = console.log): Promise<Migration[]> {
+  const migrations = await loadMigrations();
+  const client = await pool.connect();
+  try {
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+    const status = await readStatus(client, migrations);
+    if (status.mismatched.length) {
+      const details = status.mismatched.map((m) => `${m.version}_${m.name} (${m.reason})`).join(", ");
+      throw new Error(`MIGRATIONS_DIVERGED: ${details}`);
+    }
+
+    for (const migration of status.pending) {
+      log(`applying ${migration.version}_${migration.name}`);
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.sql);
+        await client.query(
+          "insert into schema_migrations (version, name, checksum) values ($1, $2, $3)",
+          [migration.version, migration.name, migration.checksum],
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    }
+    return status.pending;
+  } finally {
+    await client.query("select pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+}
+
+/** Startup guard: throws SCHEMA_OUT_OF_DATE unless the database matches the migration files exactly. */
+export async function assertSchemaCurrent(pool: Pool): Promise<void> {
+  const status = await migrationStatus(pool);
+  if (status.pending.length || status.mismatched.length) {
+    const pending = status.pending.map((m) => `${m.version}_${m.name}`).join(", ") || "none";
+    const mismatched = status.mismatched.map((m) => `${m.version}_${m.name}`).join(", ") || "none";
+    throw new Error(`SCHEMA_OUT_OF_DATE: pending=[${pending}] mismatched=[${mismatched}]`);
+  }
+}
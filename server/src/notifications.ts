@@ -0,0 +1,143 @@
+import { pool } from "./db.js";
+import { joinList, translate } from "./i18n.js";
+import { notifyUsers } from "./push.js";
+import { unitCount, unitLabel, unitNoun, type Division } from "./quran.js";
+
+// Hours before a week ends at which readers still holding an unread part are reminded.
+const REMINDER_HOURS_BEFORE_END = Number(process.env.PUSH_REMINDER_HOURS || 24);
+
+async function groupMemberIds(groupId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ user_id: string }>("select user_id from group_members where group_id=$1", [
+    groupId,
+  ]);
+  return rows.map((row) => row.user_id);
+}
+
+async function groupName(groupId: string): Promise<string> {
+  const { rows } = await pool.query<{ name: string }>("select name from groups where id=$1", [groupId]);
+  return rows[0]?.name ?? "";
+}
+
+async function weekGroup(weekId: string): Promise<{ id: string; name: string; division: Division } | null> {
+  const { rows } = await pool.query<{ id: string; name: string; division: Division }>(
+    "select g.id, g.name, w.division from weeks w join groups g on g.id = w.group_id where w.id=$1",
+    [weekId],
+  );
+  return rows[0] ?? null;
+}
+
+export async function notifyWeekOpened(weekId: string, groupId: string): Promise<void> {
+  // Claims the announcement first, so a restart or a second instance does not repeat it.
+  const claimed = await pool.query(
+    "update weeks set opened_notified_at=now() where id=$1 and opened_notified_at is null",
+    [weekId],
+  );
+  if (!claimed.rowCount) return;
+  const group = await groupName(groupId);
+  await notifyUsers(await groupMemberIds(groupId), (locale) => ({
+    title: translate(locale, "push.weekOpened.title"),
+    body: translate(locale, "push.weekOpened.body", { group }),
+    tag: `week-opened:${weekId}`,
+  }));
+}
+
+export async function notifyKhatmaCompleted(weekId: string): Promise<void> {
+  const group = await weekGroup(weekId);
+  if (!group) return;
+  await notifyUsers(await groupMemberIds(group.id), (locale) => ({
+    title: translate(locale, "push.completed.title"),
+    body: translate(locale, "push.completed.body", {
+      units: unitNoun(group.division, unitCount(group.division), locale),
+      group: group.name,
+    }),
+    tag: `khatma-completed:${weekId}`,
+  }));
+}
+
+export async function notifyPartAssigned(userId: string, weekId: string, number: number): Promise<void> {
+  const group = await weekGroup(weekId);
+  if (!group) return;
+  await notifyUsers([userId], (locale) => ({
+    title: translate(locale, "push.assigned.title"),
+    body: translate(locale, "push.assigned.body", {
+      unit: unitLabel(group.division, number, locale),
+      group: group.name,
+    }),
+    tag: `part-assigned:${weekId}:${number}`,
+  }));
+}
+
+export async function notifyWaitlistAssigned(userId: string, weekId: string, number: number): Promise<void> {
+  const group = await weekGroup(weekId);
+  if (!group) return;
+  await notifyUsers([userId], (locale) => ({
+    title: translate(locale, "push.waitlist.title"),
+    body: translate(locale, "push.waitlist.body", {
+      unit: unitLabel(group.division, number, locale),
+      group: group.name,
+    }),
+    tag: `waitlist-assigned:${weekId}:${number}`,
+  }));
+}
+
+export async function notifySwapRequested(
+  userId: string,
+  weekId: string,
+  fromName: string | null,
+  offerNumber: number,
+  wantNumber: number,
+): Promise<void> {
+  const group = await weekGroup(weekId);
+  if (!group) return;
+  await notifyUsers([userId], (locale) => ({
+    title: translate(locale, "push.swap.title"),
+    body: translate(locale, "push.swap.body", {
+      from: fromName || translate(locale, "push.swap.someone"),
+      offer: unitLabel(group.division, offerNumber, locale),
+      want: unitLabel(group.division, wantNumber, locale),
+      group: group.name,
+    }),
+    tag: `swap-requested:${weekId}:${offerNumber}:${wantNumber}`,
+  }));
+}
+
+type UnreadPart = { week_id: string; group_name: string; division: Division; claimed_by: string; numbers: number[] };
+
+// Runs on the scheduler; each week gets its reminder once, REMINDER_HOURS_BEFORE_END before it ends.
+export async function sendWeeklyReminders(): Promise<void> {
+  const due = await pool.query<{ id: string }>(
+    `
+    update weeks set reminder_sent_at=now()
+    where reminder_sent_at is null
+      and ends_at is not null
+      and ends_at > now()
+      and ends_at - $1 * interval '1 hour' <= now()
+    returning id
+    `,
+    [REMINDER_HOURS_BEFORE_END],
+  );
+  if (!due.rowCount) return;
+
+  const { rows } = await pool.query<UnreadPart>(
+    `
+    select p.week_id, g.name as group_name, w.division, p.claimed_by, array_agg(p.number order by p.number) as numbers
+    from parts p
+    join weeks w on w.id = p.week_id
+    join groups g on g.id = w.group_id
+    where p.week_id = any($1::uuid[]) and p.claimed_by is not null and p.completed_at is null
+    group by p.week_id, g.name, w.division, p.claimed_by
+    `,
+    [due.rows.map((row) => row.id)],
+  );
+  for (const row of rows) {
+    await notifyUsers([row.claimed_by], (locale) => ({
+      title: translate(locale, "push.reminder.title"),
+      body: translate(locale, "push.reminder.body", {
+        units: unitNoun(row.division, row.numbers.length, locale),
+        numbers: joinList(locale, row.numbers),
+        group: row.group_name,
+      }),
+      tag: `reminder:${row.week_id}`,
+    }));
+  }
+}
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, test, type TestContext } from "node:test";
+import { pool } from "./db.js";
+import { requestOtp, verifyOtp } from "./otp.js";
+
+const PHONE = "+963111111111";
+
+type OtpRow = {
+  id: string;
+  phone: string;
+  code_hash: string;
+  attempts: number;
+  created_at: number;
+  expires_at: number;
+  consumed_at: number | null;
+};
+
+// Stands in for the otp_codes table, answering the statements otp.ts sends both
+// through the pool and through a checked-out client.
+function fakeOtpCodes(t: TestContext) {
+  const rows: OtpRow[] = [];
+  const clock = { now: Date.parse("2026-03-01T12:00:00Z") };
+  const result = <T>(found: T[]) => ({ rows: found, rowCount: found.length });
+  const latest = (phone: string, match: (row: OtpRow) => boolean) =>
+    rows.filter((row) => row.phone === phone && match(row)).sort((a, b) => b.created_at - a.created_at)[0];
+
+  const query = async (text: string, values: unknown[] = []) => {
+    if (["BEGIN", "COMMIT", "ROLLBACK"].includes(text)) return result([]);
+    if (text.includes("as wait")) {
+      const [phone, seconds] = values as [string, number];
+      const row = latest(phone, (candidate) => candidate.created_at > clock.now - seconds * 1000);
+      return result(row ? [{ wait: Math.ceil((row.created_at + seconds * 1000 - clock.now) / 1000) }] : []);
+    }
+    if (text.includes("insert into otp_codes")) {
+      const [phone, hash, seconds] = values as [string, string, number];
+      rows.push({
+        id: `otp-${rows.length + 1}`,
+        phone,
+        code_hash: hash,
+        attempts: 0,
+        created_at: clock.now,
+        expires_at: clock.now + seconds * 1000,
+        consumed_at: null,
+      });
+      return result([]);
+    }
+    if (text.includes("for update")) {
+      const row = latest(values[0] as string, (candidate) => candidate.consumed_at === null);
+      return result(row ? [{ ...row, expired: row.expires_at <= clock.now }] : []);
+    }
+    if (text.includes("set attempts=")) {
+      const [id, attempts, max] = values as [string, number, number];
+      const row = rows.find((candidate) => candidate.id === id)!;
+      row.attempts = attempts;
+      row.consumed_at = attempts >= max ? clock.now : null;
+      return result([]);
+    }
+    if (text.includes("set consumed_at=now() where id=$1")) {
+      rows.find((candidate) => candidate.id === values[0])!.consumed_at = clock.now;
+      return result([]);
+    }
+    if (text.includes("set consumed_at=now() where phone=$1")) {
+      for (const row of rows) if (row.phone === values[0] && row.consumed_at === null) row.consumed_at = clock.now;
+      return result([]);
+    }
+    throw new Error(`unexpected query: ${text}`);
+  };
+
+  t.mock.method(pool, "query", query);
+  t.mock.method(pool, "connect", async () => ({ query, release() {} }));
+  return clock;
+}
+
+// Requests a code and reads it back out of the SMS that would have been sent.
+async function sendCode(): Promise<string> {
+  let text = "";
+  await requestOtp(PHONE, { send: async (_phone, body) => void (text = body) }, "en");
+  return /\d{6}/.exec(text)![0];
+}
+
+// Any other six digits.
+function wrong(code: string): string {
+  return String((Number(code) + 1) % 1_000_000).padStart(6, "0");
+}
+
+describe("verifyOtp", () => {
+  test("accepts the code it sent, once", async (t) => {
+    fakeOtpCodes(t);
+    const code = await sendCode();
+
+    await verifyOtp(PHONE, code);
+    await assert.rejects(verifyOtp(PHONE, code), { code: "OTP_EXPIRED" });
+  });
+
+  test("refuses a code past its lifetime", async (t) => {
+    const clock = fakeOtpCodes(t);
+    const code = await sendCode();
+
+    clock.now += 5 * 60 * 1000;
+    await assert.rejects(verifyOtp(PHONE, code), { code: "OTP_EXPIRED" });
+  });
+
+  test("refuses a wrong code and still takes the right one after it", async (t) => {
+    fakeOtpCodes(t);
+    const code = await sendCode();
+
+    await assert.rejects(verifyOtp(PHONE, wrong(code)), { code: "OTP_INVALID" });
+    await verifyOtp(PHONE, code);
+  });
+
+  test("burns the code on the last allowed wrong guess", async (t) => {
+    fakeOtpCodes(t);
+    const code = await sendCode();
+
+    for (let attempt = 1; attempt < 5; attempt += 1) {
+      await assert.rejects(verifyOtp(PHONE, wrong(code)), { code: "OTP_INVALID" });
+    }
+    await assert.rejects(verifyOtp(PHONE, wrong(code)), { code: "OTP_TOO_MANY_ATTEMPTS" });
+    // Even the right code is no good now; only a new one is.
+    await assert.rejects(verifyOtp(PHONE, code), { code: "OTP_EXPIRED" });
+  });
+});
@@ -0,0 +1,116 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import type { Locale } from "@khatma/contract";
+import { pool } from "./db.js";
+import { translate } from "./i18n.js";
+import type { SmsSender } from "./sms.js";
+
+const OTP_SECRET = process.env.OTP_SECRET || process.env.AUTH_SECRET || "change-me";
+const OTP_TTL_SECONDS = Number(process.env.OTP_TTL_SECONDS || 300);
+const OTP_MAX_ATTEMPTS = Number(process.env.OTP_MAX_ATTEMPTS || 5);
+const OTP_RESEND_SECONDS = Number(process.env.OTP_RESEND_SECONDS || 60);
+const OTP_LENGTH = 6;
+
+export type OtpErrorCode = "OTP_TOO_SOON" | "OTP_EXPIRED" | "OTP_INVALID" | "OTP_TOO_MANY_ATTEMPTS";
+
+export class OtpError extends Error {
+  constructor(
+    readonly code: OtpErrorCode,
+    readonly retryAfter?: number,
+  ) {
+    super(code);
+  }
+}
+
+function hashCode(phone: string, code: string): string {
+  // Keyed by phone too, so one leaked hash cannot be replayed for another number.
+  return createHmac("sha256", OTP_SECRET).update(`${phone}:${code}`).digest("hex");
+}
+
+function generateCode(): string {
+  return randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+}
+
+export async function requestOtp(
+  phone: string,
+  sender: SmsSender,
+  locale: Locale,
+): Promise<{ expiresIn: number; resendIn: number }> {
+  const recent = await pool.query<{ wait: number }>(
+    `
+    select ceil(extract(epoch from (created_at + make_interval(secs => $2) - now())))::int as wait
+    from otp_codes
+    where phone=$1 and created_at > now() - make_interval(secs => $2)
+    order by created_at desc
+    limit 1
+    `,
+    [phone, OTP_RESEND_SECONDS],
+  );
+  if (recent.rowCount) {
+    throw new OtpError("OTP_TOO_SOON", Math.max(1, recent.rows[0].wait));
+  }
+
+  const code = generateCode();
+  // A new code replaces any earlier one that is still waiting to be used.
+  await pool.query("update otp_codes set consumed_at=now() where phone=$1 and consumed_at is null", [phone]);
+  await pool.query(
+    `
+    insert into otp_codes (phone, code_hash, expires_at)
+    values ($1, $2, now() + make_interval(secs => $3))
+    `,
+    [phone, hashCode(phone, code), OTP_TTL_SECONDS],
+  );
+  await sender.send(phone, translate(locale, "otp.sms", { code }));
+  return { expiresIn: OTP_TTL_SECONDS, resendIn: OTP_RESEND_SECONDS };
+}
+
+export async function verifyOtp(phone: string, code: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const { rows } = await client.query<{ id: string; code_hash: string; attempts: number; expired: boolean }>(
+      `
+      select id, code_hash, attempts, expires_at <= now() as expired
+      from otp_codes
+      where phone=$1 and consumed_at is null
+      order by created_at desc
+      limit 1
+      for update
+      `,
+      [phone],
+    );
+    const current = rows[0];
+    if (!current || current.expired) {
+      await client.query("ROLLBACK");
+      throw new OtpError("OTP_EXPIRED");
+    }
+    if (current.attempts >= OTP_MAX_ATTEMPTS) {
+      await client.query("ROLLBACK");
+      throw new OtpError("OTP_TOO_MANY_ATTEMPTS");
+    }
+
+    const expected = Buffer.from(current.code_hash, "hex");
+    const actual = Buffer.from(hashCode(phone, code.trim()), "hex");
+    if (!timingSafeEqual(expected, actual)) {
+      const attempts = current.attempts + 1;
+      // The last wrong guess burns the code; the user has to request a new one.
+      await client.query(
+        `
+        update otp_codes
+        set attempts=$2::int, consumed_at=case when $2::int >= $3::int then now() else null end
+        where id=$1
+        `,
+        [current.id, attempts, OTP_MAX_ATTEMPTS],
+      );
+      await client.query("COMMIT");
+      throw new OtpError(attempts >= OTP_MAX_ATTEMPTS ? "OTP_TOO_MANY_ATTEMPTS" : "OTP_INVALID");
+    }
+
+    await client.query("update otp_codes set consumed_at=now() where id=$1", [current.id]);
+    await client.query("COMMIT");
+  } catch (error) {
+    if (!(error instanceof OtpError)) await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
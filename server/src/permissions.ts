@@ -0,0 +1,65 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Permission, Role } from "@khatma/contract";
+import type { AuthenticatedRequest } from "./auth.js";
+import { pool } from "./db.js";
+import { getMembership, type Membership } from "./groups.js";
+
+export { ROLES, type Permission, type Role } from "@khatma/contract";
+
+// Moderators keep the board running; owners also shape the week and the group.
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: [
+    "assign_parts",
+    "reset_week",
+    "view_audit",
+    "view_reports",
+    "configure_week",
+    "manage_invites",
+    "manage_roles",
+    "revoke_sessions",
+  ],
+  moderator: ["assign_parts", "reset_week", "view_audit", "view_reports"],
+  member: [],
+};
+
+export function permissionsOf(role: Role): readonly Permission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function can(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Owners and moderators: who gets the star on the board and the claim-policy exemption.
+export function isStaff(role: Role): boolean {
+  return role !== "member";
+}
+
+export interface PermittedRequest extends AuthenticatedRequest {
+  member: Membership;
+}
+
+// Route guard for group-scoped endpoints, placed after `verify`. The group comes from
+// :groupId, or from the week named by :weekId; the caller's membership is left on
+// the request for the handler.
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { groupId, weekId } = req.params;
+      let group = groupId;
+      if (!group && weekId) {
+        const { rows } = await pool.query<{ group_id: string }>("select group_id from weeks where id=$1", [weekId]);
+        group = rows[0]?.group_id;
+      }
+      const member = group ? await getMembership(group, (req as AuthenticatedRequest).session.userId) : null;
+      if (!member || !can(member.role, permission)) {
+        return res.status(403).json({ error: "NOT_PERMITTED", permission });
+      }
+      (req as PermittedRequest).member = member;
+      next();
+    } catch (error) {
+      console.error("permission check error", error);
+      res.status(500).json({ error: "PERMISSION_CHECK_FAILED" });
+    }
+  };
+}
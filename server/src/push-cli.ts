@@ -0,0 +1,5 @@
+import { generateVapidKeys } from "./push.js";
+
+const keys = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from "crypto";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { after, before, describe, test } from "node:test";
+import { pool } from "./db.js";
+
+// The sender is checked against a local HTTP server standing in for the push service:
+// it decrypts what arrives with the subscription's keys and verifies the VAPID header.
+
+const vapid = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const vapidJwk = vapid.publicKey.export({ format: "jwk" });
+process.env.VAPID_PUBLIC_KEY = Buffer.concat([
+  Buffer.from([0x04]),
+  Buffer.from(vapidJwk.x!, "base64url"),
+  Buffer.from(vapidJwk.y!, "base64url"),
+]).toString("base64url");
+process.env.VAPID_PRIVATE_KEY = vapid.privateKey.export({ format: "jwk" }).d!;
+process.env.VAPID_SUBJECT = "mailto:test@example.com";
+
+// Imported after the keys are set, since the module reads them once.
+const { notifyUsers, sendPush } = await import("./push.js");
+
+type Received = { path: string; headers: IncomingMessage["headers"]; body: Buffer };
+
+// A browser's side of a subscription: its ECDH key pair and auth secret.
+function browserSubscription(endpoint: string) {
+  const ecdh = createECDH("prime256v1");
+  const p256dh = ecdh.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    ecdh,
+    keys: { endpoint, p256dh: p256dh.toString("base64url"), auth: auth.toString("base64url") },
+  };
+}
+
+// RFC 8291 decryption, as the browser does it.
+function decrypt(subscription: ReturnType<typeof browserSubscription>, body: Buffer): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const asPublic = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength, body.length - 16);
+  const tag = body.subarray(body.length - 16);
+  const uaPublic = Buffer.from(subscription.keys.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.keys.auth, "base64url");
+
+  const sharedSecret = subscription.ecdh.computeSecret(asPublic);
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const cek = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", cek, nonce);
+  decipher.setAuthTag(tag);
+  const padded = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  assert.equal(padded[padded.length - 1], 2, "last record delimiter");
+  return padded.subarray(0, -1).toString("utf8");
+}
+
+// RFC 8292: a JWT signed with ES256 by the key given in k=, for the endpoint's origin.
+function verifyVapid(authorization: string | undefined, endpoint: string) {
+  const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+), k=([\w-]+)$/.exec(authorization ?? "");
+  assert.ok(match, `unexpected Authorization header: ${authorization}`);
+  const [, header, claims, signature, key] = match;
+  assert.equal(key, process.env.VAPID_PUBLIC_KEY);
+  assert.deepEqual(JSON.parse(Buffer.from(header, "base64url").toString()), { typ: "JWT", alg: "ES256" });
+
+  const raw = Buffer.from(key, "base64url");
+  const publicKey = createPublicKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: raw.subarray(1, 33).toString("base64url"),
+      y: raw.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${header}.${claims}`),
+    { key: publicKey, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url"),
+  );
+  assert.ok(valid, "VAPID signature does not verify");
+
+  const payload = JSON.parse(Buffer.from(claims, "base64url").toString());
+  assert.equal(payload.aud, new URL(endpoint).origin);
+  assert.equal(payload.sub, "mailto:test@example.com");
+  assert.ok(payload.exp > Date.now() / 1000 && payload.exp <= Date.now() / 1000 + 24 * 60 * 60);
+}
+
+describe("web push", () => {
+  let server: Server;
+  let origin: string;
+  const received: Received[] = [];
+  // Paths the mock push service answers with something other than 201.
+  const statuses: Record<string, number> = { "/gone": 410, "/missing": 404, "/broken": 500 };
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        received.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(statuses[req.url!] ?? 201).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("encrypts the payload for the subscription and signs a VAPID header", async () => {
+    received.length = 0;
+    const subscription = browserSubscription(`${origin}/push/abc`);
+    const message = { title: "ختمة", body: "Juz 3 is yours", url: "/", tag: "week" };
+
+    const status = await sendPush(subscription.keys, message);
+
+    assert.equal(status, 201);
+    assert.equal(received.length, 1);
+    const [request] = received;
+    assert.equal(request.path, "/push/abc");
+    assert.equal(request.headers["content-encoding"], "aes128gcm");
+    assert.ok(Number(request.headers.ttl) > 0);
+    verifyVapid(request.headers.authorization, subscription.keys.endpoint);
+    assert.deepEqual(JSON.parse(decrypt(subscription, request.body)), message);
+  });
+
+  test("drops subscriptions the push service reports gone", async (t) => {
+    received.length = 0;
+    const rows = ["/ok", "/gone", "/missing", "/broken"].map((path, index) => ({
+      id: `sub-${index}`,
+      locale: null,
+      ...browserSubscription(`${origin}${path}`).keys,
+    }));
+    const deleted: unknown[] = [];
+    t.mock.method(console, "warn", () => {});
+    t.mock.method(pool, "query", async (text: string, values: unknown[]) => {
+      if (text.includes("delete from push_subscriptions")) {
+        deleted.push(values[0]);
+        return { rows: [], rowCount: 1 };
+      }
+      return { rows, rowCount: rows.length };
+    });
+
+    await notifyUsers(["user-1"], () => ({ title: "t", body: "b" }));
+
+    assert.deepEqual(received.map((request) => request.path).sort(), ["/broken", "/gone", "/missing", "/ok"]);
+    assert.deepEqual(deleted.sort(), ["sub-1", "sub-2"]);
+  });
+
+  test("tells the service worker the recipient's language and direction", async (t) => {
+    received.length = 0;
+    const subscription = browserSubscription(`${origin}/push/en`);
+    t.mock.method(pool, "query", async () => ({ rows: [{ id: "sub-en", locale: "en", ...subscription.keys }] }));
+
+    await notifyUsers(["user-1"], (locale) => ({ title: `title in ${locale}`, body: "b" }));
+
+    assert.deepEqual(JSON.parse(decrypt(subscription, received[0].body)), {
+      title: "title in en",
+      body: "b",
+      lang: "en",
+      dir: "ltr",
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type KeyObject,
+} from "crypto";
+import { DEFAULT_LOCALE, localeDirection, type Locale } from "@khatma/contract";
+import { pool } from "./db.js";
+
+// Web Push per RFC 8291 (aes128gcm payload encryption) and RFC 8292 (VAPID),
+// sent with plain fetch so any endpoint URL works, including a local mock.
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || "";
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || "";
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:admin@example.com";
+const PUSH_TTL_SECONDS = Number(process.env.PUSH_TTL_SECONDS || 24 * 60 * 60);
+const RECORD_SIZE = 4096;
+
+export type PushSubscriptionKeys = { endpoint: string; p256dh: string; auth: string };
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  // Where a click on the notification should take the user.
+  url?: string;
+  // Notifications with the same tag replace each other on the device.
+  tag?: string;
+  // The recipient's language, so the service worker lays the notification out to match.
+  lang?: Locale;
+  dir?: "rtl" | "ltr";
+};
+
+let signingKey: KeyObject | null = null;
+
+function vapidSigningKey(): KeyObject {
+  if (!signingKey) {
+    const publicKey = Buffer.from(VAPID_PUBLIC_KEY, "base64url");
+    signingKey = createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: VAPID_PRIVATE_KEY,
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33, 65).toString("base64url"),
+      },
+      format: "jwk",
+    });
+  }
+  return signingKey;
+}
+
+export function pushEnabled(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+}
+
+export function vapidPublicKey(): string | null {
+  return pushEnabled() ? VAPID_PUBLIC_KEY : null;
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const pub = publicKey.export({ format: "jwk" });
+  const priv = privateKey.export({ format: "jwk" });
+  const raw = Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(pub.x!, "base64url"),
+    Buffer.from(pub.y!, "base64url"),
+  ]);
+  return { publicKey: raw.toString("base64url"), privateKey: priv.d! };
+}
+
+function vapidAuthorization(endpoint: string): string {
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+      sub: VAPID_SUBJECT,
+    }),
+  ).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: vapidSigningKey(),
+    dsaEncoding: "ieee-p1363",
+  }).toString("base64url");
+  return `vapid t=${header}.${claims}.${signature}, k=${VAPID_PUBLIC_KEY}`;
+}
+
+export function encryptPayload(subscription: PushSubscriptionKeys, plaintext: Buffer): Buffer {
+  const uaPublic = Buffer.from(subscription.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.auth, "base64url");
+  const ecdh = createECDH("prime256v1");
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), uaPublic, asPublic]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+  const cek = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const cipher = createCipheriv("aes-128-gcm", cek, nonce);
+  // 0x02 marks the last (and only) record.
+  const body = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final()]);
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, body, cipher.getAuthTag()]);
+}
+
+export async function sendPush(subscription: PushSubscriptionKeys, message: PushMessage): Promise<number> {
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: vapidAuthorization(subscription.endpoint),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL_SECONDS),
+    },
+    body: new Uint8Array(encryptPayload(subscription, Buffer.from(JSON.stringify(message)))),
+  });
+  return response.status;
+}
+
+export async function saveSubscription(userId: string, subscription: PushSubscriptionKeys): Promise<void> {
+  // An endpoint belongs to one browser; whoever signed in there last gets its notifications.
+  await pool.query(
+    `
+    insert into push_subscriptions (user_id, endpoint, p256dh, auth) values ($1, $2, $3, $4)
+    on conflict (endpoint) do update set user_id=excluded.user_id, p256dh=excluded.p256dh, auth=excluded.auth
+    `,
+    [userId, subscription.endpoint, subscription.p256dh, subscription.auth],
+  );
+}
+
+export async function deleteSubscription(userId: string, endpoint: string): Promise<boolean> {
+  const { rowCount } = await pool.query("delete from push_subscriptions where user_id=$1 and endpoint=$2", [
+    userId,
+    endpoint,
+  ]);
+  return Boolean(rowCount);
+}
+
+// Best effort: failures are logged, and subscriptions the push service reports gone are dropped.
+// The message is composed once per language among the recipients.
+export async function notifyUsers(userIds: string[], compose: (locale: Locale) => PushMessage): Promise<void> {
+  if (!pushEnabled() || !userIds.length) return;
+  const { rows } = await pool.query<PushSubscriptionKeys & { id: string; locale: Locale | null }>(
+    `
+    select s.id, s.endpoint, s.p256dh, s.auth, u.locale
+    from push_subscriptions s
+    join users u on u.id = s.user_id
+    where s.user_id = any($1::uuid[])
+    `,
+    [userIds],
+  );
+  const messages = new Map<Locale, PushMessage>();
+  const messageIn = (locale: Locale) => {
+    if (!messages.has(locale)) messages.set(locale, { ...compose(locale), lang: locale, dir: localeDirection(locale) });
+    return messages.get(locale)!;
+  };
+  await Promise.all(
+    rows.map(async ({ locale, ...subscription }) => {
+      try {
+        const status = await sendPush(subscription, messageIn(locale ?? DEFAULT_LOCALE));
+        if (status === 404 || status === 410) {
+          await pool.query("delete from push_subscriptions where id=$1", [subscription.id]);
+        } else if (status >= 400) {
+          console.warn(`push to ${new URL(subscription.endpoint).host} failed with ${status}`);
+        }
+      } catch (error) {
+        console.error("push send error", error);
+      }
+    }),
+  );
+}
@@ -0,0 +1,28 @@
+import { unitLabelMessage, type Division, type Locale, type UnitStart } from "@khatma/contract";
+import { translate } from "./i18n.js";
+
+// The mushaf tables and unit math live in the contract; this adds the server's wording.
+export {
+  DIVISIONS,
+  juzOfUnit,
+  surahName,
+  unitCount,
+  unitEnd,
+  unitStart,
+  type Division,
+  type UnitStart,
+} from "@khatma/contract";
+
+// The definite noun for `count` units, as used in messages.
+export function unitNoun(division: Division, count: number, locale: Locale): string {
+  return translate(locale, `units.${division}`, { count });
+}
+
+export function unitLabel(division: Division, number: number, locale: Locale): string {
+  const { key, params } = unitLabelMessage(division, number);
+  return translate(locale, `unit.${key}`, params);
+}
+
+export function describeStart(start: UnitStart, locale: Locale): string {
+  return translate(locale, "surah.start", { surah: start.surahName, ayah: start.ayah });
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { describe, test } from "node:test";
+import { MemoryRateLimitStore, rateLimit } from "./rateLimit.js";
+
+// A response that records what the limiter sent instead of writing to a socket.
+function recordingResponse() {
+  const sent: { status?: number; headers: Record<string, string>; body?: unknown } = { headers: {} };
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+describe("MemoryRateLimitStore", () => {
+  test("counts hits within a window and starts over once it has passed", async (t) => {
+    let now = Date.parse("2026-03-01T12:00:00Z");
+    t.mock.method(Date, "now", () => now);
+    const store = new MemoryRateLimitStore();
+
+    assert.deepEqual(await store.hit("k", 60), { count: 1, resetAt: new Date("2026-03-01T12:01:00Z") });
+    now += 59_999;
+    assert.deepEqual(await store.hit("k", 60), { count: 2, resetAt: new Date("2026-03-01T12:01:00Z") });
+    now += 1;
+    assert.deepEqual(await store.hit("k", 60), { count: 1, resetAt: new Date("2026-03-01T12:02:00Z") });
+  });
+
+  test("keeps a separate count per key", async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit("claim:user:a", 30);
+    await store.hit("claim:user:a", 30);
+
+    assert.equal((await store.hit("claim:user:b", 30)).count, 1);
+    assert.equal((await store.hit("claim:ip:a", 30)).count, 1);
+    assert.equal((await store.hit("claim:user:a", 30)).count, 3);
+  });
+
+  test("prune drops only windows that have ended", async (t) => {
+    let now = Date.parse("2026-03-01T12:00:00Z");
+    t.mock.method(Date, "now", () => now);
+    const store = new MemoryRateLimitStore();
+    await store.hit("short", 10);
+    await store.hit("long", 60);
+
+    now += 10_000;
+    await store.prune();
+    now -= 10_000;
+
+    assert.equal((await store.hit("short", 10)).count, 1);
+    assert.equal((await store.hit("long", 60)).count, 2);
+  });
+});
+
+describe("rateLimit", () => {
+  test("answers 429 with Retry-After once a user is over the route's limit", async () => {
+    // claim allows each user 6 requests per 30 seconds.
+    const limiter = rateLimit("claim");
+    const req = { ip: "192.0.2.1", session: { userId: "user-429" } } as unknown as Request;
+    let passed = 0;
+
+    for (let i = 0; i < 6; i += 1) {
+      const { res, sent } = recordingResponse();
+      await limiter(req, res, () => (passed += 1));
+      assert.equal(sent.status, undefined);
+    }
+    const { res, sent } = recordingResponse();
+    await limiter(req, res, () => (passed += 1));
+
+    assert.equal(passed, 6);
+    assert.equal(sent.status, 429);
+    const retryAfter = Number(sent.headers["Retry-After"]);
+    assert.ok(retryAfter > 0 && retryAfter <= 30, `Retry-After ${retryAfter}`);
+    assert.deepEqual(sent.body, { error: "RATE_LIMITED", retryAfter });
+
+    // Another member on the same network still gets through.
+    const other = { ip: "192.0.2.1", session: { userId: "user-other" } } as unknown as Request;
+    await limiter(other, recordingResponse().res, () => (passed += 1));
+    assert.equal(passed, 7);
+  });
+});
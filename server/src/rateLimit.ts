@@ -0,0 +1,149 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Pool } from "pg";
+import type { AuthenticatedRequest } from "./auth.js";
+import { pool } from "./db.js";
+
+export interface RateLimitStore {
+  // Counts one request against `key` and reports the window it fell into.
+  hit(key: string, windowSeconds: number): Promise<{ count: number; resetAt: Date }>;
+  prune?(): Promise<void>;
+}
+
+// Fixed windows in this process only; right for a single API instance.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, { count: number; resetAt: Date }>();
+
+  async hit(key: string, windowSeconds: number) {
+    const now = Date.now();
+    let entry = this.windows.get(key);
+    if (!entry || entry.resetAt.getTime() <= now) {
+      entry = { count: 0, resetAt: new Date(now + windowSeconds * 1000) };
+      this.windows.set(key, entry);
+    }
+    entry.count += 1;
+    return { count: entry.count, resetAt: entry.resetAt };
+  }
+
+  async prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt.getTime() <= now) this.windows.delete(key);
+    }
+  }
+}
+
+// Counters in the rate_limits table, so several instances enforce one shared limit.
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly db: Pool) {}
+
+  async hit(key: string, windowSeconds: number) {
+    const { rows } = await this.db.query<{ count: number; reset_at: Date }>(
+      `
+      insert into rate_limits (key, count, reset_at)
+      values ($1, 1, now() + make_interval(secs => $2))
+      on conflict (key) do update set
+        count = case when rate_limits.reset_at <= now() then 1 else rate_limits.count + 1 end,
+        reset_at = case when rate_limits.reset_at <= now() then excluded.reset_at else rate_limits.reset_at end
+      returning count, reset_at
+      `,
+      [key, windowSeconds],
+    );
+    return { count: rows[0].count, resetAt: rows[0].reset_at };
+  }
+
+  async prune() {
+    await this.db.query("delete from rate_limits where reset_at <= now()");
+  }
+}
+
+export function createRateLimitStore(kind = process.env.RATE_LIMIT_STORE || "memory"): RateLimitStore {
+  if (kind === "memory") return new MemoryRateLimitStore();
+  if (kind === "postgres") return new PostgresRateLimitStore(pool);
+  throw new Error(`UNKNOWN_RATE_LIMIT_STORE: ${kind}`);
+}
+
+export type RateLimitKey = "ip" | "phone" | "user";
+export type RateLimit = { limit: number; windowSeconds: number };
+export type RouteLimits = Partial<Record<RateLimitKey, RateLimit>>;
+export type RateLimitedRoute = "otp-request" | "otp-verify" | "refresh" | "claim" | "roster";
+
+// Per route, how many requests each IP, phone number or signed-in user may make
+// per window. RATE_LIMITS (JSON of the same shape) overrides individual entries,
+// e.g. {"claim": {"user": {"limit": 20, "windowSeconds": 60}}}.
+const DEFAULT_LIMITS: Record<RateLimitedRoute, RouteLimits> = {
+  "otp-request": {
+    ip: { limit: 20, windowSeconds: 60 * 60 },
+    phone: { limit: 5, windowSeconds: 60 * 60 },
+  },
+  "otp-verify": {
+    ip: { limit: 30, windowSeconds: 15 * 60 },
+    phone: { limit: 10, windowSeconds: 15 * 60 },
+  },
+  refresh: {
+    ip: { limit: 120, windowSeconds: 60 },
+  },
+  // Enough to pick a few parts by hand or replay an offline queue, not to sweep the board.
+  claim: {
+    user: { limit: 6, windowSeconds: 30 },
+    ip: { limit: 60, windowSeconds: 60 },
+  },
+  // Exports are rendered on demand, the PNG card at some cost; sharing needs only a few.
+  roster: {
+    user: { limit: 10, windowSeconds: 60 },
+    ip: { limit: 30, windowSeconds: 60 },
+  },
+};
+
+function readLimits(raw: string | undefined): Record<RateLimitedRoute, RouteLimits> {
+  if (!raw) return DEFAULT_LIMITS;
+  const overrides = JSON.parse(raw) as Partial<Record<RateLimitedRoute, RouteLimits>>;
+  const limits = { ...DEFAULT_LIMITS };
+  for (const route of Object.keys(overrides) as RateLimitedRoute[]) {
+    limits[route] = { ...DEFAULT_LIMITS[route], ...overrides[route] };
+  }
+  return limits;
+}
+
+const LIMITS = readLimits(process.env.RATE_LIMITS);
+const store = createRateLimitStore();
+
+export function pruneRateLimits(): Promise<void> {
+  return store.prune?.() ?? Promise.resolve();
+}
+
+type KeyResolvers = Partial<Record<RateLimitKey, (req: Request) => string | null | undefined>>;
+
+const DEFAULT_RESOLVERS: Record<RateLimitKey, (req: Request) => string | null | undefined> = {
+  ip: (req) => req.ip,
+  phone: () => null,
+  // Only set once `verify` has run, so put the limiter after it.
+  user: (req) => (req as AuthenticatedRequest).session?.userId,
+};
+
+// Every configured key is counted on each request, and the request is refused
+// with 429 while any of them is over its limit. A key that cannot be resolved
+// (say, no phone in the body) is skipped; the route's own validation handles it.
+export function rateLimit(route: RateLimitedRoute, resolvers: KeyResolvers = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      let retryAfter = 0;
+      for (const [kind, rule] of Object.entries(LIMITS[route]) as [RateLimitKey, RateLimit][]) {
+        const value = (resolvers[kind] ?? DEFAULT_RESOLVERS[kind])(req);
+        if (!value) continue;
+        const { count, resetAt } = await store.hit(`${route}:${kind}:${value}`, rule.windowSeconds);
+        if (count > rule.limit) {
+          retryAfter = Math.max(retryAfter, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+        }
+      }
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({ error: "RATE_LIMITED", retryAfter });
+      }
+      next();
+    } catch (error) {
+      // Never lock everyone out because the counter store is unavailable.
+      console.error("rate limit error", error);
+      next();
+    }
+  };
+}
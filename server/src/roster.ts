@@ -0,0 +1,235 @@
+import { renderAsync } from "@resvg/resvg-js";
+import { HIJRI_CALENDAR, hijriInstant, localeDirection, type Locale } from "@khatma/contract";
+import { WEEK_CALENDAR } from "./calendar.js";
+import { joinList, translate } from "./i18n.js";
+import { unitCount, unitLabel, unitNoun, unitStart, type Division } from "./quran.js";
+
+// The weekly roster as admins share it outside the app: a message ready to paste
+// into a chat, a CSV for spreadsheets, and a PNG card (the contract's ROSTER_FORMATS).
+export type RosterPart = {
+  number: number;
+  claimed_by: string | null;
+  claimed_name: string | null;
+  completed_at: Date | null;
+};
+
+export type RosterWeek = {
+  groupName: string;
+  weekKey: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  division: Division;
+  title: string | null;
+  dedication: string | null;
+  hijriOffset: number;
+  // The language of whoever asked for the export.
+  locale: Locale;
+};
+
+// The card needs a font with Arabic glyphs; system fonts are used unless files are given.
+const ROSTER_FONT_FILES = (process.env.ROSTER_FONT_FILES || "")
+  .split(",")
+  .map((file) => file.trim())
+  .filter(Boolean);
+const ROSTER_FONT_FAMILY = process.env.ROSTER_FONT_FAMILY || "Noto Naskh Arabic";
+
+// Numbers padded to the widest in the division: 01..30, 001..240.
+function padNumber(number: number, division: Division): string {
+  return number.toString().padStart(String(unitCount(division)).length, "0");
+}
+
+function startOf(week: RosterWeek, number: number): string {
+  const start = unitStart(week.division, number, week.locale);
+  return `${start.surahName} ${start.ayah}`;
+}
+
+function holderName(week: RosterWeek, part: RosterPart): string {
+  return part.claimed_name?.trim() || translate(week.locale, "roster.participant");
+}
+
+// All of the division's units, in the export's language.
+function unitsOf(week: RosterWeek): string {
+  return unitNoun(week.division, unitCount(week.division), week.locale);
+}
+
+function dayRange(week: RosterWeek, first: Date, last: Date, options: Intl.DateTimeFormatOptions): string {
+  const timeZone = WEEK_CALENDAR.timeZone;
+  const day = new Intl.DateTimeFormat(week.locale, { ...options, day: "numeric", month: "long", timeZone });
+  const dayOfYear = new Intl.DateTimeFormat(week.locale, {
+    ...options,
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone,
+  });
+  const to = dayOfYear.format(last);
+  if (dayOfYear.format(first) === to) return to;
+  return translate(week.locale, "roster.range", { from: day.format(first), to });
+}
+
+// The cycle's days in both calendars, e.g. "18 – 24 February 2026 · 1 – 7 Ramadan 1447 AH".
+function weekTitle(week: RosterWeek): string {
+  if (!week.startsAt || !week.endsAt) return translate(week.locale, "roster.week", { key: week.weekKey });
+  // endsAt is exclusive; the last reading day is the one before it.
+  const lastDay = new Date(week.endsAt.getTime() - 1);
+  const gregorian = dayRange(week, week.startsAt, lastDay, {});
+  const hijri = dayRange(week, hijriInstant(week.startsAt, week.hijriOffset), hijriInstant(lastDay, week.hijriOffset), {
+    calendar: HIJRI_CALENDAR,
+  });
+  return `${gregorian} · ${hijri}`;
+}
+
+// The week's own title when an admin gave it one, else the group's khatma.
+function heading(week: RosterWeek): string {
+  return week.title ?? translate(week.locale, "roster.khatma", { group: week.groupName });
+}
+
+function openNumbers(parts: RosterPart[]): number[] {
+  return parts.filter((part) => !part.claimed_by).map((part) => part.number);
+}
+
+export function rosterText(week: RosterWeek, parts: RosterPart[]): string {
+  const { locale } = week;
+  const units = unitsOf(week);
+  const lines = [`*${heading(week)}*`, weekTitle(week)];
+  if (week.dedication) lines.push(week.dedication);
+  lines.push("", translate(locale, "roster.heading", { units }));
+  for (const part of parts) {
+    const holder = part.claimed_by
+      ? `${holderName(week, part)}${part.completed_at ? " ✓" : ""}`
+      : `— ${translate(locale, "roster.open")} —`;
+    const unit = translate(locale, "roster.unitFrom", {
+      unit: unitLabel(week.division, part.number, locale),
+      start: startOf(week, part.number),
+    });
+    lines.push(`${padNumber(part.number, week.division)}. ${unit}: ${holder}`);
+  }
+  const open = openNumbers(parts);
+  lines.push("");
+  lines.push(
+    open.length
+      ? translate(locale, "roster.openList", { units, numbers: joinList(locale, open) })
+      : translate(locale, "roster.allTaken", { units }),
+  );
+  return lines.join("\n");
+}
+
+function csvField(value: string): string {
+  // Names are typed by members; a leading =, +, - or @ would run as a spreadsheet formula.
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function rosterCsv(week: RosterWeek, parts: RosterPart[]): string {
+  const { locale } = week;
+  const columns = ["number", "unit", "surah", "ayah", "reader", "status", "completedAt"] as const;
+  const rows = [columns.map((column) => translate(locale, `roster.csv.${column}`))];
+  for (const part of parts) {
+    const status = !part.claimed_by ? "roster.open" : part.completed_at ? "roster.read" : "roster.claimed";
+    const start = unitStart(week.division, part.number, locale);
+    rows.push([
+      String(part.number),
+      unitLabel(week.division, part.number, locale),
+      start.surahName,
+      String(start.ayah),
+      part.claimed_by ? holderName(week, part) : "",
+      translate(locale, status),
+      part.completed_at?.toISOString() ?? "",
+    ]);
+  }
+  // The byte order mark makes Excel read non-Latin text as UTF-8.
+  return "\uFEFF" + rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function truncate(value: string, max: number): string {
+  const chars = Array.from(value);
+  return chars.length > max ? `${chars.slice(0, max - 1).join("")}…` : value;
+}
+
+const CARD_WIDTH = 1080;
+const CARD_MARGIN = 24;
+const GRID_TOP = 210;
+
+type CardLayout = {
+  columns: number;
+  gap: number;
+  cellHeight: number;
+  numberSize: number;
+  nameSize: number;
+  maxName: number;
+  // Surah and ayah each cell starts at; rub' cells are too small for it.
+  startSize: number | null;
+};
+
+const CARD_LAYOUTS: Record<Division, CardLayout> = {
+  juz: { columns: 5, gap: 12, cellHeight: 128, numberSize: 30, nameSize: 22, maxName: 16, startSize: 16 },
+  hizb: { columns: 6, gap: 10, cellHeight: 116, numberSize: 26, nameSize: 18, maxName: 14, startSize: 14 },
+  rub: { columns: 12, gap: 6, cellHeight: 64, numberSize: 17, nameSize: 12, maxName: 9, startSize: null },
+};
+
+export function rosterSvg(week: RosterWeek, parts: RosterPart[]): string {
+  const layout = CARD_LAYOUTS[week.division];
+  const cellWidth = (CARD_WIDTH - 2 * CARD_MARGIN - (layout.columns - 1) * layout.gap) / layout.columns;
+  const rows = Math.ceil(parts.length / layout.columns);
+  const legendTop = GRID_TOP + rows * (layout.cellHeight + layout.gap) + 24;
+  const height = legendTop + 90;
+  const open = openNumbers(parts).length;
+  const units = unitsOf(week);
+  const rtl = localeDirection(week.locale) === "rtl";
+
+  const cells = parts.map((part, index) => {
+    // In the reading direction of the export's language.
+    const column = rtl ? layout.columns - 1 - (index % layout.columns) : index % layout.columns;
+    const x = CARD_MARGIN + column * (cellWidth + layout.gap);
+    const y = GRID_TOP + Math.floor(index / layout.columns) * (layout.cellHeight + layout.gap);
+    const cx = x + cellWidth / 2;
+    const isOpen = !part.claimed_by;
+    const fill = isOpen ? "#fff4d6" : part.completed_at ? "#e3f4ea" : "#ffffff";
+    const stroke = isOpen ? "#e0a100" : "#d5dde3";
+    const name = isOpen
+      ? translate(week.locale, "roster.open")
+      : truncate(holderName(week, part), layout.maxName) + (part.completed_at ? " ✓" : "");
+    const numberY = y + layout.numberSize + 10;
+    const nameY = numberY + layout.nameSize + 10;
+    return [
+      `<rect x="${x}" y="${y}" width="${cellWidth}" height="${layout.cellHeight}" rx="${layout.gap + 4}" fill="${fill}" stroke="${stroke}" stroke-width="${isOpen ? 3 : 1.5}"/>`,
+      `<text x="${cx}" y="${numberY}" font-size="${layout.numberSize}" font-weight="bold" fill="#1f4e5f">${padNumber(part.number, week.division)}</text>`,
+      `<text x="${cx}" y="${nameY}" font-size="${layout.nameSize}" fill="${isOpen ? "#a06b00" : "#2d3a40"}">${escapeXml(name)}</text>`,
+      layout.startSize
+        ? `<text x="${cx}" y="${nameY + layout.startSize + 10}" font-size="${layout.startSize}" fill="#7b8a91">${escapeXml(startOf(week, part.number))}</text>`
+        : "",
+    ].join("");
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${height}" viewBox="0 0 ${CARD_WIDTH} ${height}">`,
+    `<g font-family="${escapeXml(ROSTER_FONT_FAMILY)}" text-anchor="middle">`,
+    `<rect width="100%" height="100%" fill="#f4f7f6"/>`,
+    `<text x="${CARD_WIDTH / 2}" y="92" font-size="48" font-weight="bold" fill="#1f4e5f">${escapeXml(heading(week))}</text>`,
+    `<text x="${CARD_WIDTH / 2}" y="148" font-size="28" fill="#52636b">${escapeXml(weekTitle(week))}</text>`,
+    ...cells,
+    `<text x="${CARD_WIDTH / 2}" y="${legendTop + 40}" font-size="26" fill="#a06b00">${escapeXml(
+      open
+        ? translate(week.locale, "roster.openCount", { units, open, total: parts.length })
+        : translate(week.locale, "roster.allTaken", { units }),
+    )}</text>`,
+    `</g>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+// Rendered on libuv's thread pool: a 240-cell card takes long enough to stall sockets.
+export async function rosterPng(week: RosterWeek, parts: RosterPart[]): Promise<Buffer> {
+  const image = await renderAsync(rosterSvg(week, parts), {
+    font: {
+      loadSystemFonts: true,
+      fontFiles: ROSTER_FONT_FILES,
+      defaultFontFamily: ROSTER_FONT_FAMILY,
+    },
+  });
+  return image.asPng();
+}
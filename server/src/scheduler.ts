@@ -0,0 +1,34 @@
+type Task = () => Promise<void>;
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Runs `task` now and then every `intervalMs`. A run that is still in progress
+ * is never overlapped, and a failing run is logged without stopping later ones.
+ */
+export function schedule(name: string, intervalMs: number, task: Task) {
+  if (timers.has(name)) throw new Error(`TASK_ALREADY_SCHEDULED: ${name}`);
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`scheduled task ${name} failed`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  timers.set(name, timer);
+  void run();
+}
+
+export function stopScheduler() {
+  for (const timer of timers.values()) clearInterval(timer);
+  timers.clear();
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, test, type TestContext } from "node:test";
+import { pool } from "./db.js";
+import { createSession, isSessionActive, rotateSession } from "./sessions.js";
+
+type SessionRow = {
+  id: string;
+  user_id: string;
+  refresh_hash: string;
+  previous_hash: string | null;
+  rotated_at: number | null;
+  revoked_at: number | null;
+  expires_at: number;
+};
+
+// Stands in for the sessions table, answering the statements sessions.ts sends.
+function fakeSessions(t: TestContext) {
+  const rows: SessionRow[] = [];
+  const clock = { now: Date.parse("2026-03-01T12:00:00Z") };
+  const live = (row: SessionRow) => row.revoked_at === null && row.expires_at > clock.now;
+  const result = <T>(found: T[]) => ({ rows: found, rowCount: found.length });
+
+  t.mock.method(pool, "query", async (text: string, values: unknown[]) => {
+    if (text.includes("insert into sessions")) {
+      const [userId, hash, , days] = values as [string, string, string | null, number];
+      const row: SessionRow = {
+        id: `session-${rows.length + 1}`,
+        user_id: userId,
+        refresh_hash: hash,
+        previous_hash: null,
+        rotated_at: null,
+        revoked_at: null,
+        expires_at: clock.now + days * 24 * 60 * 60 * 1000,
+      };
+      rows.push(row);
+      return result([{ id: row.id }]);
+    }
+    if (text.includes("previous_hash = refresh_hash")) {
+      const [hash, next] = values as [string, string];
+      const row = rows.find((candidate) => candidate.refresh_hash === hash && live(candidate));
+      if (!row) return result([]);
+      Object.assign(row, { previous_hash: row.refresh_hash, refresh_hash: next, rotated_at: clock.now });
+      return result([{ id: row.id, user_id: row.user_id }]);
+    }
+    if (text.includes("where previous_hash=$1")) {
+      const [hash, graceSeconds] = values as [string, number];
+      const found = rows.filter((row) => row.previous_hash === hash && row.revoked_at === null);
+      return result(found.map((row) => ({ id: row.id, raced: row.rotated_at! > clock.now - graceSeconds * 1000 })));
+    }
+    if (text.includes("update sessions set revoked_at=now()")) {
+      const row = rows.find((candidate) => candidate.id === values[0] && candidate.revoked_at === null);
+      if (row) row.revoked_at = clock.now;
+      return result(row ? [{ id: row.id }] : []);
+    }
+    if (text.includes("select 1 from sessions")) {
+      return result(rows.filter((row) => row.id === values[0] && live(row)).map(() => ({})));
+    }
+    throw new Error(`unexpected query: ${text}`);
+  });
+  return clock;
+}
+
+describe("rotateSession", () => {
+  test("swaps a refresh token for a new one", async (t) => {
+    fakeSessions(t);
+    const { sessionId, refreshToken } = await createSession("user-1", "test");
+
+    const rotated = await rotateSession(refreshToken);
+
+    assert.ok(rotated.ok);
+    assert.equal(rotated.sessionId, sessionId);
+    assert.equal(rotated.userId, "user-1");
+    assert.notEqual(rotated.refreshToken, refreshToken);
+    assert.ok((await rotateSession(rotated.refreshToken)).ok);
+  });
+
+  test("revokes the session when a rotated token comes back after the grace period", async (t) => {
+    const clock = fakeSessions(t);
+    const { sessionId, refreshToken: stolen } = await createSession("user-1", "test");
+    const rotated = await rotateSession(stolen);
+    assert.ok(rotated.ok);
+
+    clock.now += 5 * 60 * 1000;
+    assert.deepEqual(await rotateSession(stolen), { ok: false, error: "REFRESH_REUSED" });
+
+    // Neither the owner's current token nor the session's access tokens work any more.
+    assert.equal(await isSessionActive(sessionId), false);
+    assert.deepEqual(await rotateSession(rotated.refreshToken), { ok: false, error: "REFRESH_INVALID" });
+  });
+
+  test("treats a rotated token within the grace period as a race, not a theft", async (t) => {
+    const clock = fakeSessions(t);
+    const { sessionId, refreshToken } = await createSession("user-1", "test");
+    const rotated = await rotateSession(refreshToken);
+    assert.ok(rotated.ok);
+
+    clock.now += 10 * 1000;
+    assert.deepEqual(await rotateSession(refreshToken), { ok: false, error: "REFRESH_RACED" });
+
+    assert.equal(await isSessionActive(sessionId), true);
+    assert.ok((await rotateSession(rotated.refreshToken)).ok);
+  });
+});
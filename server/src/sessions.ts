@@ -0,0 +1,136 @@
+import { createHash, randomBytes } from "crypto";
+import { pool } from "./db.js";
+
+const REFRESH_TTL_DAYS = Number(process.env.AUTH_REFRESH_TTL_DAYS || 30);
+// Two tabs of one browser may renew with the same token at the same moment; the
+// loser gets told to pick up the winner's token instead of being treated as a thief.
+const ROTATION_GRACE_SECONDS = 30;
+
+export type SessionSummary = {
+  id: string;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+};
+
+export type RefreshResult =
+  | { ok: true; sessionId: string; userId: string; refreshToken: string }
+  | { ok: false; error: "REFRESH_INVALID" | "REFRESH_RACED" | "REFRESH_REUSED" };
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function newRefreshToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export async function createSession(
+  userId: string,
+  userAgent: string | null,
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const refreshToken = newRefreshToken();
+  const { rows } = await pool.query<{ id: string }>(
+    `
+    insert into sessions (user_id, refresh_hash, user_agent, expires_at)
+    values ($1, $2, $3, now() + make_interval(days => $4))
+    returning id
+    `,
+    [userId, hashToken(refreshToken), userAgent?.slice(0, 300) || null, REFRESH_TTL_DAYS],
+  );
+  return { sessionId: rows[0].id, refreshToken };
+}
+
+// Swaps a refresh token for a new one and pushes the session's expiry forward.
+// A token that was already swapped, presented after the grace period, revokes the
+// whole session: either the owner or whoever copied it is using a stale token.
+export async function rotateSession(refreshToken: string): Promise<RefreshResult> {
+  const hash = hashToken(refreshToken);
+  const next = newRefreshToken();
+  const rotated = await pool.query<{ id: string; user_id: string }>(
+    `
+    update sessions
+    set
+      previous_hash = refresh_hash,
+      refresh_hash = $2,
+      rotated_at = now(),
+      last_used_at = now(),
+      expires_at = now() + make_interval(days => $3)
+    where refresh_hash=$1 and revoked_at is null and expires_at > now()
+    returning id, user_id
+    `,
+    [hash, hashToken(next), REFRESH_TTL_DAYS],
+  );
+  if (rotated.rowCount) {
+    return { ok: true, sessionId: rotated.rows[0].id, userId: rotated.rows[0].user_id, refreshToken: next };
+  }
+
+  const stale = await pool.query<{ id: string; raced: boolean }>(
+    `
+    select id, rotated_at > now() - make_interval(secs => $2) as raced
+    from sessions
+    where previous_hash=$1 and revoked_at is null
+    `,
+    [hash, ROTATION_GRACE_SECONDS],
+  );
+  if (!stale.rowCount) return { ok: false, error: "REFRESH_INVALID" };
+  if (stale.rows[0].raced) return { ok: false, error: "REFRESH_RACED" };
+  await revokeSession(stale.rows[0].id);
+  return { ok: false, error: "REFRESH_REUSED" };
+}
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    "select 1 from sessions where id=$1 and revoked_at is null and expires_at > now()",
+    [sessionId],
+  );
+  return Boolean(rowCount);
+}
+
+export async function listSessions(userId: string): Promise<SessionSummary[]> {
+  const { rows } = await pool.query<SessionSummary>(
+    `
+    select id, user_agent as "userAgent", created_at as "createdAt", last_used_at as "lastUsedAt"
+    from sessions
+    where user_id=$1 and revoked_at is null and expires_at > now()
+    order by last_used_at desc
+    `,
+    [userId],
+  );
+  return rows;
+}
+
+// Returns whether a live session was revoked. With userId, only that user's session matches.
+export async function revokeSession(sessionId: string, userId?: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `
+    update sessions set revoked_at=now()
+    where id=$1 and revoked_at is null and ($2::uuid is null or user_id=$2)
+    `,
+    [sessionId, userId ?? null],
+  );
+  return Boolean(rowCount);
+}
+
+// Signing out presents the refresh token rather than an access token, which may
+// already have expired. Returns the revoked session's id, if it was still live.
+export async function revokeByRefreshToken(refreshToken: string): Promise<string | null> {
+  const { rows } = await pool.query<{ id: string }>(
+    "update sessions set revoked_at=now() where refresh_hash=$1 and revoked_at is null returning id",
+    [hashToken(refreshToken)],
+  );
+  return rows[0]?.id ?? null;
+}
+
+// Revokes every live session of the user except `keep`; returns the revoked ids.
+export async function revokeUserSessions(userId: string, keep?: string): Promise<string[]> {
+  const { rows } = await pool.query<{ id: string }>(
+    `
+    update sessions set revoked_at=now()
+    where user_id=$1 and revoked_at is null and ($2::uuid is null or id <> $2)
+    returning id
+    `,
+    [userId, keep ?? null],
+  );
+  return rows.map((row) => row.id);
+}
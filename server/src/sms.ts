@@ -0,0 +1,39 @@
+import { appendFile } from "fs/promises";
+
+export interface SmsSender {
+  send(to: string, body: string): Promise<void>;
+}
+
+export class ConsoleSmsSender implements SmsSender {
+  async send(to: string, body: string) {
+    console.log(`[sms] to ${to}: ${body}`);
+  }
+}
+
+// Appends one JSON line per message, so local tooling can read codes back.
+export class FileSmsSender implements SmsSender {
+  constructor(private readonly path: string) {}
+
+  async send(to: string, body: string) {
+    const line = JSON.stringify({ to, body, sentAt: new Date().toISOString() });
+    await appendFile(this.path, `${line}\n`, "utf8");
+  }
+}
+
+type SmsDriverFactory = () => SmsSender;
+
+const drivers = new Map<string, SmsDriverFactory>([
+  ["console", () => new ConsoleSmsSender()],
+  ["file", () => new FileSmsSender(process.env.SMS_FILE_PATH || "sms-outbox.log")],
+]);
+
+/** Lets a deployment plug in a real gateway (Twilio, Unifonic, …) under its own SMS_DRIVER name. */
+export function registerSmsDriver(name: string, factory: SmsDriverFactory) {
+  drivers.set(name, factory);
+}
+
+export function createSmsSender(driver = process.env.SMS_DRIVER || "console"): SmsSender {
+  const factory = drivers.get(driver);
+  if (!factory) throw new Error(`UNKNOWN_SMS_DRIVER: ${driver}`);
+  return factory();
+}
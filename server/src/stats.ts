@@ -0,0 +1,173 @@
+import { pool } from "./db.js";
+import { juzOfUnit, type Division } from "./quran.js";
+
+// Statistics come from the readings view: current parts plus what resets archived.
+// Parts an admin read out on someone's behalf count for the named reader, not the admin.
+
+export type MemberStats = {
+  partsRead: number;
+  weeksAttended: number;
+  // Consecutive weeks, up to the latest one, with at least one part read. The week
+  // still running only counts once something in it is read; until then it does not break the streak.
+  currentStreak: number;
+  mostReadJuz: { number: number; count: number } | null;
+};
+
+export type ParticipationRow = {
+  userId: string;
+  name: string | null;
+  phone: string | null;
+  partsRead: number;
+  weeksAttended: number;
+};
+
+export type ParticipationReport = {
+  weeks: number;
+  completedWeeks: number;
+  partsRead: number;
+  members: ParticipationRow[];
+  // Readers without an account, booked by an admin under their name.
+  guests: { name: string; partsRead: number }[];
+};
+
+export async function memberStats(userId: string, groupId: string | null): Promise<MemberStats> {
+  const scope = `
+    select w.id, w.week_key, w.starts_at, w.ends_at
+    from weeks w
+    join group_members m on m.group_id = w.group_id and m.user_id = $1
+    where ($2::uuid is null or w.group_id = $2::uuid)
+  `;
+  const totals = await pool.query<{ parts_read: number; weeks_attended: number }>(
+    `
+    with scope as (${scope})
+    select count(*)::int as parts_read, count(distinct s.week_key)::int as weeks_attended
+    from readings r
+    join scope s on s.id = r.week_id
+    where r.user_id = $1 and not r.on_behalf
+    `,
+    [userId, groupId],
+  );
+  // Hizb and rub' readings count towards the juz they fall in.
+  const units = await pool.query<{ division: Division; part_number: number; count: number }>(
+    `
+    with scope as (${scope})
+    select r.division, r.part_number, count(*)::int as count
+    from readings r
+    join scope s on s.id = r.week_id
+    where r.user_id = $1 and not r.on_behalf
+    group by r.division, r.part_number
+    `,
+    [userId, groupId],
+  );
+  // Calendar weeks newest first; the same key across groups is one week.
+  const weeks = await pool.query<{ week_key: string; attended: boolean; running: boolean }>(
+    `
+    with scope as (${scope})
+    select
+      s.week_key,
+      bool_or(exists (
+        select 1 from readings r where r.week_id = s.id and r.user_id = $1 and not r.on_behalf
+      )) as attended,
+      bool_or(s.ends_at is null or s.ends_at > now()) as running
+    from scope s
+    where s.starts_at is not null and s.starts_at <= now()
+    group by s.week_key
+    order by max(s.starts_at) desc
+    `,
+    [userId, groupId],
+  );
+
+  let currentStreak = 0;
+  for (const [index, week] of weeks.rows.entries()) {
+    if (week.attended) {
+      currentStreak += 1;
+    } else if (!(index === 0 && week.running)) {
+      break;
+    }
+  }
+
+  const juzCounts = new Map<number, number>();
+  for (const row of units.rows) {
+    const juz = juzOfUnit(row.division, row.part_number);
+    juzCounts.set(juz, (juzCounts.get(juz) ?? 0) + row.count);
+  }
+  let top: { number: number; count: number } | null = null;
+  for (const [number, count] of juzCounts) {
+    if (!top || count > top.count || (count === top.count && number < top.number)) top = { number, count };
+  }
+
+  return {
+    partsRead: totals.rows[0].parts_read,
+    weeksAttended: totals.rows[0].weeks_attended,
+    currentStreak,
+    mostReadJuz: top,
+  };
+}
+
+// Weeks that started within [from, to), and who read in them.
+export async function participationReport(groupId: string, from: Date, to: Date): Promise<ParticipationReport> {
+  const range = "select id, completed_at from weeks where group_id=$1 and starts_at >= $2 and starts_at < $3";
+  const weeks = await pool.query<{ weeks: number; completed_weeks: number; parts_read: number }>(
+    `
+    with range as (${range})
+    select
+      (select count(*)::int from range) as weeks,
+      (select count(*)::int from range where completed_at is not null) as completed_weeks,
+      (select count(*)::int from readings r join range w on w.id = r.week_id) as parts_read
+    `,
+    [groupId, from, to],
+  );
+  const members = await pool.query<{
+    user_id: string;
+    name: string | null;
+    phone: string | null;
+    parts_read: number;
+    weeks_attended: number;
+  }>(
+    `
+    with range as (${range})
+    select
+      m.user_id,
+      u.name,
+      u.phone,
+      count(r.week_id)::int as parts_read,
+      count(distinct r.week_id)::int as weeks_attended
+    from group_members m
+    join users u on u.id = m.user_id
+    left join (
+      select r.* from readings r join range w on w.id = r.week_id where not r.on_behalf
+    ) r on r.user_id = m.user_id
+    where m.group_id = $1
+    group by m.user_id, u.name, u.phone
+    order by parts_read desc, u.name asc nulls last
+    `,
+    [groupId, from, to],
+  );
+  const guests = await pool.query<{ name: string; parts_read: number }>(
+    `
+    with range as (${range})
+    select coalesce(nullif(trim(r.reader_name), ''), '—') as name, count(*)::int as parts_read
+    from readings r
+    join range w on w.id = r.week_id
+    where r.on_behalf
+    group by 1
+    order by parts_read desc, name asc
+    `,
+    [groupId, from, to],
+  );
+
+  const totals = weeks.rows[0];
+  return {
+    weeks: totals.weeks,
+    completedWeeks: totals.completed_weeks,
+    partsRead: totals.parts_read,
+    members: members.rows.map((row) => ({
+      userId: row.user_id,
+      name: row.name,
+      phone: row.phone,
+      partsRead: row.parts_read,
+      weeksAttended: row.weeks_attended,
+    })),
+    guests: guests.rows.map((row) => ({ name: row.name, partsRead: row.parts_read })),
+  };
+}
@@ -0,0 +1,98 @@
+import { pool } from "./db.js";
+
+// Read side of waitlists and swap requests. Joining, promoting and swapping change
+// parts, so they live next to the other part transactions in index.ts.
+
+export type SwapStatus = "pending" | "accepted" | "declined" | "cancelled" | "stale";
+
+export type SwapRow = {
+  id: string;
+  week_id: string;
+  from_user: string;
+  from_number: number;
+  to_user: string;
+  to_number: number;
+  status: SwapStatus;
+};
+
+export type SwapSummary = {
+  id: string;
+  offerNumber: number;
+  wantNumber: number;
+  fromName: string | null;
+  toName: string | null;
+  createdAt: Date;
+};
+
+export type WaitlistEntry = { number: number; position: number };
+
+// A proposal is only worth showing while both parts are still held, unread, by the two members.
+export async function listPendingSwaps(
+  weekId: string,
+  userId: string,
+): Promise<{ incoming: SwapSummary[]; outgoing: SwapSummary[] }> {
+  const { rows } = await pool.query<{
+    id: string;
+    from_number: number;
+    to_number: number;
+    incoming: boolean;
+    from_name: string | null;
+    to_name: string | null;
+    created_at: Date;
+  }>(
+    `
+    select
+      s.id,
+      s.from_number,
+      s.to_number,
+      s.to_user = $2 as incoming,
+      offer.claimed_name as from_name,
+      want.claimed_name as to_name,
+      s.created_at
+    from swap_requests s
+    join parts offer on offer.week_id = s.week_id and offer.number = s.from_number
+    join parts want on want.week_id = s.week_id and want.number = s.to_number
+    where s.week_id=$1
+      and s.status = 'pending'
+      and (s.from_user=$2 or s.to_user=$2)
+      and offer.claimed_by = s.from_user and not offer.on_behalf and offer.completed_at is null
+      and want.claimed_by = s.to_user and not want.on_behalf and want.completed_at is null
+    order by s.created_at
+    `,
+    [weekId, userId],
+  );
+  const swaps = rows.map((row) => ({
+    incoming: row.incoming,
+    swap: {
+      id: row.id,
+      offerNumber: row.from_number,
+      wantNumber: row.to_number,
+      fromName: row.from_name,
+      toName: row.to_name,
+      createdAt: row.created_at,
+    },
+  }));
+  return {
+    incoming: swaps.filter((entry) => entry.incoming).map((entry) => entry.swap),
+    outgoing: swaps.filter((entry) => !entry.incoming).map((entry) => entry.swap),
+  };
+}
+
+export async function listWaitlist(weekId: string, userId: string): Promise<WaitlistEntry[]> {
+  const { rows } = await pool.query<WaitlistEntry>(
+    `
+    select
+      mine.part_number as number,
+      (
+        select count(*)::int from part_waitlist q
+        where q.week_id = mine.week_id and q.part_number = mine.part_number
+          and (q.created_at, q.user_id) <= (mine.created_at, mine.user_id)
+      ) as position
+    from part_waitlist mine
+    where mine.week_id=$1 and mine.user_id=$2
+    order by mine.part_number
+    `,
+    [weekId, userId],
+  );
+  return rows;
+}
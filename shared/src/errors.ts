@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { permission } from "./models.js";
+
+// Every `error` the API answers with. The web app keeps a message for each one, so a
+// new code added here fails its type check until someone writes the text for it.
+export const ERROR_CODES = [
+  // Requests the server could not make sense of.
+  "BAD_REQUEST",
+  "INVALID_BODY",
+  "INVALID_QUERY",
+  "INVALID_PARAMS",
+  // Signing in and sessions.
+  "NO_TOKEN",
+  "BAD_TOKEN",
+  "SESSION_CHECK_FAILED",
+  "PHONE_REQUIRED",
+  "NAME_PHONE_AND_CODE_REQUIRED",
+  "OTP_INVALID",
+  "OTP_EXPIRED",
+  "OTP_TOO_MANY_ATTEMPTS",
+  "OTP_TOO_SOON",
+  "OTP_SEND_FAILED",
+  "LOGIN_FAILED",
+  "RATE_LIMITED",
+  "REFRESH_TOKEN_REQUIRED",
+  "REFRESH_INVALID",
+  "REFRESH_RACED",
+  "REFRESH_REUSED",
+  "REFRESH_FAILED",
+  "LOGOUT_FAILED",
+  "SESSION_NOT_FOUND",
+  "SESSIONS_FETCH_FAILED",
+  "SESSION_REVOKE_FAILED",
+  "SESSIONS_REVOKE_FAILED",
+  "PROFILE_FAILED",
+  "INVALID_LOCALE",
+  "STATS_FAILED",
+  // Push notifications.
+  "PUSH_DISABLED",
+  "INVALID_SUBSCRIPTION",
+  "ENDPOINT_REQUIRED",
+  "SUBSCRIBE_FAILED",
+  "UNSUBSCRIBE_FAILED",
+  // Groups, members and roles.
+  "NOT_MEMBER",
+  "NOT_PERMITTED",
+  "PERMISSION_CHECK_FAILED",
+  "GROUP_REQUIRED",
+  "GROUP_NAME_REQUIRED",
+  "GROUPS_FETCH_FAILED",
+  "GROUP_CREATE_FAILED",
+  "GROUP_JOIN_FAILED",
+  "INVITE_CODE_REQUIRED",
+  "INVITE_CODE_INVALID",
+  "INVITE_CODE_FAILED",
+  "MEMBER_NOT_FOUND",
+  "MEMBERS_FETCH_FAILED",
+  "INVALID_ROLE",
+  "LAST_OWNER",
+  "ROLE_CHANGE_FAILED",
+  "JOIN_FAILED",
+  // Weeks and their settings.
+  "WEEK_REQUIRED",
+  "WEEK_NOT_FOUND",
+  "WEEK_CLOSED",
+  "WEEK_FETCH_FAILED",
+  "WEEKS_FETCH_FAILED",
+  "CHANGES_FETCH_FAILED",
+  "CLAIM_RULES_FAILED",
+  "CLAIM_POLICY_FAILED",
+  "TEXT_TOO_LONG",
+  "WEEK_DETAILS_FAILED",
+  "INVALID_DIVISION",
+  "PARTS_CLAIMED",
+  "DIVISION_CHANGE_FAILED",
+  "INVALID_CYCLE",
+  "INVALID_HIJRI_OFFSET",
+  "CALENDAR_CHANGE_FAILED",
+  "RESET_FAILED",
+  "INVALID_FORMAT",
+  "ROSTER_EXPORT_FAILED",
+  // Claiming, reading and handing parts over.
+  "PART_NOT_FOUND",
+  "ALREADY_CLAIMED",
+  "CLAIM_LIMIT_REACHED",
+  "FIRST_CLAIM_WINDOW",
+  "CLAIM_FAILED",
+  "NOT_OWNER",
+  "NOT_CLAIMED",
+  "RELEASE_FAILED",
+  "COMPLETE_FAILED",
+  "INTENTION_FAILED",
+  "INTENTIONS_FETCH_FAILED",
+  "ASSIGNEE_REQUIRED",
+  "ASSIGN_FAILED",
+  // Waitlists and swaps.
+  "PART_AVAILABLE",
+  "ALREADY_HOLDER",
+  "WAITLIST_FAILED",
+  "WAITLIST_FETCH_FAILED",
+  "SWAP_UNAVAILABLE",
+  "PART_COMPLETED",
+  "SWAP_EXISTS",
+  "SWAP_NOT_FOUND",
+  "NOT_RECIPIENT",
+  "SWAP_NOT_PENDING",
+  "SWAP_STALE",
+  "SWAP_FAILED",
+  "SWAPS_FETCH_FAILED",
+  // Reports.
+  "AUDIT_FETCH_FAILED",
+  "INVALID_RANGE",
+  "REPORT_FAILED",
+  // Set by the client when a response does not carry a usable error body.
+  "UNEXPECTED_RESPONSE",
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && (ERROR_CODES as readonly string[]).includes(value);
+}
+
+// The body of every non-2xx JSON response. Only the fields relevant to the code are set.
+export const apiError = z.object({
+  error: z.enum(ERROR_CODES),
+  // Seconds until a rate-limited or throttled request may be repeated.
+  retryAfter: z.number().nullable().optional(),
+  // The per-member claim cap, or the longest text a field accepts.
+  limit: z.number().optional(),
+  // When a week's one-part-each opening window ends.
+  opensAt: z.string().optional(),
+  // The request field that was rejected.
+  field: z.string().optional(),
+  permission: permission.optional(),
+});
+export type ApiError = z.infer<typeof apiError>;
+
+// The answer to a request that failed validation: the first failing check's own code
+// when it names one, with the field and, for too-long text, the limit.
+export function validationError(error: z.ZodError, fallback: "INVALID_BODY" | "INVALID_QUERY"): ApiError {
+  const issue = error.issues[0];
+  const field = issue.path.join(".");
+  return {
+    error: isErrorCode(issue.message) ? issue.message : fallback,
+    ...(field ? { field } : {}),
+    ...(issue.code === "too_big" ? { limit: Number(issue.maximum) } : {}),
+  };
+}
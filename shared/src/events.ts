@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { part, timestamp, week, weekWithParts } from "./models.js";
+
+// Socket.IO events. Payloads go out to rooms: a week's board, a group, or one member's devices.
+
+const privatePart = z.object({ groupId: z.string(), weekId: z.string(), number: z.number().int() });
+
+export const serverEvents = {
+  // One part changed; its revision orders it against other updates.
+  "part:update": part,
+  "part:completed": part,
+  "week:updated": weekWithParts,
+  "week:reset": z.object({ weekId: z.string(), revision: z.number().int(), parts: z.array(part) }),
+  "week:completed": z.object({ weekId: z.string(), completedAt: timestamp }),
+  // The calendar rolled over; boards showing the group's current week move on to this one.
+  "week:current": week,
+  "swaps:changed": z.object({ weekId: z.string() }),
+  // Sent only to the member concerned.
+  "part:assigned": privatePart,
+  "claim:expired": privatePart,
+  "waitlist:assigned": privatePart,
+  "swap:requested": z.object({ groupId: z.string(), weekId: z.string(), swapId: z.string() }),
+};
+
+export const joinAck = z.union([
+  z.object({ ok: z.literal(true) }),
+  z.object({ error: z.enum(["NOT_MEMBER", "JOIN_FAILED"]) }),
+]);
+export type JoinAck = z.infer<typeof joinAck>;
+
+// What clients send; each event carries an id and an optional acknowledgement callback.
+export const clientEvents = {
+  "join-group": z.string().min(1),
+  "join-week": z.string().min(1),
+};
+
+export type ServerEventPayloads = { [E in keyof typeof serverEvents]: z.infer<(typeof serverEvents)[E]> };
+export type EventHandlers<P> = { [E in keyof P]: (payload: P[E]) => void };
+export type ServerToClientEvents = EventHandlers<ServerEventPayloads>;
+export type ClientToServerEvents = {
+  [E in keyof typeof clientEvents]: (
+    payload: z.infer<(typeof clientEvents)[E]>,
+    ack?: (result: JoinAck) => void,
+  ) => void;
+};
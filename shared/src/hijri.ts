@@ -0,0 +1,34 @@
+// Hijri dates on the Umm al-Qura calendar, which Intl computes without a network.
+// Groups that follow a local moon sighting shift it by a day or two.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HIJRI_CALENDAR = "islamic-umalqura";
+
+export type HijriDate = { year: number; month: number; day: number };
+
+// The instant whose Umm al-Qura date is the group's Hijri date at `instant`; format
+// it with { calendar: HIJRI_CALENDAR } to show that date in any language.
+export function hijriInstant(instant: Date | number, offset: number): Date {
+  return new Date(new Date(instant).getTime() + offset * DAY_MS);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function hijriDate(instant: Date | number, offset: number, timeZone = "UTC"): HijriDate {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-u-ca-${HIJRI_CALENDAR}`, {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const date: HijriDate = { year: 0, month: 0, day: 0 };
+  for (const part of formatter.formatToParts(hijriInstant(instant, offset))) {
+    if (part.type === "year" || part.type === "month" || part.type === "day") date[part.type] = Number(part.value);
+  }
+  return date;
+}
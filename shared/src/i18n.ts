@@ -0,0 +1,51 @@
+// Languages the app speaks, and the small message formatter the server and the web
+// app both use for their catalogs.
+
+export const LOCALES = ["ar", "en", "tr", "ur", "id"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "ar";
+
+const RTL_LOCALES: readonly Locale[] = ["ar", "ur"];
+
+export function localeDirection(locale: Locale): "rtl" | "ltr" {
+  return RTL_LOCALES.includes(locale) ? "rtl" : "ltr";
+}
+
+// The first supported language in a preference list such as navigator.languages
+// ("en-GB" matches "en"), or null when none is.
+export function matchLocale(tags: readonly string[]): Locale | null {
+  for (const tag of tags) {
+    const base = tag.trim().toLowerCase().split(/[-_]/)[0];
+    const match = LOCALES.find((locale) => locale === base);
+    if (match) return match;
+  }
+  return null;
+}
+
+// A template with {name} placeholders, or one template per plural category of the
+// `count` parameter. Only `other` is required; Arabic uses all six categories.
+export type PluralMessage = { [C in Intl.LDMLPluralRule]?: string } & { other: string };
+export type Message = string | PluralMessage;
+export type MessageParams = Record<string, string | number>;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function pluralCategory(locale: Locale, count: number): Intl.LDMLPluralRule {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+}
+
+export function formatMessage(locale: Locale, message: Message, params: MessageParams = {}): string {
+  const template =
+    typeof message === "string"
+      ? message
+      : (message[pluralCategory(locale, Number(params.count ?? 0))] ?? message.other);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : String(params[name]),
+  );
+}
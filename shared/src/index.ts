@@ -0,0 +1,7 @@
+export * from "./i18n.js";
+export * from "./hijri.js";
+export * from "./models.js";
+export * from "./errors.js";
+export * from "./routes.js";
+export * from "./events.js";
+export * from "./quran.js";
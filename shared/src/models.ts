@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { LOCALES } from "./i18n.js";
+
+// The shapes the server sends and the web app reads. Field names follow the wire:
+// parts keep the database's snake_case, everything else is camelCase.
+
+export const ROLES = ["owner", "moderator", "member"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "assign_parts",
+  "reset_week",
+  "view_audit",
+  "view_reports",
+  "configure_week",
+  "manage_invites",
+  "manage_roles",
+  "revoke_sessions",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const DIVISIONS = ["juz", "hizb", "rub"] as const;
+export type Division = (typeof DIVISIONS)[number];
+
+// How long one khatma runs before the board starts over: `cycleDays` days, a week
+// or a Hijri month.
+export const CYCLE_UNITS = ["day", "week", "month"] as const;
+export type CycleUnit = (typeof CYCLE_UNITS)[number];
+
+// Longer day-counted cycles are better run as monthly ones.
+export const MAX_CYCLE_DAYS = 30;
+// How far a local moon sighting may move a month start from the Umm al-Qura calendar.
+export const MAX_HIJRI_OFFSET = 2;
+
+export const OVERDUE_ACTIONS = ["flag", "release"] as const;
+export type OverdueAction = (typeof OVERDUE_ACTIONS)[number];
+
+export const AUDIT_ACTIONS = [
+  "claim",
+  "release",
+  "force_release",
+  "assign",
+  "expire",
+  "reset",
+  "grant_admin",
+  "revoke_admin",
+  "set_role",
+  "revoke_sessions",
+  "set_division",
+  "waitlist_assign",
+  "swap",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const ROSTER_FORMATS = ["text", "csv", "png"] as const;
+export type RosterFormat = (typeof ROSTER_FORMATS)[number];
+
+// Longest free text the server keeps, so forms can stop typing at the same point.
+export const TEXT_LIMITS = { title: 120, dedication: 500, closingDua: 2000, intention: 200 } as const;
+
+export const timestamp = z.iso.datetime({ offset: true });
+export const role = z.enum(ROLES);
+export const permission = z.enum(PERMISSIONS);
+export const division = z.enum(DIVISIONS);
+export const cycleUnit = z.enum(CYCLE_UNITS);
+export const overdueAction = z.enum(OVERDUE_ACTIONS);
+export const auditAction = z.enum(AUDIT_ACTIONS);
+export const locale = z.enum(LOCALES, "INVALID_LOCALE");
+
+export const part = z.object({
+  number: z.number().int(),
+  claimed_by: z.string().nullable(),
+  claimed_name: z.string().nullable(),
+  // Owners and moderators of the week's own group.
+  claimed_is_admin: z.boolean().nullable(),
+  completed_at: timestamp.nullable(),
+  due_at: timestamp.nullable(),
+  overdue_at: timestamp.nullable(),
+  // Booked by an admin for a reader without an account.
+  on_behalf: z.boolean(),
+  // Only public intentions; a holder's private one is fetched separately.
+  intention: z.string().nullable(),
+  intention_public: z.boolean(),
+  revision: z.number().int(),
+});
+export type Part = z.infer<typeof part>;
+
+export const week = z.object({
+  weekId: z.string(),
+  groupId: z.string(),
+  weekKey: z.string(),
+  startsAt: timestamp.nullable(),
+  endsAt: timestamp.nullable(),
+  completedAt: timestamp.nullable(),
+  claimDeadline: timestamp.nullable(),
+  claimHoldHours: z.number().int().nullable(),
+  overdueAction,
+  maxPartsPerUser: z.number().int().nullable(),
+  firstClaimHours: z.number().int().nullable(),
+  adminsExempt: z.boolean(),
+  title: z.string().nullable(),
+  dedication: z.string().nullable(),
+  closingDua: z.string().nullable(),
+  revision: z.number().int(),
+  closed: z.boolean(),
+  division,
+  unitCount: z.number().int(),
+});
+export type Week = z.infer<typeof week>;
+
+export const weekWithParts = week.extend({ parts: z.array(part) });
+export type WeekWithParts = z.infer<typeof weekWithParts>;
+
+export const weekSummary = week.extend({ claimedCount: z.number().int(), readCount: z.number().int() });
+export type WeekSummary = z.infer<typeof weekSummary>;
+
+export const group = z.object({
+  id: z.string(),
+  name: z.string(),
+  // Only sent to members who may hand it out.
+  inviteCode: z.string().nullable(),
+  role,
+  permissions: z.array(permission),
+  memberCount: z.number().int(),
+  cycleUnit,
+  // Only read for day cycles: 1 runs a khatma every day, 3 one every three days.
+  cycleDays: z.number().int(),
+  // Days added to the Umm al-Qura date so Hijri dates match the group's moon sighting.
+  hijriOffset: z.number().int(),
+});
+export type Group = z.infer<typeof group>;
+
+export const groupMember = z.object({
+  userId: z.string(),
+  name: z.string().nullable(),
+  phone: z.string().nullable(),
+  role,
+});
+export type GroupMember = z.infer<typeof groupMember>;
+
+export const user = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  phone: z.string().nullable(),
+  // Null until the member picks a language; messages to them are then in the default one.
+  locale: locale.nullable(),
+});
+export type User = z.infer<typeof user>;
+
+export const session = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  createdAt: timestamp,
+  lastUsedAt: timestamp,
+  current: z.boolean(),
+});
+export type Session = z.infer<typeof session>;
+
+export const intention = z.object({
+  number: z.number().int(),
+  text: z.string().nullable(),
+  isPublic: z.boolean(),
+});
+export type Intention = z.infer<typeof intention>;
+
+export const waitlistEntry = z.object({ number: z.number().int(), position: z.number().int() });
+export type WaitlistEntry = z.infer<typeof waitlistEntry>;
+
+export const swapSummary = z.object({
+  id: z.string(),
+  offerNumber: z.number().int(),
+  wantNumber: z.number().int(),
+  fromName: z.string().nullable(),
+  toName: z.string().nullable(),
+  createdAt: timestamp,
+});
+export type SwapSummary = z.infer<typeof swapSummary>;
+
+export const memberStats = z.object({
+  groupId: z.string().nullable(),
+  partsRead: z.number().int(),
+  weeksAttended: z.number().int(),
+  currentStreak: z.number().int(),
+  mostReadJuz: z.object({ number: z.number().int(), count: z.number().int() }).nullable(),
+});
+export type MemberStats = z.infer<typeof memberStats>;
+
+export const participationReport = z.object({
+  from: z.string(),
+  to: z.string(),
+  weeks: z.number().int(),
+  completedWeeks: z.number().int(),
+  partsRead: z.number().int(),
+  members: z.array(
+    z.object({
+      userId: z.string(),
+      name: z.string().nullable(),
+      phone: z.string().nullable(),
+      partsRead: z.number().int(),
+      weeksAttended: z.number().int(),
+    }),
+  ),
+  guests: z.array(z.object({ name: z.string(), partsRead: z.number().int() })),
+});
+export type ParticipationReport = z.infer<typeof participationReport>;
+
+export const auditEntry = z.object({
+  id: z.string(),
+  action: auditAction,
+  weekId: z.string().nullable(),
+  weekKey: z.string().nullable(),
+  division: division.nullable(),
+  partNumber: z.number().int().nullable(),
+  actorId: z.string().nullable(),
+  actorName: z.string().nullable(),
+  targetUserId: z.string().nullable(),
+  targetName: z.string().nullable(),
+  before: z.unknown(),
+  after: z.unknown(),
+  createdAt: timestamp,
+});
+export type AuditEntry = z.infer<typeof auditEntry>;
@@ -0,0 +1,149 @@
+// The mushaf's layout and how a khatma is divided over it, shared so the server's
+// exports and the web board number and name parts the same way.
+import { localeDirection, type Locale } from "./i18n.js";
+import type { Division } from "./models.js";
+
+// Where each rub' al-hizb (quarter of a hizb) starts, as [surah, ayah], in the
+// Hafs reading of the Madani mushaf. A hizb is four quarters and a juz two hizbs.
+// Generated from the quran-meta tables (MIT).
+// prettier-ignore
+export const RUB_STARTS: readonly (readonly [number, number])[] = [
+  [1, 1], [2, 26], [2, 44], [2, 60], [2, 75], [2, 92], [2, 106], [2, 124],
+  [2, 142], [2, 158], [2, 177], [2, 189], [2, 203], [2, 219], [2, 233], [2, 243],
+  [2, 253], [2, 263], [2, 272], [2, 283], [3, 15], [3, 33], [3, 52], [3, 75],
+  [3, 93], [3, 113], [3, 133], [3, 153], [3, 171], [3, 186], [4, 1], [4, 12],
+  [4, 24], [4, 36], [4, 58], [4, 74], [4, 88], [4, 100], [4, 114], [4, 135],
+  [4, 148], [4, 163], [5, 1], [5, 12], [5, 27], [5, 41], [5, 51], [5, 67],
+  [5, 82], [5, 97], [5, 109], [6, 13], [6, 36], [6, 59], [6, 74], [6, 95],
+  [6, 111], [6, 127], [6, 141], [6, 151], [7, 1], [7, 31], [7, 47], [7, 65],
+  [7, 88], [7, 117], [7, 142], [7, 156], [7, 171], [7, 189], [8, 1], [8, 22],
+  [8, 41], [8, 61], [9, 1], [9, 19], [9, 34], [9, 46], [9, 60], [9, 75],
+  [9, 93], [9, 111], [9, 122], [10, 11], [10, 26], [10, 53], [10, 71], [10, 90],
+  [11, 6], [11, 24], [11, 41], [11, 61], [11, 84], [11, 108], [12, 7], [12, 30],
+  [12, 53], [12, 77], [12, 101], [13, 5], [13, 19], [13, 35], [14, 10], [14, 28],
+  [15, 1], [15, 50], [16, 1], [16, 30], [16, 51], [16, 75], [16, 90], [16, 111],
+  [17, 1], [17, 23], [17, 50], [17, 70], [17, 99], [18, 17], [18, 32], [18, 51],
+  [18, 75], [18, 99], [19, 22], [19, 59], [20, 1], [20, 55], [20, 83], [20, 111],
+  [21, 1], [21, 29], [21, 51], [21, 83], [22, 1], [22, 19], [22, 38], [22, 60],
+  [23, 1], [23, 36], [23, 75], [24, 1], [24, 21], [24, 35], [24, 53], [25, 1],
+  [25, 21], [25, 53], [26, 1], [26, 52], [26, 111], [26, 181], [27, 1], [27, 27],
+  [27, 56], [27, 82], [28, 12], [28, 29], [28, 51], [28, 76], [29, 1], [29, 26],
+  [29, 46], [30, 1], [30, 31], [30, 54], [31, 22], [32, 11], [33, 1], [33, 18],
+  [33, 31], [33, 51], [33, 60], [34, 10], [34, 24], [34, 46], [35, 15], [35, 41],
+  [36, 28], [36, 60], [37, 22], [37, 83], [37, 145], [38, 21], [38, 52], [39, 8],
+  [39, 32], [39, 53], [40, 1], [40, 21], [40, 41], [40, 66], [41, 9], [41, 25],
+  [41, 47], [42, 13], [42, 27], [42, 51], [43, 24], [43, 57], [44, 17], [45, 12],
+  [46, 1], [46, 21], [47, 10], [47, 33], [48, 18], [49, 1], [49, 14], [50, 27],
+  [51, 31], [52, 24], [53, 26], [54, 9], [55, 1], [56, 1], [56, 75], [57, 16],
+  [58, 1], [58, 14], [59, 11], [60, 7], [62, 1], [63, 4], [65, 1], [66, 1],
+  [67, 1], [68, 1], [69, 1], [70, 19], [72, 1], [73, 20], [75, 1], [76, 19],
+  [78, 1], [80, 1], [82, 1], [84, 1], [87, 1], [90, 1], [94, 1], [100, 9],
+];
+
+// prettier-ignore
+export const SURAH_NAMES: readonly string[] = [
+  "الفاتحة", "البقرة", "آل عمران", "النساء", "المائدة", "الأنعام",
+  "الأعراف", "الأنفال", "التوبة", "يونس", "هود", "يوسف",
+  "الرعد", "إبراهيم", "الحجر", "النحل", "الإسراء", "الكهف",
+  "مريم", "طه", "الأنبياء", "الحج", "المؤمنون", "النور",
+  "الفرقان", "الشعراء", "النمل", "القصص", "العنكبوت", "الروم",
+  "لقمان", "السجدة", "الأحزاب", "سبإ", "فاطر", "يسٓ",
+  "الصافات", "صٓ", "الزمر", "غافر", "فصلت", "الشورى",
+  "الزخرف", "الدخان", "الجاثية", "الأحقاف", "محمد", "الفتح",
+  "الحجرات", "قٓ", "الذاريات", "الطور", "النجم", "القمر",
+  "الرحمٰن", "الواقعة", "الحديد", "المجادلة", "الحشر", "الممتحنة",
+  "الصف", "الجمعة", "المنافقون", "التغابن", "الطلاق", "التحريم",
+  "الملك", "القلم", "الحاقة", "المعارج", "نوح", "الجن",
+  "المزمل", "المدثر", "القيامة", "الإنسان", "المرسلات", "النبإ",
+  "النازعات", "عبس", "التكوير", "الانفطار", "المطففين", "الانشقاق",
+  "البروج", "الطارق", "الأعلى", "الغاشية", "الفجر", "البلد",
+  "الشمس", "الليل", "الضحى", "الشرح", "التين", "العلق",
+  "القدر", "البينة", "الزلزلة", "العاديات", "القارعة", "التكاثر",
+  "العصر", "الهمزة", "الفيل", "قريش", "الماعون", "الكوثر",
+  "الكافرون", "النصر", "المسد", "الإخلاص", "الفلق", "الناس",
+];
+
+// The same names transliterated, for languages not written in Arabic script.
+// prettier-ignore
+export const SURAH_NAMES_LATIN: readonly string[] = [
+  "Al-Fatihah", "Al-Baqarah", "Ali 'Imran", "An-Nisa", "Al-Ma'idah", "Al-An'am",
+  "Al-A'raf", "Al-Anfal", "At-Tawbah", "Yunus", "Hud", "Yusuf",
+  "Ar-Ra'd", "Ibrahim", "Al-Hijr", "An-Nahl", "Al-Isra", "Al-Kahf",
+  "Maryam", "Ta-Ha", "Al-Anbiya", "Al-Hajj", "Al-Mu'minun", "An-Nur",
+  "Al-Furqan", "Ash-Shu'ara", "An-Naml", "Al-Qasas", "Al-Ankabut", "Ar-Rum",
+  "Luqman", "As-Sajdah", "Al-Ahzab", "Saba", "Fatir", "Ya-Sin",
+  "As-Saffat", "Sad", "Az-Zumar", "Ghafir", "Fussilat", "Ash-Shura",
+  "Az-Zukhruf", "Ad-Dukhan", "Al-Jathiyah", "Al-Ahqaf", "Muhammad", "Al-Fath",
+  "Al-Hujurat", "Qaf", "Adh-Dhariyat", "At-Tur", "An-Najm", "Al-Qamar",
+  "Ar-Rahman", "Al-Waqi'ah", "Al-Hadid", "Al-Mujadilah", "Al-Hashr", "Al-Mumtahanah",
+  "As-Saff", "Al-Jumu'ah", "Al-Munafiqun", "At-Taghabun", "At-Talaq", "At-Tahrim",
+  "Al-Mulk", "Al-Qalam", "Al-Haqqah", "Al-Ma'arij", "Nuh", "Al-Jinn",
+  "Al-Muzzammil", "Al-Muddaththir", "Al-Qiyamah", "Al-Insan", "Al-Mursalat", "An-Naba",
+  "An-Nazi'at", "Abasa", "At-Takwir", "Al-Infitar", "Al-Mutaffifin", "Al-Inshiqaq",
+  "Al-Buruj", "At-Tariq", "Al-A'la", "Al-Ghashiyah", "Al-Fajr", "Al-Balad",
+  "Ash-Shams", "Al-Layl", "Ad-Duha", "Ash-Sharh", "At-Tin", "Al-Alaq",
+  "Al-Qadr", "Al-Bayyinah", "Az-Zalzalah", "Al-Adiyat", "Al-Qari'ah", "At-Takathur",
+  "Al-Asr", "Al-Humazah", "Al-Fil", "Quraysh", "Al-Ma'un", "Al-Kawthar",
+  "Al-Kafirun", "An-Nasr", "Al-Masad", "Al-Ikhlas", "Al-Falaq", "An-Nas",
+];
+
+const QUARTERS_PER_UNIT: Record<Division, number> = { juz: 8, hizb: 4, rub: 1 };
+
+// Arabic labels spell the ordinal out; the other catalogs use the plain number.
+// prettier-ignore
+const JUZ_ORDINALS = [
+  "الأول", "الثاني", "الثالث", "الرابع", "الخامس", "السادس", "السابع", "الثامن", "التاسع", "العاشر",
+  "الحادي عشر", "الثاني عشر", "الثالث عشر", "الرابع عشر", "الخامس عشر",
+  "السادس عشر", "السابع عشر", "الثامن عشر", "التاسع عشر", "العشرون",
+  "الحادي والعشرون", "الثاني والعشرون", "الثالث والعشرون", "الرابع والعشرون", "الخامس والعشرون",
+  "السادس والعشرون", "السابع والعشرون", "الثامن والعشرون", "التاسع والعشرون", "الثلاثون",
+];
+const QUARTER_ORDINALS = ["الأول", "الثاني", "الثالث", "الرابع"];
+
+export type UnitStart = { surah: number; ayah: number; surahName: string };
+
+// Which label message names a unit, and its parameters; each catalog words it.
+export type UnitLabel = {
+  key: "juz" | "hizb.first" | "hizb.second" | "rub";
+  params: Record<string, string | number>;
+};
+
+export function unitCount(division: Division): number {
+  return RUB_STARTS.length / QUARTERS_PER_UNIT[division];
+}
+
+// The juz a unit falls in (the one it starts in, for a juz itself).
+export function juzOfUnit(division: Division, number: number): number {
+  return Math.floor(((number - 1) * QUARTERS_PER_UNIT[division]) / 8) + 1;
+}
+
+// Arabic and Urdu readers see surah names in Arabic script; the others a transliteration.
+export function surahName(surah: number, locale: Locale): string {
+  return (localeDirection(locale) === "rtl" ? SURAH_NAMES : SURAH_NAMES_LATIN)[surah - 1];
+}
+
+export function unitLabelMessage(division: Division, number: number): UnitLabel {
+  switch (division) {
+    case "juz":
+      return { key: "juz", params: { number, ordinal: JUZ_ORDINALS[number - 1] } };
+    case "hizb":
+      return { key: number % 2 ? "hizb.first" : "hizb.second", params: { number, juz: juzOfUnit(division, number) } };
+    case "rub": {
+      const quarter = ((number - 1) % 4) + 1;
+      return { key: "rub", params: { quarter, ordinal: QUARTER_ORDINALS[quarter - 1], hizb: Math.ceil(number / 4) } };
+    }
+  }
+}
+
+export function unitStart(division: Division, number: number, locale: Locale): UnitStart {
+  const [surah, ayah] = RUB_STARTS[(number - 1) * QUARTERS_PER_UNIT[division]];
+  return { surah, ayah, surahName: surahName(surah, locale) };
+}
+
+// The start of the following unit, where this one stops; null for the last unit.
+export function unitEnd(division: Division, number: number, locale: Locale): UnitStart | null {
+  const next = RUB_STARTS[number * QUARTERS_PER_UNIT[division]];
+  if (!next) return null;
+  const [surah, ayah] = next;
+  return { surah, ayah, surahName: surahName(surah, locale) };
+}
@@ -0,0 +1,385 @@
+import { z } from "zod";
+import {
+  auditAction,
+  auditEntry,
+  CYCLE_UNITS,
+  DIVISIONS,
+  group,
+  groupMember,
+  intention,
+  locale,
+  MAX_CYCLE_DAYS,
+  MAX_HIJRI_OFFSET,
+  memberStats,
+  overdueAction,
+  part,
+  participationReport,
+  role,
+  ROLES,
+  ROSTER_FORMATS,
+  session,
+  swapSummary,
+  TEXT_LIMITS,
+  timestamp,
+  user,
+  waitlistEntry,
+  weekSummary,
+  weekWithParts,
+} from "./models.js";
+
+export type Schema = z.ZodType;
+
+export type Method = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type RouteDef = {
+  method: Method;
+  path: string;
+  body?: z.ZodType;
+  query?: z.ZodType;
+  // Routes that answer with a file rather than JSON have no response schema.
+  response: z.ZodType | null;
+};
+
+function route<const D extends RouteDef>(def: D): D {
+  return def;
+}
+
+// A schema's message is the error code the server answers with when that check fails;
+// checks without one fall back to INVALID_BODY or INVALID_QUERY.
+
+const ok = z.object({ ok: z.literal(true) });
+const revoked = z.object({ revoked: z.number().int() });
+// The name a member typed on this device, sent along with actions that record it.
+const profile = z.object({ name: z.string().optional(), phone: z.string().optional() }).optional();
+const partBody = z.object({ profile });
+const positiveHours = z.number().int().positive().nullable().optional();
+const detailText = (limit: number) => z.string().trim().max(limit, "TEXT_TOO_LONG").nullable().optional();
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "INVALID_RANGE");
+
+export const routes = {
+  health: route({ method: "GET", path: "/api/health", response: ok }),
+
+  requestOtp: route({
+    method: "POST",
+    path: "/api/auth/otp/request",
+    // The language of the sign-in screen, which the code message is written in.
+    body: z.object({ phone: z.string("PHONE_REQUIRED").trim().min(1, "PHONE_REQUIRED"), locale: locale.optional() }),
+    response: z.object({ sent: z.literal(true), expiresIn: z.number(), resendIn: z.number() }),
+  }),
+  verifyOtp: route({
+    method: "POST",
+    path: "/api/auth/otp/verify",
+    body: z.object({
+      name: z.string("NAME_PHONE_AND_CODE_REQUIRED").min(1, "NAME_PHONE_AND_CODE_REQUIRED"),
+      phone: z.string("NAME_PHONE_AND_CODE_REQUIRED").min(1, "NAME_PHONE_AND_CODE_REQUIRED"),
+      code: z.string("NAME_PHONE_AND_CODE_REQUIRED").min(1, "NAME_PHONE_AND_CODE_REQUIRED"),
+      // Kept as the member's language unless they already chose one.
+      locale: locale.optional(),
+    }),
+    response: z.object({ token: z.string(), refreshToken: z.string(), user }),
+  }),
+  refreshSession: route({
+    method: "POST",
+    path: "/api/auth/refresh",
+    body: z.object({ refreshToken: z.string("REFRESH_TOKEN_REQUIRED").min(1, "REFRESH_TOKEN_REQUIRED") }),
+    response: z.object({ token: z.string(), refreshToken: z.string() }),
+  }),
+  logout: route({
+    method: "POST",
+    path: "/api/auth/logout",
+    body: z.object({ refreshToken: z.string("REFRESH_TOKEN_REQUIRED").min(1, "REFRESH_TOKEN_REQUIRED") }),
+    response: ok,
+  }),
+
+  listSessions: route({ method: "GET", path: "/api/sessions", response: z.object({ sessions: z.array(session) }) }),
+  revokeOtherSessions: route({ method: "DELETE", path: "/api/sessions", response: revoked }),
+  revokeSession: route({ method: "DELETE", path: "/api/sessions/:sessionId", response: ok }),
+
+  updateProfile: route({
+    method: "POST",
+    path: "/api/profile",
+    body: z.object({ name: z.string().optional(), locale: locale.optional() }),
+    response: z.object({
+      userId: z.string(),
+      name: z.string().nullable(),
+      phone: z.string().nullable(),
+      locale: locale.nullable(),
+    }),
+  }),
+  myStats: route({
+    method: "GET",
+    path: "/api/me/stats",
+    query: z.object({ groupId: z.string().optional() }),
+    response: memberStats,
+  }),
+
+  pushPublicKey: route({ method: "GET", path: "/api/push/public-key", response: z.object({ publicKey: z.string() }) }),
+  subscribePush: route({
+    method: "POST",
+    path: "/api/push/subscriptions",
+    body: z.object({
+      endpoint: z.string("INVALID_SUBSCRIPTION").regex(/^https?:\/\//, "INVALID_SUBSCRIPTION"),
+      keys: z.object(
+        {
+          p256dh: z.string("INVALID_SUBSCRIPTION").min(1, "INVALID_SUBSCRIPTION"),
+          auth: z.string("INVALID_SUBSCRIPTION").min(1, "INVALID_SUBSCRIPTION"),
+        },
+        "INVALID_SUBSCRIPTION",
+      ),
+    }),
+    response: ok,
+  }),
+  unsubscribePush: route({
+    method: "DELETE",
+    path: "/api/push/subscriptions",
+    body: z.object({ endpoint: z.string("ENDPOINT_REQUIRED").min(1, "ENDPOINT_REQUIRED") }),
+    response: ok,
+  }),
+
+  listGroups: route({ method: "GET", path: "/api/groups", response: z.object({ groups: z.array(group) }) }),
+  createGroup: route({
+    method: "POST",
+    path: "/api/groups",
+    body: z.object({ name: z.string("GROUP_NAME_REQUIRED").trim().min(1, "GROUP_NAME_REQUIRED") }),
+    response: group,
+  }),
+  joinGroup: route({
+    method: "POST",
+    path: "/api/groups/join",
+    body: z.object({ inviteCode: z.string("INVITE_CODE_REQUIRED").trim().min(1, "INVITE_CODE_REQUIRED") }),
+    response: group,
+  }),
+  // Takes effect from the group's next cycle; the running one keeps its dates.
+  setGroupCalendar: route({
+    method: "PATCH",
+    path: "/api/groups/:groupId/calendar",
+    body: z.object({
+      cycleUnit: z.enum(CYCLE_UNITS, "INVALID_CYCLE"),
+      cycleDays: z
+        .number("INVALID_CYCLE")
+        .int("INVALID_CYCLE")
+        .min(1, "INVALID_CYCLE")
+        .max(MAX_CYCLE_DAYS, "INVALID_CYCLE")
+        .default(1),
+      hijriOffset: z
+        .number("INVALID_HIJRI_OFFSET")
+        .int("INVALID_HIJRI_OFFSET")
+        .min(-MAX_HIJRI_OFFSET, "INVALID_HIJRI_OFFSET")
+        .max(MAX_HIJRI_OFFSET, "INVALID_HIJRI_OFFSET")
+        .default(0),
+    }),
+    response: group,
+  }),
+  regenerateInviteCode: route({
+    method: "POST",
+    path: "/api/groups/:groupId/invite-code",
+    response: z.object({ groupId: z.string(), inviteCode: z.string() }),
+  }),
+  listMembers: route({
+    method: "GET",
+    path: "/api/groups/:groupId/members",
+    response: z.object({ members: z.array(groupMember) }),
+  }),
+  setMemberRole: route({
+    method: "PATCH",
+    path: "/api/groups/:groupId/members/:userId/role",
+    body: z.object({ role: z.enum(ROLES, "INVALID_ROLE") }),
+    response: z.object({ groupId: z.string(), userId: z.string(), role }),
+  }),
+  revokeMemberSessions: route({
+    method: "DELETE",
+    path: "/api/groups/:groupId/members/:userId/sessions",
+    response: revoked,
+  }),
+  auditLog: route({
+    method: "GET",
+    path: "/api/groups/:groupId/audit",
+    query: z.object({
+      action: auditAction.optional(),
+      actorId: z.string().optional(),
+      weekId: z.string().optional(),
+      part: z.coerce.number().int().optional(),
+      // The id of the last entry already shown.
+      before: z.string().regex(/^\d+$/).optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    }),
+    response: z.object({ entries: z.array(auditEntry), nextCursor: z.string().nullable() }),
+  }),
+  participationReport: route({
+    method: "GET",
+    path: "/api/groups/:groupId/reports/participation",
+    // Calendar days, both inclusive; without them the report covers the last 90 days.
+    query: z.object({ from: day.optional(), to: day.optional() }),
+    response: participationReport,
+  }),
+
+  currentWeek: route({ method: "GET", path: "/api/groups/:groupId/weeks/current", response: weekWithParts }),
+  groupWeek: route({ method: "GET", path: "/api/groups/:groupId/weeks/:weekKey", response: weekWithParts }),
+  resetWeek: route({
+    method: "POST",
+    path: "/api/groups/:groupId/weeks/:weekKey/reset",
+    body: partBody,
+    response: z.object({ weekId: z.string(), revision: z.number().int(), parts: z.array(part) }),
+  }),
+  listWeeks: route({
+    method: "GET",
+    path: "/api/weeks",
+    query: z.object({
+      groupId: z.string("GROUP_REQUIRED").min(1, "GROUP_REQUIRED"),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      // startsAt of the last week already shown.
+      before: timestamp.optional(),
+    }),
+    response: z.object({ weeks: z.array(weekSummary), nextCursor: z.string().nullable() }),
+  }),
+  getWeek: route({ method: "GET", path: "/api/weeks/:weekId", response: weekWithParts }),
+  weekChanges: route({
+    method: "GET",
+    path: "/api/weeks/:weekId/changes",
+    query: z.object({ since: z.coerce.number().int().min(0).default(0) }),
+    response: weekWithParts.extend({ since: z.number().int() }),
+  }),
+  roster: route({
+    method: "GET",
+    path: "/api/weeks/:weekId/roster",
+    query: z.object({ format: z.enum(ROSTER_FORMATS, "INVALID_FORMAT").default("text") }),
+    response: null,
+  }),
+  setClaimRules: route({
+    method: "PATCH",
+    path: "/api/weeks/:weekId/claim-rules",
+    body: z.object({
+      claimDeadline: timestamp.nullable().optional(),
+      claimHoldHours: positiveHours,
+      overdueAction: overdueAction.default("flag"),
+    }),
+    response: weekWithParts,
+  }),
+  setClaimPolicy: route({
+    method: "PATCH",
+    path: "/api/weeks/:weekId/claim-policy",
+    body: z.object({
+      maxPartsPerUser: positiveHours,
+      firstClaimHours: positiveHours,
+      adminsExempt: z.boolean().default(true),
+    }),
+    response: weekWithParts,
+  }),
+  // Empty strings clear a field; fields left out stay as they are.
+  setWeekDetails: route({
+    method: "PATCH",
+    path: "/api/weeks/:weekId/details",
+    body: z.object({
+      title: detailText(TEXT_LIMITS.title),
+      dedication: detailText(TEXT_LIMITS.dedication),
+      closingDua: detailText(TEXT_LIMITS.closingDua),
+    }),
+    response: weekWithParts,
+  }),
+  setDivision: route({
+    method: "PATCH",
+    path: "/api/weeks/:weekId/division",
+    body: z.object({ division: z.enum(DIVISIONS, "INVALID_DIVISION") }),
+    response: weekWithParts,
+  }),
+  myIntentions: route({
+    method: "GET",
+    path: "/api/weeks/:weekId/intentions",
+    response: z.object({ intentions: z.array(intention) }),
+  }),
+  myWaitlist: route({
+    method: "GET",
+    path: "/api/weeks/:weekId/waitlist",
+    response: z.object({ entries: z.array(waitlistEntry) }),
+  }),
+
+  claimPart: route({ method: "POST", path: "/api/weeks/:weekId/parts/:number/claim", body: partBody, response: part }),
+  releasePart: route({ method: "POST", path: "/api/weeks/:weekId/parts/:number/release", response: part }),
+  completePart: route({
+    method: "POST",
+    path: "/api/weeks/:weekId/parts/:number/complete",
+    body: z.object({ completed: z.boolean().default(true) }),
+    response: part,
+  }),
+  setIntention: route({
+    method: "PATCH",
+    path: "/api/weeks/:weekId/parts/:number/intention",
+    body: z.object({
+      text: z.string().trim().max(TEXT_LIMITS.intention, "TEXT_TOO_LONG").nullable().optional(),
+      isPublic: z.boolean().default(false),
+    }),
+    response: intention,
+  }),
+  forceRelease: route({ method: "POST", path: "/api/weeks/:weekId/parts/:number/admin/release", response: part }),
+  // Either an existing member (userId) or, for someone without an account, the reader's name.
+  assignPart: route({
+    method: "POST",
+    path: "/api/weeks/:weekId/parts/:number/admin/assign",
+    body: z
+      .object({ userId: z.string().optional(), name: z.string().trim().optional() })
+      .refine((body) => body.userId || body.name, "ASSIGNEE_REQUIRED"),
+    response: part,
+  }),
+  joinWaitlist: route({ method: "POST", path: "/api/weeks/:weekId/parts/:number/waitlist", response: waitlistEntry }),
+  leaveWaitlist: route({ method: "DELETE", path: "/api/weeks/:weekId/parts/:number/waitlist", response: ok }),
+
+  proposeSwap: route({
+    method: "POST",
+    path: "/api/weeks/:weekId/swaps",
+    body: z
+      .object({ offerNumber: z.number().int(), wantNumber: z.number().int() })
+      .refine((body) => body.offerNumber !== body.wantNumber),
+    response: z.object({ id: z.string(), offerNumber: z.number().int(), wantNumber: z.number().int() }),
+  }),
+  listSwaps: route({
+    method: "GET",
+    path: "/api/weeks/:weekId/swaps",
+    response: z.object({ incoming: z.array(swapSummary), outgoing: z.array(swapSummary) }),
+  }),
+  acceptSwap: route({
+    method: "POST",
+    path: "/api/swaps/:swapId/accept",
+    response: z.object({ parts: z.array(part) }),
+  }),
+  declineSwap: route({ method: "POST", path: "/api/swaps/:swapId/decline", response: ok }),
+  cancelSwap: route({ method: "POST", path: "/api/swaps/:swapId/cancel", response: ok }),
+};
+
+export type Routes = typeof routes;
+export type RouteName = keyof Routes;
+
+// "/api/weeks/:weekId/parts/:number" -> { weekId; number }
+type ParamNames<P extends string> = P extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | ParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+export type PathParams<P extends string> = { [K in ParamNames<P>]: string | number };
+
+type SchemaInput<S> = S extends z.ZodType ? z.input<S> : never;
+type SchemaOutput<S> = S extends z.ZodType ? z.output<S> : never;
+
+// What a caller passes: body and query before defaults are applied.
+export type BodyInput<R extends RouteName> = SchemaInput<Routes[R]["body" & keyof Routes[R]]>;
+export type QueryInput<R extends RouteName> = SchemaInput<Routes[R]["query" & keyof Routes[R]]>;
+// What a handler sees once the server has validated them.
+export type BodyOf<R extends RouteName> = SchemaOutput<Routes[R]["body" & keyof Routes[R]]>;
+export type QueryOf<R extends RouteName> = SchemaOutput<Routes[R]["query" & keyof Routes[R]]>;
+export type ResponseOf<R extends RouteName> = SchemaOutput<Routes[R]["response"]>;
+
+export type RequestOf<R extends RouteName> = ([ParamNames<Routes[R]["path"]>] extends [never]
+  ? unknown
+  : { params: PathParams<Routes[R]["path"]> }) &
+  ([BodyInput<R>] extends [never]
+    ? unknown
+    : object extends BodyInput<R>
+      ? { body?: BodyInput<R> }
+      : { body: BodyInput<R> }) &
+  ([QueryInput<R>] extends [never] ? unknown : { query?: QueryInput<R> });
+
+export function buildPath(path: string, params: Record<string, string | number> = {}): string {
+  return path.replace(/:(\w+)/g, (_match, name: string) => {
+    if (params[name] === undefined) throw new Error(`missing path parameter ${name}`);
+    return encodeURIComponent(String(params[name]));
+  });
+}
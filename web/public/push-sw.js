@@ -0,0 +1,40 @@
+// Loaded into the generated service worker through workbox.importScripts.
+
+// The app's name per language, for a payload that arrives without a title.
+const APP_NAMES = { ar: "ختمة", en: "Khatma", tr: "Hatim", ur: "ختم", id: "Khatam" };
+
+self.addEventListener("push", (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : "" };
+  }
+  event.waitUntil(
+    self.registration.showNotification(message.title || APP_NAMES[message.lang] || APP_NAMES.ar, {
+      body: message.body || "",
+      tag: message.tag,
+      // The server sends the recipient's language; older payloads were always Arabic.
+      dir: message.dir || "rtl",
+      lang: message.lang || "ar",
+      icon: "/pwa-192x192.png",
+      badge: "/pwa-192x192.png",
+      data: { url: message.url || "/" },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => client.url.startsWith(self.location.origin));
+      if (open) {
+        open.navigate(url);
+        return open.focus();
+      }
+      return self.clients.openWindow(url);
+    }),
+  );
+});
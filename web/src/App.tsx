@@ -1,13 +1,48 @@
 import React from "react";
-import Header from "./components/Header";
-import Board from "./components/Board";
+import Header, { type AppView } from "./components/Header";
+import Board, { type SyncStatus } from "./components/Board";
+import WeekHistory from "./components/WeekHistory";
+import MyStats from "./components/MyStats";
+import Devices from "./components/Devices";
 import Login, { type LoginResult } from "./components/Login";
-import { authed, getSessionToken, setSessionToken, clearSession } from "./lib/api";
-
-const WEEK_KEY = "W44-2025";
+import JoinGroup from "./components/JoinGroup";
+import type { Group, Locale, ResponseOf } from "@khatma/contract";
+import {
+  endSession,
+  getSessionToken,
+  request,
+  setRefreshToken,
+  setSessionToken,
+  SESSION_ENDED_EVENT,
+} from "./lib/api";
+import { describeError } from "./lib/errors";
+import { clearOfflineData, isNetworkError } from "./lib/offline";
+import { disablePush } from "./lib/push";
+import { can } from "./lib/roles";
+import { getLocale, setLocale, t, useLocale } from "./lib/i18n";
 
 type StoredProfile = { name: string; phone: string };
-type AccountState = { userId: string; name: string | null; phone: string | null; isAdmin: boolean };
+type AccountState = ResponseOf<"updateProfile">;
+
+const GROUP_KEY = "khatma_groupId";
+// Last group list, so the app can still open a board while offline.
+const GROUPS_KEY = "khatma_groups";
+// Lists cached before groups had cycle settings lack them; these are what the server used then.
+const CACHED_GROUP_DEFAULTS: Pick<Group, "cycleUnit" | "cycleDays" | "hijriOffset"> = {
+  cycleUnit: "week",
+  cycleDays: 1,
+  hijriOffset: 0,
+};
+
+function readCachedGroups(): Group[] | null {
+  try {
+    const raw = localStorage.getItem(GROUPS_KEY);
+    const groups = raw ? (JSON.parse(raw) as Group[]) : null;
+    return groups && groups.map((group) => ({ ...CACHED_GROUP_DEFAULTS, ...group }));
+  } catch {
+    return null;
+  }
+}
 
 function readProfile(): StoredProfile | null {
   try {
@@ -24,19 +59,32 @@ function readProfile(): StoredProfile | null {
 }
 
 export default function App() {
+  // Subscribing here re-renders the whole tree when the language changes.
+  useLocale();
   const [token, setToken] = React.useState<string | null>(() => getSessionToken());
   const [profile, setProfile] = React.useState<StoredProfile | null>(() => readProfile());
   const [account, setAccount] = React.useState<AccountState | null>(null);
   const [initializing, setInitializing] = React.useState(true);
   const [syncingProfile, setSyncingProfile] = React.useState(false);
   const [resetting, setResetting] = React.useState(false);
+  const [weekKey, setWeekKey] = React.useState<string | null>(null);
+  const [groups, setGroups] = React.useState<Group[] | null>(null);
+  const [activeGroupId, setActiveGroupId] = React.useState<string | null>(() => localStorage.getItem(GROUP_KEY));
+  const [joiningGroup, setJoiningGroup] = React.useState(false);
+  const [syncStatus, setSyncStatus] = React.useState<SyncStatus>("live");
+  const [view, setView] = React.useState<AppView>("board");
   const [error, setError] = React.useState<string | null>(null);
 
   const doLogout = React.useCallback(() => {
-    clearSession();
+    // Stop this browser receiving the signed-out user's notifications.
+    disablePush().catch(() => undefined);
+    endSession().catch((err) => console.error(err));
+    localStorage.removeItem(GROUPS_KEY);
+    clearOfflineData();
     setToken(null);
     setAccount(null);
     setProfile(null);
+    setGroups(null);
     setError(null);
   }, []);
 
@@ -54,35 +102,44 @@ export default function App() {
 
     (async () => {
       try {
-        const resp = await authed("/api/profile", {
-          method: "POST",
-          body: JSON.stringify(stored || {}),
-        });
-        if (!resp.ok) {
-          if (resp.status === 401) {
+        const profileResult = await request("updateProfile", { body: { name: stored?.name } });
+        if (!profileResult.ok) {
+          if (profileResult.status === 401) {
             doLogout();
             return;
           }
-          throw new Error(`profile sync failed (${resp.status})`);
+          throw new Error(`profile sync failed (${profileResult.status})`);
         }
-        const data = await resp.json();
-        if (data.token && data.token !== token) {
-          setSessionToken(data.token);
-          setToken(data.token);
-        }
-        const nextAccount: AccountState = {
-          userId: data.userId,
-          name: data.name ?? null,
-          phone: data.phone ?? null,
-          isAdmin: Boolean(data.isAdmin),
-        };
+        const nextAccount: AccountState = profileResult.data;
         setAccount(nextAccount);
+        if (nextAccount.locale) {
+          setLocale(nextAccount.locale);
+        } else {
+          // First sign-in since languages existed: keep what this device shows.
+          request("updateProfile", { body: { locale: getLocale() } }).catch((err) => console.error(err));
+        }
         localStorage.setItem("khatma_myDbUserId", nextAccount.userId);
-        localStorage.setItem("khatma_isAdmin", nextAccount.isAdmin ? "1" : "0");
+
+        const groupsResult = await request("listGroups");
+        if (!groupsResult.ok) throw new Error(`groups fetch failed (${groupsResult.status})`);
+        setGroups(groupsResult.data.groups);
       } catch (err) {
         console.error(err);
+        const cachedUserId = localStorage.getItem("khatma_myDbUserId");
+        const cachedGroups = readCachedGroups();
+        if (isNetworkError(err) && cachedUserId && cachedGroups) {
+          // Offline: carry on with what we knew last time; boards fall back to their cached weeks.
+          setAccount({
+            userId: cachedUserId,
+            name: stored?.name ?? null,
+            phone: stored?.phone ?? null,
+            locale: getLocale(),
+          });
+          setGroups(cachedGroups);
+          return;
+        }
         setAccount(null);
-        setError("تعذر مزامنة الملف الشخصي");
+        setError(t("app.profileSyncFailed"));
       } finally {
         setSyncingProfile(false);
         setInitializing(false);
@@ -90,46 +147,83 @@ export default function App() {
     })();
   }, [token, doLogout]);
 
+  React.useEffect(() => {
+    window.addEventListener(SESSION_ENDED_EVENT, doLogout);
+    return () => window.removeEventListener(SESSION_ENDED_EVENT, doLogout);
+  }, [doLogout]);
+
   const handleLoginSuccess = React.useCallback((result: LoginResult) => {
     setSessionToken(result.token);
+    setRefreshToken(result.refreshToken);
     setToken(result.token);
     setAccount({
       userId: result.user.id,
       name: result.user.name ?? result.profile.name,
       phone: result.user.phone ?? result.profile.phone,
-      isAdmin: result.user.isAdmin,
+      locale: result.user.locale,
     });
+    if (result.user.locale) setLocale(result.user.locale);
     setProfile(result.profile);
     setInitializing(false);
     localStorage.setItem("khatma_myDbUserId", result.user.id);
-    localStorage.setItem("khatma_isAdmin", result.user.isAdmin ? "1" : "0");
+  }, []);
+
+  const changeLocale = React.useCallback((locale: Locale) => {
+    setLocale(locale);
+    setAccount((prev) => (prev ? { ...prev, locale } : prev));
+    request("updateProfile", { body: { locale } }).catch((err) => console.error(err));
+  }, []);
+
+  React.useEffect(() => {
+    if (groups) localStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
+  }, [groups]);
+
+  const activeGroup = React.useMemo(() => {
+    if (!groups?.length) return null;
+    return groups.find((group) => group.id === activeGroupId) ?? groups[0];
+  }, [groups, activeGroupId]);
+
+  const selectGroup = React.useCallback((groupId: string) => {
+    localStorage.setItem(GROUP_KEY, groupId);
+    setActiveGroupId(groupId);
+    setWeekKey(null);
+  }, []);
+
+  const handleGroupJoined = React.useCallback(
+    (group: Group) => {
+      setGroups((prev) => [...(prev || []).filter((existing) => existing.id !== group.id), group]);
+      setJoiningGroup(false);
+      selectGroup(group.id);
+    },
+    [selectGroup],
+  );
+
+  const handleGroupChange = React.useCallback((group: Group) => {
+    setGroups((prev) => prev && prev.map((existing) => (existing.id === group.id ? group : existing)));
   }, []);
 
   const handleReset = React.useCallback(async () => {
-    if (!account?.isAdmin) return;
-    if (!window.confirm("هل تريد إعادة تعيين أجزاء هذا الأسبوع؟")) return;
+    if (!activeGroup || !can(activeGroup, "reset_week") || !weekKey) return;
+    if (!window.confirm(t("app.resetConfirm"))) return;
     try {
       setResetting(true);
-      const body = { profile };
-      const resp = await authed(`/api/weeks/${WEEK_KEY}/reset`, {
-        method: "POST",
-        body: JSON.stringify(body),
+      const result = await request("resetWeek", {
+        params: { groupId: activeGroup.id, weekKey },
+        body: { profile: profile ?? undefined },
       });
-      if (!resp.ok) {
-        throw new Error(`reset failed (${resp.status})`);
-      }
+      if (!result.ok) alert(describeError(result.error, t("app.resetFailed")));
     } catch (err) {
       console.error(err);
-      alert("تعذر إعادة التعيين الآن. حاول مرة أخرى.");
+      alert(t("app.resetFailed"));
     } finally {
       setResetting(false);
     }
-  }, [account?.isAdmin, profile]);
+  }, [activeGroup, profile, weekKey]);
 
   if (initializing) {
     return (
       <div className="min-h-screen flex items-center justify-center text-slate-600">
-        جارٍ التحميل...
+        {t("common.loading")}
       </div>
     );
   }
@@ -138,16 +232,26 @@ export default function App() {
     return <Login onSuccess={handleLoginSuccess} />;
   }
 
+  const showJoin = joiningGroup || (groups !== null && !groups.length);
+
   const displayName = account?.name || profile?.name;
   const displayPhone = account?.phone || profile?.phone;
-  const userLabel = displayName ? `${displayName}${displayPhone ? ` — ${displayPhone}` : ""}` : "مستخدم مجهول";
+  const userLabel = displayName ? `${displayName}${displayPhone ? ` — ${displayPhone}` : ""}` : t("app.anonymous");
 
   return (
     <div className="min-h-screen">
       <Header
         userLabel={userLabel}
         syncing={syncingProfile}
-        isAdmin={Boolean(account?.isAdmin)}
+        syncStatus={showJoin || !activeGroup || view !== "board" ? "live" : syncStatus}
+        canReset={can(activeGroup, "reset_week")}
+        groups={groups || []}
+        activeGroupId={activeGroup?.id ?? null}
+        onSelectGroup={selectGroup}
+        onAddGroup={() => setJoiningGroup(true)}
+        view={view}
+        onViewChange={setView}
+        onLocaleChange={changeLocale}
         resetting={resetting}
         onReset={handleReset}
         onLogout={doLogout}
@@ -157,12 +261,34 @@ export default function App() {
         <div className="px-4 mt-6 text-center text-sm text-red-500">{error}</div>
       ) : null}
 
-      <Board
-        weekKey={WEEK_KEY}
-        userId={account?.userId || ""}
-        profile={profile || undefined}
-        isAdmin={Boolean(account?.isAdmin)}
-      />
+      {showJoin ? (
+        <JoinGroup
+          onJoined={handleGroupJoined}
+          onCancel={groups?.length ? () => setJoiningGroup(false) : undefined}
+        />
+      ) : activeGroup && view === "history" ? (
+        <WeekHistory
+          key={activeGroup.id}
+          group={activeGroup}
+          userId={account?.userId || ""}
+          profile={profile || undefined}
+          onOpenCurrent={() => setView("board")}
+        />
+      ) : activeGroup && view === "stats" ? (
+        <MyStats key={activeGroup.id} group={activeGroup} />
+      ) : view === "devices" ? (
+        <Devices />
+      ) : activeGroup ? (
+        <Board
+          key={activeGroup.id}
+          group={activeGroup}
+          onWeekChange={setWeekKey}
+          onSyncStatusChange={setSyncStatus}
+          onGroupChange={handleGroupChange}
+          userId={account?.userId || ""}
+          profile={profile || undefined}
+        />
+      ) : null}
     </div>
   );
 }
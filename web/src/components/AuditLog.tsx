@@ -0,0 +1,186 @@
+import React from "react";
+import { AUDIT_ACTIONS, type AuditAction, type AuditEntry } from "@khatma/contract";
+import { request } from "../lib/api";
+import { unitLabel, type Division } from "../lib/quran";
+import { formatDate, t } from "../lib/i18n";
+import { roleLabel, type Role } from "../lib/roles";
+
+type Holder = { claimedBy?: string; claimedName?: string | null; onBehalf?: boolean } | null;
+
+interface AuditLogProps {
+  groupId: string;
+  weekId: string;
+}
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "numeric",
+  month: "short",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+function holderName(state: unknown): string | null {
+  const holder = state as Holder;
+  return holder?.claimedName?.trim() || null;
+}
+
+function describe(entry: AuditEntry): string {
+  const part = entry.partNumber !== null ? unitLabel(entry.division ?? "juz", entry.partNumber) : "";
+  const target = entry.targetName || t("common.member");
+  switch (entry.action) {
+    case "claim":
+      return t("audit.claim", { part });
+    case "release":
+      return t("audit.release", { part });
+    case "force_release":
+      return t("audit.forceRelease", { part, holder: holderName(entry.before) || target });
+    case "assign": {
+      const from = holderName(entry.before);
+      const to = holderName(entry.after) || target;
+      return from ? t("audit.move", { part, from, to }) : t("audit.assign", { part, to });
+    }
+    case "expire":
+      return t("audit.expire", { part, holder: holderName(entry.before) || target });
+    case "reset": {
+      const count = Array.isArray(entry.before) ? entry.before.length : 0;
+      return t("audit.reset", { week: entry.weekKey ?? "", count });
+    }
+    case "grant_admin":
+      return t("audit.grantAdmin", { target });
+    case "revoke_admin":
+      return t("audit.revokeAdmin", { target });
+    case "revoke_sessions": {
+      const count = (entry.after as { revoked?: number } | null)?.revoked ?? 0;
+      return t("audit.revokeSessions", { target, count });
+    }
+    case "set_role": {
+      const to = (entry.after as { role?: Role } | null)?.role;
+      return t("audit.setRole", { target, role: to ? roleLabel(to) : t("audit.newRole") });
+    }
+    case "waitlist_assign":
+      return t("audit.waitlistAssign", { part, to: holderName(entry.after) || target });
+    case "swap":
+      return t("audit.swap", {
+        part,
+        from: holderName(entry.before) || t("common.participant"),
+        to: holderName(entry.after) || target,
+      });
+    case "set_division": {
+      const to = (entry.after as { division?: Division } | null)?.division;
+      return t("audit.setDivision", {
+        week: entry.weekKey ?? "",
+        division: to ? t(`audit.division.${to}`) : t("audit.newUnits"),
+      });
+    }
+  }
+}
+
+export default function AuditLog({ groupId, weekId }: AuditLogProps) {
+  const [open, setOpen] = React.useState(false);
+  const [entries, setEntries] = React.useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [action, setAction] = React.useState<AuditAction | "">("");
+  const [part, setPart] = React.useState("");
+  const [thisWeekOnly, setThisWeekOnly] = React.useState(true);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(
+    async (before: string | null) => {
+      const query = {
+        action: action || undefined,
+        part: part.trim() ? Number(part) : undefined,
+        weekId: thisWeekOnly ? weekId : undefined,
+        before: before ?? undefined,
+      };
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await request("auditLog", { params: { groupId }, query });
+        if (!result.ok) throw new Error(`audit failed (${result.status})`);
+        const data = result.data;
+        setEntries((prev) => (before ? [...prev, ...data.entries] : data.entries));
+        setCursor(data.nextCursor);
+      } catch (err) {
+        console.error(err);
+        setError(t("audit.failed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [action, groupId, part, thisWeekOnly, weekId],
+  );
+
+  React.useEffect(() => {
+    if (open) load(null);
+  }, [open, load]);
+
+  return (
+    <div className="khatma-rules kh-audit">
+      <div className="khatma-rules__summary">
+        <span>{t("audit.title")}</span>
+        <button type="button" className="khatma-rules__edit" onClick={() => setOpen((v) => !v)}>
+          {open ? t("audit.hide") : t("audit.show")}
+        </button>
+      </div>
+      {open ? (
+        <>
+          <div className="kh-audit__filters">
+            <select
+              className="login-input"
+              value={action}
+              onChange={(event) => setAction(event.target.value as AuditAction | "")}
+            >
+              <option value="">{t("audit.allActions")}</option>
+              {AUDIT_ACTIONS.map((key) => (
+                <option key={key} value={key}>
+                  {t(`audit.action.${key}`)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={240}
+              className="login-input"
+              placeholder={t("audit.partPlaceholder")}
+              value={part}
+              onChange={(event) => setPart(event.target.value)}
+            />
+            <label className="kh-audit__check">
+              <input
+                type="checkbox"
+                checked={thisWeekOnly}
+                onChange={(event) => setThisWeekOnly(event.target.checked)}
+              />
+              {t("audit.thisWeek")}
+            </label>
+          </div>
+
+          {error ? <p className="login-error">{error}</p> : null}
+          {!loading && !entries.length && !error ? <p className="kh-audit__empty">{t("audit.empty")}</p> : null}
+
+          <ol className="kh-audit__list">
+            {entries.map((entry) => (
+              <li key={entry.id} className="kh-audit__item">
+                <span className="kh-audit__actor">
+                  {entry.actorId ? entry.actorName || t("common.member") : t("audit.system")}
+                </span>
+                <span>{describe(entry)}</span>
+                <time className="kh-audit__time" dateTime={entry.createdAt}>
+                  {formatDate(entry.createdAt, TIME_FORMAT)}
+                </time>
+              </li>
+            ))}
+          </ol>
+
+          {cursor ? (
+            <button type="button" className="khatma-rules__edit" onClick={() => load(cursor)} disabled={loading}>
+              {loading ? t("common.loading") : t("audit.more")}
+            </button>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -1,60 +1,445 @@
 import React from "react";
 import io, { type Socket } from "socket.io-client";
-import { authed, API_BASE } from "../lib/api";
-
-type Part = {
-  number: number;
-  claimed_by: string | null;
-  claimed_name?: string | null;
-  claimed_is_admin?: boolean | null;
-};
+import { getSessionToken, refreshSession, request, API_BASE } from "../lib/api";
+import { describeError } from "../lib/errors";
+import {
+  enqueueAction,
+  isNetworkError,
+  listQueuedActions,
+  loadWeekSnapshot,
+  replayQueue,
+  saveWeekSnapshot,
+  sendPartAction,
+  type QueuedKind,
+  type ReplayConflict,
+} from "../lib/offline";
+import type {
+  ApiError,
+  ClientToServerEvents,
+  Group,
+  Part,
+  ServerToClientEvents,
+  Week,
+} from "@khatma/contract";
+import ClaimRules, { type ClaimRulesValue } from "./ClaimRules";
+import ClaimPolicy, { type ClaimPolicyValue } from "./ClaimPolicy";
+import PartAdminMenu from "./PartAdminMenu";
+import AuditLog from "./AuditLog";
+import RosterShare from "./RosterShare";
+import DivisionPicker from "./DivisionPicker";
+import CycleSettings from "./CycleSettings";
+import PartRequestMenu from "./PartRequestMenu";
+import SwapRequests from "./SwapRequests";
+import WeekDetails, { type WeekDetailsValue } from "./WeekDetails";
+import QuranReader from "./QuranReader";
+import IntentionEditor, { type Intention } from "./IntentionEditor";
+import { can, type Role } from "../lib/roles";
+import { describeStart, unitCount, unitLabel, unitNoun, unitStart, type Division } from "../lib/quran";
+import { formatCycleRange } from "../lib/cycle";
+import { t } from "../lib/i18n";
+import { formatWait } from "../lib/wait";
+
+type PartChange = Pick<Part, "number"> & Partial<Part>;
 type Profile = { name: string; phone: string };
+type CurrentWeek = Pick<Week, "weekId" | "weekKey" | "startsAt" | "endsAt">;
+// A week from the server, or the snapshot saved for offline use, which leaves out what the board does not keep.
+type WeekPayload = CurrentWeek &
+  ClaimRulesValue &
+  Partial<ClaimPolicyValue> &
+  Partial<WeekDetailsValue> &
+  Pick<Week, "completedAt" | "revision"> &
+  Partial<Pick<Week, "closed" | "division">> & { parts: Part[] };
+
+export type SyncStatus = "live" | "reconnecting" | "catching-up" | "offline";
 
 interface BoardProps {
-  weekKey: string;
+  group: Group;
   userId: string;
   profile?: Profile;
-  isAdmin: boolean;
+  onWeekChange?: (weekKey: string) => void;
+  onSyncStatusChange?: (status: SyncStatus) => void;
+  // Called with the group after an admin changes its cycle settings.
+  onGroupChange?: (group: Group) => void;
+  // Shows this past week instead of the current one, without live updates.
+  archivedWeekId?: string;
+}
+
+const RANGE_FORMAT: Intl.DateTimeFormatOptions = { day: "numeric", month: "long" };
+
+const CLOCK_TICK_MS = 30_000;
+
+function formatRemaining(ms: number): string {
+  const minutes = Math.max(1, Math.floor(ms / 60_000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days) return t("board.remaining.days", { days, hours });
+  if (hours) return t("board.remaining.hours", { hours, minutes: minutes % 60 });
+  return t("board.remaining.minutes", { minutes });
+}
+
+function rulesOf(week: WeekPayload): ClaimRulesValue {
+  return {
+    claimDeadline: week.claimDeadline ?? null,
+    claimHoldHours: week.claimHoldHours ?? null,
+    overdueAction: week.overdueAction ?? "flag",
+  };
+}
+
+function detailsOf(week: WeekPayload): WeekDetailsValue {
+  return { title: week.title ?? null, dedication: week.dedication ?? null, closingDua: week.closingDua ?? null };
+}
+
+function policyOf(week: WeekPayload): ClaimPolicyValue {
+  return {
+    maxPartsPerUser: week.maxPartsPerUser ?? null,
+    firstClaimHours: week.firstClaimHours ?? null,
+    adminsExempt: week.adminsExempt ?? true,
+  };
 }
 
-export default function Board({ weekKey, userId, profile, isAdmin }: BoardProps) {
+// Why the server turned a claim down, in words the member can act on.
+function describeClaimRefusal(error: ApiError, label: string) {
+  switch (error.error) {
+    case "CLAIM_LIMIT_REACHED":
+      return t("board.refusal.limit", { limit: error.limit ?? "", label });
+    case "WEEK_CLOSED":
+      return t("board.refusal.closed");
+    case "RATE_LIMITED":
+      return t("board.refusal.rateLimited", { label, wait: formatWait(error.retryAfter ?? 30) });
+    case "ALREADY_CLAIMED":
+      return t("board.refusal.taken", { label });
+    default:
+      return describeError(error, t("board.claimFailed"));
+  }
+}
+
+function mergeParts(prev: Part[], changed: PartChange[]): Part[] {
+  if (!changed.length) return prev;
+  const byNumber = new Map(changed.map((part) => [part.number, part]));
+  return prev.map((existing) => {
+    const update = byNumber.get(existing.number);
+    return update ? { ...existing, ...update } : existing;
+  });
+}
+
+// What the board should show right away for an action that has to wait for the network.
+function optimisticPart(
+  kind: QueuedKind,
+  part: Part,
+  userId: string,
+  name: string | null,
+  completed?: boolean,
+): PartChange {
+  if (kind === "claim") return { number: part.number, claimed_by: userId, claimed_name: name };
+  if (kind === "complete") return { number: part.number, completed_at: completed ? new Date().toISOString() : null };
+  return {
+    number: part.number,
+    claimed_by: null,
+    claimed_name: null,
+    completed_at: null,
+    due_at: null,
+    overdue_at: null,
+    on_behalf: false,
+  };
+}
+
+function describeConflict({ action, error }: ReplayConflict, division: Division): string {
+  const part = unitLabel(division, action.number);
+  switch (error) {
+    case "ALREADY_CLAIMED":
+      return t("board.conflict.taken", { part });
+    case "NOT_OWNER":
+      return t("board.conflict.notOwner", { part });
+    case "NOT_MEMBER":
+      return t("board.conflict.notMember", { part });
+    case "WEEK_CLOSED":
+      return t("board.conflict.closed", { part });
+    case "CLAIM_LIMIT_REACHED":
+    case "FIRST_CLAIM_WINDOW":
+      return t("board.conflict.limit", { part });
+    default:
+      return t("board.conflict.failed", { part });
+  }
+}
+
+export default function Board({
+  group,
+  userId,
+  profile,
+  onWeekChange,
+  onSyncStatusChange,
+  onGroupChange,
+  archivedWeekId,
+}: BoardProps) {
+  const groupId = group.id;
+  const canAssign = can(group, "assign_parts");
+  const canConfigure = can(group, "configure_week");
   const [weekId, setWeekId] = React.useState<string>("");
+  const [weekKey, setWeekKey] = React.useState<string>("");
+  const [weekBounds, setWeekBounds] = React.useState<Pick<CurrentWeek, "startsAt" | "endsAt"> | null>(null);
+  const [rollovers, setRollovers] = React.useState(0);
+  const [weekCompletedAt, setWeekCompletedAt] = React.useState<string | null>(null);
+  const [closed, setClosed] = React.useState(false);
+  const [division, setDivision] = React.useState<Division>("juz");
+  const [claimRules, setClaimRules] = React.useState<ClaimRulesValue | null>(null);
+  const [claimPolicy, setClaimPolicy] = React.useState<ClaimPolicyValue | null>(null);
+  const [details, setDetails] = React.useState<WeekDetailsValue | null>(null);
+  // The member's own intentions, private ones included, by part number.
+  const [intentions, setIntentions] = React.useState<Map<number, Intention>>(() => new Map());
+  const [intentionPart, setIntentionPart] = React.useState<number | null>(null);
+  const [readerPart, setReaderPart] = React.useState<number | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
   const [parts, setParts] = React.useState<Part[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [pendingPart, setPendingPart] = React.useState<number | null>(null);
-  const socketRef = React.useRef<Socket | null>(null);
+  const [menuPart, setMenuPart] = React.useState<number | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [queued, setQueued] = React.useState<Set<number>>(() => new Set());
+  // Taken parts this member is queued for; they get them automatically when released.
+  const [waiting, setWaiting] = React.useState<Set<number>>(() => new Set());
+  const [requestPart, setRequestPart] = React.useState<number | null>(null);
+  const [swapsVersion, setSwapsVersion] = React.useState(0);
+  const weekMetaRef = React.useRef<CurrentWeek | null>(null);
+  const socketRef = React.useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+  // Last week revision this board has fully applied.
+  const revisionRef = React.useRef(0);
+  // Socket handlers outlive renders; they label parts with whatever the week is split into now.
+  const divisionRef = React.useRef<Division>("juz");
 
   React.useEffect(() => {
     let cancelled = false;
+    let removeOnlineListener: (() => void) | null = null;
     setLoading(true);
 
+    const applyDivision = (next: Division | undefined) => {
+      divisionRef.current = next ?? "juz";
+      setDivision(divisionRef.current);
+    };
+
+    const fetchWeek = async (): Promise<{ data: WeekPayload; fromCache: boolean } | null> => {
+      try {
+        const result = archivedWeekId
+          ? await request("getWeek", { params: { weekId: archivedWeekId } })
+          : await request("currentWeek", { params: { groupId } });
+        if (!result.ok) throw new Error("failed to load week");
+        return { data: result.data, fromCache: false };
+      } catch (error) {
+        // The offline snapshot only ever holds the current week.
+        if (archivedWeekId || !isNetworkError(error)) throw error;
+        const cached = await loadWeekSnapshot<WeekPayload>(groupId);
+        return cached ? { data: cached.week, fromCache: true } : null;
+      }
+    };
+
     const load = async () => {
       try {
-        const resp = await fetch(`${API_BASE}/api/weeks/${weekKey}`);
-        if (!resp.ok) throw new Error("failed to load week");
-        const data = await resp.json();
+        const loaded = await fetchWeek();
+        if (!loaded) throw new Error("offline with no cached week");
+        const { data, fromCache } = loaded;
+        const pending = await listQueuedActions().catch(() => []);
         if (cancelled) return;
+        weekMetaRef.current = {
+          weekId: data.weekId,
+          weekKey: data.weekKey,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+        };
+        if (fromCache) onSyncStatusChange?.("offline");
+        setQueued(new Set(pending.filter((action) => action.weekId === data.weekId).map((action) => action.number)));
         setWeekId(data.weekId);
+        setWeekKey(data.weekKey);
+        setWeekBounds({ startsAt: data.startsAt, endsAt: data.endsAt });
         setParts(data.parts);
+        setWeekCompletedAt(data.completedAt ?? null);
+        setClosed(Boolean(data.closed));
+        applyDivision(data.division);
+        setClaimRules(rulesOf(data));
+        setClaimPolicy(policyOf(data));
+        setDetails(detailsOf(data));
+        revisionRef.current = data.revision;
+        // Past weeks never change, so there is nothing to listen for.
+        if (archivedWeekId) return;
+        onWeekChange?.(data.weekKey);
+
+        const loadWaitlist = async () => {
+          try {
+            const result = await request("myWaitlist", { params: { weekId: data.weekId } });
+            if (!result.ok) throw new Error(`waitlist failed (${result.status})`);
+            if (!cancelled) setWaiting(new Set(result.data.entries.map((entry) => entry.number)));
+          } catch (error) {
+            console.error(error);
+          }
+        };
+
+        let catchingUp = false;
+        // since=0 refetches every part, which also undoes optimistic changes the server refused.
+        const catchUp = async (since = revisionRef.current) => {
+          if (catchingUp || cancelled) return;
+          catchingUp = true;
+          onSyncStatusChange?.("catching-up");
+          try {
+            const result = await request("weekChanges", { params: { weekId: data.weekId }, query: { since } });
+            if (!result.ok) throw new Error(`changes failed (${result.status})`);
+            const changes = result.data;
+            if (cancelled) return;
+            applyDivision(changes.division);
+            // A re-split renumbers every part and bumps them all, so the changes are the whole list.
+            const count = unitCount(divisionRef.current);
+            setParts((prev) => (prev.length === count ? mergeParts(prev, changes.parts) : changes.parts));
+            setWeekCompletedAt(changes.completedAt ?? null);
+            setClaimRules(rulesOf(changes));
+            setClaimPolicy(policyOf(changes));
+            setDetails(detailsOf(changes));
+            revisionRef.current = Math.max(revisionRef.current, changes.revision);
+            onSyncStatusChange?.("live");
+          } catch (error) {
+            console.error(error);
+            // Stay flagged as out of date; the next event or reconnect tries again.
+          } finally {
+            catchingUp = false;
+          }
+        };
+
+        // Applies a single-part broadcast, or catches up if one was missed on the way.
+        const applyPart = (part: Part) => {
+          const revision = part.revision;
+          if (revision <= revisionRef.current) return;
+          if (revision > revisionRef.current + 1) {
+            catchUp();
+            return;
+          }
+          revisionRef.current = revision;
+          setParts((prev) => mergeParts(prev, [part]));
+        };
 
-        const socket = io(API_BASE, { transports: ["websocket"] });
+        // Sends whatever was queued offline, then brings the board back in line with the server.
+        const flushQueue = async (stale: boolean) => {
+          const hadQueued = (await listQueuedActions().catch(() => [])).length > 0;
+          const conflicts = hadQueued ? await replayQueue().catch(() => []) : [];
+          if (cancelled) return;
+          const left = await listQueuedActions().catch(() => []);
+          setQueued(new Set(left.filter((action) => action.weekId === data.weekId).map((action) => action.number)));
+          if (conflicts.length) {
+            setNotice(conflicts.map((conflict) => describeConflict(conflict, divisionRef.current)).join(" "));
+          }
+          loadWaitlist();
+          setSwapsVersion((n) => n + 1);
+          if (hadQueued) {
+            await catchUp(0);
+          } else if (stale) {
+            await catchUp();
+          } else {
+            onSyncStatusChange?.("live");
+          }
+        };
+
+        // A callback, so every reconnect presents the latest access token.
+        const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(API_BASE, {
+          transports: ["websocket"],
+          auth: (cb) => cb({ token: getSessionToken() }),
+        });
         socketRef.current = socket;
-        socket.emit("join-week", data.weekId);
+        let connectedBefore = fromCache;
+        // Renew at most once between successful connects, so a token the server keeps refusing cannot loop.
+        let renewedForSocket = false;
+        // Rooms do not survive a reconnect, so join again every time the socket comes up.
+        socket.on("connect", () => {
+          renewedForSocket = false;
+          socket.emit("join-group", groupId);
+          socket.emit("join-week", data.weekId);
+          flushQueue(connectedBefore);
+          connectedBefore = true;
+        });
+        const offlineStatus = () => (navigator.onLine ? "reconnecting" : "offline");
+        socket.on("disconnect", () => {
+          if (!cancelled) onSyncStatusChange?.(offlineStatus());
+        });
+        socket.on("connect_error", (error) => {
+          console.warn("socket rejected", error.message);
+          onSyncStatusChange?.(offlineStatus());
+          // The server refuses expired tokens and does not retry on its own; renew and connect again.
+          if (error.message === "BAD_TOKEN" && !renewedForSocket) {
+            renewedForSocket = true;
+            refreshSession()
+              .then((renewed) => {
+                if (renewed && !cancelled) socket.connect();
+              })
+              .catch((err) => console.error(err));
+          }
+        });
+        const onOnline = () => {
+          if (!socket.connected) socket.connect();
+        };
+        window.addEventListener("online", onOnline);
+        removeOnlineListener = () => window.removeEventListener("online", onOnline);
+
+        socket.on("claim:expired", (event) => {
+          if (event.weekId === data.weekId) {
+            setNotice(t("board.notice.expired", { label: unitLabel(divisionRef.current, event.number) }));
+          }
+        });
 
-        socket.on("part:update", (part: Part) => {
-          setParts((prev) =>
-            prev.map((existing) => (existing.number === part.number ? { ...existing, ...part } : existing)),
-          );
+        socket.on("part:assigned", (event) => {
+          if (event.weekId === data.weekId) {
+            setNotice(t("board.notice.assigned", { label: unitLabel(divisionRef.current, event.number) }));
+          }
         });
 
-        socket.on("week:reset", (payload: { weekId: string; parts: Part[] }) => {
-          if (payload.weekId === data.weekId) {
+        socket.on("waitlist:assigned", (event) => {
+          if (event.weekId === data.weekId) {
+            setNotice(t("board.notice.waitlist", { label: unitLabel(divisionRef.current, event.number) }));
+            loadWaitlist();
+          }
+        });
+
+        socket.on("swap:requested", (event) => {
+          if (event.weekId === data.weekId) {
+            setNotice(t("board.notice.swap"));
+          }
+        });
+
+        socket.on("swaps:changed", (event) => {
+          if (event.weekId === data.weekId) setSwapsVersion((n) => n + 1);
+        });
+
+        socket.on("part:update", applyPart);
+        socket.on("part:completed", applyPart);
+
+        // Full snapshots: take them whenever they are newer than what we have.
+        socket.on("week:reset", (payload) => {
+          if (payload.weekId === data.weekId && payload.revision > revisionRef.current) {
+            revisionRef.current = payload.revision;
             setParts(payload.parts);
+            setWeekCompletedAt(null);
+          }
+        });
+
+        socket.on("week:updated", (payload) => {
+          if (payload.weekId === data.weekId && payload.revision >= revisionRef.current) {
+            revisionRef.current = payload.revision;
+            applyDivision(payload.division);
+            setParts(payload.parts);
+            setWeekCompletedAt(payload.completedAt ?? null);
+            setClaimRules(rulesOf(payload));
+            setClaimPolicy(policyOf(payload));
+            setDetails(detailsOf(payload));
+          }
+        });
+
+        socket.on("week:completed", (payload) => {
+          if (payload.weekId === data.weekId) {
+            setWeekCompletedAt(payload.completedAt);
+          }
+        });
+
+        socket.on("week:current", (payload) => {
+          if (payload.weekKey !== data.weekKey) {
+            setRollovers((n) => n + 1);
           }
         });
       } catch (error) {
         console.error(error);
-        alert("تعذر تحميل بيانات الأسبوع الحالي.");
+        alert(archivedWeekId ? t("board.loadArchivedFailed") : t("board.loadFailed"));
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -63,155 +448,333 @@ export default function Board({ weekKey, userId, profile, isAdmin }: BoardProps)
     load();
     return () => {
       cancelled = true;
+      removeOnlineListener?.();
       socketRef.current?.disconnect();
       socketRef.current = null;
     };
-  }, [weekKey]);
+  }, [groupId, archivedWeekId, rollovers, onWeekChange, onSyncStatusChange]);
+
+  // Keep the last state this board showed so it can still open without a connection.
+  React.useEffect(() => {
+    const meta = weekMetaRef.current;
+    if (archivedWeekId || loading || !meta || meta.weekId !== weekId) return;
+    saveWeekSnapshot(groupId, {
+      ...meta,
+      ...claimRules,
+      ...claimPolicy,
+      ...details,
+      division,
+      completedAt: weekCompletedAt,
+      revision: revisionRef.current,
+      parts,
+    });
+  }, [groupId, archivedWeekId, weekId, loading, parts, claimRules, claimPolicy, details, division, weekCompletedAt]);
+
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Intentions are cleared with the claim, so refetch whenever the parts this member holds change.
+  const heldKey = React.useMemo(
+    () =>
+      parts
+        .filter((part) => part.claimed_by === userId && !part.on_behalf)
+        .map((part) => part.number)
+        .join(","),
+    [parts, userId],
+  );
+
+  React.useEffect(() => {
+    if (!weekId || !heldKey) return;
+    let cancelled = false;
+    request("myIntentions", { params: { weekId } })
+      .then((result) => (result.ok ? result.data : Promise.reject(new Error(`intentions failed (${result.status})`))))
+      .then((data) => {
+        if (cancelled) return;
+        setIntentions(new Map(data.intentions.map(({ number, ...intention }) => [number, intention])));
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+    };
+  }, [weekId, heldKey]);
+
+  const handleIntentionSaved = React.useCallback((number: number, intention: Intention) => {
+    setIntentions((prev) => new Map(prev).set(number, intention));
+  }, []);
+  const closeIntention = React.useCallback(() => setIntentionPart(null), []);
+  const closeReader = React.useCallback(() => setReaderPart(null), []);
 
   const reservedCount = React.useMemo(
     () => parts.reduce((acc, part) => (part.claimed_by ? acc + 1 : acc), 0),
     [parts],
   );
+  const completedCount = React.useMemo(
+    () => parts.reduce((acc, part) => (part.completed_at ? acc + 1 : acc), 0),
+    [parts],
+  );
+  const progress = parts.length ? Math.round((completedCount / parts.length) * 100) : 0;
 
   const handleContextMenu = React.useCallback(
-    async (event: React.MouseEvent<HTMLButtonElement>, part: Part) => {
-      if (!isAdmin || !weekId || !part.claimed_by) return;
+    (event: React.MouseEvent<HTMLButtonElement>, part: Part) => {
+      if (!canAssign || !weekId || closed) return;
       event.preventDefault();
+      setMenuPart(part.number);
+    },
+    [canAssign, weekId, closed],
+  );
 
-      const targetName = part.claimed_name?.trim() || "المشارك";
-      const makeAdmin = !part.claimed_is_admin;
-      const question = makeAdmin
-        ? `منح صلاحية المشرف للمشارك ${targetName}؟`
-        : `إزالة صلاحية المشرف من ${targetName}؟`;
+  const closeMenu = React.useCallback(() => setMenuPart(null), []);
 
-      if (!window.confirm(question)) return;
+  const handleRoleChanged = React.useCallback((memberId: string, role: Role) => {
+    // The role belongs to the member, so every part they hold gets (or loses) the star.
+    const staff = role !== "member";
+    setParts((prev) =>
+      prev.map((p) => (p.claimed_by === memberId && !p.on_behalf ? { ...p, claimed_is_admin: staff } : p)),
+    );
+  }, []);
 
-      try {
-        const resp = await authed(`/api/users/${part.claimed_by}/admin`, {
-          method: "PATCH",
-          body: JSON.stringify({
-            makeAdmin,
-            weekId,
-            partNumber: part.number,
-          }),
-        });
-        if (!resp.ok) throw new Error(`admin toggle failed (${resp.status})`);
+  const menuTarget = menuPart !== null ? parts.find((part) => part.number === menuPart) : undefined;
+  const requestTarget = requestPart !== null ? parts.find((part) => part.number === requestPart) : undefined;
+  const readerTarget = readerPart !== null ? parts.find((part) => part.number === readerPart) : undefined;
+  const closeRequest = React.useCallback(() => setRequestPart(null), []);
+  const handleWaitlistChange = React.useCallback((number: number, isWaiting: boolean) => {
+    setWaiting((prev) => {
+      const next = new Set(prev);
+      if (isWaiting) next.add(number);
+      else next.delete(number);
+      return next;
+    });
+  }, []);
+  const labelOf = React.useCallback((number: number) => unitLabel(division, number), [division]);
 
-        setParts((prev) =>
-          prev.map((p) =>
-            p.number === part.number ? { ...p, claimed_is_admin: makeAdmin } : p,
-          ),
-        );
+  // Posts a part action, or queues it (and shows its expected result) when there is no connection.
+  async function sendOrQueue(kind: QueuedKind, part: Part, body?: { completed?: boolean; profile?: Profile }) {
+    if (navigator.onLine) {
+      try {
+        return await sendPartAction({ kind, weekId, number: part.number, body });
       } catch (error) {
-        console.error(error);
-        alert("تعذر تحديث صلاحيات المشرف.");
+        if (!isNetworkError(error)) throw error;
       }
-    },
-    [isAdmin, weekId],
-  );
+    }
+    await enqueueAction({ kind, groupId, weekId, number: part.number, body });
+    setQueued((prev) => new Set(prev).add(part.number));
+    setParts((prev) =>
+      mergeParts(prev, [optimisticPart(kind, part, userId, profile?.name ?? null, body?.completed)]),
+    );
+    setNotice(t("board.queued"));
+    return null;
+  }
+
+  async function markDone(part: Part) {
+    if (!weekId || pendingPart !== null) return;
+    const completed = !part.completed_at;
+    if (completed && !window.confirm(t("board.completeConfirm", { label: unitLabel(division, part.number) }))) return;
+    setPendingPart(part.number);
+    try {
+      const result = await sendOrQueue("complete", part, { completed });
+      if (result && !result.ok) alert(describeError(result.error, t("board.completeFailed")));
+    } catch (error) {
+      console.error(error);
+      alert(t("board.completeFailed"));
+    } finally {
+      setPendingPart(null);
+    }
+  }
 
   async function toggle(number: number, part: Part) {
     if (!weekId) return;
     if (!userId) {
-      alert("يرجى تسجيل الدخول أولاً.");
+      alert(t("board.signInFirst"));
       return;
     }
     if (pendingPart !== null) return;
+    // Someone else's part: offer to wait for it or to swap instead.
+    if (part.claimed_by && part.claimed_by !== userId) {
+      setRequestPart(number);
+      return;
+    }
+    // Own part: open it in the reader, which also offers releasing it.
+    if (part.claimed_by) {
+      setReaderPart(number);
+      return;
+    }
     setPendingPart(number);
 
     const payload = profile ? { profile } : {};
-    if (!part.claimed_by) {
-      try {
-        const resp = await authed(`/api/weeks/${weekId}/parts/${number}/claim`, {
-          method: "POST",
-          body: JSON.stringify(payload),
-        });
-        if (!resp.ok) alert("هذا الجزء محجوز حالياً.");
-      } catch (error) {
-        console.error(error);
-        alert("تعذر حجز الجزء. حاول مرة أخرى.");
-      } finally {
-        setPendingPart(null);
-      }
-      return;
+    try {
+      const result = await sendOrQueue("claim", part, payload);
+      if (result && !result.ok) alert(describeClaimRefusal(result.error, unitLabel(division, part.number)));
+    } catch (error) {
+      console.error(error);
+      alert(t("board.claimFailed"));
+    } finally {
+      setPendingPart(null);
     }
+  }
 
+  async function release(part: Part) {
+    if (!weekId || pendingPart !== null) return;
+    if (part.completed_at && !window.confirm(t("board.releaseConfirm", { label: unitLabel(division, part.number) }))) {
+      return;
+    }
+    setReaderPart(null);
+    setPendingPart(part.number);
     try {
-      const resp = await authed(`/api/weeks/${weekId}/parts/${number}/release`, {
-        method: "POST",
-      });
-      if (!resp.ok) alert("لا يمكنك إلغاء حجز جزء لا تملكه.");
+      const result = await sendOrQueue("release", part);
+      if (result && !result.ok) alert(describeError(result.error, t("board.releaseFailed")));
     } catch (error) {
       console.error(error);
-      alert("تعذر إلغاء الحجز الآن.");
+      alert(t("board.releaseFailed"));
     } finally {
       setPendingPart(null);
     }
   }
 
+  // Cycles with dates are named by them; older weeks without a window keep their key.
+  const weekLabel =
+    weekBounds?.startsAt && weekBounds.endsAt
+      ? formatCycleRange(weekBounds.startsAt, weekBounds.endsAt, group.hijriOffset, RANGE_FORMAT)
+      : t("board.week", { key: weekKey });
+
   return (
     <main className="px-4 py-10 flex justify-center">
       <section className="khatma-card">
         <div className="khatma-card__top">
-          <div className="khatma-card__subtitle">تم الحجز: {reservedCount}/30</div>
-          <h2 className="khatma-card__title">أسبوع: {weekKey}</h2>
+          <div className="khatma-card__subtitle">
+            {group.name}
+            {group.inviteCode ? (
+              <span className="khatma-invite" dir="ltr" title={t("board.inviteCode")}>
+                {group.inviteCode}
+              </span>
+            ) : null}
+          </div>
+          <div className="khatma-card__subtitle">
+            {t("board.progress", { claimed: reservedCount, read: completedCount, total: parts.length })}
+          </div>
+          <div
+            className="khatma-progress"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={progress}
+            title={`${progress}%`}
+          >
+            <div className="khatma-progress__bar" style={{ width: `${progress}%` }} />
+          </div>
+          <h2 className="khatma-card__title">{details?.title || weekLabel}</h2>
+          {details?.title ? <div className="khatma-card__subtitle">{weekLabel}</div> : null}
+          {details?.dedication ? <p className="kh-dedication">{details.dedication}</p> : null}
         </div>
 
         <div className="khatma-legend legend-top">
           <span>
-            <span className="khatma-dot red"></span>متاح
+            <span className="khatma-dot red"></span>{t("board.legend.open")}
           </span>
           <span>
-            <span className="khatma-dot green"></span>محجوز لك
+            <span className="khatma-dot green"></span>{t("board.legend.mine")}
           </span>
           <span>
-            <span className="khatma-dot gray"></span>محجوز للآخرين
+            <span className="khatma-dot gray"></span>{t("board.legend.others")}
+          </span>
+          <span>
+            <span className="khatma-dot blue"></span>{t("board.legend.read")}
           </span>
         </div>
 
+        {canConfigure && onGroupChange && !archivedWeekId ? (
+          <CycleSettings group={group} onChange={onGroupChange} />
+        ) : null}
+        {canConfigure && weekId && claimRules && !closed ? <ClaimRules weekId={weekId} rules={claimRules} /> : null}
+        {weekId && claimPolicy && !closed ? (
+          <ClaimPolicy weekId={weekId} policy={claimPolicy} editable={canConfigure} />
+        ) : null}
+        {canConfigure && weekId && details && !closed ? <WeekDetails weekId={weekId} details={details} /> : null}
+        {canConfigure && weekId && !closed && !loading ? (
+          <DivisionPicker weekId={weekId} division={division} locked={reservedCount > 0} />
+        ) : null}
+
+        {closed ? (
+          <div className="khatma-notice" role="status">
+            <span>{t("board.closed")}</span>
+          </div>
+        ) : null}
+
+        {notice ? (
+          <div className="khatma-notice" role="status">
+            <span>{notice}</span>
+            <button type="button" className="khatma-notice__close" onClick={() => setNotice(null)} aria-label={t("common.close")}>
+              ×
+            </button>
+          </div>
+        ) : null}
+
+        {weekId && !closed && !archivedWeekId ? (
+          <SwapRequests weekId={weekId} labelOf={labelOf} version={swapsVersion} />
+        ) : null}
+
+        {weekCompletedAt ? (
+          <div className="khatma-complete-banner">
+            {t("board.completed")}
+            {details?.closingDua ? <p className="kh-dua">{details.closingDua}</p> : null}
+          </div>
+        ) : null}
+
         {loading ? (
-          <div className="khatma-loading">جارٍ التحميل...</div>
+          <div className="khatma-loading">{t("common.loading")}</div>
         ) : (
           <>
-            <div dir="ltr" className="khatma-board">
+            <div dir="ltr" className={`khatma-board khatma-board--${division}`}>
               {parts.map((part) => {
                 const isMine = Boolean(part.claimed_by) && part.claimed_by === userId;
                 const isTaken = Boolean(part.claimed_by);
                 const isPending = pendingPart === part.number;
+                const isDone = isTaken && Boolean(part.completed_at);
                 const className = [
                   "khatma-btn",
-                  isMine ? "mine" : "",
-                  !isMine && isTaken ? "claimed" : "",
+                  isDone ? "done" : "",
+                  !isDone && isMine ? "mine" : "",
+                  !isDone && !isMine && isTaken ? "claimed" : "",
                   isPending ? "loading" : "",
+                  queued.has(part.number) ? "queued" : "",
+                  waiting.has(part.number) && !isMine ? "waiting" : "",
                 ]
                   .filter(Boolean)
                   .join(" ");
-                const fallbackName = isMine ? (profile?.name || "أنت") : "مشارك";
+                const fallbackName = isMine ? (profile?.name || t("board.you")) : t("common.participant");
                 const baseName = isTaken ? (part.claimed_name?.trim() || fallbackName) : "";
-                const displayName = part.claimed_is_admin ? `${baseName} ★` : baseName;
+                const displayName = part.claimed_is_admin && !part.on_behalf ? `${baseName} ★` : baseName;
                 const nameClass = [
                   "khatma-name",
                   isMine ? " mine" : "",
-                  part.claimed_is_admin ? " admin" : "",
+                  part.claimed_is_admin && !part.on_behalf ? " admin" : "",
                 ]
                   .filter(Boolean)
                   .join(" ");
-                const disabled = isPending || (!isMine && isTaken);
+                const disabled = closed || isPending;
+                const dueMs =
+                  isTaken && !isDone && !closed && part.due_at ? new Date(part.due_at).getTime() - now : null;
+                const isOverdue = Boolean(part.overdue_at) || (dueMs !== null && dueMs <= 0);
+                const label = unitLabel(division, part.number);
+                const state = queued.has(part.number)
+                  ? t("board.state.queued")
+                  : waiting.has(part.number) && !isMine
+                    ? t("board.state.waiting")
+                  : !isTaken
+                    ? t("board.state.open")
+                    : isMine
+                      ? t("board.state.mine")
+                      : part.claimed_name
+                        ? t("board.state.claimedBy", { name: part.claimed_name })
+                        : t("board.state.claimed");
                 return (
                   <div key={part.number} className="khatma-cell">
                     <button
                       className={className}
                       onClick={() => toggle(part.number, part)}
                       onContextMenu={(event) => handleContextMenu(event, part)}
-                      title={
-                        !isTaken
-                          ? "متاح"
-                          : isMine
-                            ? "محجوز لك"
-                            : part.claimed_name
-                              ? `محجوز بواسطة ${part.claimed_name}`
-                              : "محجوز"
-                      }
+                      title={t("board.cellTitle", { label, start: describeStart(unitStart(division, part.number)), state })}
                       disabled={disabled}
                     >
                       {isPending ? (
@@ -225,27 +788,64 @@ export default function Board({ weekKey, userId, profile, isAdmin }: BoardProps)
                         {displayName}
                       </span>
                     ) : null}
+                    {dueMs !== null ? (
+                      <span className={`khatma-due${isOverdue ? " overdue" : ""}`}>
+                        {isOverdue ? t("board.overdue") : `⏳ ${formatRemaining(dueMs)}`}
+                      </span>
+                    ) : null}
+                    {isMine && !closed ? (
+                      <button
+                        type="button"
+                        className={`khatma-done-toggle${isDone ? " done" : ""}`}
+                        onClick={() => markDone(part)}
+                        disabled={isPending}
+                      >
+                        {division === "rub"
+                          ? isDone
+                            ? "✓"
+                            : t("board.markReadShort")
+                          : isDone
+                            ? t("board.read")
+                            : t("board.markRead")}
+                      </button>
+                    ) : null}
+                    {canAssign && !closed ? (
+                      <button
+                        type="button"
+                        className="khatma-admin-toggle"
+                        onClick={() => setMenuPart(part.number)}
+                        aria-label={t("board.manage", { label })}
+                      >
+                        ⋯
+                      </button>
+                    ) : null}
                   </div>
                 );
               })}
             </div>
 
-            <div className="khatma-list" dir="rtl">
-              <h3 className="khatma-list__title">قائمة المشاركين حسب الأجزاء</h3>
+            <div className="khatma-list">
+              <h3 className="khatma-list__title">
+                {t("board.listTitle", { units: unitNoun(division, unitCount(division)) })}
+              </h3>
+              {weekId ? <RosterShare weekId={weekId} weekKey={weekKey} /> : null}
               <div className="khatma-list__rows">
                 {parts.map((part) => {
                   const isMine = Boolean(part.claimed_by) && part.claimed_by === userId;
                   const isTaken = Boolean(part.claimed_by);
                   const baseName = part.claimed_name?.trim() || "";
-                  const fallbackName = isMine && isTaken ? profile?.name || "أنت" : "متاح";
+                  const fallbackName = isMine && isTaken ? profile?.name || t("board.you") : t("board.open");
                   const displayName = baseName || fallbackName;
-                  const finalName =
-                    isTaken && part.claimed_is_admin ? `${displayName} ★` : displayName;
+                  const adminName =
+                    isTaken && part.claimed_is_admin && !part.on_behalf ? `${displayName} ★` : displayName;
+                  const finalName = isTaken && part.completed_at ? `${adminName} ✓` : adminName;
+                  const ownIntention = isMine && !part.on_behalf ? intentions.get(part.number) : undefined;
+                  const intention = ownIntention?.text ?? (part.intention_public ? part.intention : null);
                   const classNames = [
                     "khatma-list__name",
                     !isTaken ? "empty" : "",
                     isTaken && isMine ? "mine" : "",
-                    isTaken && part.claimed_is_admin ? "admin" : "",
+                    isTaken && part.claimed_is_admin && !part.on_behalf ? "admin" : "",
                   ]
                     .filter(Boolean)
                     .join(" ");
@@ -253,11 +853,35 @@ export default function Board({ weekKey, userId, profile, isAdmin }: BoardProps)
                   return (
                     <div key={`row-${part.number}`} className="khatma-list__row">
                       <span className="khatma-list__number" dir="ltr">
-                        {part.number.toString().padStart(2, "0")}
+                        {part.number.toString().padStart(unitCount(division).toString().length, "0")}
+                      </span>
+                      <span className="khatma-list__unit">
+                        {division === "juz" ? "" : `${unitLabel(division, part.number)} · `}
+                        {describeStart(unitStart(division, part.number))}
                       </span>
                       <span className={classNames} title={finalName}>
                         {finalName}
                       </span>
+                      {isMine && !closed ? (
+                        <button type="button" className="khatma-rules__edit" onClick={() => setReaderPart(part.number)}>
+                          {t("board.readNow")}
+                        </button>
+                      ) : null}
+                      {isMine && !part.on_behalf && !closed ? (
+                        <button
+                          type="button"
+                          className="khatma-rules__edit"
+                          onClick={() => setIntentionPart(part.number)}
+                        >
+                          {ownIntention?.text ? t("board.editIntention") : t("board.addIntention")}
+                        </button>
+                      ) : null}
+                      {intention ? (
+                        <span className="khatma-list__intention">
+                          {intention}
+                          {ownIntention && !ownIntention.isPublic ? t("board.privateIntention") : ""}
+                        </span>
+                      ) : null}
                     </div>
                   );
                 })}
@@ -265,6 +889,60 @@ export default function Board({ weekKey, userId, profile, isAdmin }: BoardProps)
             </div>
           </>
         )}
+
+        {can(group, "view_audit") && weekId ? <AuditLog groupId={groupId} weekId={weekId} /> : null}
+
+        {weekId && requestTarget?.claimed_by && !closed ? (
+          <PartRequestMenu
+            weekId={weekId}
+            part={requestTarget}
+            label={unitLabel(division, requestTarget.number)}
+            offers={parts
+              .filter((part) => part.claimed_by === userId && !part.on_behalf && !part.completed_at)
+              .map((part) => ({ number: part.number, label: unitLabel(division, part.number) }))}
+            waiting={waiting.has(requestTarget.number)}
+            onClose={closeRequest}
+            onWaitlistChange={handleWaitlistChange}
+          />
+        ) : null}
+
+        {weekId && readerTarget?.claimed_by === userId ? (
+          <QuranReader
+            weekId={weekId}
+            division={division}
+            number={readerTarget.number}
+            label={unitLabel(division, readerTarget.number)}
+            done={Boolean(readerTarget.completed_at)}
+            closed={closed}
+            onMarkDone={() => markDone(readerTarget)}
+            onRelease={() => release(readerTarget)}
+            onClose={closeReader}
+          />
+        ) : null}
+
+        {weekId && intentionPart !== null && !closed ? (
+          <IntentionEditor
+            weekId={weekId}
+            number={intentionPart}
+            label={unitLabel(division, intentionPart)}
+            intention={intentions.get(intentionPart) ?? null}
+            onSaved={handleIntentionSaved}
+            onClose={closeIntention}
+          />
+        ) : null}
+
+        {canAssign && weekId && menuTarget && !closed ? (
+          <PartAdminMenu
+            groupId={groupId}
+            weekId={weekId}
+            part={menuTarget}
+            label={unitLabel(division, menuTarget.number)}
+            onClose={closeMenu}
+            canManageRoles={can(group, "manage_roles")}
+            canRevokeSessions={can(group, "revoke_sessions")}
+            onRoleChanged={handleRoleChanged}
+          />
+        ) : null}
       </section>
     </main>
   );
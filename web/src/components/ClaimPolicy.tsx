@@ -0,0 +1,125 @@
+import React from "react";
+import type { Week } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { joinList, t } from "../lib/i18n";
+
+export type ClaimPolicyValue = Pick<Week, "maxPartsPerUser" | "firstClaimHours" | "adminsExempt">;
+
+interface ClaimPolicyProps {
+  weekId: string;
+  policy: ClaimPolicyValue;
+  // Members see what applies to them; only admins get the form.
+  editable: boolean;
+}
+
+function parseCount(value: string): number | null | undefined {
+  if (!value.trim()) return null;
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0 ? count : undefined;
+}
+
+function describePolicy(policy: ClaimPolicyValue): string | null {
+  const rules: string[] = [];
+  if (policy.maxPartsPerUser) rules.push(t("claimPolicy.maxParts", { count: policy.maxPartsPerUser }));
+  if (policy.firstClaimHours) rules.push(t("claimPolicy.firstHours", { count: policy.firstClaimHours }));
+  if (!rules.length) return null;
+  return t(policy.adminsExempt ? "claimPolicy.summaryExempt" : "claimPolicy.summary", { rules: joinList(rules) });
+}
+
+export default function ClaimPolicy({ weekId, policy, editable }: ClaimPolicyProps) {
+  const [open, setOpen] = React.useState(false);
+  const [maxParts, setMaxParts] = React.useState(() => policy.maxPartsPerUser?.toString() ?? "");
+  const [firstHours, setFirstHours] = React.useState(() => policy.firstClaimHours?.toString() ?? "");
+  const [adminsExempt, setAdminsExempt] = React.useState(policy.adminsExempt);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setMaxParts(policy.maxPartsPerUser?.toString() ?? "");
+    setFirstHours(policy.firstClaimHours?.toString() ?? "");
+    setAdminsExempt(policy.adminsExempt);
+  }, [policy.maxPartsPerUser, policy.firstClaimHours, policy.adminsExempt]);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const maxPartsPerUser = parseCount(maxParts);
+    const firstClaimHours = parseCount(firstHours);
+    if (maxPartsPerUser === undefined || firstClaimHours === undefined) {
+      alert(t("claimPolicy.invalid"));
+      return;
+    }
+    try {
+      setSaving(true);
+      const result = await request("setClaimPolicy", {
+        params: { weekId },
+        body: { maxPartsPerUser, firstClaimHours, adminsExempt },
+      });
+      if (!result.ok) {
+        alert(describeError(result.error, t("claimPolicy.failed")));
+        return;
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      alert(t("claimPolicy.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const summary = describePolicy(policy);
+  if (!editable && !summary) return null;
+
+  return (
+    <div className="khatma-rules">
+      <div className="khatma-rules__summary">
+        <span>{summary ?? t("claimPolicy.none")}</span>
+        {editable ? (
+          <button type="button" className="khatma-rules__edit" onClick={() => setOpen((v) => !v)}>
+            {open ? t("common.close") : t("common.edit")}
+          </button>
+        ) : null}
+      </div>
+      {editable && open ? (
+        <form className="khatma-rules__form" onSubmit={save}>
+          <label className="login-label">
+            {t("claimPolicy.maxPartsLabel")}
+            <input
+              type="number"
+              min={1}
+              className="login-input"
+              value={maxParts}
+              placeholder={t("claimPolicy.noLimit")}
+              onChange={(event) => setMaxParts(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="login-label">
+            {t("claimPolicy.firstHoursLabel")}
+            <input
+              type="number"
+              min={1}
+              className="login-input"
+              value={firstHours}
+              placeholder={t("claimPolicy.noRestriction")}
+              onChange={(event) => setFirstHours(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="kh-audit__check">
+            <input
+              type="checkbox"
+              checked={adminsExempt}
+              onChange={(event) => setAdminsExempt(event.target.checked)}
+              disabled={saving}
+            />
+            {t("claimPolicy.adminsExempt")}
+          </label>
+          <button type="submit" className="kh-reset" disabled={saving}>
+            {saving ? t("common.saving") : t("common.save")}
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
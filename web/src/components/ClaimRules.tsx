@@ -0,0 +1,129 @@
+import React from "react";
+import type { OverdueAction, Week } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { formatDate, t } from "../lib/i18n";
+
+export type ClaimRulesValue = Pick<Week, "claimDeadline" | "claimHoldHours" | "overdueAction">;
+
+interface ClaimRulesProps {
+  weekId: string;
+  rules: ClaimRulesValue;
+}
+
+// datetime-local works in local wall-clock time without a zone suffix.
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes(),
+  )}`;
+}
+
+const DEADLINE_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "long",
+  day: "numeric",
+  month: "long",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+export default function ClaimRules({ weekId, rules }: ClaimRulesProps) {
+  const [open, setOpen] = React.useState(false);
+  const [deadline, setDeadline] = React.useState(() => toLocalInput(rules.claimDeadline));
+  const [holdHours, setHoldHours] = React.useState(() => rules.claimHoldHours?.toString() ?? "");
+  const [action, setAction] = React.useState<OverdueAction>(rules.overdueAction);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setDeadline(toLocalInput(rules.claimDeadline));
+    setHoldHours(rules.claimHoldHours?.toString() ?? "");
+    setAction(rules.overdueAction);
+  }, [rules.claimDeadline, rules.claimHoldHours, rules.overdueAction]);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const hours = holdHours.trim() ? Number(holdHours) : null;
+    if (hours !== null && (!Number.isInteger(hours) || hours <= 0)) {
+      alert(t("claimRules.hoursInvalid"));
+      return;
+    }
+    try {
+      setSaving(true);
+      const result = await request("setClaimRules", {
+        params: { weekId },
+        body: {
+          claimDeadline: deadline ? new Date(deadline).toISOString() : null,
+          claimHoldHours: hours,
+          overdueAction: action,
+        },
+      });
+      if (!result.ok) {
+        alert(describeError(result.error, t("claimRules.failed")));
+        return;
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      alert(t("claimRules.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const summary = rules.claimDeadline
+    ? t("claimRules.deadline", { deadline: formatDate(rules.claimDeadline, DEADLINE_FORMAT) })
+    : t("claimRules.noDeadline");
+
+  return (
+    <div className="khatma-rules">
+      <div className="khatma-rules__summary">
+        <span>{summary}</span>
+        <button type="button" className="khatma-rules__edit" onClick={() => setOpen((v) => !v)}>
+          {open ? t("common.close") : t("common.edit")}
+        </button>
+      </div>
+      {open ? (
+        <form className="khatma-rules__form" onSubmit={save}>
+          <label className="login-label">
+            {t("claimRules.deadlineLabel")}
+            <input
+              type="datetime-local"
+              className="login-input"
+              value={deadline}
+              onChange={(event) => setDeadline(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="login-label">
+            {t("claimRules.holdHours")}
+            <input
+              type="number"
+              min={1}
+              className="login-input"
+              value={holdHours}
+              onChange={(event) => setHoldHours(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="login-label">
+            {t("claimRules.overdue")}
+            <select
+              className="login-input"
+              value={action}
+              onChange={(event) => setAction(event.target.value as OverdueAction)}
+              disabled={saving}
+            >
+              <option value="flag">{t("claimRules.flag")}</option>
+              <option value="release">{t("claimRules.release")}</option>
+            </select>
+          </label>
+          <button type="submit" className="kh-reset" disabled={saving}>
+            {saving ? t("common.saving") : t("common.save")}
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import React from "react";
+import { CYCLE_UNITS, MAX_CYCLE_DAYS, MAX_HIJRI_OFFSET, type CycleUnit, type Group } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeCycle } from "../lib/cycle";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+interface CycleSettingsProps {
+  group: Group;
+  onChange: (group: Group) => void;
+}
+
+const OFFSETS = Array.from({ length: MAX_HIJRI_OFFSET * 2 + 1 }, (_, index) => index - MAX_HIJRI_OFFSET);
+
+export default function CycleSettings({ group, onChange }: CycleSettingsProps) {
+  const [open, setOpen] = React.useState(false);
+  const [unit, setUnit] = React.useState<CycleUnit>(group.cycleUnit);
+  const [days, setDays] = React.useState(() => group.cycleDays.toString());
+  const [offset, setOffset] = React.useState(group.hijriOffset);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setUnit(group.cycleUnit);
+    setDays(group.cycleDays.toString());
+    setOffset(group.hijriOffset);
+  }, [group.cycleUnit, group.cycleDays, group.hijriOffset]);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const cycleDays = unit === "day" ? Number(days) : 1;
+    if (!Number.isInteger(cycleDays) || cycleDays < 1 || cycleDays > MAX_CYCLE_DAYS) {
+      alert(t("cycle.daysInvalid", { max: MAX_CYCLE_DAYS }));
+      return;
+    }
+    try {
+      setSaving(true);
+      const result = await request("setGroupCalendar", {
+        params: { groupId: group.id },
+        body: { cycleUnit: unit, cycleDays, hijriOffset: offset },
+      });
+      if (!result.ok) {
+        alert(describeError(result.error, t("cycle.failed")));
+        return;
+      }
+      onChange(result.data);
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      alert(t("cycle.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="khatma-rules">
+      <div className="khatma-rules__summary">
+        <span>{describeCycle(group)}</span>
+        <button type="button" className="khatma-rules__edit" onClick={() => setOpen((v) => !v)}>
+          {open ? t("common.close") : t("common.edit")}
+        </button>
+      </div>
+      {open ? (
+        <form className="khatma-rules__form" onSubmit={save}>
+          <label className="login-label">
+            {t("cycle.unitLabel")}
+            <select
+              className="login-input"
+              value={unit}
+              onChange={(event) => setUnit(event.target.value as CycleUnit)}
+              disabled={saving}
+            >
+              {CYCLE_UNITS.map((option) => (
+                <option key={option} value={option}>
+                  {t(`cycle.unit.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {unit === "day" ? (
+            <label className="login-label">
+              {t("cycle.daysLabel")}
+              <input
+                type="number"
+                min={1}
+                max={MAX_CYCLE_DAYS}
+                className="login-input"
+                value={days}
+                onChange={(event) => setDays(event.target.value)}
+                disabled={saving}
+              />
+            </label>
+          ) : null}
+          <label className="login-label">
+            {t("cycle.offsetLabel")}
+            <select
+              className="login-input"
+              value={offset}
+              onChange={(event) => setOffset(Number(event.target.value))}
+              disabled={saving}
+            >
+              {OFFSETS.map((option) => (
+                <option key={option} value={option}>
+                  {option > 0 ? `+${option}` : option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="kh-division__hint">{t("cycle.hint")}</span>
+          <button type="submit" className="kh-reset" disabled={saving}>
+            {saving ? t("common.saving") : t("common.save")}
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React from "react";
+import type { Session } from "@khatma/contract";
+import { request, type ApiResult } from "../lib/api";
+import { formatDate, t } from "../lib/i18n";
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "numeric",
+  month: "short",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+// A rough "browser on system" name; the full user agent stays in the tooltip.
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return t("devices.unknown");
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : t("devices.browser");
+  const system = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+  return system ? t("devices.browserOn", { browser, system }) : browser;
+}
+
+export default function Devices() {
+  const [sessions, setSessions] = React.useState<Session[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [reloads, setReloads] = React.useState(0);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    request("listSessions")
+      .then((result) => (result.ok ? result.data : Promise.reject(new Error(`sessions failed (${result.status})`))))
+      .then((data) => {
+        if (!cancelled) setSessions(data.sessions);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError(t("devices.loadFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloads]);
+
+  async function revoke(send: () => Promise<ApiResult<unknown>>, question: string) {
+    if (!window.confirm(question)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await send();
+      if (!result.ok && result.status !== 404) throw new Error(`revoke failed (${result.status})`);
+    } catch (err) {
+      console.error(err);
+      setError(t("devices.revokeFailed"));
+    } finally {
+      setBusy(false);
+      setReloads((n) => n + 1);
+    }
+  }
+
+  const others = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <main className="px-4 py-10 flex flex-col items-center gap-6">
+      <section className="khatma-card">
+        <h2 className="khatma-card__title">{t("devices.title")}</h2>
+        <p className="kh-devices__hint">{t("devices.hint")}</p>
+
+        {error ? <p className="login-error">{error}</p> : null}
+        {!sessions && !error ? <div className="khatma-loading">{t("common.loading")}</div> : null}
+
+        {sessions ? (
+          <div className="kh-devices">
+            {sessions.map((session) => (
+              <div key={session.id} className="kh-devices__row">
+                <span className="kh-devices__name" title={session.userAgent ?? undefined}>
+                  {describeDevice(session.userAgent)}
+                  {session.current ? <span className="kh-devices__current">{t("devices.current")}</span> : null}
+                </span>
+                <span className="kh-devices__time">
+                  {t("devices.lastUsed", { time: formatDate(session.lastUsedAt, TIME_FORMAT) })}
+                </span>
+                {!session.current ? (
+                  <button
+                    type="button"
+                    className="khatma-rules__edit"
+                    onClick={() =>
+                      revoke(
+                        () => request("revokeSession", { params: { sessionId: session.id } }),
+                        t("devices.revokeConfirm"),
+                      )
+                    }
+                    disabled={busy}
+                  >
+                    {t("devices.revoke")}
+                  </button>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {others.length ? (
+          <button
+            type="button"
+            className="kh-reset"
+            onClick={() => revoke(() => request("revokeOtherSessions"), t("devices.revokeOthersConfirm"))}
+            disabled={busy}
+          >
+            {t("devices.revokeOthers")}
+          </button>
+        ) : null}
+      </section>
+    </main>
+  );
+}
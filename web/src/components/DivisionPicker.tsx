@@ -0,0 +1,54 @@
+import React from "react";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+import { DIVISIONS, unitCount, unitNoun, type Division } from "../lib/quran";
+
+interface DivisionPickerProps {
+  weekId: string;
+  division: Division;
+  // Re-splitting would renumber parts people already hold, so the server refuses it.
+  locked: boolean;
+}
+
+export default function DivisionPicker({ weekId, division, locked }: DivisionPickerProps) {
+  const [saving, setSaving] = React.useState(false);
+
+  async function change(next: Division) {
+    if (next === division) return;
+    try {
+      setSaving(true);
+      const result = await request("setDivision", { params: { weekId }, body: { division: next } });
+      if (!result.ok) alert(describeError(result.error, t("division.failed")));
+    } catch (error) {
+      console.error(error);
+      alert(t("division.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="kh-division">
+      <label htmlFor="kh-division-select">{t("division.label")}</label>
+      <select
+        id="kh-division-select"
+        className="login-input"
+        value={division}
+        onChange={(event) => change(event.target.value as Division)}
+        disabled={saving || locked}
+      >
+        {DIVISIONS.map((option) => (
+          <option key={option} value={option}>
+            {t(`division.${option}`)} ({unitCount(option)})
+          </option>
+        ))}
+      </select>
+      <span className="kh-division__hint">
+        {locked
+          ? t("division.locked")
+          : t("division.hint", { count: unitCount(division), units: unitNoun(division, unitCount(division)) })}
+      </span>
+    </div>
+  );
+}
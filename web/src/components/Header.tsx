@@ -1,7 +1,25 @@
+import type { Group, Locale } from "@khatma/contract";
+import type { SyncStatus } from "./Board";
+import PushToggle from "./PushToggle";
+import LanguagePicker from "./LanguagePicker";
+import { t } from "../lib/i18n";
+
+export type AppView = "board" | "history" | "stats" | "devices";
+
+const VIEWS: readonly AppView[] = ["board", "history", "stats", "devices"];
+
 interface HeaderProps {
   userLabel: string;
   syncing: boolean;
-  isAdmin: boolean;
+  syncStatus: SyncStatus;
+  canReset: boolean;
+  groups: Group[];
+  activeGroupId: string | null;
+  onSelectGroup: (groupId: string) => void;
+  onAddGroup: () => void;
+  view: AppView;
+  onViewChange: (view: AppView) => void;
+  onLocaleChange: (locale: Locale) => void;
   resetting: boolean;
   onReset: () => void;
   onLogout: () => void;
@@ -10,32 +28,81 @@ interface HeaderProps {
 export default function Header({
   userLabel,
   syncing,
-  isAdmin,
+  syncStatus,
+  canReset,
+  groups,
+  activeGroupId,
+  onSelectGroup,
+  onAddGroup,
+  view,
+  onViewChange,
+  onLocaleChange,
   resetting,
   onReset,
   onLogout,
 }: HeaderProps) {
   return (
     <header className="kh-header">
-      <div className="inner" dir="rtl">
+      <div className="inner">
         <div className="kh-brand">
           <div className="kh-logo">خ</div>
-          <div className="kh-title">ختمة</div>
+          <div className="kh-title">{t("header.brand")}</div>
         </div>
 
         <div className="kh-userwrap">
+          {groups.length ? (
+            <div className="kh-groups">
+              <select
+                className="kh-groups__select"
+                value={activeGroupId ?? ""}
+                onChange={(event) => onSelectGroup(event.target.value)}
+                aria-label={t("header.group")}
+              >
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+              <button className="kh-groups__add" onClick={onAddGroup} title={t("header.addGroup")}>
+                +
+              </button>
+            </div>
+          ) : null}
+          {groups.length ? (
+            <nav className="kh-nav" aria-label={t("header.sections")}>
+              {VIEWS.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  className={`kh-nav__item${view === key ? " active" : ""}`}
+                  aria-current={view === key ? "page" : undefined}
+                  onClick={() => onViewChange(key)}
+                >
+                  {t(`header.view.${key}`)}
+                </button>
+              ))}
+            </nav>
+          ) : null}
+          {syncStatus !== "live" ? (
+            <div className={`kh-sync kh-sync--${syncStatus}`} role="status">
+              {t(`header.sync.${syncStatus}`)}
+            </div>
+          ) : null}
           <div className="kh-userpill" title={userLabel}>
             <span className={`dot${syncing ? " syncing" : ""}`} />
             <span style={{ whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", maxWidth: 220 }}>
               {userLabel}
             </span>
           </div>
-          {isAdmin ? (
+          <PushToggle />
+          <LanguagePicker onChange={onLocaleChange} />
+          {canReset && view === "board" ? (
             <button className="kh-reset" disabled={resetting} onClick={onReset}>
-              {resetting ? "جارٍ إعادة الضبط..." : "إعادة ضبط الأسبوع"}
+              {resetting ? t("header.resetting") : t("header.reset")}
             </button>
           ) : null}
-          <button className="kh-logout" onClick={onLogout}>تسجيل الخروج</button>
+          <button className="kh-logout" onClick={onLogout}>{t("header.logout")}</button>
         </div>
       </div>
     </header>
@@ -0,0 +1,98 @@
+import React from "react";
+import { TEXT_LIMITS, type Intention as PartIntention } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+// The board keeps intentions by part number, so the number is left off.
+export type Intention = Omit<PartIntention, "number">;
+
+interface IntentionEditorProps {
+  weekId: string;
+  number: number;
+  label: string;
+  intention: Intention | null;
+  onSaved: (number: number, intention: Intention) => void;
+  onClose: () => void;
+}
+
+export default function IntentionEditor({ weekId, number, label, intention, onSaved, onClose }: IntentionEditorProps) {
+  const [text, setText] = React.useState(intention?.text ?? "");
+  const [isPublic, setIsPublic] = React.useState(intention?.isPublic ?? false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await request("setIntention", { params: { weekId, number }, body: { text, isPublic } });
+      if (!result.ok) {
+        setError(
+          result.error.error === "NOT_OWNER"
+            ? t("intention.notOwner", { label })
+            : describeError(result.error, t("intention.failed")),
+        );
+        return;
+      }
+      onSaved(number, result.data);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError(t("intention.failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="kh-menu-backdrop" onClick={onClose}>
+      <div
+        className="kh-menu"
+        role="dialog"
+        aria-label={t("intention.dialog", { label })}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="kh-menu__head">
+          <strong>{t("intention.heading", { label })}</strong>
+        </div>
+        <form className="kh-menu__form" onSubmit={save}>
+          <textarea
+            className="login-input"
+            value={text}
+            rows={3}
+            maxLength={TEXT_LIMITS.intention}
+            placeholder={t("intention.placeholder")}
+            onChange={(event) => setText(event.target.value)}
+            disabled={busy}
+          />
+          <label className="kh-audit__check">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(event) => setIsPublic(event.target.checked)}
+              disabled={busy}
+            />
+            {t("intention.public")}
+          </label>
+          <button type="submit" className="kh-reset" disabled={busy}>
+            {busy ? t("common.saving") : t("common.save")}
+          </button>
+        </form>
+        {error ? <p className="login-error">{error}</p> : null}
+        <button type="button" className="group-gate__cancel" onClick={onClose} disabled={busy}>
+          {t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
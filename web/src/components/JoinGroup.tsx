@@ -0,0 +1,102 @@
+import React from "react";
+import type { Group } from "@khatma/contract";
+import { request, type ApiResult } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+interface JoinGroupProps {
+  onJoined: (group: Group) => void;
+  onCancel?: () => void;
+}
+
+export default function JoinGroup({ onJoined, onCancel }: JoinGroupProps) {
+  const [inviteCode, setInviteCode] = React.useState("");
+  const [newName, setNewName] = React.useState("");
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function submit(send: () => Promise<ApiResult<Group>>, fallbackError: string) {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await send();
+      if (!result.ok) {
+        setError(describeError(result.error, fallbackError));
+        return;
+      }
+      onJoined(result.data);
+    } catch (err) {
+      console.error(err);
+      setError(fallbackError);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function join(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!inviteCode.trim()) {
+      setError(t("joinGroup.inviteRequired"));
+      return;
+    }
+    submit(() => request("joinGroup", { body: { inviteCode: inviteCode.trim() } }), t("joinGroup.joinFailed"));
+  }
+
+  function create(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!newName.trim()) {
+      setError(t("joinGroup.nameRequired"));
+      return;
+    }
+    submit(() => request("createGroup", { body: { name: newName.trim() } }), t("joinGroup.createFailed"));
+  }
+
+  return (
+    <main className="px-4 py-10 flex justify-center">
+      <section className="khatma-card group-gate">
+        <h2 className="khatma-card__title">{t("joinGroup.title")}</h2>
+        <p className="khatma-card__subtitle">{t("joinGroup.subtitle")}</p>
+
+        <form className="login-form" onSubmit={join}>
+          <label className="login-label">{t("joinGroup.inviteCode")}</label>
+          <input
+            dir="ltr"
+            className="login-input"
+            value={inviteCode}
+            placeholder="ABCD2345"
+            onChange={(event) => setInviteCode(event.target.value.toUpperCase())}
+            disabled={loading}
+            autoCapitalize="characters"
+          />
+          <button type="submit" className="login-submit" disabled={loading}>
+            {t("joinGroup.join")}
+          </button>
+        </form>
+
+        <div className="group-gate__divider">{t("joinGroup.or")}</div>
+
+        <form className="login-form" onSubmit={create}>
+          <label className="login-label">{t("joinGroup.newName")}</label>
+          <input
+            className="login-input"
+            value={newName}
+            placeholder={t("joinGroup.namePlaceholder")}
+            onChange={(event) => setNewName(event.target.value)}
+            disabled={loading}
+          />
+          <button type="submit" className="kh-reset" disabled={loading}>
+            {t("joinGroup.create")}
+          </button>
+        </form>
+
+        {error ? <p className="login-error">{error}</p> : null}
+
+        {onCancel ? (
+          <button type="button" className="group-gate__cancel" onClick={onCancel} disabled={loading}>
+            {t("joinGroup.back")}
+          </button>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+import type { Locale } from "@khatma/contract";
+import { getLocale, LOCALE_NAMES, LOCALES, t } from "../lib/i18n";
+
+interface LanguagePickerProps {
+  onChange: (locale: Locale) => void;
+}
+
+export default function LanguagePicker({ onChange }: LanguagePickerProps) {
+  return (
+    <select
+      className="kh-language"
+      value={getLocale()}
+      onChange={(event) => onChange(event.target.value as Locale)}
+      aria-label={t("header.language")}
+    >
+      {LOCALES.map((locale) => (
+        <option key={locale} value={locale} lang={locale}>
+          {LOCALE_NAMES[locale]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,19 +1,14 @@
 import React from "react";
-import { API_BASE } from "../lib/api";
+import type { ResponseOf } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { getLocale, setLocale, t } from "../lib/i18n";
+import LanguagePicker from "./LanguagePicker";
 
 const PHONE_PREFIX = "+963";
 const phoneRegex = /^\+\d{6,15}$/;
 
-export interface LoginResult {
-  token: string;
-  user: {
-    id: string;
-    name: string | null;
-    phone: string | null;
-    isAdmin: boolean;
-  };
-  profile: { name: string; phone: string };
-}
+export type LoginResult = ResponseOf<"verifyOtp"> & { profile: { name: string; phone: string } };
 
 interface LoginProps {
   onSuccess: (result: LoginResult) => void;
@@ -22,9 +17,19 @@ interface LoginProps {
 export default function Login({ onSuccess }: LoginProps) {
   const [name, setName] = React.useState("");
   const [phone, setPhone] = React.useState(PHONE_PREFIX);
+  const [step, setStep] = React.useState<"details" | "code">("details");
+  const [code, setCode] = React.useState("");
+  const [resendAt, setResendAt] = React.useState(0);
+  const [now, setNow] = React.useState(() => Date.now());
   const [loading, setLoading] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
 
+  React.useEffect(() => {
+    if (step !== "code") return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [step]);
+
   React.useEffect(() => {
     try {
       const stored = localStorage.getItem("khatma_profile");
@@ -38,51 +43,83 @@ export default function Login({ onSuccess }: LoginProps) {
     }
   }, []);
 
-  async function submit(event: React.FormEvent<HTMLFormElement>) {
+  const trimmedName = name.trim();
+  const normalizedPhone = phone.trim().startsWith("+") ? phone.trim() : `+${phone.trim().replace(/^\+/, "")}`;
+  const resendIn = Math.max(0, Math.ceil((resendAt - now) / 1000));
+
+  async function requestCode() {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await request("requestOtp", { body: { phone: normalizedPhone, locale: getLocale() } });
+      if (!result.ok) {
+        const { error, retryAfter } = result.error;
+        if (error === "OTP_TOO_SOON" && retryAfter) {
+          setResendAt(Date.now() + retryAfter * 1000);
+          setStep("code");
+        }
+        if (error === "RATE_LIMITED") {
+          // Hold the resend button until the limiter lets this phone through again.
+          if (retryAfter) setResendAt(Date.now() + retryAfter * 1000);
+          setNow(Date.now());
+        }
+        setError(describeError(result.error, t("login.sendFailed")));
+        return;
+      }
+      setResendAt(Date.now() + result.data.resendIn * 1000);
+      setNow(Date.now());
+      setCode("");
+      setStep("code");
+    } catch (err) {
+      console.error(err);
+      setError(t("login.sendFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function submitDetails(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    const trimmedName = name.trim();
-    const normalizedPhone = phone.trim().startsWith("+")
-      ? phone.trim()
-      : `+${phone.trim().replace(/^\+/, "")}`;
 
     if (!trimmedName) {
-      setError("يرجى إدخال الاسم الكامل.");
+      setError(t("login.nameRequired"));
       return;
     }
     if (!phoneRegex.test(normalizedPhone)) {
-      setError("يرجى إدخال رقم جوال بصيغة دولية صحيحة (مثال: ‎+963123456789).");
+      setError(t("login.phoneInvalid"));
+      return;
+    }
+
+    await requestCode();
+  }
+
+  async function submitCode(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError(t("login.codeInvalid"));
       return;
     }
 
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch(`${API_BASE}/api/auth/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: trimmedName, phone: normalizedPhone }),
+      const result = await request("verifyOtp", {
+        body: { name: trimmedName, phone: normalizedPhone, code: code.trim(), locale: getLocale() },
       });
-      if (!response.ok) {
-        throw new Error(`login failed (${response.status})`);
-      }
-      const data = await response.json();
-      if (!data?.token || !data?.user?.id) {
-        throw new Error("missing token");
+      if (!result.ok) {
+        setError(describeError(result.error, t("login.failed")));
+        return;
       }
+      const { data } = result;
 
       const profile = { name: trimmedName, phone: normalizedPhone };
       localStorage.setItem("khatma_profile", JSON.stringify(profile));
-      if (data.user?.isAdmin) {
-        localStorage.setItem("khatma_isAdmin", "1");
-      } else {
-        localStorage.removeItem("khatma_isAdmin");
-      }
       localStorage.setItem("khatma_myDbUserId", data.user.id);
 
-      onSuccess({ token: data.token, user: data.user, profile });
+      onSuccess({ token: data.token, refreshToken: data.refreshToken, user: data.user, profile });
     } catch (err) {
       console.error(err);
-      setError("حدث خطأ أثناء تسجيل الدخول. يرجى المحاولة مجدداً.");
+      setError(t("login.failed"));
     } finally {
       setLoading(false);
     }
@@ -94,49 +131,94 @@ export default function Login({ onSuccess }: LoginProps) {
         <header className="login-header">
           <div className="login-icon">خ</div>
           <div className="login-copy">
-            <h2>أهلاً بك في ختمة ملتقى المحبين</h2>
-            <p>شارك في ختمة أسبوعية، واحجز الجزء الذي تريد قراءته مع المجموعة.</p>
+            <h2>{t("login.welcome")}</h2>
+            <p>{t("login.intro")}</p>
           </div>
+          <LanguagePicker onChange={setLocale} />
         </header>
 
-        <form className="login-form" onSubmit={submit}>
-          <label className="login-label">الاسم الكامل</label>
-          <input
-            className="login-input"
-            value={name}
-            placeholder="ادخل اسمك الكامل"
-            onChange={(event) => setName(event.target.value)}
-            disabled={loading}
-            autoComplete="name"
-          />
-
-          <label className="login-label">رقم الجوال (بصيغة دولية)</label>
-          <div className="login-input-group">
-            <span className="login-prefix">+</span>
+        {step === "code" ? (
+          <form className="login-form" onSubmit={submitCode}>
+            <p className="login-hint login-hint--start">
+              {t("login.codeSent")} <span dir="ltr">{normalizedPhone}</span>
+            </p>
+            <label className="login-label">{t("login.code")}</label>
             <input
               dir="ltr"
-              className="login-input"
-              value={phone.startsWith("+") ? phone.slice(1) : phone}
-              placeholder="963523783612"
-              onChange={(event) => {
-                const digits = event.target.value.replace(/[^\d]/g, "");
-                setPhone(digits ? `+${digits}` : "+");
-              }}
+              className="login-input login-code"
+              value={code}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="••••••"
+              onChange={(event) => setCode(event.target.value.replace(/[^\d]/g, ""))}
               disabled={loading}
-              autoComplete="tel"
+              autoFocus
             />
-          </div>
 
-          {error ? <p className="login-error">{error}</p> : null}
-
-          <button type="submit" className="login-submit" disabled={loading}>
-            {loading ? "جارٍ التحقق..." : "بدء المشاركة"}
-          </button>
+            {error ? <p className="login-error">{error}</p> : null}
+
+            <button type="submit" className="login-submit" disabled={loading}>
+              {loading ? t("login.verifying") : t("login.verify")}
+            </button>
+
+            <div className="login-actions">
+              <button type="button" className="login-link" onClick={requestCode} disabled={loading || resendIn > 0}>
+                {resendIn > 0 ? t("login.resendIn", { seconds: resendIn }) : t("login.resend")}
+              </button>
+              <button
+                type="button"
+                className="login-link"
+                onClick={() => {
+                  setStep("details");
+                  setError(null);
+                }}
+                disabled={loading}
+              >
+                {t("login.changePhone")}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form className="login-form" onSubmit={submitDetails}>
+            <label className="login-label">{t("login.name")}</label>
+            <input
+              className="login-input"
+              value={name}
+              placeholder={t("login.namePlaceholder")}
+              onChange={(event) => setName(event.target.value)}
+              disabled={loading}
+              autoComplete="name"
+            />
 
-          <p className="login-hint">
-            يتم حفظ مشاركتك تلقائياً، ويمكنك العودة في أي وقت لإكمال الختمة.
-          </p>
-        </form>
+            <label className="login-label">{t("login.phone")}</label>
+            <div className="login-input-group">
+              <span className="login-prefix">+</span>
+              <input
+                dir="ltr"
+                className="login-input"
+                value={phone.startsWith("+") ? phone.slice(1) : phone}
+                placeholder="963523783612"
+                onChange={(event) => {
+                  const digits = event.target.value.replace(/[^\d]/g, "");
+                  setPhone(digits ? `+${digits}` : "+");
+                }}
+                disabled={loading}
+                autoComplete="tel"
+              />
+            </div>
+
+            {error ? <p className="login-error">{error}</p> : null}
+
+            <button type="submit" className="login-submit" disabled={loading}>
+              {loading ? t("login.sending") : t("login.send")}
+            </button>
+
+            <p className="login-hint">
+              {t("login.savedHint")}
+            </p>
+          </form>
+        )}
       </div>
     </div>
   );
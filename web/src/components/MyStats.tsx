@@ -0,0 +1,74 @@
+import React from "react";
+import type { Group, MemberStats } from "@khatma/contract";
+import { request } from "../lib/api";
+import { t } from "../lib/i18n";
+import { can } from "../lib/roles";
+import ParticipationReport from "./ParticipationReport";
+
+interface MyStatsProps {
+  group: Group;
+}
+
+export default function MyStats({ group }: MyStatsProps) {
+  const [allGroups, setAllGroups] = React.useState(false);
+  const [stats, setStats] = React.useState<MemberStats | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setStats(null);
+    setError(null);
+    request("myStats", { query: allGroups ? {} : { groupId: group.id } })
+      .then((result) => (result.ok ? result.data : Promise.reject(new Error(`stats failed (${result.status})`))))
+      .then((data) => {
+        if (!cancelled) setStats(data);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError(t("stats.failed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [allGroups, group.id]);
+
+  return (
+    <main className="px-4 py-10 flex flex-col items-center gap-6">
+      <section className="khatma-card">
+        <h2 className="khatma-card__title">{t("stats.title")}</h2>
+        <label className="kh-audit__check kh-stats__scope">
+          <input type="checkbox" checked={allGroups} onChange={(event) => setAllGroups(event.target.checked)} />
+          {t("stats.allGroups", { group: group.name })}
+        </label>
+
+        {error ? <p className="login-error">{error}</p> : null}
+        {!stats && !error ? <div className="khatma-loading">{t("common.loading")}</div> : null}
+
+        {stats ? (
+          <div className="kh-stats">
+            <div className="kh-stats__item">
+              <strong>{stats.partsRead}</strong>
+              <span>{t("stats.partsRead", { count: stats.partsRead })}</span>
+            </div>
+            <div className="kh-stats__item">
+              <strong>{stats.weeksAttended}</strong>
+              <span>{t("stats.weeksAttended", { count: stats.weeksAttended })}</span>
+            </div>
+            <div className="kh-stats__item">
+              <strong>{stats.currentStreak}</strong>
+              <span>{t("stats.streak", { count: stats.currentStreak })}</span>
+            </div>
+            <div className="kh-stats__item">
+              <strong>{stats.mostReadJuz ? stats.mostReadJuz.number : "—"}</strong>
+              <span>
+                {stats.mostReadJuz ? t("stats.mostReadJuz", { count: stats.mostReadJuz.count }) : t("stats.noJuzRead")}
+              </span>
+            </div>
+          </div>
+        ) : null}
+      </section>
+
+      {can(group, "view_reports") ? <ParticipationReport groupId={group.id} /> : null}
+    </main>
+  );
+}
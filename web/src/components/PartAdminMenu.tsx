@@ -0,0 +1,237 @@
+import React from "react";
+import type { GroupMember, Part } from "@khatma/contract";
+import { request, type ApiResult } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+import { roleLabel, ROLES, type Role } from "../lib/roles";
+
+export type AdminMenuPart = Pick<Part, "number" | "claimed_by" | "claimed_name" | "claimed_is_admin" | "on_behalf">;
+
+interface PartAdminMenuProps {
+  groupId: string;
+  weekId: string;
+  part: AdminMenuPart;
+  // How the week names this part, e.g. "الجزء الثالث" or "الحزب 5 (...)".
+  label: string;
+  canManageRoles: boolean;
+  canRevokeSessions: boolean;
+  onClose: () => void;
+  onRoleChanged: (memberId: string, role: Role) => void;
+}
+
+export default function PartAdminMenu({
+  groupId,
+  weekId,
+  part,
+  label,
+  canManageRoles,
+  canRevokeSessions,
+  onClose,
+  onRoleChanged,
+}: PartAdminMenuProps) {
+  const [members, setMembers] = React.useState<GroupMember[]>([]);
+  const [memberId, setMemberId] = React.useState("");
+  const [guestName, setGuestName] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    request("listMembers", { params: { groupId } })
+      .then((result) => (result.ok ? result.data : Promise.reject(new Error(`members failed (${result.status})`))))
+      .then((data) => {
+        if (!cancelled) setMembers(data.members);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError(t("adminMenu.membersFailed"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  React.useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const holderName = part.claimed_name?.trim() || t("adminMenu.holder");
+  const isTaken = Boolean(part.claimed_by);
+  const holder = !part.on_behalf ? members.find((member) => member.userId === part.claimed_by) : undefined;
+
+  async function run(send: () => Promise<ApiResult<unknown>>, fallbackError: string) {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await send();
+      if (!result.ok) {
+        setError(
+          result.error.error === "NOT_CLAIMED"
+            ? t("adminMenu.notClaimed", { label })
+            : describeError(result.error, fallbackError),
+        );
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError(fallbackError);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function release() {
+    if (!window.confirm(t("adminMenu.releaseConfirm", { label, holder: holderName }))) return;
+    const ok = await run(
+      () => request("forceRelease", { params: { weekId, number: part.number } }),
+      t("adminMenu.releaseFailed"),
+    );
+    if (ok) onClose();
+  }
+
+  async function assign(body: { userId: string } | { name: string }) {
+    if (isTaken && !window.confirm(t("adminMenu.moveConfirm", { label, holder: holderName }))) return;
+    const ok = await run(
+      () => request("assignPart", { params: { weekId, number: part.number }, body }),
+      t("adminMenu.assignFailed"),
+    );
+    if (ok) onClose();
+  }
+
+  function assignMember(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!memberId) {
+      setError(t("adminMenu.memberRequired"));
+      return;
+    }
+    assign({ userId: memberId });
+  }
+
+  function assignGuest(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!guestName.trim()) {
+      setError(t("adminMenu.guestRequired"));
+      return;
+    }
+    assign({ name: guestName.trim() });
+  }
+
+  async function changeRole(role: Role) {
+    if (!holder || role === holder.role) return;
+    if (!window.confirm(t("adminMenu.roleConfirm", { holder: holderName, role: roleLabel(role) }))) return;
+    const ok = await run(
+      () => request("setMemberRole", { params: { groupId, userId: holder.userId }, body: { role } }),
+      t("adminMenu.roleFailed"),
+    );
+    if (ok) {
+      onRoleChanged(holder.userId, role);
+      onClose();
+    }
+  }
+
+  async function revokeSessions() {
+    if (!holder) return;
+    if (!window.confirm(t("adminMenu.revokeConfirm", { holder: holderName }))) return;
+    const ok = await run(
+      () => request("revokeMemberSessions", { params: { groupId, userId: holder.userId } }),
+      t("adminMenu.revokeFailed"),
+    );
+    if (ok) onClose();
+  }
+
+  return (
+    <div className="kh-menu-backdrop" onClick={onClose}>
+      <div
+        className="kh-menu"
+        role="dialog"
+        aria-label={t("adminMenu.dialog", { label })}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="kh-menu__head">
+          <strong>{label}</strong>
+          <span>
+            {isTaken
+              ? t(part.on_behalf ? "adminMenu.claimedOnBehalf" : "adminMenu.claimedBy", { holder: holderName })
+              : t("adminMenu.open")}
+          </span>
+        </div>
+
+        {isTaken ? (
+          <button type="button" className="kh-menu__action" onClick={release} disabled={busy}>
+            {t("adminMenu.release")}
+          </button>
+        ) : null}
+        {canManageRoles && holder ? (
+          <label className="login-label">
+            {t("adminMenu.role", { holder: holderName })}
+            <select
+              className="login-input"
+              value={holder.role}
+              onChange={(event) => changeRole(event.target.value as Role)}
+              disabled={busy}
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {roleLabel(role)}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        {canRevokeSessions && holder ? (
+          <button type="button" className="kh-menu__action" onClick={revokeSessions} disabled={busy}>
+            {t("adminMenu.revoke")}
+          </button>
+        ) : null}
+
+        <form className="kh-menu__form" onSubmit={assignMember}>
+          <label className="login-label">{t("adminMenu.assignMember")}</label>
+          <select
+            className="login-input"
+            value={memberId}
+            onChange={(event) => setMemberId(event.target.value)}
+            disabled={busy}
+          >
+            <option value="">{t("adminMenu.chooseMember")}</option>
+            {members
+              .filter((member) => member.userId !== part.claimed_by || part.on_behalf)
+              .map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name || member.phone || t("common.member")}
+                </option>
+              ))}
+          </select>
+          <button type="submit" className="kh-reset" disabled={busy}>
+            {t("adminMenu.assign")}
+          </button>
+        </form>
+
+        <form className="kh-menu__form" onSubmit={assignGuest}>
+          <label className="login-label">{t("adminMenu.guest")}</label>
+          <input
+            className="login-input"
+            value={guestName}
+            placeholder={t("adminMenu.guestPlaceholder")}
+            onChange={(event) => setGuestName(event.target.value)}
+            disabled={busy}
+          />
+          <button type="submit" className="kh-reset" disabled={busy}>
+            {t("adminMenu.assignGuest")}
+          </button>
+        </form>
+
+        {error ? <p className="login-error">{error}</p> : null}
+
+        <button type="button" className="group-gate__cancel" onClick={onClose} disabled={busy}>
+          {t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
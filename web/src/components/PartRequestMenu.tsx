@@ -0,0 +1,132 @@
+import React from "react";
+import type { Part } from "@khatma/contract";
+import { request, type ApiResult } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+type RequestPart = Pick<Part, "number" | "claimed_name" | "on_behalf">;
+
+interface PartRequestMenuProps {
+  weekId: string;
+  part: RequestPart;
+  label: string;
+  // The member's own unread parts they could offer in exchange, with their labels.
+  offers: { number: number; label: string }[];
+  waiting: boolean;
+  onClose: () => void;
+  onWaitlistChange: (number: number, waiting: boolean) => void;
+}
+
+export default function PartRequestMenu({
+  weekId,
+  part,
+  label,
+  offers,
+  waiting,
+  onClose,
+  onWaitlistChange,
+}: PartRequestMenuProps) {
+  const [offer, setOffer] = React.useState(() => offers[0]?.number.toString() ?? "");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [sent, setSent] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const holderName = part.claimed_name?.trim() || t("common.participant");
+
+  async function run<T>(send: () => Promise<ApiResult<T>>, fallbackError: string) {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await send();
+      if (!result.ok) {
+        setError(
+          result.error.error === "NOT_OWNER" ? t("requestMenu.notOwner") : describeError(result.error, fallbackError),
+        );
+        return null;
+      }
+      return result.data;
+    } catch (err) {
+      console.error(err);
+      setError(fallbackError);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleWaitlist() {
+    const params = { weekId, number: part.number };
+    if (waiting) {
+      if (!(await run(() => request("leaveWaitlist", { params }), t("requestMenu.waitlistFailed")))) return;
+      onWaitlistChange(part.number, false);
+      setSent(t("requestMenu.left"));
+      return;
+    }
+    const entry = await run(() => request("joinWaitlist", { params }), t("requestMenu.waitlistFailed"));
+    if (!entry) return;
+    onWaitlistChange(part.number, true);
+    setSent(t("requestMenu.joined", { position: entry.position }));
+  }
+
+  async function proposeSwap(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!offer) return;
+    const result = await run(
+      () =>
+        request("proposeSwap", { params: { weekId }, body: { offerNumber: Number(offer), wantNumber: part.number } }),
+      t("requestMenu.swapFailed"),
+    );
+    if (result) setSent(t("requestMenu.swapSent", { holder: holderName }));
+  }
+
+  return (
+    <div className="kh-menu-backdrop" onClick={onClose}>
+      <div className="kh-menu" role="dialog" aria-label={label} onClick={(event) => event.stopPropagation()}>
+        <div className="kh-menu__head">
+          <strong>{label}</strong>
+          <span>{t("requestMenu.claimedBy", { holder: holderName })}</span>
+        </div>
+
+        <button type="button" className="kh-menu__action" onClick={toggleWaitlist} disabled={busy}>
+          {waiting ? t("requestMenu.leave") : t("requestMenu.join")}
+        </button>
+
+        {!part.on_behalf && offers.length ? (
+          <form className="kh-menu__form" onSubmit={proposeSwap}>
+            <label className="login-label">{t("requestMenu.offer")}</label>
+            <select
+              className="login-input"
+              value={offer}
+              onChange={(event) => setOffer(event.target.value)}
+              disabled={busy}
+            >
+              {offers.map((option) => (
+                <option key={option.number} value={option.number}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="kh-reset" disabled={busy}>
+              {t("requestMenu.send")}
+            </button>
+          </form>
+        ) : null}
+
+        {sent ? <p className="kh-share__message">{sent}</p> : null}
+        {error ? <p className="login-error">{error}</p> : null}
+
+        <button type="button" className="group-gate__cancel" onClick={onClose} disabled={busy}>
+          {t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React from "react";
+import type { ParticipationReport as Report } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+interface ParticipationReportProps {
+  groupId: string;
+}
+
+const REPORT_DEFAULT_DAYS = 90;
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function ParticipationReport({ groupId }: ParticipationReportProps) {
+  const [from, setFrom] = React.useState(() => isoDay(new Date(Date.now() - REPORT_DEFAULT_DAYS * 86_400_000)));
+  const [to, setTo] = React.useState(() => isoDay(new Date()));
+  // The range the report was last asked for; editing the dates waits for the button.
+  const [applied, setApplied] = React.useState({ from, to });
+  const [report, setReport] = React.useState<Report | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await request("participationReport", { params: { groupId }, query: applied });
+      if (!result.ok) {
+        setError(describeError(result.error, t("report.failed")));
+        return;
+      }
+      setReport(result.data);
+    } catch (err) {
+      console.error(err);
+      setError(t("report.failed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, groupId]);
+
+  React.useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <section className="khatma-card">
+      <h2 className="khatma-card__title">{t("report.title")}</h2>
+      <form
+        className="kh-report__range"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (from === applied.from && to === applied.to) load();
+          else setApplied({ from, to });
+        }}
+      >
+        <label className="login-label">
+          {t("report.from")}
+          <input type="date" className="login-input" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label className="login-label">
+          {t("report.to")}
+          <input type="date" className="login-input" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        <button type="submit" className="kh-reset" disabled={loading}>
+          {loading ? t("common.loading") : t("report.show")}
+        </button>
+      </form>
+
+      {error ? <p className="login-error">{error}</p> : null}
+
+      {report ? (
+        <>
+          <div className="khatma-card__subtitle">
+            {t("report.weeks", { count: report.weeks })} · {t("report.completed", { count: report.completedWeeks })} ·{" "}
+            {t("report.partsRead", { count: report.partsRead })}
+          </div>
+          <table className="kh-report__table">
+            <thead>
+              <tr>
+                <th>{t("report.member")}</th>
+                <th>{t("report.partsReadColumn")}</th>
+                <th>{t("report.weeksColumn")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.members.map((member) => (
+                <tr key={member.userId} className={member.partsRead ? "" : "inactive"}>
+                  <td>{member.name || member.phone || t("common.member")}</td>
+                  <td>{member.partsRead}</td>
+                  <td>
+                    {member.weeksAttended}/{report.weeks}
+                  </td>
+                </tr>
+              ))}
+              {report.guests.map((guest) => (
+                <tr key={`guest-${guest.name}`}>
+                  <td>{t("report.guest", { name: guest.name })}</td>
+                  <td>{guest.partsRead}</td>
+                  <td>—</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import { currentPushSubscription, disablePush, enablePush, pushSupported } from "../lib/push";
+import { t } from "../lib/i18n";
+
+export default function PushToggle() {
+  const [enabled, setEnabled] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+
+  React.useEffect(() => {
+    currentPushSubscription()
+      .then((subscription) => setEnabled(Boolean(subscription)))
+      .catch(() => setEnabled(false));
+  }, []);
+
+  if (!pushSupported()) return null;
+
+  async function toggle() {
+    try {
+      setBusy(true);
+      if (enabled) {
+        await disablePush();
+        setEnabled(false);
+      } else {
+        await enablePush();
+        setEnabled(true);
+      }
+    } catch (error) {
+      console.error(error);
+      const reason = error instanceof Error ? error.message : "";
+      alert(reason === "PERMISSION_DENIED" ? t("push.denied") : t("push.failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      className={`kh-push${enabled ? " on" : ""}`}
+      onClick={toggle}
+      disabled={busy}
+      aria-pressed={enabled}
+      title={enabled ? t("push.disableHint") : t("push.enableHint")}
+    >
+      {enabled ? t("push.enabled") : t("push.enable")}
+    </button>
+  );
+}
@@ -0,0 +1,172 @@
+import React from "react";
+import { t } from "../lib/i18n";
+import { type Division, SURAH_NAMES } from "../lib/quran";
+import { type Ayah, groupByPage, loadUnitAyahs } from "../lib/quranText";
+
+interface QuranReaderProps {
+  weekId: string;
+  division: Division;
+  number: number;
+  label: string;
+  done: boolean;
+  closed: boolean;
+  onMarkDone: () => void;
+  onRelease: () => void;
+  onClose: () => void;
+}
+
+const FONT_KEY = "khatma_reader_font";
+const FONT_SIZES = { min: 18, max: 40, step: 2, initial: 24 };
+const BASMALA = "بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ";
+
+function readFontSize(): number {
+  const stored = Number(localStorage.getItem(FONT_KEY));
+  return stored >= FONT_SIZES.min && stored <= FONT_SIZES.max ? stored : FONT_SIZES.initial;
+}
+
+const arabicDigits = new Intl.NumberFormat("ar-EG", { useGrouping: false });
+
+export default function QuranReader({
+  weekId,
+  division,
+  number,
+  label,
+  done,
+  closed,
+  onMarkDone,
+  onRelease,
+  onClose,
+}: QuranReaderProps) {
+  // The last mushaf page read is kept per week and unit, so reopening picks up where the member stopped.
+  const positionKey = `khatma_reader_${weekId}_${division}_${number}`;
+  const [pages, setPages] = React.useState<{ page: number; ayahs: Ayah[] }[] | null>(null);
+  const [failed, setFailed] = React.useState(false);
+  const [index, setIndex] = React.useState(0);
+  const [fontSize, setFontSize] = React.useState(readFontSize);
+  const textRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setFailed(false);
+    loadUnitAyahs(division, number)
+      .then((ayahs) => {
+        if (cancelled) return;
+        const grouped = groupByPage(ayahs);
+        const saved = Number(localStorage.getItem(positionKey));
+        setIndex(Math.max(0, grouped.findIndex((entry) => entry.page === saved)));
+        setPages(grouped);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [division, number, positionKey]);
+
+  const current = pages?.[index];
+  const isLast = pages !== null && index === pages.length - 1;
+
+  React.useEffect(() => {
+    if (!current) return;
+    localStorage.setItem(positionKey, String(current.page));
+    textRef.current?.scrollTo({ top: 0 });
+  }, [current, positionKey]);
+
+  const turn = React.useCallback(
+    (delta: number) => {
+      if (!pages) return;
+      setIndex((value) => Math.min(pages.length - 1, Math.max(0, value + delta)));
+    },
+    [pages],
+  );
+
+  React.useEffect(() => {
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+      // Pages turn right-to-left, as in a printed mushaf.
+      else if (event.key === "ArrowLeft") turn(1);
+      else if (event.key === "ArrowRight") turn(-1);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose, turn]);
+
+  function resize(delta: number) {
+    setFontSize((value) => {
+      const next = Math.min(FONT_SIZES.max, Math.max(FONT_SIZES.min, value + delta));
+      localStorage.setItem(FONT_KEY, String(next));
+      return next;
+    });
+  }
+
+  return (
+    <div className="kh-menu-backdrop" onClick={onClose}>
+      <div className="kh-reader" role="dialog" aria-label={t("reader.dialog", { label })} onClick={(event) => event.stopPropagation()}>
+        <div className="kh-reader__head">
+          <strong>{label}</strong>
+          <span className="kh-reader__font">
+            <button type="button" onClick={() => resize(-FONT_SIZES.step)} disabled={fontSize <= FONT_SIZES.min} aria-label={t("reader.smaller")}>
+              أ−
+            </button>
+            <button type="button" onClick={() => resize(FONT_SIZES.step)} disabled={fontSize >= FONT_SIZES.max} aria-label={t("reader.larger")}>
+              أ+
+            </button>
+          </span>
+          <button type="button" className="kh-reader__close" onClick={onClose} aria-label={t("common.close")}>
+            ×
+          </button>
+        </div>
+
+        <div className="kh-reader__text" ref={textRef} style={{ fontSize }} dir="rtl" lang="ar">
+          {failed ? (
+            <p className="login-error">{t("reader.failed")}</p>
+          ) : !current ? (
+            <div className="khatma-loading">{t("common.loading")}</div>
+          ) : (
+            current.ayahs.map(([surah, ayah, , text]) => (
+              <React.Fragment key={`${surah}:${ayah}`}>
+                {ayah === 1 ? (
+                  <div className="kh-reader__surah">
+                    <span>سورة {SURAH_NAMES[surah - 1]}</span>
+                    {surah !== 1 && surah !== 9 ? <span className="kh-reader__basmala">{BASMALA}</span> : null}
+                  </div>
+                ) : null}
+                <span className="kh-reader__ayah">
+                  {text} <span className="kh-reader__mark">﴿{arabicDigits.format(ayah)}﴾</span>{" "}
+                </span>
+              </React.Fragment>
+            ))
+          )}
+        </div>
+
+        {pages && current ? (
+          <div className="kh-reader__nav">
+            <button type="button" className="khatma-rules__edit" onClick={() => turn(-1)} disabled={index === 0}>
+              {t("reader.previous")}
+            </button>
+            <span>{t("reader.page", { page: current.page, index: index + 1, total: pages.length })}</span>
+            <button type="button" className="khatma-rules__edit" onClick={() => turn(1)} disabled={isLast}>
+              {t("reader.next")}
+            </button>
+          </div>
+        ) : null}
+
+        {isLast && !done && !closed ? (
+          <button type="button" className="kh-reset" onClick={onMarkDone}>
+            {t("reader.markDone", { label })}
+          </button>
+        ) : null}
+        {done ? <p className="kh-share__message">{t("reader.done", { label })}</p> : null}
+
+        {!closed ? (
+          <button type="button" className="group-gate__cancel" onClick={onRelease}>
+            {t("reader.release")}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from "react";
+import type { RosterFormat } from "@khatma/contract";
+import { download } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+interface RosterShareProps {
+  weekId: string;
+  weekKey: string;
+}
+
+// A refusal from the server, already worded for the member (say, too many exports in a row).
+class RosterExportError extends Error {}
+
+async function fetchRoster(weekId: string, format: RosterFormat): Promise<Blob> {
+  const result = await download("roster", { params: { weekId }, query: { format } });
+  if (!result.ok) throw new RosterExportError(describeError(result.error, t("roster.failed")));
+  return result.data;
+}
+
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Dismissing the share sheet rejects with AbortError; that is not a failure.
+function isShareCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export default function RosterShare({ weekId, weekKey }: RosterShareProps) {
+  const [busy, setBusy] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const filename = `khatma-${weekKey || weekId}`;
+
+  async function run(task: () => Promise<string | null>) {
+    try {
+      setBusy(true);
+      setMessage(await task());
+    } catch (err) {
+      if (isShareCancelled(err)) return;
+      console.error(err);
+      setMessage(err instanceof RosterExportError ? err.message : t("roster.failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const shareText = () =>
+    run(async () => {
+      const text = await (await fetchRoster(weekId, "text")).text();
+      if (typeof navigator.share === "function") {
+        await navigator.share({ text });
+        return null;
+      }
+      await navigator.clipboard.writeText(text);
+      return t("roster.copied");
+    });
+
+  const shareImage = () =>
+    run(async () => {
+      const blob = await fetchRoster(weekId, "png");
+      const file = new File([blob], `${filename}.png`, { type: "image/png" });
+      if (typeof navigator.canShare === "function" && navigator.canShare({ files: [file] })) {
+        await navigator.share({ files: [file] });
+        return null;
+      }
+      saveFile(blob, file.name);
+      return t("roster.imageSaved");
+    });
+
+  const downloadCsv = () =>
+    run(async () => {
+      saveFile(await fetchRoster(weekId, "csv"), `${filename}.csv`);
+      return null;
+    });
+
+  return (
+    <div className="kh-share">
+      <div className="kh-share__actions">
+        <button type="button" className="kh-share__btn" onClick={shareText} disabled={busy}>
+          {t("roster.shareText")}
+        </button>
+        <button type="button" className="kh-share__btn" onClick={shareImage} disabled={busy}>
+          {t("roster.shareImage")}
+        </button>
+        <button type="button" className="kh-share__btn" onClick={downloadCsv} disabled={busy}>
+          {t("roster.downloadCsv")}
+        </button>
+      </div>
+      {message ? <p className="kh-share__message">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from "react";
+import type { SwapSummary } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+interface SwapRequestsProps {
+  weekId: string;
+  labelOf: (number: number) => string;
+  // Bumped by the board whenever the server says this week's proposals changed.
+  version: number;
+}
+
+const SWAP_ACTIONS = { accept: "acceptSwap", decline: "declineSwap", cancel: "cancelSwap" } as const;
+
+export default function SwapRequests({ weekId, labelOf, version }: SwapRequestsProps) {
+  const [incoming, setIncoming] = React.useState<SwapSummary[]>([]);
+  const [outgoing, setOutgoing] = React.useState<SwapSummary[]>([]);
+  const [busy, setBusy] = React.useState(false);
+  const [reloads, setReloads] = React.useState(0);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    request("listSwaps", { params: { weekId } })
+      .then((result) => (result.ok ? result.data : Promise.reject(new Error(`swaps failed (${result.status})`))))
+      .then((data) => {
+        if (cancelled) return;
+        setIncoming(data.incoming);
+        setOutgoing(data.outgoing);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [weekId, version, reloads]);
+
+  async function act(swapId: string, action: keyof typeof SWAP_ACTIONS) {
+    try {
+      setBusy(true);
+      const result = await request(SWAP_ACTIONS[action], { params: { swapId } });
+      if (!result.ok) alert(describeError(result.error, t("swaps.failed")));
+    } catch (err) {
+      console.error(err);
+      alert(t("swaps.failed"));
+    } finally {
+      setBusy(false);
+      setReloads((n) => n + 1);
+    }
+  }
+
+  if (!incoming.length && !outgoing.length) return null;
+
+  return (
+    <div className="kh-swaps">
+      <h3 className="khatma-list__title">{t("swaps.title")}</h3>
+      {incoming.map((swap) => (
+        <div key={swap.id} className="kh-swaps__row">
+          <span>
+            {t("swaps.incoming", {
+              from: swap.fromName || t("common.participant"),
+              offer: labelOf(swap.offerNumber),
+              want: labelOf(swap.wantNumber),
+            })}
+          </span>
+          <span className="kh-swaps__actions">
+            <button type="button" className="kh-share__btn" onClick={() => act(swap.id, "accept")} disabled={busy}>
+              {t("swaps.accept")}
+            </button>
+            <button type="button" className="khatma-rules__edit" onClick={() => act(swap.id, "decline")} disabled={busy}>
+              {t("swaps.decline")}
+            </button>
+          </span>
+        </div>
+      ))}
+      {outgoing.map((swap) => (
+        <div key={swap.id} className="kh-swaps__row">
+          <span>
+            {t("swaps.outgoing", {
+              offer: labelOf(swap.offerNumber),
+              to: swap.toName || t("common.participant"),
+              want: labelOf(swap.wantNumber),
+            })}
+          </span>
+          <button type="button" className="khatma-rules__edit" onClick={() => act(swap.id, "cancel")} disabled={busy}>
+            {t("swaps.withdraw")}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
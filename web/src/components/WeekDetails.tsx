@@ -0,0 +1,97 @@
+import React from "react";
+import { TEXT_LIMITS, type Week } from "@khatma/contract";
+import { request } from "../lib/api";
+import { describeError } from "../lib/errors";
+import { t } from "../lib/i18n";
+
+export type WeekDetailsValue = Pick<Week, "title" | "dedication" | "closingDua">;
+
+interface WeekDetailsProps {
+  weekId: string;
+  details: WeekDetailsValue;
+}
+
+export default function WeekDetails({ weekId, details }: WeekDetailsProps) {
+  const [open, setOpen] = React.useState(false);
+  const [title, setTitle] = React.useState(details.title ?? "");
+  const [dedication, setDedication] = React.useState(details.dedication ?? "");
+  const [closingDua, setClosingDua] = React.useState(details.closingDua ?? "");
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setTitle(details.title ?? "");
+    setDedication(details.dedication ?? "");
+    setClosingDua(details.closingDua ?? "");
+  }, [details.title, details.dedication, details.closingDua]);
+
+  async function save(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    try {
+      setSaving(true);
+      const result = await request("setWeekDetails", { params: { weekId }, body: { title, dedication, closingDua } });
+      if (!result.ok) {
+        alert(describeError(result.error, t("weekDetails.failed")));
+        return;
+      }
+      setOpen(false);
+    } catch (error) {
+      console.error(error);
+      alert(t("weekDetails.failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="khatma-rules">
+      <div className="khatma-rules__summary">
+        <span>{details.closingDua ? t("weekDetails.summary") : t("weekDetails.summaryNoDua")}</span>
+        <button type="button" className="khatma-rules__edit" onClick={() => setOpen((v) => !v)}>
+          {open ? t("common.close") : t("common.edit")}
+        </button>
+      </div>
+      {open ? (
+        <form className="khatma-rules__form" onSubmit={save}>
+          <label className="login-label">
+            {t("weekDetails.title")}
+            <input
+              className="login-input"
+              value={title}
+              maxLength={TEXT_LIMITS.title}
+              placeholder={t("weekDetails.titlePlaceholder")}
+              onChange={(event) => setTitle(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="login-label">
+            {t("weekDetails.dedication")}
+            <textarea
+              className="login-input"
+              value={dedication}
+              maxLength={TEXT_LIMITS.dedication}
+              rows={2}
+              placeholder={t("weekDetails.dedicationPlaceholder")}
+              onChange={(event) => setDedication(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <label className="login-label">
+            {t("weekDetails.closingDua")}
+            <textarea
+              className="login-input"
+              value={closingDua}
+              maxLength={TEXT_LIMITS.closingDua}
+              rows={4}
+              placeholder={t("weekDetails.closingDuaPlaceholder")}
+              onChange={(event) => setClosingDua(event.target.value)}
+              disabled={saving}
+            />
+          </label>
+          <button type="submit" className="kh-reset" disabled={saving}>
+            {saving ? t("common.saving") : t("common.save")}
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
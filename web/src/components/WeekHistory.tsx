@@ -0,0 +1,105 @@
+import React from "react";
+import { request } from "../lib/api";
+import { formatCycleRange } from "../lib/cycle";
+import { t } from "../lib/i18n";
+import Board from "./Board";
+import type { Group, WeekSummary } from "@khatma/contract";
+
+interface WeekHistoryProps {
+  group: Group;
+  userId: string;
+  profile?: { name: string; phone: string };
+  onOpenCurrent: () => void;
+}
+
+const DAY_FORMAT: Intl.DateTimeFormatOptions = { day: "numeric", month: "long", year: "numeric" };
+
+function weekRange(week: WeekSummary, hijriOffset: number): string {
+  if (!week.startsAt || !week.endsAt) return week.weekKey;
+  return formatCycleRange(week.startsAt, week.endsAt, hijriOffset, DAY_FORMAT);
+}
+
+export default function WeekHistory({ group, userId, profile, onOpenCurrent }: WeekHistoryProps) {
+  const [weeks, setWeeks] = React.useState<WeekSummary[]>([]);
+  const [cursor, setCursor] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const load = React.useCallback(
+    async (before: string | null) => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await request("listWeeks", { query: { groupId: group.id, before: before ?? undefined } });
+        if (!result.ok) throw new Error(`weeks failed (${result.status})`);
+        const data = result.data;
+        setWeeks((prev) => (before ? [...prev, ...data.weeks] : data.weeks));
+        setCursor(data.nextCursor);
+      } catch (err) {
+        console.error(err);
+        setError(t("history.failed"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [group.id],
+  );
+
+  React.useEffect(() => {
+    load(null);
+  }, [load]);
+
+  if (selected) {
+    return (
+      <>
+        <div className="kh-history__back">
+          <button type="button" className="khatma-rules__edit" onClick={() => setSelected(null)}>
+            {t("history.back")}
+          </button>
+        </div>
+        <Board key={selected} group={group} userId={userId} profile={profile} archivedWeekId={selected} />
+      </>
+    );
+  }
+
+  return (
+    <main className="px-4 py-10 flex justify-center">
+      <section className="khatma-card">
+        <h2 className="khatma-card__title">{t("history.title")}</h2>
+        <div className="khatma-card__subtitle">{group.name}</div>
+
+        {error ? <p className="login-error">{error}</p> : null}
+        {!loading && !weeks.length && !error ? <p className="kh-audit__empty">{t("history.empty")}</p> : null}
+
+        <ol className="kh-history__list">
+          {weeks.map((week) => (
+            <li key={week.weekId}>
+              <button
+                type="button"
+                className="kh-history__item"
+                onClick={() => (week.closed ? setSelected(week.weekId) : onOpenCurrent())}
+              >
+                <span className="kh-history__range">
+                  {weekRange(week, group.hijriOffset)}
+                  {!week.closed ? <span className="kh-history__badge">{t("history.current")}</span> : null}
+                </span>
+                <span className="kh-history__counts">
+                  {week.completedAt
+                    ? t("history.completed")
+                    : t("history.counts", { read: week.readCount, claimed: week.claimedCount, total: week.unitCount })}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {cursor ? (
+          <button type="button" className="khatma-rules__edit" onClick={() => load(cursor)} disabled={loading}>
+            {loading ? t("common.loading") : t("history.more")}
+          </button>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -1,4 +1,18 @@
+import {
+  apiError,
+  buildPath,
+  routes,
+  type ApiError,
+  type RequestOf,
+  type ResponseOf,
+  type RouteName,
+} from "@khatma/contract";
+
 const TOKEN_KEY = "khatma_token";
+const REFRESH_KEY = "khatma_refresh";
+// Fired when the server no longer accepts this device's session (expired, revoked
+// or signed out elsewhere), so the app can return to the login screen.
+export const SESSION_ENDED_EVENT = "khatma:session-ended";
 const rawBase =
   (typeof import.meta.env.VITE_API_URL === "string" && import.meta.env.VITE_API_URL.trim()) ||
   (typeof window !== "undefined" ? `${window.location.protocol}//${window.location.hostname}:8080` : "http://localhost:8080");
@@ -24,7 +38,62 @@ export function setSessionToken(token: string | null) {
   }
 }
 
-export async function authed(path: string, init?: RequestInit) {
+function getRefreshToken(): string | null {
+  try {
+    return localStorage.getItem(REFRESH_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setRefreshToken(token: string | null) {
+  try {
+    if (!token) {
+      localStorage.removeItem(REFRESH_KEY);
+    } else {
+      localStorage.setItem(REFRESH_KEY, token);
+    }
+  } catch {
+    /* ignore */
+  }
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trades the refresh token for a new access token. Each refresh token works once,
+// so concurrent callers share a single request. Network failures are rethrown,
+// leaving the session in place for when the connection is back.
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) return false;
+      const resp = await fetch(`${API_BASE}/api/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+      // Another tab renewed first with the same token and saved the new pair.
+      if (resp.status === 409) return getRefreshToken() !== refreshToken;
+      if (!resp.ok) {
+        if (resp.status === 401) {
+          clearSession();
+          window.dispatchEvent(new Event(SESSION_ENDED_EVENT));
+        }
+        return false;
+      }
+      const data: ResponseOf<"refreshSession"> = await resp.json();
+      setSessionToken(data.token);
+      setRefreshToken(data.refreshToken);
+      return true;
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+function send(path: string, init?: RequestInit) {
   const token = getSessionToken();
   const headers = {
     "Content-Type": "application/json",
@@ -37,10 +106,77 @@ export async function authed(path: string, init?: RequestInit) {
   });
 }
 
+// Access tokens are short-lived; on a 401 this renews once and repeats the request.
+async function authed(path: string, init?: RequestInit) {
+  const resp = await send(path, init);
+  if (resp.status !== 401 || !(await refreshSession())) return resp;
+  return send(path, init);
+}
+
+// A failed call carries the server's error body; one that is missing or unreadable
+// (a proxy's HTML page, say) becomes UNEXPECTED_RESPONSE. Network failures still throw.
+export type ApiResult<T> = { ok: true; status: number; data: T } | { ok: false; status: number; error: ApiError };
+
+// The arguments can be left out altogether when a route needs none of them.
+type RouteArgs<R extends RouteName> = object extends RequestOf<R> ? [args?: RequestOf<R>] : [args: RequestOf<R>];
+
+function call<R extends RouteName>(name: R, args: unknown) {
+  const route = routes[name];
+  const { params, query, body } = (args ?? {}) as {
+    params?: Record<string, string | number>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+  };
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+  }
+  const qs = search.toString();
+  const path = buildPath(route.path, params) + (qs ? `?${qs}` : "");
+  return authed(path, { method: route.method, body: body === undefined ? undefined : JSON.stringify(body) });
+}
+
+async function failure(resp: Response): Promise<{ ok: false; status: number; error: ApiError }> {
+  const parsed = apiError.safeParse(await resp.json().catch(() => null));
+  return { ok: false, status: resp.status, error: parsed.success ? parsed.data : { error: "UNEXPECTED_RESPONSE" } };
+}
+
+// Calls one route of the shared contract, with its path, query and body checked
+// against it at compile time.
+export async function request<R extends RouteName>(
+  name: R,
+  ...[args]: RouteArgs<R>
+): Promise<ApiResult<ResponseOf<R>>> {
+  const resp = await call(name, args);
+  if (!resp.ok) return failure(resp);
+  return { ok: true, status: resp.status, data: await resp.json() };
+}
+
+// For routes that answer with a file, such as the roster export.
+export async function download<R extends RouteName>(name: R, ...[args]: RouteArgs<R>): Promise<ApiResult<Blob>> {
+  const resp = await call(name, args);
+  if (!resp.ok) return failure(resp);
+  return { ok: true, status: resp.status, data: await resp.blob() };
+}
+
+// Ends this device's session on the server too, then forgets it locally.
+export async function endSession() {
+  const refreshToken = getRefreshToken();
+  clearSession();
+  if (!refreshToken) return;
+  await fetch(`${API_BASE}/api/auth/logout`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+}
+
 export function clearSession() {
   setSessionToken(null);
+  setRefreshToken(null);
   try {
     localStorage.removeItem("khatma_myDbUserId");
+    // Written by versions that still had a site-wide admin flag.
     localStorage.removeItem("khatma_isAdmin");
   } catch {
     /* ignore */
@@ -0,0 +1,39 @@
+import { HIJRI_CALENDAR, hijriInstant, type Group } from "@khatma/contract";
+import { formatDate, t } from "./i18n";
+
+const HIJRI_FORMAT: Intl.DateTimeFormatOptions = {
+  calendar: HIJRI_CALENDAR,
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+};
+
+function dayRange(first: Date, last: Date, options: Intl.DateTimeFormatOptions): string {
+  const from = formatDate(first, options);
+  const to = formatDate(last, options);
+  return from === to ? to : `${from} – ${to}`;
+}
+
+// A cycle's days in both calendars, e.g. "18 – 24 February · 1 – 7 Ramadan 1447 AH".
+export function formatCycleRange(
+  startsAt: string,
+  endsAt: string,
+  hijriOffset: number,
+  options: Intl.DateTimeFormatOptions,
+): string {
+  const firstDay = new Date(startsAt);
+  // endsAt is exclusive; show the last day the cycle actually covers.
+  const lastDay = new Date(new Date(endsAt).getTime() - 1);
+  const gregorian = dayRange(firstDay, lastDay, options);
+  const hijri = dayRange(hijriInstant(firstDay, hijriOffset), hijriInstant(lastDay, hijriOffset), HIJRI_FORMAT);
+  return `${gregorian} · ${hijri}`;
+}
+
+export function describeCycle(group: Pick<Group, "cycleUnit" | "cycleDays" | "hijriOffset">): string {
+  const cycle =
+    group.cycleUnit === "day"
+      ? t("cycle.every", { count: group.cycleDays })
+      : t(group.cycleUnit === "week" ? "cycle.weekly" : "cycle.monthly");
+  if (!group.hijriOffset) return cycle;
+  return t("cycle.withOffset", { cycle, offset: group.hijriOffset > 0 ? `+${group.hijriOffset}` : group.hijriOffset });
+}
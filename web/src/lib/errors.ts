@@ -0,0 +1,25 @@
+import type { ApiError, ErrorCode } from "@khatma/contract";
+import { formatDate, t } from "./i18n";
+import { describeRateLimit, formatWait } from "./wait";
+
+const OPENING_FORMAT: Intl.DateTimeFormatOptions = { weekday: "long", hour: "numeric", minute: "2-digit" };
+
+// Codes whose message can say more when the error carries details (a wait, a limit, a
+// time). Null falls back to the code's plain message.
+const DETAILED_MESSAGES: Partial<Record<ErrorCode, (error: ApiError) => string | null>> = {
+  OTP_TOO_SOON: ({ retryAfter }) => (retryAfter ? t("errors.OTP_TOO_SOON.wait", { wait: formatWait(retryAfter) }) : null),
+  RATE_LIMITED: ({ retryAfter }) => describeRateLimit(retryAfter),
+  TEXT_TOO_LONG: ({ limit }) => (limit ? t("errors.TEXT_TOO_LONG.limit", { limit }) : null),
+  CLAIM_LIMIT_REACHED: ({ limit }) => (limit ? t("errors.CLAIM_LIMIT_REACHED.limit", { limit }) : null),
+  FIRST_CLAIM_WINDOW: ({ opensAt }) =>
+    opensAt ? t("errors.FIRST_CLAIM_WINDOW.opensAt", { opensAt: formatDate(opensAt, OPENING_FORMAT) }) : null,
+};
+
+// The message for a failed request. Codes that only say "something went wrong" give
+// way to the caller's fallback, which knows what was being attempted. Every code in
+// the contract has an `errors.` key in the catalogs, so a code added on the server
+// does not type-check here until it has a message.
+export function describeError(error: ApiError, fallback?: string): string {
+  if (fallback && (error.error === "UNEXPECTED_RESPONSE" || error.error.endsWith("_FAILED"))) return fallback;
+  return DETAILED_MESSAGES[error.error]?.(error) ?? t(`errors.${error.error}`);
+}
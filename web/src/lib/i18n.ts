@@ -0,0 +1,99 @@
+import React from "react";
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  LOCALES,
+  localeDirection,
+  matchLocale,
+  type Locale,
+  type Message,
+  type MessageParams,
+} from "@khatma/contract";
+import ar, { type Catalog, type MessageKey } from "../locales/ar";
+import en from "../locales/en";
+import id from "../locales/id";
+import tr from "../locales/tr";
+import ur from "../locales/ur";
+
+export { LOCALES, type Locale, type MessageKey };
+
+const CATALOGS: Record<Locale, Catalog> = { ar, en, tr, ur, id };
+
+// Each language named in itself, for the picker.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ar: "العربية",
+  en: "English",
+  tr: "Türkçe",
+  ur: "اردو",
+  id: "Bahasa Indonesia",
+};
+
+const LOCALE_KEY = "khatma_locale";
+
+function isLocale(value: string | null): value is Locale {
+  return LOCALES.some((locale) => locale === value);
+}
+
+// The language chosen on this device, else the browser's first supported one.
+function initialLocale(): Locale {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  return matchLocale(navigator.languages ?? [navigator.language]) ?? DEFAULT_LOCALE;
+}
+
+let current = initialLocale();
+const listeners = new Set<() => void>();
+
+function applyToDocument(locale: Locale) {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = localeDirection(locale);
+}
+
+applyToDocument(current);
+
+export function getLocale(): Locale {
+  return current;
+}
+
+export function setLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+  if (locale === current) return;
+  current = locale;
+  applyToDocument(locale);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Re-renders the caller when the language changes. App uses it, so a switch redraws
+// the whole tree; components only need it to rebuild memoized text.
+export function useLocale(): Locale {
+  return React.useSyncExternalStore(subscribe, getLocale);
+}
+
+export function t(key: MessageKey, params?: MessageParams): string {
+  const message: Message = CATALOGS[current][key] ?? ar[key];
+  return formatMessage(current, message, params);
+}
+
+export function joinList(items: readonly (string | number)[]): string {
+  return items.join(t("common.listSeparator"));
+}
+
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Dates and times in the current language, reusing one formatter per set of options.
+export function formatDate(value: Date | string | number, options: Intl.DateTimeFormatOptions): string {
+  const cacheKey = `${current}:${JSON.stringify(options)}`;
+  let formatter = dateFormatters.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(current, options);
+    dateFormatters.set(cacheKey, formatter);
+  }
+  return formatter.format(new Date(value));
+}
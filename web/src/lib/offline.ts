@@ -0,0 +1,141 @@
+import type { BodyInput, ErrorCode } from "@khatma/contract";
+import { request } from "./api";
+
+// IndexedDB keeps two things for flaky connections: the last week each group's
+// board showed, and the claim/release/complete actions taken while offline.
+const DB_NAME = "khatma-offline";
+const DB_VERSION = 1;
+const WEEKS_STORE = "weeks";
+const QUEUE_STORE = "queue";
+
+export type QueuedKind = "claim" | "release" | "complete";
+
+export interface QueuedAction {
+  id?: number;
+  kind: QueuedKind;
+  groupId: string;
+  weekId: string;
+  number: number;
+  body?: BodyInput<"claimPart"> & BodyInput<"completePart">;
+  queuedAt: number;
+}
+
+export interface ReplayConflict {
+  action: QueuedAction;
+  error: ErrorCode;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WEEKS_STORE)) db.createObjectStore(WEEKS_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// fetch rejects (rather than resolving with a status) only when the request never got an answer.
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+}
+
+export async function saveWeekSnapshot(groupId: string, week: unknown): Promise<void> {
+  try {
+    await run(WEEKS_STORE, "readwrite", (s) => s.put({ week, savedAt: Date.now() }, groupId));
+  } catch (error) {
+    console.warn("could not cache week", error);
+  }
+}
+
+export async function loadWeekSnapshot<T>(groupId: string): Promise<{ week: T; savedAt: number } | null> {
+  try {
+    return (await run(WEEKS_STORE, "readonly", (s) => s.get(groupId))) ?? null;
+  } catch (error) {
+    console.warn("could not read cached week", error);
+    return null;
+  }
+}
+
+export async function enqueueAction(action: Omit<QueuedAction, "id" | "queuedAt">): Promise<void> {
+  await run(QUEUE_STORE, "readwrite", (s) => s.add({ ...action, queuedAt: Date.now() }));
+}
+
+export async function listQueuedActions(): Promise<QueuedAction[]> {
+  return run(QUEUE_STORE, "readonly", (s) => s.getAll() as IDBRequest<QueuedAction[]>);
+}
+
+async function removeQueuedAction(id: number): Promise<void> {
+  await run(QUEUE_STORE, "readwrite", (s) => s.delete(id));
+}
+
+export async function clearOfflineData(): Promise<void> {
+  try {
+    await run(QUEUE_STORE, "readwrite", (s) => s.clear());
+    await run(WEEKS_STORE, "readwrite", (s) => s.clear());
+  } catch (error) {
+    console.warn("could not clear offline data", error);
+  }
+}
+
+// Each kind of part action goes out through its own route.
+export function sendPartAction({ kind, weekId, number, body }: Omit<QueuedAction, "id" | "groupId" | "queuedAt">) {
+  const params = { weekId, number };
+  if (kind === "claim") return request("claimPart", { params, body: { profile: body?.profile } });
+  if (kind === "complete") return request("completePart", { params, body: { completed: body?.completed } });
+  return request("releasePart", { params });
+}
+
+let replaying: Promise<ReplayConflict[]> | null = null;
+
+// Sends queued actions in the order they were taken. Stops at the first network
+// failure so the rest wait for the next attempt; actions the server refuses are
+// dropped and returned so the caller can explain why.
+export function replayQueue(): Promise<ReplayConflict[]> {
+  if (!replaying) {
+    replaying = (async () => {
+      const conflicts: ReplayConflict[] = [];
+      for (const action of await listQueuedActions()) {
+        let result: Awaited<ReturnType<typeof sendPartAction>>;
+        try {
+          result = await sendPartAction(action);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          throw error;
+        }
+        // Signed out, rate limited or server trouble: keep the action for a later attempt.
+        if (result.status === 401 || result.status === 429 || result.status >= 500) break;
+        if (!result.ok) conflicts.push({ action, error: result.error.error });
+        await removeQueuedAction(action.id!);
+      }
+      return conflicts;
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
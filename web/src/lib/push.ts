@@ -0,0 +1,47 @@
+import type { BodyInput } from "@khatma/contract";
+import { request } from "./api";
+
+export function pushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i += 1) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+export async function currentPushSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+export async function enablePush(): Promise<void> {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("PERMISSION_DENIED");
+
+  const key = await request("pushPublicKey");
+  if (!key.ok) throw new Error("PUSH_DISABLED");
+  const { publicKey } = key.data;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    }));
+  // The browser's own shape; the server turns away one that lacks its keys.
+  const result = await request("subscribePush", { body: subscription.toJSON() as BodyInput<"subscribePush"> });
+  if (!result.ok) throw new Error(`subscribe failed (${result.status})`);
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await currentPushSubscription();
+  if (!subscription) return;
+  await request("unsubscribePush", { body: { endpoint: subscription.endpoint } }).catch(() => null);
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,35 @@
+import {
+  unitEnd as unitEndIn,
+  unitLabelMessage,
+  unitStart as unitStartIn,
+  type Division,
+  type UnitStart,
+} from "@khatma/contract";
+import { getLocale, t } from "./i18n";
+
+// The mushaf tables and unit math live in the contract; this adds the app's wording
+// and the current language.
+export { DIVISIONS, juzOfUnit, SURAH_NAMES, unitCount, type Division, type UnitStart } from "@khatma/contract";
+
+// The definite noun for one unit or several, as used in labels and messages.
+export function unitNoun(division: Division, count: number): string {
+  return t(`quran.units.${division}`, { count });
+}
+
+export function unitLabel(division: Division, number: number): string {
+  const { key, params } = unitLabelMessage(division, number);
+  return t(`quran.unit.${key}`, params);
+}
+
+export function unitStart(division: Division, number: number): UnitStart {
+  return unitStartIn(division, number, getLocale());
+}
+
+// The start of the following unit, where this one stops; null for the last unit.
+export function unitEnd(division: Division, number: number): UnitStart | null {
+  return unitEndIn(division, number, getLocale());
+}
+
+export function describeStart(start: UnitStart): string {
+  return t("quran.surahStart", { surah: start.surahName, ayah: start.ayah });
+}
@@ -0,0 +1,46 @@
+import { type Division, juzOfUnit, unitEnd, unitStart } from "./quran";
+
+// The reader's text ships with the app under /quran (one file per juz) and is
+// precached by the service worker, so a claimed part can be read offline.
+
+// [surah, ayah, mushaf page, text]
+export type Ayah = readonly [number, number, number, string];
+
+const juzCache = new Map<number, Promise<Ayah[]>>();
+
+function loadJuz(juz: number): Promise<Ayah[]> {
+  let pending = juzCache.get(juz);
+  if (!pending) {
+    pending = fetch(`/quran/juz-${String(juz).padStart(2, "0")}.json`)
+      .then((resp) => (resp.ok ? resp.json() : Promise.reject(new Error(`juz ${juz} failed (${resp.status})`))))
+      .then((data: { ayahs: Ayah[] }) => data.ayahs);
+    pending.catch(() => juzCache.delete(juz));
+    juzCache.set(juz, pending);
+  }
+  return pending;
+}
+
+function compare(ayah: Ayah, surah: number, number: number): number {
+  return ayah[0] - surah || ayah[1] - number;
+}
+
+// Every unit lies inside a single juz, so one file always covers it.
+export async function loadUnitAyahs(division: Division, number: number): Promise<Ayah[]> {
+  const ayahs = await loadJuz(juzOfUnit(division, number));
+  const start = unitStart(division, number);
+  const end = unitEnd(division, number);
+  return ayahs.filter(
+    (ayah) => compare(ayah, start.surah, start.ayah) >= 0 && (!end || compare(ayah, end.surah, end.ayah) < 0),
+  );
+}
+
+// Consecutive ayahs grouped by the mushaf page they are printed on.
+export function groupByPage(ayahs: Ayah[]): { page: number; ayahs: Ayah[] }[] {
+  const pages: { page: number; ayahs: Ayah[] }[] = [];
+  for (const ayah of ayahs) {
+    const last = pages[pages.length - 1];
+    if (last && last.page === ayah[2]) last.ayahs.push(ayah);
+    else pages.push({ page: ayah[2], ayahs: [ayah] });
+  }
+  return pages;
+}
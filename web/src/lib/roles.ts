@@ -0,0 +1,15 @@
+import type { Permission, Role } from "@khatma/contract";
+import { t } from "./i18n";
+
+// The roles come from the shared contract. What each role may do is decided on the
+// server and sent with every group as `permissions`, so the client never keeps its own table.
+export { ROLES, type Permission, type Role } from "@khatma/contract";
+
+export function roleLabel(role: Role): string {
+  return t(`roles.${role}`);
+}
+
+// Groups cached before roles existed have no permissions yet; they count as none.
+export function can(group: { permissions?: readonly Permission[] } | null | undefined, permission: Permission): boolean {
+  return Boolean(group?.permissions?.includes(permission));
+}
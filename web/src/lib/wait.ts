@@ -0,0 +1,13 @@
+import { t } from "./i18n";
+
+// How long a rate-limited member has to wait, from the server's retryAfter seconds.
+export function formatWait(seconds: number): string {
+  if (seconds < 60) return t("wait.seconds", { count: Math.max(1, Math.ceil(seconds)) });
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return t("wait.minutes", { count: minutes });
+  return t("wait.hours", { count: Math.ceil(minutes / 60) });
+}
+
+export function describeRateLimit(retryAfter: number | null | undefined): string {
+  return retryAfter ? t("wait.rateLimited", { wait: formatWait(retryAfter) }) : t("errors.RATE_LIMITED");
+}
@@ -0,0 +1,483 @@
+import type { Message } from "@khatma/contract";
+
+// The Arabic catalog defines the keys; every other language has to fill them all.
+// Keys are grouped by the component or module that shows them.
+const ar = {
+  "app.profileSyncFailed": "تعذر مزامنة الملف الشخصي",
+  "app.resetConfirm": "هل تريد إعادة تعيين أجزاء هذا الأسبوع؟",
+  "app.resetFailed": "تعذر إعادة التعيين الآن. حاول مرة أخرى.",
+  "app.anonymous": "مستخدم مجهول",
+
+  "common.save": "حفظ",
+  "common.saving": "جارٍ الحفظ...",
+  "common.edit": "تعديل",
+  "common.close": "إغلاق",
+  "common.listSeparator": "، ",
+  "common.loading": "جارٍ التحميل...",
+  "common.participant": "مشارك",
+  "common.member": "عضو",
+
+  "wait.seconds": { one: "ثانية", two: "ثانيتين", few: "{count} ثوانٍ", other: "{count} ثانية" },
+  "wait.minutes": { one: "دقيقة", two: "دقيقتين", few: "{count} دقائق", other: "{count} دقيقة" },
+  "wait.hours": { one: "ساعة", two: "ساعتين", few: "{count} ساعات", other: "{count} ساعة" },
+  "wait.rateLimited": "طلبات كثيرة في وقت قصير. حاول مجدداً بعد {wait}.",
+
+  "roles.owner": "مالك",
+  "roles.moderator": "مشرف",
+  "roles.member": "عضو",
+
+  "quran.unit.juz": "الجزء {ordinal}",
+  "quran.unit.hizb.first": "الحزب {number} (النصف الأول من الجزء {juz})",
+  "quran.unit.hizb.second": "الحزب {number} (النصف الثاني من الجزء {juz})",
+  "quran.unit.rub": "الربع {ordinal} من الحزب {hizb}",
+  "quran.units.juz": { one: "الجزء", other: "الأجزاء" },
+  "quran.units.hizb": { one: "الحزب", other: "الأحزاب" },
+  "quran.units.rub": { one: "الربع", other: "الأرباع" },
+  "quran.surahStart": "سورة {surah}، الآية {ayah}",
+
+  "header.sync.reconnecting": "انقطع الاتصال، جارٍ إعادة المحاولة…",
+  "header.sync.catching-up": "جارٍ تحديث اللوحة…",
+  "header.sync.offline": "غير متصل، تُعرض آخر نسخة محفوظة",
+  "header.view.board": "الأسبوع الحالي",
+  "header.view.history": "الأسابيع السابقة",
+  "header.view.stats": "إحصائياتي",
+  "header.view.devices": "أجهزتي",
+  "header.brand": "ختمة",
+  "header.group": "الحلقة",
+  "header.addGroup": "الانضمام إلى حلقة أخرى",
+  "header.sections": "الأقسام",
+  "header.language": "اللغة",
+  "header.resetting": "جارٍ إعادة الضبط...",
+  "header.reset": "إعادة ضبط الأسبوع",
+  "header.logout": "تسجيل الخروج",
+
+  "push.denied": "لم يُسمح بالتنبيهات. يمكنك تفعيلها من إعدادات المتصفح.",
+  "push.failed": "تعذر تحديث إعدادات التنبيهات.",
+  "push.disableHint": "إيقاف التنبيهات على هذا الجهاز",
+  "push.enableHint": "تفعيل التنبيهات على هذا الجهاز",
+  "push.enabled": "🔔 التنبيهات مفعّلة",
+  "push.enable": "🔕 تفعيل التنبيهات",
+
+  "login.sendFailed": "تعذر إرسال رمز التحقق. حاول مرة أخرى.",
+  "login.nameRequired": "يرجى إدخال الاسم الكامل.",
+  "login.phoneInvalid": "يرجى إدخال رقم جوال بصيغة دولية صحيحة (مثال: ‎+963123456789).",
+  "login.codeInvalid": "أدخل الرمز المكوّن من 6 أرقام.",
+  "login.failed": "حدث خطأ أثناء تسجيل الدخول. يرجى المحاولة مجدداً.",
+  "login.welcome": "أهلاً بك في ختمة ملتقى المحبين",
+  "login.intro": "شارك في ختمة أسبوعية، واحجز الجزء الذي تريد قراءته مع المجموعة.",
+  "login.codeSent": "أرسلنا رمز تحقق إلى",
+  "login.code": "رمز التحقق",
+  "login.verifying": "جارٍ التحقق...",
+  "login.verify": "تأكيد الدخول",
+  "login.resendIn": "إعادة الإرسال بعد {seconds} ث",
+  "login.resend": "إعادة إرسال الرمز",
+  "login.changePhone": "تغيير الرقم",
+  "login.name": "الاسم الكامل",
+  "login.namePlaceholder": "ادخل اسمك الكامل",
+  "login.phone": "رقم الجوال (بصيغة دولية)",
+  "login.sending": "جارٍ الإرسال...",
+  "login.send": "إرسال رمز التحقق",
+  "login.savedHint": "يتم حفظ مشاركتك تلقائياً، ويمكنك العودة في أي وقت لإكمال الختمة.",
+
+  "joinGroup.inviteRequired": "يرجى إدخال رمز الدعوة.",
+  "joinGroup.joinFailed": "تعذر الانضمام إلى المجموعة.",
+  "joinGroup.nameRequired": "يرجى إدخال اسم المجموعة.",
+  "joinGroup.createFailed": "تعذر إنشاء المجموعة.",
+  "joinGroup.title": "الانضمام إلى حلقة ختمة",
+  "joinGroup.subtitle": "اطلب رمز الدعوة من مشرف الحلقة، أو أنشئ حلقة جديدة.",
+  "joinGroup.inviteCode": "رمز الدعوة",
+  "joinGroup.join": "انضمام",
+  "joinGroup.or": "أو",
+  "joinGroup.newName": "اسم الحلقة الجديدة",
+  "joinGroup.namePlaceholder": "مثال: حلقة الشباب",
+  "joinGroup.create": "إنشاء حلقة",
+  "joinGroup.back": "رجوع",
+
+  "division.juz": "بالأجزاء",
+  "division.hizb": "بالأحزاب",
+  "division.rub": "بأرباع الأحزاب",
+  "division.failed": "تعذر تغيير طريقة التقسيم.",
+  "division.label": "تقسيم الختمة",
+  "division.locked": "بدأ الحجز، فلا يمكن تغيير التقسيم هذا الأسبوع.",
+  "division.hint": "تتبع الأسابيع القادمة آخر تقسيم مختار. التقسيم الحالي: {count} من {units}.",
+
+  "cycle.every": { zero: "ختمة جديدة كل يوم", one: "ختمة جديدة كل يوم", two: "ختمة جديدة كل يومين", few: "ختمة جديدة كل {count} أيام", many: "ختمة جديدة كل {count} يوماً", other: "ختمة جديدة كل {count} يوم" },
+  "cycle.weekly": "ختمة جديدة كل أسبوع",
+  "cycle.monthly": "ختمة جديدة كل شهر هجري",
+  "cycle.withOffset": "{cycle} (تعديل التاريخ الهجري: {offset})",
+  "cycle.unitLabel": "الختمة الجديدة",
+  "cycle.unit.day": "كل عدد من الأيام",
+  "cycle.unit.week": "كل أسبوع",
+  "cycle.unit.month": "كل شهر هجري",
+  "cycle.daysLabel": "عدد أيام الختمة",
+  "cycle.daysInvalid": "عدد الأيام يجب أن يكون رقماً صحيحاً من 1 إلى {max}.",
+  "cycle.offsetLabel": "تعديل التاريخ الهجري (أيام)",
+  "cycle.hint": "يسري التغيير من الختمة القادمة؛ تحتفظ الختمة الحالية بمواعيدها.",
+  "cycle.failed": "تعذر حفظ مدة الختمة.",
+
+  "claimRules.hoursInvalid": "عدد الساعات يجب أن يكون رقماً صحيحاً موجباً.",
+  "claimRules.failed": "تعذر حفظ موعد التسليم.",
+  "claimRules.deadline": "آخر موعد للقراءة: {deadline}",
+  "claimRules.noDeadline": "لا يوجد موعد نهائي للقراءة",
+  "claimRules.deadlineLabel": "الموعد النهائي",
+  "claimRules.holdHours": "مهلة القراءة بعد الحجز (بالساعات)",
+  "claimRules.overdue": "عند التأخر",
+  "claimRules.flag": "تمييز الجزء كمتأخر",
+  "claimRules.release": "إلغاء الحجز تلقائياً",
+
+  "claimPolicy.maxParts": "حتى {count} لكل مشارك",
+  "claimPolicy.firstHours": { other: "حصة واحدة لكل مشارك في أول {count} ساعة من الأسبوع" },
+  "claimPolicy.summary": "حدود الحجز: {rules}",
+  "claimPolicy.summaryExempt": "حدود الحجز: {rules} (لا تشمل المشرفين)",
+  "claimPolicy.invalid": "يجب أن تكون القيم أرقاماً صحيحة موجبة.",
+  "claimPolicy.failed": "تعذر حفظ حدود الحجز.",
+  "claimPolicy.none": "لا توجد حدود للحجز",
+  "claimPolicy.maxPartsLabel": "أقصى عدد يحجزه المشارك الواحد",
+  "claimPolicy.noLimit": "بلا حد",
+  "claimPolicy.firstHoursLabel": "حصة واحدة فقط لكل مشارك في أول (ساعة) من الأسبوع",
+  "claimPolicy.noRestriction": "بلا قيد",
+  "claimPolicy.adminsExempt": "استثناء المشرفين من هذه الحدود",
+
+  "weekDetails.failed": "تعذر حفظ بيانات الختمة.",
+  "weekDetails.summary": "عنوان الختمة وإهداؤها ودعاء الختم",
+  "weekDetails.summaryNoDua": "عنوان الختمة وإهداؤها (لا يوجد دعاء ختم)",
+  "weekDetails.title": "عنوان الختمة",
+  "weekDetails.titlePlaceholder": "مثلاً: ختمة رمضان",
+  "weekDetails.dedication": "الإهداء",
+  "weekDetails.dedicationPlaceholder": "مثلاً: على روح الوالد رحمه الله",
+  "weekDetails.closingDua": "دعاء ختم القرآن",
+  "weekDetails.closingDuaPlaceholder": "يظهر للجميع عند اكتمال الختمة",
+
+  "intention.notOwner": "لم يعد {label} محجوزاً لك.",
+  "intention.failed": "تعذر حفظ النية.",
+  "intention.dialog": "نية {label}",
+  "intention.heading": "نيتي في {label}",
+  "intention.placeholder": "مثلاً: لشفاء أخي",
+  "intention.public": "إظهارها للمشاركين في القائمة",
+
+  "swaps.failed": "تعذر تنفيذ الطلب.",
+  "swaps.title": "عروض التبادل",
+  "swaps.incoming": "{from} يعرض {offer} مقابل {want}",
+  "swaps.outgoing": "عرضت {offer} على {to} مقابل {want}",
+  "swaps.accept": "قبول",
+  "swaps.decline": "رفض",
+  "swaps.withdraw": "سحب العرض",
+
+  "stats.failed": "تعذر تحميل الإحصائيات.",
+  "stats.title": "إحصائياتي",
+  "stats.allGroups": "كل الحلقات (وليس {group} فقط)",
+  "stats.partsRead": { other: "حصة مقروءة" },
+  "stats.weeksAttended": { other: "أسبوع مشاركة" },
+  "stats.streak": { other: "أسابيع متتالية حتى الآن" },
+  "stats.mostReadJuz": { other: "الجزء الأكثر قراءة ({count} مرات)" },
+  "stats.noJuzRead": "لا يوجد جزء مقروء بعد",
+
+  "devices.unknown": "جهاز غير معروف",
+  "devices.browser": "متصفح",
+  "devices.browserOn": "{browser} على {system}",
+  "devices.loadFailed": "تعذر تحميل قائمة الأجهزة.",
+  "devices.revokeFailed": "تعذر تسجيل الخروج من الجهاز.",
+  "devices.title": "أجهزتي",
+  "devices.hint": "الأجهزة المسجَّل دخولك منها. إن لم تعرف أحدها فسجّل خروجه.",
+  "devices.current": "هذا الجهاز",
+  "devices.lastUsed": "آخر استخدام {time}",
+  "devices.revokeConfirm": "تسجيل الخروج من هذا الجهاز؟",
+  "devices.revoke": "تسجيل الخروج",
+  "devices.revokeOthersConfirm": "تسجيل الخروج من كل الأجهزة الأخرى؟",
+  "devices.revokeOthers": "تسجيل الخروج من كل الأجهزة الأخرى",
+
+  "report.failed": "تعذر تحميل التقرير.",
+  "report.title": "تقرير المشاركة",
+  "report.from": "من",
+  "report.to": "إلى",
+  "report.show": "عرض",
+  "report.weeks": { other: "{count} أسبوعاً" },
+  "report.completed": "تمّت الختمة في {count}",
+  "report.partsRead": { other: "{count} حصة مقروءة" },
+  "report.member": "العضو",
+  "report.partsReadColumn": "حصص مقروءة",
+  "report.weeksColumn": "أسابيع المشاركة",
+  "report.guest": "{name} (بالنيابة)",
+
+  "history.failed": "تعذر تحميل الأسابيع السابقة.",
+  "history.back": "→ العودة إلى قائمة الأسابيع",
+  "history.title": "الأسابيع السابقة",
+  "history.empty": "لا توجد أسابيع بعد.",
+  "history.current": "الأسبوع الحالي",
+  "history.completed": "✓ تمّت الختمة",
+  "history.counts": "قُرئ {read}/{total} · حُجز {claimed}/{total}",
+  "history.more": "تحميل المزيد",
+
+  "roster.failed": "تعذر تجهيز القائمة للمشاركة.",
+  "roster.copied": "تم نسخ القائمة، يمكنك لصقها في المحادثة.",
+  "roster.imageSaved": "تم تنزيل صورة القائمة.",
+  "roster.shareText": "مشاركة كنص",
+  "roster.shareImage": "مشاركة كصورة",
+  "roster.downloadCsv": "تنزيل CSV",
+
+  "reader.dialog": "قراءة {label}",
+  "reader.smaller": "تصغير الخط",
+  "reader.larger": "تكبير الخط",
+  "reader.failed": "تعذر تحميل النص. افتح التطبيق مرة واحدة مع اتصال بالإنترنت ليُحفظ للقراءة دون اتصال.",
+  "reader.previous": "السابقة",
+  "reader.next": "التالية",
+  "reader.page": "صفحة {page} · {index} من {total}",
+  "reader.markDone": "وصلت إلى نهاية {label}، علّمه مقروءاً",
+  "reader.done": "✓ {label} مُعلَّم كمقروء.",
+  "reader.release": "إلغاء الحجز",
+
+  "audit.action.claim": "حجز",
+  "audit.action.release": "إلغاء حجز",
+  "audit.action.force_release": "إلغاء حجز من المشرف",
+  "audit.action.assign": "تعيين من المشرف",
+  "audit.action.expire": "انتهاء مهلة الحجز",
+  "audit.action.reset": "إعادة تعيين الأسبوع",
+  "audit.action.grant_admin": "منح صلاحية المشرف",
+  "audit.action.revoke_admin": "إزالة صلاحية المشرف",
+  "audit.action.set_role": "تغيير دور عضو",
+  "audit.action.revoke_sessions": "تسجيل خروج عضو من أجهزته",
+  "audit.action.set_division": "تغيير طريقة التقسيم",
+  "audit.action.waitlist_assign": "تعيين من قائمة الانتظار",
+  "audit.action.swap": "تبادل بين مشاركين",
+  "audit.division.juz": "الأجزاء",
+  "audit.division.hizb": "الأحزاب",
+  "audit.division.rub": "أرباع الأحزاب",
+  "audit.claim": "حجز {part}",
+  "audit.release": "ألغى حجز {part}",
+  "audit.forceRelease": "ألغى حجز {part} من {holder}",
+  "audit.move": "نقل {part} من {from} إلى {to}",
+  "audit.assign": "عيّن {part} لـ {to}",
+  "audit.expire": "أُلغي حجز {part} من {holder} لانتهاء المهلة",
+  "audit.reset": { other: "أعاد تعيين الأسبوع {week} ({count} جزءاً محجوزاً)" },
+  "audit.grantAdmin": "منح {target} صلاحية المشرف",
+  "audit.revokeAdmin": "أزال صلاحية المشرف من {target}",
+  "audit.revokeSessions": "سجّل خروج {target} من كل أجهزته ({count})",
+  "audit.setRole": "جعل {target} {role}",
+  "audit.newRole": "بدور جديد",
+  "audit.waitlistAssign": "انتقل {part} إلى {to} من قائمة الانتظار",
+  "audit.swap": "انتقل {part} من {from} إلى {to} بالتبادل",
+  "audit.setDivision": "قسّم الأسبوع {week} إلى {division}",
+  "audit.newUnits": "وحدات جديدة",
+  "audit.failed": "تعذر تحميل سجل التغييرات.",
+  "audit.title": "سجل التغييرات",
+  "audit.hide": "إخفاء",
+  "audit.show": "عرض",
+  "audit.allActions": "كل العمليات",
+  "audit.partPlaceholder": "رقم الجزء أو الحزب",
+  "audit.thisWeek": "هذا الأسبوع فقط",
+  "audit.empty": "لا توجد تغييرات مسجلة.",
+  "audit.system": "النظام",
+  "audit.more": "تحميل المزيد",
+
+  "adminMenu.membersFailed": "تعذر تحميل قائمة الأعضاء.",
+  "adminMenu.holder": "المشارك",
+  "adminMenu.notClaimed": "{label} غير محجوز.",
+  "adminMenu.releaseConfirm": "إلغاء حجز {label} من {holder}؟",
+  "adminMenu.releaseFailed": "تعذر إلغاء الحجز.",
+  "adminMenu.moveConfirm": "{label} محجوز لـ {holder}. هل تريد نقله؟",
+  "adminMenu.assignFailed": "تعذر التعيين.",
+  "adminMenu.memberRequired": "اختر أحد الأعضاء.",
+  "adminMenu.guestRequired": "يرجى إدخال اسم القارئ.",
+  "adminMenu.roleConfirm": "تغيير دور {holder} إلى «{role}»؟",
+  "adminMenu.roleFailed": "تعذر تغيير الدور.",
+  "adminMenu.revokeConfirm": "تسجيل خروج {holder} من كل أجهزته؟ سيحتاج إلى رمز تحقق جديد للدخول.",
+  "adminMenu.revokeFailed": "تعذر تسجيل خروج العضو.",
+  "adminMenu.dialog": "إدارة {label}",
+  "adminMenu.claimedBy": "محجوز لـ {holder}",
+  "adminMenu.claimedOnBehalf": "محجوز لـ {holder} (بالنيابة)",
+  "adminMenu.open": "متاح",
+  "adminMenu.release": "إلغاء الحجز",
+  "adminMenu.role": "دور {holder} في المجموعة",
+  "adminMenu.revoke": "تسجيل خروجه من كل الأجهزة",
+  "adminMenu.assignMember": "تعيين لعضو",
+  "adminMenu.chooseMember": "اختر عضواً",
+  "adminMenu.assign": "تعيين",
+  "adminMenu.guest": "حجز باسم شخص بلا حساب",
+  "adminMenu.guestPlaceholder": "اسم القارئ",
+  "adminMenu.assignGuest": "حجز بالنيابة",
+
+  "requestMenu.notOwner": "لم تعد الحصة التي تعرضها محجوزة لك.",
+  "requestMenu.waitlistFailed": "تعذر تحديث قائمة الانتظار.",
+  "requestMenu.left": "خرجت من قائمة الانتظار.",
+  "requestMenu.joined": "انضممت إلى قائمة الانتظار، ترتيبك {position}.",
+  "requestMenu.swapFailed": "تعذر إرسال عرض التبادل.",
+  "requestMenu.swapSent": "أُرسل عرض التبادل إلى {holder}.",
+  "requestMenu.claimedBy": "محجوز لـ {holder}",
+  "requestMenu.leave": "الخروج من قائمة الانتظار",
+  "requestMenu.join": "انتظر حتى يُلغى حجزه وخذه تلقائياً",
+  "requestMenu.offer": "اعرض التبادل بحصة من حصصك",
+  "requestMenu.send": "إرسال العرض",
+
+  "board.remaining.days": "{days}ي {hours}س",
+  "board.remaining.hours": "{hours}س {minutes}د",
+  "board.remaining.minutes": "{minutes}د",
+  "board.refusal.limit": "بلغت الحد الأقصى للحجز هذا الأسبوع ({limit})، فلا يمكنك حجز {label}.",
+  "board.refusal.closed": "انتهى هذا الأسبوع ولم يعد الحجز فيه ممكناً.",
+  "board.refusal.rateLimited": "حجزت عدة حصص في وقت قصير. يمكنك حجز {label} بعد {wait}.",
+  "board.refusal.taken": "{label} محجوز حالياً. اضغط عليه للانتظار حتى يُلغى حجزه أو لعرض تبادل.",
+  "board.claimFailed": "تعذر الحجز. حاول مرة أخرى.",
+  "board.conflict.taken": "تعذر حجز {part}: سبقك إليه مشارك آخر قبل عودة اتصالك.",
+  "board.conflict.notOwner": "لم يعد {part} محجوزاً لك، فلم يُطبَّق طلبك عليه.",
+  "board.conflict.notMember": "لم تعد عضواً في هذه الحلقة، فلم يُرسَل طلبك على {part}.",
+  "board.conflict.closed": "انتهى الأسبوع قبل عودة اتصالك، فلم يُطبَّق طلبك على {part}.",
+  "board.conflict.limit": "تعذر حجز {part}: بلغت حد الحجز المسموح لكل مشارك.",
+  "board.conflict.failed": "تعذر تنفيذ طلبك على {part} بعد عودة الاتصال.",
+  "board.notice.expired": "انتهت مهلة قراءة {label} فأُلغي حجزك له.",
+  "board.notice.assigned": "عيّنك المشرف لقراءة {label}.",
+  "board.notice.waitlist": "جاء دورك في قائمة الانتظار: أصبح {label} محجوزاً لك.",
+  "board.notice.swap": "وصلك عرض تبادل جديد، تجده أعلى القائمة.",
+  "board.loadArchivedFailed": "تعذر تحميل بيانات هذا الأسبوع.",
+  "board.loadFailed": "تعذر تحميل بيانات الأسبوع الحالي.",
+  "board.queued": "لا يوجد اتصال بالإنترنت. سيُرسَل طلبك تلقائياً عند عودة الاتصال.",
+  "board.completeConfirm": "هل أتممت قراءة {label}؟",
+  "board.completeFailed": "تعذر تحديث حالة القراءة.",
+  "board.signInFirst": "يرجى تسجيل الدخول أولاً.",
+  "board.releaseConfirm": "{label} مُعلَّم كمقروء. هل تريد إلغاء حجزه؟",
+  "board.releaseFailed": "تعذر إلغاء الحجز الآن.",
+  "board.inviteCode": "رمز الدعوة",
+  "board.progress": "تم الحجز: {claimed}/{total} · تمت القراءة: {read}/{total}",
+  "board.week": "أسبوع: {key}",
+  "board.legend.open": "متاح",
+  "board.legend.mine": "محجوز لك",
+  "board.legend.others": "محجوز للآخرين",
+  "board.legend.read": "تمت القراءة",
+  "board.closed": "انتهى هذا الأسبوع، وتُعرض قائمته للاطلاع فقط.",
+  "board.completed": "تمّت الختمة بحمد الله، تقبّل الله منا ومنكم.",
+  "board.you": "أنت",
+  "board.state.queued": "بانتظار عودة الاتصال",
+  "board.state.waiting": "أنت في قائمة انتظاره",
+  "board.state.open": "متاح",
+  "board.state.mine": "محجوز لك، اضغط للقراءة",
+  "board.state.claimedBy": "محجوز بواسطة {name}",
+  "board.state.claimed": "محجوز",
+  "board.cellTitle": "{label}، من {start} — {state}",
+  "board.overdue": "متأخر",
+  "board.markRead": "تمت القراءة؟",
+  "board.markReadShort": "قُرئ؟",
+  "board.read": "✓ قُرئ",
+  "board.manage": "إدارة {label}",
+  "board.listTitle": "قائمة المشاركين حسب {units}",
+  "board.open": "متاح",
+  "board.readNow": "اقرأ",
+  "board.editIntention": "تعديل النية",
+  "board.addIntention": "أضف نية",
+  "board.privateIntention": " (خاصة بك)",
+
+  "errors.BAD_REQUEST": "الطلب غير صالح.",
+  "errors.INVALID_BODY": "بعض البيانات المُرسلة غير صالحة.",
+  "errors.INVALID_QUERY": "معايير البحث غير صالحة.",
+  "errors.INVALID_PARAMS": "الرابط يشير إلى عنصر غير صالح.",
+
+  "errors.NO_TOKEN": "يرجى تسجيل الدخول أولاً.",
+  "errors.BAD_TOKEN": "انتهت الجلسة. يرجى تسجيل الدخول مجدداً.",
+  "errors.SESSION_CHECK_FAILED": "تعذر التحقق من الجلسة. حاول مرة أخرى.",
+  "errors.PHONE_REQUIRED": "يرجى إدخال رقم الجوال.",
+  "errors.NAME_PHONE_AND_CODE_REQUIRED": "يرجى إدخال الاسم ورقم الجوال ورمز التحقق.",
+  "errors.OTP_INVALID": "رمز التحقق غير صحيح.",
+  "errors.OTP_EXPIRED": "انتهت صلاحية الرمز. اطلب رمزاً جديداً.",
+  "errors.OTP_TOO_MANY_ATTEMPTS": "تجاوزت عدد المحاولات المسموح. اطلب رمزاً جديداً.",
+  "errors.OTP_TOO_SOON": "يرجى الانتظار قليلاً قبل طلب رمز جديد.",
+  "errors.OTP_TOO_SOON.wait": "يمكنك طلب رمز جديد بعد {wait}.",
+  "errors.OTP_SEND_FAILED": "تعذر إرسال رمز التحقق. حاول مرة أخرى.",
+  "errors.LOGIN_FAILED": "حدث خطأ أثناء تسجيل الدخول. يرجى المحاولة مجدداً.",
+  "errors.RATE_LIMITED": "طلبات كثيرة في وقت قصير. انتظر قليلاً ثم حاول مجدداً.",
+  "errors.REFRESH_TOKEN_REQUIRED": "انتهت الجلسة. يرجى تسجيل الدخول مجدداً.",
+  "errors.REFRESH_INVALID": "انتهت الجلسة. يرجى تسجيل الدخول مجدداً.",
+  "errors.REFRESH_RACED": "جُدّدت الجلسة من نافذة أخرى. حاول مرة أخرى.",
+  "errors.REFRESH_REUSED": "أُنهيت الجلسة لدواعٍ أمنية. يرجى تسجيل الدخول مجدداً.",
+  "errors.REFRESH_FAILED": "تعذر تجديد الجلسة. حاول مرة أخرى.",
+  "errors.LOGOUT_FAILED": "تعذر تسجيل الخروج. حاول مرة أخرى.",
+  "errors.SESSION_NOT_FOUND": "لم يعد هذا الجهاز مسجلاً.",
+  "errors.SESSIONS_FETCH_FAILED": "تعذر تحميل قائمة الأجهزة.",
+  "errors.SESSION_REVOKE_FAILED": "تعذر تسجيل الخروج من الجهاز.",
+  "errors.SESSIONS_REVOKE_FAILED": "تعذر تسجيل الخروج من الأجهزة الأخرى.",
+  "errors.PROFILE_FAILED": "تعذر تحميل بيانات الحساب.",
+  "errors.STATS_FAILED": "تعذر تحميل الإحصائيات.",
+  "errors.INVALID_LOCALE": "اللغة المختارة غير مدعومة.",
+
+  "errors.PUSH_DISABLED": "التنبيهات غير مفعّلة على الخادم.",
+  "errors.INVALID_SUBSCRIPTION": "لم يقبل المتصفح الاشتراك في التنبيهات.",
+  "errors.ENDPOINT_REQUIRED": "لم يقبل المتصفح الاشتراك في التنبيهات.",
+  "errors.SUBSCRIBE_FAILED": "تعذر تفعيل التنبيهات.",
+  "errors.UNSUBSCRIBE_FAILED": "تعذر إيقاف التنبيهات.",
+
+  "errors.NOT_MEMBER": "لست عضواً في هذه المجموعة.",
+  "errors.NOT_PERMITTED": "ليست لديك صلاحية لهذا الإجراء.",
+  "errors.PERMISSION_CHECK_FAILED": "تعذر التحقق من صلاحياتك. حاول مرة أخرى.",
+  "errors.GROUP_REQUIRED": "اختر مجموعة أولاً.",
+  "errors.GROUP_NAME_REQUIRED": "يرجى إدخال اسم المجموعة.",
+  "errors.GROUPS_FETCH_FAILED": "تعذر تحميل المجموعات.",
+  "errors.GROUP_CREATE_FAILED": "تعذر إنشاء المجموعة.",
+  "errors.GROUP_JOIN_FAILED": "تعذر الانضمام إلى المجموعة.",
+  "errors.INVITE_CODE_REQUIRED": "يرجى إدخال رمز الدعوة.",
+  "errors.INVITE_CODE_INVALID": "رمز الدعوة غير صحيح.",
+  "errors.INVITE_CODE_FAILED": "تعذر تجديد رمز الدعوة.",
+  "errors.MEMBER_NOT_FOUND": "لم يعد هذا المشارك عضواً في المجموعة.",
+  "errors.MEMBERS_FETCH_FAILED": "تعذر تحميل قائمة الأعضاء.",
+  "errors.INVALID_ROLE": "الدور المختار غير معروف.",
+  "errors.LAST_OWNER": "لا يمكن تغيير دور آخر مالك للمجموعة. عيّن مالكاً آخر أولاً.",
+  "errors.ROLE_CHANGE_FAILED": "تعذر تغيير الدور.",
+  "errors.JOIN_FAILED": "تعذر متابعة التحديثات المباشرة.",
+
+  "errors.WEEK_REQUIRED": "لم يُحدَّد الأسبوع.",
+  "errors.WEEK_NOT_FOUND": "لم يُعثر على هذا الأسبوع.",
+  "errors.WEEK_CLOSED": "انتهى هذا الأسبوع.",
+  "errors.WEEK_FETCH_FAILED": "تعذر تحميل بيانات الأسبوع.",
+  "errors.WEEKS_FETCH_FAILED": "تعذر تحميل الأسابيع السابقة.",
+  "errors.CHANGES_FETCH_FAILED": "تعذر تحديث بيانات الأسبوع.",
+  "errors.CLAIM_RULES_FAILED": "تعذر حفظ موعد التسليم.",
+  "errors.CLAIM_POLICY_FAILED": "تعذر حفظ حدود الحجز.",
+  "errors.TEXT_TOO_LONG": "النص أطول من المسموح.",
+  "errors.TEXT_TOO_LONG.limit": "النص أطول من المسموح ({limit} حرفاً).",
+  "errors.WEEK_DETAILS_FAILED": "تعذر حفظ بيانات الختمة.",
+  "errors.INVALID_DIVISION": "طريقة التقسيم غير معروفة.",
+  "errors.PARTS_CLAIMED": "لا يمكن تغيير طريقة التقسيم بعد أن حجز أحد المشاركين.",
+  "errors.DIVISION_CHANGE_FAILED": "تعذر تغيير طريقة التقسيم.",
+  "errors.INVALID_CYCLE": "مدة الختمة غير صالحة.",
+  "errors.INVALID_HIJRI_OFFSET": "تعديل التاريخ الهجري يجب أن يكون بين -2 و+2 يوم.",
+  "errors.CALENDAR_CHANGE_FAILED": "تعذر حفظ مدة الختمة.",
+  "errors.RESET_FAILED": "تعذر إعادة التعيين الآن. حاول مرة أخرى.",
+  "errors.INVALID_FORMAT": "صيغة المشاركة غير معروفة.",
+  "errors.ROSTER_EXPORT_FAILED": "تعذر تجهيز القائمة.",
+
+  "errors.PART_NOT_FOUND": "لم يُعثر على هذه الحصة.",
+  "errors.ALREADY_CLAIMED": "هذه الحصة محجوزة حالياً.",
+  "errors.CLAIM_LIMIT_REACHED": "بلغت الحد الأقصى للحجز هذا الأسبوع.",
+  "errors.CLAIM_LIMIT_REACHED.limit": "بلغت الحد الأقصى للحجز هذا الأسبوع ({limit}).",
+  "errors.FIRST_CLAIM_WINDOW": "يُسمح بحصة واحدة لكل مشارك في بداية الأسبوع.",
+  "errors.FIRST_CLAIM_WINDOW.opensAt": "يُسمح بحصة واحدة لكل مشارك حتى {opensAt}، ثم يُفتح الحجز للجميع.",
+  "errors.CLAIM_FAILED": "تعذر الحجز. حاول مرة أخرى.",
+  "errors.NOT_OWNER": "هذه الحصة ليست محجوزة لك.",
+  "errors.NOT_CLAIMED": "هذه الحصة غير محجوزة.",
+  "errors.RELEASE_FAILED": "تعذر إلغاء الحجز الآن.",
+  "errors.COMPLETE_FAILED": "تعذر تحديث حالة القراءة.",
+  "errors.INTENTION_FAILED": "تعذر حفظ النية.",
+  "errors.INTENTIONS_FETCH_FAILED": "تعذر تحميل نواياك.",
+  "errors.ASSIGNEE_REQUIRED": "اختر أحد الأعضاء أو أدخل اسم القارئ.",
+  "errors.ASSIGN_FAILED": "تعذر حجز الحصة.",
+
+  "errors.PART_AVAILABLE": "أصبح متاحاً الآن، يمكنك حجزه مباشرة.",
+  "errors.ALREADY_HOLDER": "هذه الحصة محجوزة لك بالفعل.",
+  "errors.WAITLIST_FAILED": "تعذر تحديث قائمة الانتظار.",
+  "errors.WAITLIST_FETCH_FAILED": "تعذر تحميل قائمة الانتظار.",
+  "errors.SWAP_UNAVAILABLE": "لم يعد التبادل على هذه الحصة ممكناً.",
+  "errors.PART_COMPLETED": "لا يمكن تبادل حصة تمّت قراءتها.",
+  "errors.SWAP_EXISTS": "أرسلت هذا العرض من قبل، وهو بانتظار الرد.",
+  "errors.SWAP_NOT_FOUND": "لم يُعثر على عرض التبادل.",
+  "errors.NOT_RECIPIENT": "هذا العرض ليس موجهاً إليك.",
+  "errors.SWAP_NOT_PENDING": "لم يعد هذا العرض قائماً.",
+  "errors.SWAP_STALE": "تغيّر حجز إحدى الحصتين منذ إرسال العرض، فلم يعد صالحاً.",
+  "errors.SWAP_FAILED": "تعذر تنفيذ الطلب.",
+  "errors.SWAPS_FETCH_FAILED": "تعذر تحميل عروض التبادل.",
+
+  "errors.AUDIT_FETCH_FAILED": "تعذر تحميل سجل التغييرات.",
+  "errors.INVALID_RANGE": "الفترة المختارة غير صالحة.",
+  "errors.REPORT_FAILED": "تعذر تحميل التقرير.",
+
+  "errors.UNEXPECTED_RESPONSE": "حدث خطأ غير متوقع. حاول مرة أخرى.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ar;
+export type Catalog = Record<MessageKey, Message>;
+
+export default ar;
@@ -0,0 +1,485 @@
+import type { Catalog } from "./ar";
+
+const en: Catalog = {
+  "app.profileSyncFailed": "Could not sync your profile",
+  "app.resetConfirm": "Reset this week's parts?",
+  "app.resetFailed": "Could not reset right now. Please try again.",
+  "app.anonymous": "Unknown user",
+
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.edit": "Edit",
+  "common.close": "Close",
+  "common.listSeparator": ", ",
+  "common.loading": "Loading...",
+  "common.participant": "A participant",
+  "common.member": "Member",
+
+  "wait.seconds": { one: "{count} second", other: "{count} seconds" },
+  "wait.minutes": { one: "{count} minute", other: "{count} minutes" },
+  "wait.hours": { one: "{count} hour", other: "{count} hours" },
+  "wait.rateLimited": "Too many requests in a short time. Try again in {wait}.",
+
+  "roles.owner": "Owner",
+  "roles.moderator": "Moderator",
+  "roles.member": "Member",
+
+  "quran.unit.juz": "Juz {number}",
+  "quran.unit.hizb.first": "Hizb {number} (first half of Juz {juz})",
+  "quran.unit.hizb.second": "Hizb {number} (second half of Juz {juz})",
+  "quran.unit.rub": "Quarter {quarter} of Hizb {hizb}",
+  "quran.units.juz": { one: "juz", other: "juz" },
+  "quran.units.hizb": { one: "hizb", other: "hizbs" },
+  "quran.units.rub": { one: "quarter", other: "quarters" },
+  "quran.surahStart": "Surah {surah}, ayah {ayah}",
+
+  "header.sync.reconnecting": "Connection lost, retrying…",
+  "header.sync.catching-up": "Updating the board…",
+  "header.sync.offline": "Offline, showing the last saved copy",
+  "header.view.board": "This week",
+  "header.view.history": "Past weeks",
+  "header.view.stats": "My stats",
+  "header.view.devices": "My devices",
+  "header.brand": "Khatma",
+  "header.group": "Circle",
+  "header.addGroup": "Join another circle",
+  "header.sections": "Sections",
+  "header.language": "Language",
+  "header.resetting": "Resetting...",
+  "header.reset": "Reset the week",
+  "header.logout": "Sign out",
+
+  "push.denied": "Notifications were blocked. You can allow them in your browser settings.",
+  "push.failed": "Could not update notification settings.",
+  "push.disableHint": "Turn off notifications on this device",
+  "push.enableHint": "Turn on notifications on this device",
+  "push.enabled": "🔔 Notifications on",
+  "push.enable": "🔕 Turn on notifications",
+
+  "login.sendFailed": "Could not send the verification code. Please try again.",
+  "login.nameRequired": "Please enter your full name.",
+  "login.phoneInvalid": "Please enter a valid phone number in international format (e.g. +963123456789).",
+  "login.codeInvalid": "Enter the 6-digit code.",
+  "login.failed": "Something went wrong while signing in. Please try again.",
+  "login.welcome": "Welcome to the Multaqa al-Muhibbin khatma",
+  "login.intro": "Join a weekly khatma and claim the part you want to read with the group.",
+  "login.codeSent": "We sent a verification code to",
+  "login.code": "Verification code",
+  "login.verifying": "Verifying...",
+  "login.verify": "Sign in",
+  "login.resendIn": "Resend in {seconds}s",
+  "login.resend": "Resend the code",
+  "login.changePhone": "Change number",
+  "login.name": "Full name",
+  "login.namePlaceholder": "Enter your full name",
+  "login.phone": "Phone number (international format)",
+  "login.sending": "Sending...",
+  "login.send": "Send verification code",
+  "login.savedHint": "Your participation is saved automatically, and you can come back any time to finish the khatma.",
+
+  "joinGroup.inviteRequired": "Please enter the invite code.",
+  "joinGroup.joinFailed": "Could not join the group.",
+  "joinGroup.nameRequired": "Please enter a group name.",
+  "joinGroup.createFailed": "Could not create the group.",
+  "joinGroup.title": "Join a khatma circle",
+  "joinGroup.subtitle": "Ask the circle's admin for the invite code, or start a new circle.",
+  "joinGroup.inviteCode": "Invite code",
+  "joinGroup.join": "Join",
+  "joinGroup.or": "or",
+  "joinGroup.newName": "New circle name",
+  "joinGroup.namePlaceholder": "e.g. Youth circle",
+  "joinGroup.create": "Create circle",
+  "joinGroup.back": "Back",
+
+  "division.juz": "By juz",
+  "division.hizb": "By hizb",
+  "division.rub": "By hizb quarters",
+  "division.failed": "Could not change how the khatma is divided.",
+  "division.label": "Khatma division",
+  "division.locked": "Claiming has started, so the division cannot change this week.",
+  "division.hint": "Coming weeks keep the last division chosen. Currently: {count} {units}.",
+
+  "cycle.every": { one: "A new khatma every day", other: "A new khatma every {count} days" },
+  "cycle.weekly": "A new khatma every week",
+  "cycle.monthly": "A new khatma every Hijri month",
+  "cycle.withOffset": "{cycle} (Hijri date adjustment: {offset})",
+  "cycle.unitLabel": "New khatma",
+  "cycle.unit.day": "Every few days",
+  "cycle.unit.week": "Every week",
+  "cycle.unit.month": "Every Hijri month",
+  "cycle.daysLabel": "Days per khatma",
+  "cycle.daysInvalid": "The number of days must be a whole number from 1 to {max}.",
+  "cycle.offsetLabel": "Hijri date adjustment (days)",
+  "cycle.hint": "Changes apply from the next khatma; the current one keeps its dates.",
+  "cycle.failed": "Could not save the khatma schedule.",
+
+  "claimRules.hoursInvalid": "The number of hours must be a positive whole number.",
+  "claimRules.failed": "Could not save the deadline.",
+  "claimRules.deadline": "Reading deadline: {deadline}",
+  "claimRules.noDeadline": "No reading deadline",
+  "claimRules.deadlineLabel": "Deadline",
+  "claimRules.holdHours": "Time to read after claiming (hours)",
+  "claimRules.overdue": "When overdue",
+  "claimRules.flag": "Mark the part as overdue",
+  "claimRules.release": "Release the claim automatically",
+
+  "claimPolicy.maxParts": "up to {count} per participant",
+  "claimPolicy.firstHours": {
+    one: "one part per participant in the first hour of the week",
+    other: "one part per participant in the first {count} hours of the week",
+  },
+  "claimPolicy.summary": "Claim limits: {rules}",
+  "claimPolicy.summaryExempt": "Claim limits: {rules} (admins exempt)",
+  "claimPolicy.invalid": "Values must be positive whole numbers.",
+  "claimPolicy.failed": "Could not save the claim limits.",
+  "claimPolicy.none": "No claim limits",
+  "claimPolicy.maxPartsLabel": "Most parts one participant can claim",
+  "claimPolicy.noLimit": "No limit",
+  "claimPolicy.firstHoursLabel": "Only one part per participant in the first (hours) of the week",
+  "claimPolicy.noRestriction": "No restriction",
+  "claimPolicy.adminsExempt": "Exempt admins from these limits",
+
+  "weekDetails.failed": "Could not save the khatma details.",
+  "weekDetails.summary": "Khatma title, dedication and closing dua",
+  "weekDetails.summaryNoDua": "Khatma title and dedication (no closing dua)",
+  "weekDetails.title": "Khatma title",
+  "weekDetails.titlePlaceholder": "e.g. Ramadan khatma",
+  "weekDetails.dedication": "Dedication",
+  "weekDetails.dedicationPlaceholder": "e.g. For the soul of our late father",
+  "weekDetails.closingDua": "Dua for completing the Quran",
+  "weekDetails.closingDuaPlaceholder": "Shown to everyone when the khatma is complete",
+
+  "intention.notOwner": "{label} is no longer claimed by you.",
+  "intention.failed": "Could not save the intention.",
+  "intention.dialog": "Intention for {label}",
+  "intention.heading": "My intention for {label}",
+  "intention.placeholder": "e.g. For my brother's recovery",
+  "intention.public": "Show it to participants in the list",
+
+  "swaps.failed": "Could not complete the request.",
+  "swaps.title": "Swap offers",
+  "swaps.incoming": "{from} offers {offer} for {want}",
+  "swaps.outgoing": "You offered {offer} to {to} for {want}",
+  "swaps.accept": "Accept",
+  "swaps.decline": "Decline",
+  "swaps.withdraw": "Withdraw offer",
+
+  "stats.failed": "Could not load statistics.",
+  "stats.title": "My stats",
+  "stats.allGroups": "All circles (not only {group})",
+  "stats.partsRead": { one: "part read", other: "parts read" },
+  "stats.weeksAttended": { one: "week taken part", other: "weeks taken part" },
+  "stats.streak": { one: "week in a row so far", other: "weeks in a row so far" },
+  "stats.mostReadJuz": { one: "Most read juz (once)", other: "Most read juz ({count} times)" },
+  "stats.noJuzRead": "No juz read yet",
+
+  "devices.unknown": "Unknown device",
+  "devices.browser": "Browser",
+  "devices.browserOn": "{browser} on {system}",
+  "devices.loadFailed": "Could not load your devices.",
+  "devices.revokeFailed": "Could not sign out of the device.",
+  "devices.title": "My devices",
+  "devices.hint": "Devices you are signed in on. If you don't recognise one, sign it out.",
+  "devices.current": "This device",
+  "devices.lastUsed": "Last used {time}",
+  "devices.revokeConfirm": "Sign out of this device?",
+  "devices.revoke": "Sign out",
+  "devices.revokeOthersConfirm": "Sign out of all other devices?",
+  "devices.revokeOthers": "Sign out of all other devices",
+
+  "report.failed": "Could not load the report.",
+  "report.title": "Participation report",
+  "report.from": "From",
+  "report.to": "To",
+  "report.show": "Show",
+  "report.weeks": { one: "{count} week", other: "{count} weeks" },
+  "report.completed": "completed in {count}",
+  "report.partsRead": { one: "{count} part read", other: "{count} parts read" },
+  "report.member": "Member",
+  "report.partsReadColumn": "Parts read",
+  "report.weeksColumn": "Weeks taken part",
+  "report.guest": "{name} (on behalf)",
+
+  "history.failed": "Could not load past weeks.",
+  "history.back": "← Back to the list of weeks",
+  "history.title": "Past weeks",
+  "history.empty": "No weeks yet.",
+  "history.current": "This week",
+  "history.completed": "✓ Khatma completed",
+  "history.counts": "Read {read}/{total} · Claimed {claimed}/{total}",
+  "history.more": "Load more",
+
+  "roster.failed": "Could not prepare the list for sharing.",
+  "roster.copied": "List copied. You can paste it into the chat.",
+  "roster.imageSaved": "The list image was downloaded.",
+  "roster.shareText": "Share as text",
+  "roster.shareImage": "Share as image",
+  "roster.downloadCsv": "Download CSV",
+
+  "reader.dialog": "Reading {label}",
+  "reader.smaller": "Smaller text",
+  "reader.larger": "Larger text",
+  "reader.failed": "Could not load the text. Open the app once while online so it is saved for offline reading.",
+  "reader.previous": "Previous",
+  "reader.next": "Next",
+  "reader.page": "Page {page} · {index} of {total}",
+  "reader.markDone": "I reached the end of {label}, mark it as read",
+  "reader.done": "✓ {label} is marked as read.",
+  "reader.release": "Release the claim",
+
+  "audit.action.claim": "Claim",
+  "audit.action.release": "Release",
+  "audit.action.force_release": "Released by an admin",
+  "audit.action.assign": "Assigned by an admin",
+  "audit.action.expire": "Claim expired",
+  "audit.action.reset": "Week reset",
+  "audit.action.grant_admin": "Admin granted",
+  "audit.action.revoke_admin": "Admin removed",
+  "audit.action.set_role": "Member role changed",
+  "audit.action.revoke_sessions": "Member signed out of devices",
+  "audit.action.set_division": "Division changed",
+  "audit.action.waitlist_assign": "Assigned from the waiting list",
+  "audit.action.swap": "Swap between participants",
+  "audit.division.juz": "juz",
+  "audit.division.hizb": "hizbs",
+  "audit.division.rub": "hizb quarters",
+  "audit.claim": "claimed {part}",
+  "audit.release": "released {part}",
+  "audit.forceRelease": "released {part} from {holder}",
+  "audit.move": "moved {part} from {from} to {to}",
+  "audit.assign": "assigned {part} to {to}",
+  "audit.expire": "{part} was released from {holder} when time ran out",
+  "audit.reset": {
+    one: "reset week {week} ({count} claimed part)",
+    other: "reset week {week} ({count} claimed parts)",
+  },
+  "audit.grantAdmin": "made {target} an admin",
+  "audit.revokeAdmin": "removed admin rights from {target}",
+  "audit.revokeSessions": "signed {target} out of all devices ({count})",
+  "audit.setRole": "made {target} {role}",
+  "audit.newRole": "a new role",
+  "audit.waitlistAssign": "{part} went to {to} from the waiting list",
+  "audit.swap": "{part} went from {from} to {to} in a swap",
+  "audit.setDivision": "divided week {week} into {division}",
+  "audit.newUnits": "new units",
+  "audit.failed": "Could not load the change log.",
+  "audit.title": "Change log",
+  "audit.hide": "Hide",
+  "audit.show": "Show",
+  "audit.allActions": "All actions",
+  "audit.partPlaceholder": "Juz or hizb number",
+  "audit.thisWeek": "This week only",
+  "audit.empty": "No changes recorded.",
+  "audit.system": "System",
+  "audit.more": "Load more",
+
+  "adminMenu.membersFailed": "Could not load the member list.",
+  "adminMenu.holder": "the participant",
+  "adminMenu.notClaimed": "{label} is not claimed.",
+  "adminMenu.releaseConfirm": "Release {label} from {holder}?",
+  "adminMenu.releaseFailed": "Could not release the claim.",
+  "adminMenu.moveConfirm": "{label} is claimed by {holder}. Move it?",
+  "adminMenu.assignFailed": "Could not assign the part.",
+  "adminMenu.memberRequired": "Choose a member.",
+  "adminMenu.guestRequired": "Please enter the reader's name.",
+  "adminMenu.roleConfirm": "Change {holder}'s role to “{role}”?",
+  "adminMenu.roleFailed": "Could not change the role.",
+  "adminMenu.revokeConfirm": "Sign {holder} out of all devices? They will need a new verification code to sign in.",
+  "adminMenu.revokeFailed": "Could not sign the member out.",
+  "adminMenu.dialog": "Manage {label}",
+  "adminMenu.claimedBy": "Claimed by {holder}",
+  "adminMenu.claimedOnBehalf": "Claimed for {holder} (on behalf)",
+  "adminMenu.open": "Open",
+  "adminMenu.release": "Release the claim",
+  "adminMenu.role": "{holder}'s role in the group",
+  "adminMenu.revoke": "Sign them out of all devices",
+  "adminMenu.assignMember": "Assign to a member",
+  "adminMenu.chooseMember": "Choose a member",
+  "adminMenu.assign": "Assign",
+  "adminMenu.guest": "Claim for someone without an account",
+  "adminMenu.guestPlaceholder": "Reader's name",
+  "adminMenu.assignGuest": "Claim on their behalf",
+
+  "requestMenu.notOwner": "The part you are offering is no longer yours.",
+  "requestMenu.waitlistFailed": "Could not update the waiting list.",
+  "requestMenu.left": "You left the waiting list.",
+  "requestMenu.joined": "You joined the waiting list at position {position}.",
+  "requestMenu.swapFailed": "Could not send the swap offer.",
+  "requestMenu.swapSent": "Swap offer sent to {holder}.",
+  "requestMenu.claimedBy": "Claimed by {holder}",
+  "requestMenu.leave": "Leave the waiting list",
+  "requestMenu.join": "Wait until it is released and take it automatically",
+  "requestMenu.offer": "Offer a swap for one of your parts",
+  "requestMenu.send": "Send offer",
+
+  "board.remaining.days": "{days}d {hours}h",
+  "board.remaining.hours": "{hours}h {minutes}m",
+  "board.remaining.minutes": "{minutes}m",
+  "board.refusal.limit": "You reached this week's claim limit ({limit}), so you cannot claim {label}.",
+  "board.refusal.closed": "This week has ended and parts can no longer be claimed.",
+  "board.refusal.rateLimited": "You claimed several parts in a short time. You can claim {label} in {wait}.",
+  "board.refusal.taken": "{label} is already claimed. Tap it to wait for it or to offer a swap.",
+  "board.claimFailed": "Could not claim. Please try again.",
+  "board.conflict.taken": "Could not claim {part}: another participant took it before you were back online.",
+  "board.conflict.notOwner": "{part} is no longer yours, so your request was not applied.",
+  "board.conflict.notMember": "You are no longer a member of this circle, so your request for {part} was not sent.",
+  "board.conflict.closed": "The week ended before you were back online, so your request for {part} was not applied.",
+  "board.conflict.limit": "Could not claim {part}: you reached the claim limit per participant.",
+  "board.conflict.failed": "Could not apply your request for {part} after reconnecting.",
+  "board.notice.expired": "Time to read {label} ran out, so your claim was released.",
+  "board.notice.assigned": "An admin assigned you {label}.",
+  "board.notice.waitlist": "Your turn on the waiting list: {label} is now yours.",
+  "board.notice.swap": "You have a new swap offer at the top of the list.",
+  "board.loadArchivedFailed": "Could not load this week.",
+  "board.loadFailed": "Could not load the current week.",
+  "board.queued": "No internet connection. Your request will be sent automatically when you are back online.",
+  "board.completeConfirm": "Did you finish reading {label}?",
+  "board.completeFailed": "Could not update the reading status.",
+  "board.signInFirst": "Please sign in first.",
+  "board.releaseConfirm": "{label} is marked as read. Release it anyway?",
+  "board.releaseFailed": "Could not release the claim right now.",
+  "board.inviteCode": "Invite code",
+  "board.progress": "Claimed: {claimed}/{total} · Read: {read}/{total}",
+  "board.week": "Week: {key}",
+  "board.legend.open": "Open",
+  "board.legend.mine": "Yours",
+  "board.legend.others": "Claimed by others",
+  "board.legend.read": "Read",
+  "board.closed": "This week has ended; its list is shown for reference only.",
+  "board.completed": "The khatma is complete, alhamdulillah. May Allah accept it from us and from you.",
+  "board.you": "You",
+  "board.state.queued": "Waiting for the connection",
+  "board.state.waiting": "You are on its waiting list",
+  "board.state.open": "Open",
+  "board.state.mine": "Yours, tap to read",
+  "board.state.claimedBy": "Claimed by {name}",
+  "board.state.claimed": "Claimed",
+  "board.cellTitle": "{label}, from {start} — {state}",
+  "board.overdue": "Overdue",
+  "board.markRead": "Read it?",
+  "board.markReadShort": "Read?",
+  "board.read": "✓ Read",
+  "board.manage": "Manage {label}",
+  "board.listTitle": "Participants by {units}",
+  "board.open": "Open",
+  "board.readNow": "Read",
+  "board.editIntention": "Edit intention",
+  "board.addIntention": "Add intention",
+  "board.privateIntention": " (only you)",
+
+  "errors.BAD_REQUEST": "The request is not valid.",
+  "errors.INVALID_BODY": "Some of the data sent is not valid.",
+  "errors.INVALID_QUERY": "The search filters are not valid.",
+  "errors.INVALID_PARAMS": "The link points to something that is not valid.",
+
+  "errors.NO_TOKEN": "Please sign in first.",
+  "errors.BAD_TOKEN": "Your session has ended. Please sign in again.",
+  "errors.SESSION_CHECK_FAILED": "Could not check your session. Please try again.",
+  "errors.PHONE_REQUIRED": "Please enter your phone number.",
+  "errors.NAME_PHONE_AND_CODE_REQUIRED": "Please enter your name, phone number and verification code.",
+  "errors.OTP_INVALID": "The verification code is incorrect.",
+  "errors.OTP_EXPIRED": "The code has expired. Request a new one.",
+  "errors.OTP_TOO_MANY_ATTEMPTS": "Too many attempts. Request a new code.",
+  "errors.OTP_TOO_SOON": "Please wait a little before requesting a new code.",
+  "errors.OTP_TOO_SOON.wait": "You can request a new code in {wait}.",
+  "errors.OTP_SEND_FAILED": "Could not send the verification code. Please try again.",
+  "errors.LOGIN_FAILED": "Something went wrong while signing in. Please try again.",
+  "errors.RATE_LIMITED": "Too many requests in a short time. Wait a little and try again.",
+  "errors.REFRESH_TOKEN_REQUIRED": "Your session has ended. Please sign in again.",
+  "errors.REFRESH_INVALID": "Your session has ended. Please sign in again.",
+  "errors.REFRESH_RACED": "Your session was renewed from another window. Please try again.",
+  "errors.REFRESH_REUSED": "Your session was ended for security reasons. Please sign in again.",
+  "errors.REFRESH_FAILED": "Could not renew your session. Please try again.",
+  "errors.LOGOUT_FAILED": "Could not sign out. Please try again.",
+  "errors.SESSION_NOT_FOUND": "This device is no longer signed in.",
+  "errors.SESSIONS_FETCH_FAILED": "Could not load your devices.",
+  "errors.SESSION_REVOKE_FAILED": "Could not sign out of the device.",
+  "errors.SESSIONS_REVOKE_FAILED": "Could not sign out of the other devices.",
+  "errors.PROFILE_FAILED": "Could not load your account.",
+  "errors.STATS_FAILED": "Could not load statistics.",
+  "errors.INVALID_LOCALE": "The chosen language is not supported.",
+
+  "errors.PUSH_DISABLED": "Notifications are not enabled on the server.",
+  "errors.INVALID_SUBSCRIPTION": "The browser did not accept the notification subscription.",
+  "errors.ENDPOINT_REQUIRED": "The browser did not accept the notification subscription.",
+  "errors.SUBSCRIBE_FAILED": "Could not turn on notifications.",
+  "errors.UNSUBSCRIBE_FAILED": "Could not turn off notifications.",
+
+  "errors.NOT_MEMBER": "You are not a member of this group.",
+  "errors.NOT_PERMITTED": "You do not have permission to do this.",
+  "errors.PERMISSION_CHECK_FAILED": "Could not check your permissions. Please try again.",
+  "errors.GROUP_REQUIRED": "Choose a group first.",
+  "errors.GROUP_NAME_REQUIRED": "Please enter a group name.",
+  "errors.GROUPS_FETCH_FAILED": "Could not load your groups.",
+  "errors.GROUP_CREATE_FAILED": "Could not create the group.",
+  "errors.GROUP_JOIN_FAILED": "Could not join the group.",
+  "errors.INVITE_CODE_REQUIRED": "Please enter the invite code.",
+  "errors.INVITE_CODE_INVALID": "The invite code is incorrect.",
+  "errors.INVITE_CODE_FAILED": "Could not renew the invite code.",
+  "errors.MEMBER_NOT_FOUND": "This participant is no longer a member of the group.",
+  "errors.MEMBERS_FETCH_FAILED": "Could not load the member list.",
+  "errors.INVALID_ROLE": "The chosen role is not known.",
+  "errors.LAST_OWNER": "The group's last owner cannot change role. Make someone else an owner first.",
+  "errors.ROLE_CHANGE_FAILED": "Could not change the role.",
+  "errors.JOIN_FAILED": "Could not follow live updates.",
+
+  "errors.WEEK_REQUIRED": "No week was given.",
+  "errors.WEEK_NOT_FOUND": "This week was not found.",
+  "errors.WEEK_CLOSED": "This week has ended.",
+  "errors.WEEK_FETCH_FAILED": "Could not load the week.",
+  "errors.WEEKS_FETCH_FAILED": "Could not load past weeks.",
+  "errors.CHANGES_FETCH_FAILED": "Could not update the week.",
+  "errors.CLAIM_RULES_FAILED": "Could not save the deadline.",
+  "errors.CLAIM_POLICY_FAILED": "Could not save the claim limits.",
+  "errors.TEXT_TOO_LONG": "The text is too long.",
+  "errors.TEXT_TOO_LONG.limit": "The text is too long ({limit} characters at most).",
+  "errors.WEEK_DETAILS_FAILED": "Could not save the khatma details.",
+  "errors.INVALID_DIVISION": "The division is not known.",
+  "errors.PARTS_CLAIMED": "The division cannot change once a participant has claimed a part.",
+  "errors.DIVISION_CHANGE_FAILED": "Could not change the division.",
+  "errors.INVALID_CYCLE": "The khatma cycle is not valid.",
+  "errors.INVALID_HIJRI_OFFSET": "The Hijri date adjustment must be between -2 and +2 days.",
+  "errors.CALENDAR_CHANGE_FAILED": "Could not save the khatma schedule.",
+  "errors.RESET_FAILED": "Could not reset right now. Please try again.",
+  "errors.INVALID_FORMAT": "The sharing format is not known.",
+  "errors.ROSTER_EXPORT_FAILED": "Could not prepare the list.",
+
+  "errors.PART_NOT_FOUND": "This part was not found.",
+  "errors.ALREADY_CLAIMED": "This part is already claimed.",
+  "errors.CLAIM_LIMIT_REACHED": "You reached this week's claim limit.",
+  "errors.CLAIM_LIMIT_REACHED.limit": "You reached this week's claim limit ({limit}).",
+  "errors.FIRST_CLAIM_WINDOW": "Each participant may claim one part at the start of the week.",
+  "errors.FIRST_CLAIM_WINDOW.opensAt":
+    "Each participant may claim one part until {opensAt}, then claiming opens to everyone.",
+  "errors.CLAIM_FAILED": "Could not claim. Please try again.",
+  "errors.NOT_OWNER": "This part is not claimed by you.",
+  "errors.NOT_CLAIMED": "This part is not claimed.",
+  "errors.RELEASE_FAILED": "Could not release the claim right now.",
+  "errors.COMPLETE_FAILED": "Could not update the reading status.",
+  "errors.INTENTION_FAILED": "Could not save the intention.",
+  "errors.INTENTIONS_FETCH_FAILED": "Could not load your intentions.",
+  "errors.ASSIGNEE_REQUIRED": "Choose a member or enter the reader's name.",
+  "errors.ASSIGN_FAILED": "Could not claim the part.",
+
+  "errors.PART_AVAILABLE": "It is open now, so you can claim it directly.",
+  "errors.ALREADY_HOLDER": "This part is already yours.",
+  "errors.WAITLIST_FAILED": "Could not update the waiting list.",
+  "errors.WAITLIST_FETCH_FAILED": "Could not load the waiting list.",
+  "errors.SWAP_UNAVAILABLE": "This part can no longer be swapped.",
+  "errors.PART_COMPLETED": "A part that has been read cannot be swapped.",
+  "errors.SWAP_EXISTS": "You already sent this offer and it is awaiting a reply.",
+  "errors.SWAP_NOT_FOUND": "The swap offer was not found.",
+  "errors.NOT_RECIPIENT": "This offer is not addressed to you.",
+  "errors.SWAP_NOT_PENDING": "This offer no longer stands.",
+  "errors.SWAP_STALE": "One of the two claims changed since the offer was sent, so it is no longer valid.",
+  "errors.SWAP_FAILED": "Could not complete the request.",
+  "errors.SWAPS_FETCH_FAILED": "Could not load swap offers.",
+
+  "errors.AUDIT_FETCH_FAILED": "Could not load the change log.",
+  "errors.INVALID_RANGE": "The chosen period is not valid.",
+  "errors.REPORT_FAILED": "Could not load the report.",
+
+  "errors.UNEXPECTED_RESPONSE": "Something unexpected went wrong. Please try again.",
+};
+
+export default en;
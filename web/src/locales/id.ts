@@ -0,0 +1,482 @@
+import type { Catalog } from "./ar";
+
+const id: Catalog = {
+  "app.profileSyncFailed": "Profil Anda tidak dapat disinkronkan",
+  "app.resetConfirm": "Atur ulang bagian minggu ini?",
+  "app.resetFailed": "Tidak dapat mengatur ulang sekarang. Silakan coba lagi.",
+  "app.anonymous": "Pengguna tidak dikenal",
+
+  "common.save": "Simpan",
+  "common.saving": "Menyimpan...",
+  "common.edit": "Ubah",
+  "common.close": "Tutup",
+  "common.listSeparator": ", ",
+  "common.loading": "Memuat...",
+  "common.participant": "Seorang peserta",
+  "common.member": "Anggota",
+
+  "wait.seconds": { other: "{count} detik" },
+  "wait.minutes": { other: "{count} menit" },
+  "wait.hours": { other: "{count} jam" },
+  "wait.rateLimited": "Terlalu banyak permintaan dalam waktu singkat. Coba lagi dalam {wait}.",
+
+  "roles.owner": "Pemilik",
+  "roles.moderator": "Moderator",
+  "roles.member": "Anggota",
+
+  "quran.unit.juz": "Juz {number}",
+  "quran.unit.hizb.first": "Hizb {number} (paruh pertama Juz {juz})",
+  "quran.unit.hizb.second": "Hizb {number} (paruh kedua Juz {juz})",
+  "quran.unit.rub": "Seperempat {quarter} dari Hizb {hizb}",
+  "quran.units.juz": { other: "juz" },
+  "quran.units.hizb": { other: "hizb" },
+  "quran.units.rub": { other: "seperempat hizb" },
+  "quran.surahStart": "Surah {surah}, ayat {ayah}",
+
+  "header.sync.reconnecting": "Koneksi terputus, mencoba lagi…",
+  "header.sync.catching-up": "Memperbarui daftar…",
+  "header.sync.offline": "Luring, menampilkan salinan terakhir yang tersimpan",
+  "header.view.board": "Minggu ini",
+  "header.view.history": "Minggu sebelumnya",
+  "header.view.stats": "Statistik saya",
+  "header.view.devices": "Perangkat saya",
+  "header.brand": "Khataman",
+  "header.group": "Majelis",
+  "header.addGroup": "Bergabung ke majelis lain",
+  "header.sections": "Bagian",
+  "header.language": "Bahasa",
+  "header.resetting": "Mengatur ulang...",
+  "header.reset": "Atur ulang minggu",
+  "header.logout": "Keluar",
+
+  "push.denied": "Notifikasi diblokir. Anda dapat mengizinkannya di pengaturan peramban.",
+  "push.failed": "Pengaturan notifikasi tidak dapat diperbarui.",
+  "push.disableHint": "Matikan notifikasi di perangkat ini",
+  "push.enableHint": "Aktifkan notifikasi di perangkat ini",
+  "push.enabled": "🔔 Notifikasi aktif",
+  "push.enable": "🔕 Aktifkan notifikasi",
+
+  "login.sendFailed": "Kode verifikasi tidak dapat dikirim. Silakan coba lagi.",
+  "login.nameRequired": "Silakan masukkan nama lengkap Anda.",
+  "login.phoneInvalid": "Silakan masukkan nomor telepon yang valid dalam format internasional (mis. +6281234567890).",
+  "login.codeInvalid": "Masukkan kode 6 digit.",
+  "login.failed": "Terjadi kesalahan saat masuk. Silakan coba lagi.",
+  "login.welcome": "Selamat datang di khataman Multaqa al-Muhibbin",
+  "login.intro": "Ikuti khataman mingguan dan pilih bagian yang ingin Anda baca bersama kelompok.",
+  "login.codeSent": "Kami mengirim kode verifikasi ke",
+  "login.code": "Kode verifikasi",
+  "login.verifying": "Memverifikasi...",
+  "login.verify": "Masuk",
+  "login.resendIn": "Kirim ulang dalam {seconds} dtk",
+  "login.resend": "Kirim ulang kode",
+  "login.changePhone": "Ganti nomor",
+  "login.name": "Nama lengkap",
+  "login.namePlaceholder": "Masukkan nama lengkap Anda",
+  "login.phone": "Nomor telepon (format internasional)",
+  "login.sending": "Mengirim...",
+  "login.send": "Kirim kode verifikasi",
+  "login.savedHint":
+    "Keikutsertaan Anda tersimpan otomatis, dan Anda dapat kembali kapan saja untuk menyelesaikan khataman.",
+
+  "joinGroup.inviteRequired": "Silakan masukkan kode undangan.",
+  "joinGroup.joinFailed": "Tidak dapat bergabung ke grup.",
+  "joinGroup.nameRequired": "Silakan masukkan nama grup.",
+  "joinGroup.createFailed": "Grup tidak dapat dibuat.",
+  "joinGroup.title": "Bergabung ke majelis khataman",
+  "joinGroup.subtitle": "Minta kode undangan kepada pengelola majelis, atau buat majelis baru.",
+  "joinGroup.inviteCode": "Kode undangan",
+  "joinGroup.join": "Bergabung",
+  "joinGroup.or": "atau",
+  "joinGroup.newName": "Nama majelis baru",
+  "joinGroup.namePlaceholder": "mis. Majelis pemuda",
+  "joinGroup.create": "Buat majelis",
+  "joinGroup.back": "Kembali",
+
+  "division.juz": "Per juz",
+  "division.hizb": "Per hizb",
+  "division.rub": "Per seperempat hizb",
+  "division.failed": "Pembagian khataman tidak dapat diubah.",
+  "division.label": "Pembagian khataman",
+  "division.locked": "Pemesanan sudah dimulai, jadi pembagian tidak dapat diubah minggu ini.",
+  "division.hint": "Minggu berikutnya mengikuti pembagian terakhir yang dipilih. Saat ini: {count} {units}.",
+
+  "cycle.every": { other: "Khatam baru setiap {count} hari" },
+  "cycle.weekly": "Khatam baru setiap minggu",
+  "cycle.monthly": "Khatam baru setiap bulan Hijriah",
+  "cycle.withOffset": "{cycle} (penyesuaian tanggal Hijriah: {offset})",
+  "cycle.unitLabel": "Khatam baru",
+  "cycle.unit.day": "Setiap beberapa hari",
+  "cycle.unit.week": "Setiap minggu",
+  "cycle.unit.month": "Setiap bulan Hijriah",
+  "cycle.daysLabel": "Hari per khatam",
+  "cycle.daysInvalid": "Jumlah hari harus bilangan bulat dari 1 sampai {max}.",
+  "cycle.offsetLabel": "Penyesuaian tanggal Hijriah (hari)",
+  "cycle.hint": "Perubahan berlaku mulai khatam berikutnya; khatam yang sedang berjalan tetap dengan tanggalnya.",
+  "cycle.failed": "Jadwal khatam tidak dapat disimpan.",
+
+  "claimRules.hoursInvalid": "Jumlah jam harus bilangan bulat positif.",
+  "claimRules.failed": "Batas waktu tidak dapat disimpan.",
+  "claimRules.deadline": "Batas waktu membaca: {deadline}",
+  "claimRules.noDeadline": "Tanpa batas waktu membaca",
+  "claimRules.deadlineLabel": "Batas waktu",
+  "claimRules.holdHours": "Waktu membaca setelah memesan (jam)",
+  "claimRules.overdue": "Jika terlambat",
+  "claimRules.flag": "Tandai bagian sebagai terlambat",
+  "claimRules.release": "Lepaskan pesanan secara otomatis",
+
+  "claimPolicy.maxParts": "maksimal {count} per peserta",
+  "claimPolicy.firstHours": { other: "satu bagian per peserta dalam {count} jam pertama minggu ini" },
+  "claimPolicy.summary": "Batas pemesanan: {rules}",
+  "claimPolicy.summaryExempt": "Batas pemesanan: {rules} (kecuali pengelola)",
+  "claimPolicy.invalid": "Nilai harus bilangan bulat positif.",
+  "claimPolicy.failed": "Batas pemesanan tidak dapat disimpan.",
+  "claimPolicy.none": "Tanpa batas pemesanan",
+  "claimPolicy.maxPartsLabel": "Jumlah bagian terbanyak yang dapat dipesan satu peserta",
+  "claimPolicy.noLimit": "Tanpa batas",
+  "claimPolicy.firstHoursLabel": "Hanya satu bagian per peserta pada (jam) pertama minggu ini",
+  "claimPolicy.noRestriction": "Tanpa pembatasan",
+  "claimPolicy.adminsExempt": "Kecualikan pengelola dari batas ini",
+
+  "weekDetails.failed": "Detail khataman tidak dapat disimpan.",
+  "weekDetails.summary": "Judul khataman, persembahan, dan doa khatam",
+  "weekDetails.summaryNoDua": "Judul khataman dan persembahan (tanpa doa khatam)",
+  "weekDetails.title": "Judul khataman",
+  "weekDetails.titlePlaceholder": "mis. Khataman Ramadan",
+  "weekDetails.dedication": "Persembahan",
+  "weekDetails.dedicationPlaceholder": "mis. Untuk almarhum ayah kami",
+  "weekDetails.closingDua": "Doa khatam Al-Qur'an",
+  "weekDetails.closingDuaPlaceholder": "Ditampilkan kepada semua saat khataman selesai",
+
+  "intention.notOwner": "{label} tidak lagi dipesan oleh Anda.",
+  "intention.failed": "Niat tidak dapat disimpan.",
+  "intention.dialog": "Niat untuk {label}",
+  "intention.heading": "Niat saya untuk {label}",
+  "intention.placeholder": "mis. Untuk kesembuhan saudara saya",
+  "intention.public": "Tampilkan kepada peserta di daftar",
+
+  "swaps.failed": "Permintaan tidak dapat diselesaikan.",
+  "swaps.title": "Tawaran tukar",
+  "swaps.incoming": "{from} menawarkan {offer} untuk {want}",
+  "swaps.outgoing": "Anda menawarkan {offer} kepada {to} untuk {want}",
+  "swaps.accept": "Terima",
+  "swaps.decline": "Tolak",
+  "swaps.withdraw": "Tarik tawaran",
+
+  "stats.failed": "Statistik tidak dapat dimuat.",
+  "stats.title": "Statistik saya",
+  "stats.allGroups": "Semua majelis (bukan hanya {group})",
+  "stats.partsRead": { other: "bagian dibaca" },
+  "stats.weeksAttended": { other: "minggu diikuti" },
+  "stats.streak": { other: "minggu berturut-turut sejauh ini" },
+  "stats.mostReadJuz": { other: "Juz paling sering dibaca ({count} kali)" },
+  "stats.noJuzRead": "Belum ada juz yang dibaca",
+
+  "devices.unknown": "Perangkat tidak dikenal",
+  "devices.browser": "Peramban",
+  "devices.browserOn": "{browser} di {system}",
+  "devices.loadFailed": "Perangkat Anda tidak dapat dimuat.",
+  "devices.revokeFailed": "Tidak dapat keluar dari perangkat.",
+  "devices.title": "Perangkat saya",
+  "devices.hint": "Perangkat tempat Anda masuk. Jika ada yang tidak Anda kenali, keluarkan.",
+  "devices.current": "Perangkat ini",
+  "devices.lastUsed": "Terakhir digunakan {time}",
+  "devices.revokeConfirm": "Keluar dari perangkat ini?",
+  "devices.revoke": "Keluar",
+  "devices.revokeOthersConfirm": "Keluar dari semua perangkat lain?",
+  "devices.revokeOthers": "Keluar dari semua perangkat lain",
+
+  "report.failed": "Laporan tidak dapat dimuat.",
+  "report.title": "Laporan keikutsertaan",
+  "report.from": "Dari",
+  "report.to": "Sampai",
+  "report.show": "Tampilkan",
+  "report.weeks": { other: "{count} minggu" },
+  "report.completed": "selesai di {count}",
+  "report.partsRead": { other: "{count} bagian dibaca" },
+  "report.member": "Anggota",
+  "report.partsReadColumn": "Bagian dibaca",
+  "report.weeksColumn": "Minggu diikuti",
+  "report.guest": "{name} (diwakilkan)",
+
+  "history.failed": "Minggu sebelumnya tidak dapat dimuat.",
+  "history.back": "← Kembali ke daftar minggu",
+  "history.title": "Minggu sebelumnya",
+  "history.empty": "Belum ada minggu.",
+  "history.current": "Minggu ini",
+  "history.completed": "✓ Khataman selesai",
+  "history.counts": "Dibaca {read}/{total} · Dipesan {claimed}/{total}",
+  "history.more": "Muat lebih banyak",
+
+  "roster.failed": "Daftar tidak dapat disiapkan untuk dibagikan.",
+  "roster.copied": "Daftar disalin. Anda dapat menempelkannya di percakapan.",
+  "roster.imageSaved": "Gambar daftar telah diunduh.",
+  "roster.shareText": "Bagikan sebagai teks",
+  "roster.shareImage": "Bagikan sebagai gambar",
+  "roster.downloadCsv": "Unduh CSV",
+
+  "reader.dialog": "Membaca {label}",
+  "reader.smaller": "Perkecil teks",
+  "reader.larger": "Perbesar teks",
+  "reader.failed": "Teks tidak dapat dimuat. Buka aplikasi sekali saat daring agar tersimpan untuk dibaca luring.",
+  "reader.previous": "Sebelumnya",
+  "reader.next": "Berikutnya",
+  "reader.page": "Halaman {page} · {index} dari {total}",
+  "reader.markDone": "Saya sudah sampai di akhir {label}, tandai sudah dibaca",
+  "reader.done": "✓ {label} ditandai sudah dibaca.",
+  "reader.release": "Lepaskan pesanan",
+
+  "audit.action.claim": "Pesan",
+  "audit.action.release": "Lepas",
+  "audit.action.force_release": "Dilepas oleh pengelola",
+  "audit.action.assign": "Ditetapkan oleh pengelola",
+  "audit.action.expire": "Pesanan kedaluwarsa",
+  "audit.action.reset": "Minggu diatur ulang",
+  "audit.action.grant_admin": "Dijadikan pengelola",
+  "audit.action.revoke_admin": "Hak pengelola dicabut",
+  "audit.action.set_role": "Peran anggota diubah",
+  "audit.action.revoke_sessions": "Anggota dikeluarkan dari perangkat",
+  "audit.action.set_division": "Pembagian diubah",
+  "audit.action.waitlist_assign": "Ditetapkan dari daftar tunggu",
+  "audit.action.swap": "Tukar antarpeserta",
+  "audit.division.juz": "juz",
+  "audit.division.hizb": "hizb",
+  "audit.division.rub": "seperempat hizb",
+  "audit.claim": "memesan {part}",
+  "audit.release": "melepas {part}",
+  "audit.forceRelease": "melepas {part} dari {holder}",
+  "audit.move": "memindahkan {part} dari {from} ke {to}",
+  "audit.assign": "menetapkan {part} kepada {to}",
+  "audit.expire": "{part} dilepas dari {holder} karena waktunya habis",
+  "audit.reset": { other: "mengatur ulang minggu {week} ({count} bagian dipesan)" },
+  "audit.grantAdmin": "menjadikan {target} pengelola",
+  "audit.revokeAdmin": "mencabut hak pengelola dari {target}",
+  "audit.revokeSessions": "mengeluarkan {target} dari semua perangkat ({count})",
+  "audit.setRole": "menjadikan {target} {role}",
+  "audit.newRole": "peran baru",
+  "audit.waitlistAssign": "{part} diberikan kepada {to} dari daftar tunggu",
+  "audit.swap": "{part} berpindah dari {from} ke {to} lewat tukar",
+  "audit.setDivision": "membagi minggu {week} per {division}",
+  "audit.newUnits": "satuan baru",
+  "audit.failed": "Catatan perubahan tidak dapat dimuat.",
+  "audit.title": "Catatan perubahan",
+  "audit.hide": "Sembunyikan",
+  "audit.show": "Tampilkan",
+  "audit.allActions": "Semua tindakan",
+  "audit.partPlaceholder": "Nomor juz atau hizb",
+  "audit.thisWeek": "Hanya minggu ini",
+  "audit.empty": "Belum ada perubahan tercatat.",
+  "audit.system": "Sistem",
+  "audit.more": "Muat lebih banyak",
+
+  "adminMenu.membersFailed": "Daftar anggota tidak dapat dimuat.",
+  "adminMenu.holder": "peserta",
+  "adminMenu.notClaimed": "{label} belum dipesan.",
+  "adminMenu.releaseConfirm": "Lepaskan {label} dari {holder}?",
+  "adminMenu.releaseFailed": "Pesanan tidak dapat dilepas.",
+  "adminMenu.moveConfirm": "{label} dipesan oleh {holder}. Pindahkan?",
+  "adminMenu.assignFailed": "Bagian tidak dapat ditetapkan.",
+  "adminMenu.memberRequired": "Pilih seorang anggota.",
+  "adminMenu.guestRequired": "Silakan masukkan nama pembaca.",
+  "adminMenu.roleConfirm": "Ubah peran {holder} menjadi “{role}”?",
+  "adminMenu.roleFailed": "Peran tidak dapat diubah.",
+  "adminMenu.revokeConfirm": "Keluarkan {holder} dari semua perangkat? Mereka perlu kode verifikasi baru untuk masuk.",
+  "adminMenu.revokeFailed": "Anggota tidak dapat dikeluarkan.",
+  "adminMenu.dialog": "Kelola {label}",
+  "adminMenu.claimedBy": "Dipesan oleh {holder}",
+  "adminMenu.claimedOnBehalf": "Dipesan untuk {holder} (diwakilkan)",
+  "adminMenu.open": "Tersedia",
+  "adminMenu.release": "Lepaskan pesanan",
+  "adminMenu.role": "Peran {holder} di grup",
+  "adminMenu.revoke": "Keluarkan dari semua perangkat",
+  "adminMenu.assignMember": "Tetapkan kepada anggota",
+  "adminMenu.chooseMember": "Pilih anggota",
+  "adminMenu.assign": "Tetapkan",
+  "adminMenu.guest": "Pesankan untuk seseorang tanpa akun",
+  "adminMenu.guestPlaceholder": "Nama pembaca",
+  "adminMenu.assignGuest": "Pesankan atas namanya",
+
+  "requestMenu.notOwner": "Bagian yang Anda tawarkan bukan milik Anda lagi.",
+  "requestMenu.waitlistFailed": "Daftar tunggu tidak dapat diperbarui.",
+  "requestMenu.left": "Anda keluar dari daftar tunggu.",
+  "requestMenu.joined": "Anda masuk daftar tunggu di urutan {position}.",
+  "requestMenu.swapFailed": "Tawaran tukar tidak dapat dikirim.",
+  "requestMenu.swapSent": "Tawaran tukar dikirim kepada {holder}.",
+  "requestMenu.claimedBy": "Dipesan oleh {holder}",
+  "requestMenu.leave": "Keluar dari daftar tunggu",
+  "requestMenu.join": "Tunggu sampai dilepas lalu ambil otomatis",
+  "requestMenu.offer": "Tawarkan tukar dengan salah satu bagian Anda",
+  "requestMenu.send": "Kirim tawaran",
+
+  "board.remaining.days": "{days} hr {hours} j",
+  "board.remaining.hours": "{hours} j {minutes} mnt",
+  "board.remaining.minutes": "{minutes} mnt",
+  "board.refusal.limit": "Anda mencapai batas pemesanan minggu ini ({limit}), jadi tidak dapat memesan {label}.",
+  "board.refusal.closed": "Minggu ini sudah berakhir dan bagian tidak dapat dipesan lagi.",
+  "board.refusal.rateLimited":
+    "Anda memesan beberapa bagian dalam waktu singkat. Anda dapat memesan {label} dalam {wait}.",
+  "board.refusal.taken": "{label} sudah dipesan. Ketuk untuk menunggunya atau menawarkan tukar.",
+  "board.claimFailed": "Tidak dapat memesan. Silakan coba lagi.",
+  "board.conflict.taken": "{part} tidak dapat dipesan: peserta lain mengambilnya sebelum Anda daring kembali.",
+  "board.conflict.notOwner": "{part} bukan milik Anda lagi, jadi permintaan Anda tidak diterapkan.",
+  "board.conflict.notMember": "Anda bukan lagi anggota majelis ini, jadi permintaan Anda untuk {part} tidak dikirim.",
+  "board.conflict.closed":
+    "Minggu berakhir sebelum Anda daring kembali, jadi permintaan Anda untuk {part} tidak diterapkan.",
+  "board.conflict.limit": "{part} tidak dapat dipesan: Anda mencapai batas pemesanan per peserta.",
+  "board.conflict.failed": "Permintaan Anda untuk {part} tidak dapat diterapkan setelah tersambung kembali.",
+  "board.notice.expired": "Waktu membaca {label} habis, jadi pesanan Anda dilepas.",
+  "board.notice.assigned": "Pengelola menetapkan {label} untuk Anda.",
+  "board.notice.waitlist": "Giliran Anda di daftar tunggu: {label} sekarang milik Anda.",
+  "board.notice.swap": "Ada tawaran tukar baru di bagian atas daftar.",
+  "board.loadArchivedFailed": "Minggu ini tidak dapat dimuat.",
+  "board.loadFailed": "Minggu berjalan tidak dapat dimuat.",
+  "board.queued": "Tidak ada koneksi internet. Permintaan Anda akan dikirim otomatis saat Anda daring kembali.",
+  "board.completeConfirm": "Apakah Anda sudah selesai membaca {label}?",
+  "board.completeFailed": "Status membaca tidak dapat diperbarui.",
+  "board.signInFirst": "Silakan masuk terlebih dahulu.",
+  "board.releaseConfirm": "{label} sudah ditandai dibaca. Tetap lepaskan?",
+  "board.releaseFailed": "Pesanan tidak dapat dilepas sekarang.",
+  "board.inviteCode": "Kode undangan",
+  "board.progress": "Dipesan: {claimed}/{total} · Dibaca: {read}/{total}",
+  "board.week": "Minggu: {key}",
+  "board.legend.open": "Tersedia",
+  "board.legend.mine": "Milik Anda",
+  "board.legend.others": "Dipesan orang lain",
+  "board.legend.read": "Dibaca",
+  "board.closed": "Minggu ini sudah berakhir; daftarnya ditampilkan hanya sebagai rujukan.",
+  "board.completed": "Khataman telah selesai, alhamdulillah. Semoga Allah menerimanya dari kami dan dari Anda.",
+  "board.you": "Anda",
+  "board.state.queued": "Menunggu koneksi",
+  "board.state.waiting": "Anda ada di daftar tunggunya",
+  "board.state.open": "Tersedia",
+  "board.state.mine": "Milik Anda, ketuk untuk membaca",
+  "board.state.claimedBy": "Dipesan oleh {name}",
+  "board.state.claimed": "Dipesan",
+  "board.cellTitle": "{label}, mulai {start} — {state}",
+  "board.overdue": "Terlambat",
+  "board.markRead": "Sudah dibaca?",
+  "board.markReadShort": "Dibaca?",
+  "board.read": "✓ Dibaca",
+  "board.manage": "Kelola {label}",
+  "board.listTitle": "Peserta per {units}",
+  "board.open": "Tersedia",
+  "board.readNow": "Baca",
+  "board.editIntention": "Ubah niat",
+  "board.addIntention": "Tambah niat",
+  "board.privateIntention": " (hanya Anda)",
+
+  "errors.BAD_REQUEST": "Permintaan tidak valid.",
+  "errors.INVALID_BODY": "Sebagian data yang dikirim tidak valid.",
+  "errors.INVALID_QUERY": "Kriteria pencarian tidak valid.",
+  "errors.INVALID_PARAMS": "Tautan menunjuk ke sesuatu yang tidak valid.",
+
+  "errors.NO_TOKEN": "Silakan masuk terlebih dahulu.",
+  "errors.BAD_TOKEN": "Sesi berakhir. Silakan masuk kembali.",
+  "errors.SESSION_CHECK_FAILED": "Sesi tidak dapat diperiksa. Silakan coba lagi.",
+  "errors.PHONE_REQUIRED": "Silakan masukkan nomor telepon.",
+  "errors.NAME_PHONE_AND_CODE_REQUIRED": "Silakan masukkan nama, nomor telepon, dan kode verifikasi.",
+  "errors.OTP_INVALID": "Kode verifikasi salah.",
+  "errors.OTP_EXPIRED": "Kode sudah kedaluwarsa. Minta kode baru.",
+  "errors.OTP_TOO_MANY_ATTEMPTS": "Terlalu banyak percobaan. Minta kode baru.",
+  "errors.OTP_TOO_SOON": "Silakan tunggu sebentar sebelum meminta kode baru.",
+  "errors.OTP_TOO_SOON.wait": "Anda dapat meminta kode baru dalam {wait}.",
+  "errors.OTP_SEND_FAILED": "Kode verifikasi tidak dapat dikirim. Silakan coba lagi.",
+  "errors.LOGIN_FAILED": "Terjadi kesalahan saat masuk. Silakan coba lagi.",
+  "errors.RATE_LIMITED": "Terlalu banyak permintaan dalam waktu singkat. Tunggu sebentar lalu coba lagi.",
+  "errors.REFRESH_TOKEN_REQUIRED": "Sesi berakhir. Silakan masuk kembali.",
+  "errors.REFRESH_INVALID": "Sesi berakhir. Silakan masuk kembali.",
+  "errors.REFRESH_RACED": "Sesi diperbarui dari jendela lain. Silakan coba lagi.",
+  "errors.REFRESH_REUSED": "Sesi diakhiri demi keamanan. Silakan masuk kembali.",
+  "errors.REFRESH_FAILED": "Sesi tidak dapat diperbarui. Silakan coba lagi.",
+  "errors.LOGOUT_FAILED": "Tidak dapat keluar. Silakan coba lagi.",
+  "errors.SESSION_NOT_FOUND": "Perangkat ini tidak lagi masuk.",
+  "errors.SESSIONS_FETCH_FAILED": "Daftar perangkat tidak dapat dimuat.",
+  "errors.SESSION_REVOKE_FAILED": "Tidak dapat keluar dari perangkat.",
+  "errors.SESSIONS_REVOKE_FAILED": "Tidak dapat keluar dari perangkat lain.",
+  "errors.PROFILE_FAILED": "Data akun tidak dapat dimuat.",
+  "errors.STATS_FAILED": "Statistik tidak dapat dimuat.",
+  "errors.INVALID_LOCALE": "Bahasa yang dipilih tidak didukung.",
+
+  "errors.PUSH_DISABLED": "Notifikasi tidak diaktifkan di server.",
+  "errors.INVALID_SUBSCRIPTION": "Peramban tidak menerima langganan notifikasi.",
+  "errors.ENDPOINT_REQUIRED": "Peramban tidak menerima langganan notifikasi.",
+  "errors.SUBSCRIBE_FAILED": "Notifikasi tidak dapat diaktifkan.",
+  "errors.UNSUBSCRIBE_FAILED": "Notifikasi tidak dapat dimatikan.",
+
+  "errors.NOT_MEMBER": "Anda bukan anggota grup ini.",
+  "errors.NOT_PERMITTED": "Anda tidak memiliki izin untuk tindakan ini.",
+  "errors.PERMISSION_CHECK_FAILED": "Izin Anda tidak dapat diperiksa. Silakan coba lagi.",
+  "errors.GROUP_REQUIRED": "Pilih grup terlebih dahulu.",
+  "errors.GROUP_NAME_REQUIRED": "Silakan masukkan nama grup.",
+  "errors.GROUPS_FETCH_FAILED": "Grup tidak dapat dimuat.",
+  "errors.GROUP_CREATE_FAILED": "Grup tidak dapat dibuat.",
+  "errors.GROUP_JOIN_FAILED": "Tidak dapat bergabung ke grup.",
+  "errors.INVITE_CODE_REQUIRED": "Silakan masukkan kode undangan.",
+  "errors.INVITE_CODE_INVALID": "Kode undangan salah.",
+  "errors.INVITE_CODE_FAILED": "Kode undangan tidak dapat diperbarui.",
+  "errors.MEMBER_NOT_FOUND": "Peserta ini bukan lagi anggota grup.",
+  "errors.MEMBERS_FETCH_FAILED": "Daftar anggota tidak dapat dimuat.",
+  "errors.INVALID_ROLE": "Peran yang dipilih tidak dikenal.",
+  "errors.LAST_OWNER": "Peran pemilik terakhir grup tidak dapat diubah. Jadikan orang lain pemilik terlebih dahulu.",
+  "errors.ROLE_CHANGE_FAILED": "Peran tidak dapat diubah.",
+  "errors.JOIN_FAILED": "Pembaruan langsung tidak dapat diikuti.",
+
+  "errors.WEEK_REQUIRED": "Minggu tidak ditentukan.",
+  "errors.WEEK_NOT_FOUND": "Minggu ini tidak ditemukan.",
+  "errors.WEEK_CLOSED": "Minggu ini sudah berakhir.",
+  "errors.WEEK_FETCH_FAILED": "Data minggu tidak dapat dimuat.",
+  "errors.WEEKS_FETCH_FAILED": "Minggu sebelumnya tidak dapat dimuat.",
+  "errors.CHANGES_FETCH_FAILED": "Data minggu tidak dapat diperbarui.",
+  "errors.CLAIM_RULES_FAILED": "Batas waktu tidak dapat disimpan.",
+  "errors.CLAIM_POLICY_FAILED": "Batas pemesanan tidak dapat disimpan.",
+  "errors.TEXT_TOO_LONG": "Teks lebih panjang dari yang diizinkan.",
+  "errors.TEXT_TOO_LONG.limit": "Teks lebih panjang dari yang diizinkan (maksimal {limit} karakter).",
+  "errors.WEEK_DETAILS_FAILED": "Detail khataman tidak dapat disimpan.",
+  "errors.INVALID_DIVISION": "Cara pembagian tidak dikenal.",
+  "errors.PARTS_CLAIMED": "Pembagian tidak dapat diubah setelah ada peserta yang memesan.",
+  "errors.DIVISION_CHANGE_FAILED": "Pembagian tidak dapat diubah.",
+  "errors.INVALID_CYCLE": "Siklus khatam tidak valid.",
+  "errors.INVALID_HIJRI_OFFSET": "Penyesuaian tanggal Hijriah harus antara -2 dan +2 hari.",
+  "errors.CALENDAR_CHANGE_FAILED": "Jadwal khatam tidak dapat disimpan.",
+  "errors.RESET_FAILED": "Tidak dapat mengatur ulang sekarang. Silakan coba lagi.",
+  "errors.INVALID_FORMAT": "Format berbagi tidak dikenal.",
+  "errors.ROSTER_EXPORT_FAILED": "Daftar tidak dapat disiapkan.",
+
+  "errors.PART_NOT_FOUND": "Bagian ini tidak ditemukan.",
+  "errors.ALREADY_CLAIMED": "Bagian ini sedang dipesan.",
+  "errors.CLAIM_LIMIT_REACHED": "Anda mencapai batas pemesanan minggu ini.",
+  "errors.CLAIM_LIMIT_REACHED.limit": "Anda mencapai batas pemesanan minggu ini ({limit}).",
+  "errors.FIRST_CLAIM_WINDOW": "Setiap peserta boleh memesan satu bagian di awal minggu.",
+  "errors.FIRST_CLAIM_WINDOW.opensAt":
+    "Setiap peserta boleh memesan satu bagian hingga {opensAt}, lalu pemesanan dibuka untuk semua.",
+  "errors.CLAIM_FAILED": "Tidak dapat memesan. Silakan coba lagi.",
+  "errors.NOT_OWNER": "Bagian ini tidak dipesan oleh Anda.",
+  "errors.NOT_CLAIMED": "Bagian ini belum dipesan.",
+  "errors.RELEASE_FAILED": "Pesanan tidak dapat dilepas sekarang.",
+  "errors.COMPLETE_FAILED": "Status membaca tidak dapat diperbarui.",
+  "errors.INTENTION_FAILED": "Niat tidak dapat disimpan.",
+  "errors.INTENTIONS_FETCH_FAILED": "Niat Anda tidak dapat dimuat.",
+  "errors.ASSIGNEE_REQUIRED": "Pilih anggota atau masukkan nama pembaca.",
+  "errors.ASSIGN_FAILED": "Bagian tidak dapat dipesan.",
+
+  "errors.PART_AVAILABLE": "Sekarang tersedia, Anda dapat langsung memesannya.",
+  "errors.ALREADY_HOLDER": "Bagian ini sudah milik Anda.",
+  "errors.WAITLIST_FAILED": "Daftar tunggu tidak dapat diperbarui.",
+  "errors.WAITLIST_FETCH_FAILED": "Daftar tunggu tidak dapat dimuat.",
+  "errors.SWAP_UNAVAILABLE": "Bagian ini tidak dapat ditukar lagi.",
+  "errors.PART_COMPLETED": "Bagian yang sudah dibaca tidak dapat ditukar.",
+  "errors.SWAP_EXISTS": "Anda sudah mengirim tawaran ini dan sedang menunggu jawaban.",
+  "errors.SWAP_NOT_FOUND": "Tawaran tukar tidak ditemukan.",
+  "errors.NOT_RECIPIENT": "Tawaran ini tidak ditujukan kepada Anda.",
+  "errors.SWAP_NOT_PENDING": "Tawaran ini tidak berlaku lagi.",
+  "errors.SWAP_STALE": "Salah satu pesanan berubah sejak tawaran dikirim, jadi tawaran tidak berlaku lagi.",
+  "errors.SWAP_FAILED": "Permintaan tidak dapat diselesaikan.",
+  "errors.SWAPS_FETCH_FAILED": "Tawaran tukar tidak dapat dimuat.",
+
+  "errors.AUDIT_FETCH_FAILED": "Catatan perubahan tidak dapat dimuat.",
+  "errors.INVALID_RANGE": "Periode yang dipilih tidak valid.",
+  "errors.REPORT_FAILED": "Laporan tidak dapat dimuat.",
+
+  "errors.UNEXPECTED_RESPONSE": "Terjadi kesalahan tak terduga. Silakan coba lagi.",
+};
+
+export default id;
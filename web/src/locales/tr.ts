@@ -0,0 +1,481 @@
+import type { Catalog } from "./ar";
+
+const tr: Catalog = {
+  "app.profileSyncFailed": "Profiliniz eşitlenemedi",
+  "app.resetConfirm": "Bu haftanın bölümleri sıfırlansın mı?",
+  "app.resetFailed": "Şu anda sıfırlanamadı. Lütfen tekrar deneyin.",
+  "app.anonymous": "Bilinmeyen kullanıcı",
+
+  "common.save": "Kaydet",
+  "common.saving": "Kaydediliyor...",
+  "common.edit": "Düzenle",
+  "common.close": "Kapat",
+  "common.listSeparator": ", ",
+  "common.loading": "Yükleniyor...",
+  "common.participant": "Bir katılımcı",
+  "common.member": "Üye",
+
+  "wait.seconds": { other: "{count} saniye" },
+  "wait.minutes": { other: "{count} dakika" },
+  "wait.hours": { other: "{count} saat" },
+  "wait.rateLimited": "Kısa sürede çok fazla istek yapıldı. {wait} sonra tekrar deneyin.",
+
+  "roles.owner": "Sahip",
+  "roles.moderator": "Yönetici",
+  "roles.member": "Üye",
+
+  "quran.unit.juz": "{number}. cüz",
+  "quran.unit.hizb.first": "{number}. hizb ({juz}. cüzün ilk yarısı)",
+  "quran.unit.hizb.second": "{number}. hizb ({juz}. cüzün ikinci yarısı)",
+  "quran.unit.rub": "{hizb}. hizbin {quarter}. çeyreği",
+  "quran.units.juz": { other: "cüz" },
+  "quran.units.hizb": { other: "hizb" },
+  "quran.units.rub": { other: "çeyrek" },
+  "quran.surahStart": "{surah} suresi, {ayah}. ayet",
+
+  "header.sync.reconnecting": "Bağlantı koptu, yeniden deneniyor…",
+  "header.sync.catching-up": "Liste güncelleniyor…",
+  "header.sync.offline": "Çevrimdışı, son kaydedilen kopya gösteriliyor",
+  "header.view.board": "Bu hafta",
+  "header.view.history": "Geçmiş haftalar",
+  "header.view.stats": "İstatistiklerim",
+  "header.view.devices": "Cihazlarım",
+  "header.brand": "Hatim",
+  "header.group": "Halka",
+  "header.addGroup": "Başka bir halkaya katıl",
+  "header.sections": "Bölümler",
+  "header.language": "Dil",
+  "header.resetting": "Sıfırlanıyor...",
+  "header.reset": "Haftayı sıfırla",
+  "header.logout": "Çıkış yap",
+
+  "push.denied": "Bildirimler engellendi. Tarayıcı ayarlarından izin verebilirsiniz.",
+  "push.failed": "Bildirim ayarları güncellenemedi.",
+  "push.disableHint": "Bu cihazda bildirimleri kapat",
+  "push.enableHint": "Bu cihazda bildirimleri aç",
+  "push.enabled": "🔔 Bildirimler açık",
+  "push.enable": "🔕 Bildirimleri aç",
+
+  "login.sendFailed": "Doğrulama kodu gönderilemedi. Lütfen tekrar deneyin.",
+  "login.nameRequired": "Lütfen adınızı ve soyadınızı girin.",
+  "login.phoneInvalid": "Lütfen uluslararası biçimde geçerli bir telefon numarası girin (ör. +905321234567).",
+  "login.codeInvalid": "6 haneli kodu girin.",
+  "login.failed": "Giriş yapılırken bir hata oluştu. Lütfen tekrar deneyin.",
+  "login.welcome": "Multaka el-Muhibbin hatmine hoş geldiniz",
+  "login.intro": "Haftalık bir hatme katılın ve grupla birlikte okumak istediğiniz bölümü ayırın.",
+  "login.codeSent": "Doğrulama kodunu şu numaraya gönderdik:",
+  "login.code": "Doğrulama kodu",
+  "login.verifying": "Doğrulanıyor...",
+  "login.verify": "Giriş yap",
+  "login.resendIn": "{seconds} sn sonra tekrar gönder",
+  "login.resend": "Kodu tekrar gönder",
+  "login.changePhone": "Numarayı değiştir",
+  "login.name": "Ad soyad",
+  "login.namePlaceholder": "Adınızı ve soyadınızı girin",
+  "login.phone": "Telefon numarası (uluslararası biçim)",
+  "login.sending": "Gönderiliyor...",
+  "login.send": "Doğrulama kodu gönder",
+  "login.savedHint": "Katılımınız otomatik olarak kaydedilir; hatmi tamamlamak için istediğiniz zaman dönebilirsiniz.",
+
+  "joinGroup.inviteRequired": "Lütfen davet kodunu girin.",
+  "joinGroup.joinFailed": "Gruba katılınamadı.",
+  "joinGroup.nameRequired": "Lütfen bir grup adı girin.",
+  "joinGroup.createFailed": "Grup oluşturulamadı.",
+  "joinGroup.title": "Bir hatim halkasına katılın",
+  "joinGroup.subtitle": "Halka yöneticisinden davet kodunu isteyin ya da yeni bir halka kurun.",
+  "joinGroup.inviteCode": "Davet kodu",
+  "joinGroup.join": "Katıl",
+  "joinGroup.or": "ya da",
+  "joinGroup.newName": "Yeni halkanın adı",
+  "joinGroup.namePlaceholder": "ör. Gençlik halkası",
+  "joinGroup.create": "Halka kur",
+  "joinGroup.back": "Geri",
+
+  "division.juz": "Cüzlere göre",
+  "division.hizb": "Hizblere göre",
+  "division.rub": "Hizb çeyreklerine göre",
+  "division.failed": "Hatmin bölünme şekli değiştirilemedi.",
+  "division.label": "Hatmin bölünmesi",
+  "division.locked": "Ayırmalar başladı, bu hafta bölünme şekli değiştirilemez.",
+  "division.hint": "Gelecek haftalar son seçilen bölünmeyi kullanır. Şu an: {count} {units}.",
+
+  "cycle.every": { one: "Her gün yeni bir hatim", other: "Her {count} günde bir yeni hatim" },
+  "cycle.weekly": "Her hafta yeni bir hatim",
+  "cycle.monthly": "Her hicri ayda yeni bir hatim",
+  "cycle.withOffset": "{cycle} (hicri tarih düzeltmesi: {offset})",
+  "cycle.unitLabel": "Yeni hatim",
+  "cycle.unit.day": "Birkaç günde bir",
+  "cycle.unit.week": "Her hafta",
+  "cycle.unit.month": "Her hicri ay",
+  "cycle.daysLabel": "Hatim başına gün",
+  "cycle.daysInvalid": "Gün sayısı 1 ile {max} arasında bir tam sayı olmalıdır.",
+  "cycle.offsetLabel": "Hicri tarih düzeltmesi (gün)",
+  "cycle.hint": "Değişiklikler bir sonraki hatimden itibaren geçerli olur; mevcut hatim tarihlerini korur.",
+  "cycle.failed": "Hatim takvimi kaydedilemedi.",
+
+  "claimRules.hoursInvalid": "Saat sayısı pozitif bir tam sayı olmalıdır.",
+  "claimRules.failed": "Son tarih kaydedilemedi.",
+  "claimRules.deadline": "Okuma için son tarih: {deadline}",
+  "claimRules.noDeadline": "Okuma için son tarih yok",
+  "claimRules.deadlineLabel": "Son tarih",
+  "claimRules.holdHours": "Ayırdıktan sonra okuma süresi (saat)",
+  "claimRules.overdue": "Süre geçince",
+  "claimRules.flag": "Bölümü gecikmiş olarak işaretle",
+  "claimRules.release": "Ayırmayı otomatik olarak kaldır",
+
+  "claimPolicy.maxParts": "katılımcı başına en fazla {count}",
+  "claimPolicy.firstHours": { other: "haftanın ilk {count} saatinde katılımcı başına bir bölüm" },
+  "claimPolicy.summary": "Ayırma sınırları: {rules}",
+  "claimPolicy.summaryExempt": "Ayırma sınırları: {rules} (yöneticiler hariç)",
+  "claimPolicy.invalid": "Değerler pozitif tam sayı olmalıdır.",
+  "claimPolicy.failed": "Ayırma sınırları kaydedilemedi.",
+  "claimPolicy.none": "Ayırma sınırı yok",
+  "claimPolicy.maxPartsLabel": "Bir katılımcının ayırabileceği en fazla bölüm",
+  "claimPolicy.noLimit": "Sınır yok",
+  "claimPolicy.firstHoursLabel": "Haftanın ilk (saatlerinde) katılımcı başına yalnızca bir bölüm",
+  "claimPolicy.noRestriction": "Kısıtlama yok",
+  "claimPolicy.adminsExempt": "Yöneticiler bu sınırlardan muaf olsun",
+
+  "weekDetails.failed": "Hatim bilgileri kaydedilemedi.",
+  "weekDetails.summary": "Hatim başlığı, ithaf ve hatim duası",
+  "weekDetails.summaryNoDua": "Hatim başlığı ve ithaf (hatim duası yok)",
+  "weekDetails.title": "Hatim başlığı",
+  "weekDetails.titlePlaceholder": "ör. Ramazan hatmi",
+  "weekDetails.dedication": "İthaf",
+  "weekDetails.dedicationPlaceholder": "ör. Merhum babamızın ruhuna",
+  "weekDetails.closingDua": "Hatim duası",
+  "weekDetails.closingDuaPlaceholder": "Hatim tamamlanınca herkese gösterilir",
+
+  "intention.notOwner": "{label} artık sizin adınıza ayrılmış değil.",
+  "intention.failed": "Niyet kaydedilemedi.",
+  "intention.dialog": "{label} için niyet",
+  "intention.heading": "{label} için niyetim",
+  "intention.placeholder": "ör. Kardeşimin şifası için",
+  "intention.public": "Listede katılımcılara göster",
+
+  "swaps.failed": "İstek tamamlanamadı.",
+  "swaps.title": "Takas teklifleri",
+  "swaps.incoming": "{from}, {want} karşılığında {offer} teklif ediyor",
+  "swaps.outgoing": "{to} kişisine {want} karşılığında {offer} teklif ettiniz",
+  "swaps.accept": "Kabul et",
+  "swaps.decline": "Reddet",
+  "swaps.withdraw": "Teklifi geri çek",
+
+  "stats.failed": "İstatistikler yüklenemedi.",
+  "stats.title": "İstatistiklerim",
+  "stats.allGroups": "Tüm halkalar (yalnızca {group} değil)",
+  "stats.partsRead": { other: "okunan bölüm" },
+  "stats.weeksAttended": { other: "katılınan hafta" },
+  "stats.streak": { other: "hafta üst üste" },
+  "stats.mostReadJuz": { other: "En çok okunan cüz ({count} kez)" },
+  "stats.noJuzRead": "Henüz okunan cüz yok",
+
+  "devices.unknown": "Bilinmeyen cihaz",
+  "devices.browser": "Tarayıcı",
+  "devices.browserOn": "{system} üzerinde {browser}",
+  "devices.loadFailed": "Cihazlarınız yüklenemedi.",
+  "devices.revokeFailed": "Cihazdan çıkış yapılamadı.",
+  "devices.title": "Cihazlarım",
+  "devices.hint": "Giriş yaptığınız cihazlar. Tanımadığınız bir cihaz varsa oturumunu kapatın.",
+  "devices.current": "Bu cihaz",
+  "devices.lastUsed": "Son kullanım {time}",
+  "devices.revokeConfirm": "Bu cihazdan çıkış yapılsın mı?",
+  "devices.revoke": "Çıkış yap",
+  "devices.revokeOthersConfirm": "Diğer tüm cihazlardan çıkış yapılsın mı?",
+  "devices.revokeOthers": "Diğer tüm cihazlardan çıkış yap",
+
+  "report.failed": "Rapor yüklenemedi.",
+  "report.title": "Katılım raporu",
+  "report.from": "Başlangıç",
+  "report.to": "Bitiş",
+  "report.show": "Göster",
+  "report.weeks": { other: "{count} hafta" },
+  "report.completed": "{count} haftada tamamlandı",
+  "report.partsRead": { other: "{count} bölüm okundu" },
+  "report.member": "Üye",
+  "report.partsReadColumn": "Okunan bölümler",
+  "report.weeksColumn": "Katılınan haftalar",
+  "report.guest": "{name} (adına)",
+
+  "history.failed": "Geçmiş haftalar yüklenemedi.",
+  "history.back": "← Hafta listesine dön",
+  "history.title": "Geçmiş haftalar",
+  "history.empty": "Henüz hafta yok.",
+  "history.current": "Bu hafta",
+  "history.completed": "✓ Hatim tamamlandı",
+  "history.counts": "Okunan {read}/{total} · Ayrılan {claimed}/{total}",
+  "history.more": "Daha fazla yükle",
+
+  "roster.failed": "Liste paylaşım için hazırlanamadı.",
+  "roster.copied": "Liste kopyalandı. Sohbete yapıştırabilirsiniz.",
+  "roster.imageSaved": "Liste görseli indirildi.",
+  "roster.shareText": "Metin olarak paylaş",
+  "roster.shareImage": "Görsel olarak paylaş",
+  "roster.downloadCsv": "CSV indir",
+
+  "reader.dialog": "{label} okuma",
+  "reader.smaller": "Yazıyı küçült",
+  "reader.larger": "Yazıyı büyüt",
+  "reader.failed":
+    "Metin yüklenemedi. Çevrimdışı okumak için kaydedilmesi amacıyla uygulamayı bir kez çevrimiçiyken açın.",
+  "reader.previous": "Önceki",
+  "reader.next": "Sonraki",
+  "reader.page": "Sayfa {page} · {index}/{total}",
+  "reader.markDone": "{label} sonuna geldim, okundu olarak işaretle",
+  "reader.done": "✓ {label} okundu olarak işaretlendi.",
+  "reader.release": "Ayırmayı kaldır",
+
+  "audit.action.claim": "Ayırma",
+  "audit.action.release": "Ayırmayı kaldırma",
+  "audit.action.force_release": "Yönetici tarafından kaldırıldı",
+  "audit.action.assign": "Yönetici tarafından atandı",
+  "audit.action.expire": "Ayırma süresi doldu",
+  "audit.action.reset": "Hafta sıfırlandı",
+  "audit.action.grant_admin": "Yöneticilik verildi",
+  "audit.action.revoke_admin": "Yöneticilik alındı",
+  "audit.action.set_role": "Üye rolü değişti",
+  "audit.action.revoke_sessions": "Üyenin cihazlardan çıkışı yapıldı",
+  "audit.action.set_division": "Bölünme değişti",
+  "audit.action.waitlist_assign": "Bekleme listesinden atandı",
+  "audit.action.swap": "Katılımcılar arasında takas",
+  "audit.division.juz": "cüzlere",
+  "audit.division.hizb": "hizblere",
+  "audit.division.rub": "hizb çeyreklerine",
+  "audit.claim": "{part} bölümünü ayırdı",
+  "audit.release": "{part} ayırmasını kaldırdı",
+  "audit.forceRelease": "{part} bölümünü {holder} kişisinden kaldırdı",
+  "audit.move": "{part} bölümünü {from} kişisinden {to} kişisine aktardı",
+  "audit.assign": "{part} bölümünü {to} kişisine atadı",
+  "audit.expire": "Süre dolunca {part}, {holder} kişisinden kaldırıldı",
+  "audit.reset": { other: "{week} haftasını sıfırladı ({count} ayrılmış bölüm)" },
+  "audit.grantAdmin": "{target} kişisini yönetici yaptı",
+  "audit.revokeAdmin": "{target} kişisinin yöneticiliğini aldı",
+  "audit.revokeSessions": "{target} kişisinin tüm cihazlardan çıkışını yaptı ({count})",
+  "audit.setRole": "{target} kişisini {role} yaptı",
+  "audit.newRole": "yeni bir rol",
+  "audit.waitlistAssign": "{part} bekleme listesinden {to} kişisine geçti",
+  "audit.swap": "{part} takasla {from} kişisinden {to} kişisine geçti",
+  "audit.setDivision": "{week} haftasını {division} böldü",
+  "audit.newUnits": "yeni birimlere",
+  "audit.failed": "Değişiklik kaydı yüklenemedi.",
+  "audit.title": "Değişiklik kaydı",
+  "audit.hide": "Gizle",
+  "audit.show": "Göster",
+  "audit.allActions": "Tüm işlemler",
+  "audit.partPlaceholder": "Cüz veya hizb numarası",
+  "audit.thisWeek": "Yalnızca bu hafta",
+  "audit.empty": "Kayıtlı değişiklik yok.",
+  "audit.system": "Sistem",
+  "audit.more": "Daha fazla yükle",
+
+  "adminMenu.membersFailed": "Üye listesi yüklenemedi.",
+  "adminMenu.holder": "katılımcı",
+  "adminMenu.notClaimed": "{label} ayrılmış değil.",
+  "adminMenu.releaseConfirm": "{label}, {holder} kişisinden kaldırılsın mı?",
+  "adminMenu.releaseFailed": "Ayırma kaldırılamadı.",
+  "adminMenu.moveConfirm": "{label}, {holder} tarafından ayrılmış. Aktarılsın mı?",
+  "adminMenu.assignFailed": "Bölüm atanamadı.",
+  "adminMenu.memberRequired": "Bir üye seçin.",
+  "adminMenu.guestRequired": "Lütfen okuyucunun adını girin.",
+  "adminMenu.roleConfirm": "{holder} kişisinin rolü “{role}” olarak değiştirilsin mi?",
+  "adminMenu.roleFailed": "Rol değiştirilemedi.",
+  "adminMenu.revokeConfirm":
+    "{holder} tüm cihazlardan çıkarılsın mı? Tekrar giriş yapmak için yeni bir doğrulama kodu gerekecek.",
+  "adminMenu.revokeFailed": "Üyenin çıkışı yapılamadı.",
+  "adminMenu.dialog": "{label} yönetimi",
+  "adminMenu.claimedBy": "{holder} tarafından ayrıldı",
+  "adminMenu.claimedOnBehalf": "{holder} adına ayrıldı",
+  "adminMenu.open": "Boş",
+  "adminMenu.release": "Ayırmayı kaldır",
+  "adminMenu.role": "{holder} kişisinin gruptaki rolü",
+  "adminMenu.revoke": "Tüm cihazlardan çıkışını yap",
+  "adminMenu.assignMember": "Bir üyeye ata",
+  "adminMenu.chooseMember": "Bir üye seçin",
+  "adminMenu.assign": "Ata",
+  "adminMenu.guest": "Hesabı olmayan biri adına ayır",
+  "adminMenu.guestPlaceholder": "Okuyucunun adı",
+  "adminMenu.assignGuest": "Adına ayır",
+
+  "requestMenu.notOwner": "Teklif ettiğiniz bölüm artık sizin değil.",
+  "requestMenu.waitlistFailed": "Bekleme listesi güncellenemedi.",
+  "requestMenu.left": "Bekleme listesinden çıktınız.",
+  "requestMenu.joined": "Bekleme listesine {position}. sırada katıldınız.",
+  "requestMenu.swapFailed": "Takas teklifi gönderilemedi.",
+  "requestMenu.swapSent": "Takas teklifi {holder} kişisine gönderildi.",
+  "requestMenu.claimedBy": "{holder} tarafından ayrıldı",
+  "requestMenu.leave": "Bekleme listesinden çık",
+  "requestMenu.join": "Boşalana kadar bekle ve otomatik olarak al",
+  "requestMenu.offer": "Bölümlerinizden biriyle takas teklif et",
+  "requestMenu.send": "Teklif gönder",
+
+  "board.remaining.days": "{days} g {hours} sa",
+  "board.remaining.hours": "{hours} sa {minutes} dk",
+  "board.remaining.minutes": "{minutes} dk",
+  "board.refusal.limit": "Bu haftanın ayırma sınırına ({limit}) ulaştınız, {label} ayrılamaz.",
+  "board.refusal.closed": "Bu hafta sona erdi, artık bölüm ayrılamaz.",
+  "board.refusal.rateLimited": "Kısa sürede birkaç bölüm ayırdınız. {label} bölümünü {wait} sonra ayırabilirsiniz.",
+  "board.refusal.taken": "{label} zaten ayrılmış. Beklemek ya da takas teklif etmek için dokunun.",
+  "board.claimFailed": "Ayrılamadı. Lütfen tekrar deneyin.",
+  "board.conflict.taken": "{part} ayrılamadı: siz tekrar çevrimiçi olmadan başka bir katılımcı aldı.",
+  "board.conflict.notOwner": "{part} artık sizin değil, bu yüzden isteğiniz uygulanmadı.",
+  "board.conflict.notMember": "Artık bu halkanın üyesi değilsiniz, bu yüzden {part} isteğiniz gönderilmedi.",
+  "board.conflict.closed": "Siz tekrar çevrimiçi olmadan hafta bitti, bu yüzden {part} isteğiniz uygulanmadı.",
+  "board.conflict.limit": "{part} ayrılamadı: katılımcı başına ayırma sınırına ulaştınız.",
+  "board.conflict.failed": "Yeniden bağlandıktan sonra {part} isteğiniz uygulanamadı.",
+  "board.notice.expired": "{label} okuma süresi doldu, ayırmanız kaldırıldı.",
+  "board.notice.assigned": "Bir yönetici size {label} atadı.",
+  "board.notice.waitlist": "Bekleme listesinde sıra sizde: {label} artık sizin.",
+  "board.notice.swap": "Listenin üstünde yeni bir takas teklifiniz var.",
+  "board.loadArchivedFailed": "Bu hafta yüklenemedi.",
+  "board.loadFailed": "Bu hafta yüklenemedi.",
+  "board.queued": "İnternet bağlantısı yok. İsteğiniz tekrar çevrimiçi olunca otomatik olarak gönderilecek.",
+  "board.completeConfirm": "{label} okumayı bitirdiniz mi?",
+  "board.completeFailed": "Okuma durumu güncellenemedi.",
+  "board.signInFirst": "Lütfen önce giriş yapın.",
+  "board.releaseConfirm": "{label} okundu olarak işaretli. Yine de kaldırılsın mı?",
+  "board.releaseFailed": "Ayırma şu anda kaldırılamadı.",
+  "board.inviteCode": "Davet kodu",
+  "board.progress": "Ayrılan: {claimed}/{total} · Okunan: {read}/{total}",
+  "board.week": "Hafta: {key}",
+  "board.legend.open": "Boş",
+  "board.legend.mine": "Sizin",
+  "board.legend.others": "Başkaları tarafından ayrılmış",
+  "board.legend.read": "Okundu",
+  "board.closed": "Bu hafta sona erdi; listesi yalnızca bilgi için gösteriliyor.",
+  "board.completed": "Hatim tamamlandı, elhamdülillah. Allah bizden ve sizden kabul etsin.",
+  "board.you": "Siz",
+  "board.state.queued": "Bağlantı bekleniyor",
+  "board.state.waiting": "Bekleme listesindesiniz",
+  "board.state.open": "Boş",
+  "board.state.mine": "Sizin, okumak için dokunun",
+  "board.state.claimedBy": "{name} tarafından ayrıldı",
+  "board.state.claimed": "Ayrılmış",
+  "board.cellTitle": "{label}, başlangıç {start} — {state}",
+  "board.overdue": "Gecikmiş",
+  "board.markRead": "Okudunuz mu?",
+  "board.markReadShort": "Okundu mu?",
+  "board.read": "✓ Okundu",
+  "board.manage": "{label} yönet",
+  "board.listTitle": "Katılımcılar ({units})",
+  "board.open": "Boş",
+  "board.readNow": "Oku",
+  "board.editIntention": "Niyeti düzenle",
+  "board.addIntention": "Niyet ekle",
+  "board.privateIntention": " (yalnızca siz)",
+
+  "errors.BAD_REQUEST": "İstek geçerli değil.",
+  "errors.INVALID_BODY": "Gönderilen verilerin bir kısmı geçerli değil.",
+  "errors.INVALID_QUERY": "Arama ölçütleri geçerli değil.",
+  "errors.INVALID_PARAMS": "Bağlantı geçerli olmayan bir öğeyi gösteriyor.",
+
+  "errors.NO_TOKEN": "Lütfen önce giriş yapın.",
+  "errors.BAD_TOKEN": "Oturumunuz sona erdi. Lütfen tekrar giriş yapın.",
+  "errors.SESSION_CHECK_FAILED": "Oturum doğrulanamadı. Lütfen tekrar deneyin.",
+  "errors.PHONE_REQUIRED": "Lütfen telefon numaranızı girin.",
+  "errors.NAME_PHONE_AND_CODE_REQUIRED": "Lütfen adınızı, telefon numaranızı ve doğrulama kodunu girin.",
+  "errors.OTP_INVALID": "Doğrulama kodu yanlış.",
+  "errors.OTP_EXPIRED": "Kodun süresi doldu. Yeni bir kod isteyin.",
+  "errors.OTP_TOO_MANY_ATTEMPTS": "Deneme sınırını aştınız. Yeni bir kod isteyin.",
+  "errors.OTP_TOO_SOON": "Yeni bir kod istemeden önce lütfen biraz bekleyin.",
+  "errors.OTP_TOO_SOON.wait": "{wait} sonra yeni bir kod isteyebilirsiniz.",
+  "errors.OTP_SEND_FAILED": "Doğrulama kodu gönderilemedi. Lütfen tekrar deneyin.",
+  "errors.LOGIN_FAILED": "Giriş yapılırken bir hata oluştu. Lütfen tekrar deneyin.",
+  "errors.RATE_LIMITED": "Kısa sürede çok fazla istek yapıldı. Biraz bekleyip tekrar deneyin.",
+  "errors.REFRESH_TOKEN_REQUIRED": "Oturumunuz sona erdi. Lütfen tekrar giriş yapın.",
+  "errors.REFRESH_INVALID": "Oturumunuz sona erdi. Lütfen tekrar giriş yapın.",
+  "errors.REFRESH_RACED": "Oturum başka bir pencereden yenilendi. Lütfen tekrar deneyin.",
+  "errors.REFRESH_REUSED": "Oturum güvenlik nedeniyle sonlandırıldı. Lütfen tekrar giriş yapın.",
+  "errors.REFRESH_FAILED": "Oturum yenilenemedi. Lütfen tekrar deneyin.",
+  "errors.LOGOUT_FAILED": "Çıkış yapılamadı. Lütfen tekrar deneyin.",
+  "errors.SESSION_NOT_FOUND": "Bu cihazda artık oturum açık değil.",
+  "errors.SESSIONS_FETCH_FAILED": "Cihaz listesi yüklenemedi.",
+  "errors.SESSION_REVOKE_FAILED": "Cihazdan çıkış yapılamadı.",
+  "errors.SESSIONS_REVOKE_FAILED": "Diğer cihazlardan çıkış yapılamadı.",
+  "errors.PROFILE_FAILED": "Hesap bilgileri yüklenemedi.",
+  "errors.STATS_FAILED": "İstatistikler yüklenemedi.",
+  "errors.INVALID_LOCALE": "Seçilen dil desteklenmiyor.",
+
+  "errors.PUSH_DISABLED": "Bildirimler sunucuda etkin değil.",
+  "errors.INVALID_SUBSCRIPTION": "Tarayıcı bildirim aboneliğini kabul etmedi.",
+  "errors.ENDPOINT_REQUIRED": "Tarayıcı bildirim aboneliğini kabul etmedi.",
+  "errors.SUBSCRIBE_FAILED": "Bildirimler açılamadı.",
+  "errors.UNSUBSCRIBE_FAILED": "Bildirimler kapatılamadı.",
+
+  "errors.NOT_MEMBER": "Bu grubun üyesi değilsiniz.",
+  "errors.NOT_PERMITTED": "Bu işlem için yetkiniz yok.",
+  "errors.PERMISSION_CHECK_FAILED": "Yetkileriniz doğrulanamadı. Lütfen tekrar deneyin.",
+  "errors.GROUP_REQUIRED": "Önce bir grup seçin.",
+  "errors.GROUP_NAME_REQUIRED": "Lütfen bir grup adı girin.",
+  "errors.GROUPS_FETCH_FAILED": "Gruplar yüklenemedi.",
+  "errors.GROUP_CREATE_FAILED": "Grup oluşturulamadı.",
+  "errors.GROUP_JOIN_FAILED": "Gruba katılınamadı.",
+  "errors.INVITE_CODE_REQUIRED": "Lütfen davet kodunu girin.",
+  "errors.INVITE_CODE_INVALID": "Davet kodu yanlış.",
+  "errors.INVITE_CODE_FAILED": "Davet kodu yenilenemedi.",
+  "errors.MEMBER_NOT_FOUND": "Bu katılımcı artık grubun üyesi değil.",
+  "errors.MEMBERS_FETCH_FAILED": "Üye listesi yüklenemedi.",
+  "errors.INVALID_ROLE": "Seçilen rol bilinmiyor.",
+  "errors.LAST_OWNER": "Grubun son sahibinin rolü değiştirilemez. Önce başka birini sahip yapın.",
+  "errors.ROLE_CHANGE_FAILED": "Rol değiştirilemedi.",
+  "errors.JOIN_FAILED": "Canlı güncellemeler takip edilemedi.",
+
+  "errors.WEEK_REQUIRED": "Hafta belirtilmedi.",
+  "errors.WEEK_NOT_FOUND": "Bu hafta bulunamadı.",
+  "errors.WEEK_CLOSED": "Bu hafta sona erdi.",
+  "errors.WEEK_FETCH_FAILED": "Hafta bilgileri yüklenemedi.",
+  "errors.WEEKS_FETCH_FAILED": "Geçmiş haftalar yüklenemedi.",
+  "errors.CHANGES_FETCH_FAILED": "Hafta bilgileri güncellenemedi.",
+  "errors.CLAIM_RULES_FAILED": "Son tarih kaydedilemedi.",
+  "errors.CLAIM_POLICY_FAILED": "Ayırma sınırları kaydedilemedi.",
+  "errors.TEXT_TOO_LONG": "Metin izin verilenden uzun.",
+  "errors.TEXT_TOO_LONG.limit": "Metin izin verilenden uzun (en fazla {limit} karakter).",
+  "errors.WEEK_DETAILS_FAILED": "Hatim bilgileri kaydedilemedi.",
+  "errors.INVALID_DIVISION": "Bölünme şekli bilinmiyor.",
+  "errors.PARTS_CLAIMED": "Bir katılımcı bölüm ayırdıktan sonra bölünme şekli değiştirilemez.",
+  "errors.DIVISION_CHANGE_FAILED": "Bölünme şekli değiştirilemedi.",
+  "errors.INVALID_CYCLE": "Hatim döngüsü geçerli değil.",
+  "errors.INVALID_HIJRI_OFFSET": "Hicri tarih düzeltmesi -2 ile +2 gün arasında olmalıdır.",
+  "errors.CALENDAR_CHANGE_FAILED": "Hatim takvimi kaydedilemedi.",
+  "errors.RESET_FAILED": "Şu anda sıfırlanamadı. Lütfen tekrar deneyin.",
+  "errors.INVALID_FORMAT": "Paylaşım biçimi bilinmiyor.",
+  "errors.ROSTER_EXPORT_FAILED": "Liste hazırlanamadı.",
+
+  "errors.PART_NOT_FOUND": "Bu bölüm bulunamadı.",
+  "errors.ALREADY_CLAIMED": "Bu bölüm şu anda ayrılmış.",
+  "errors.CLAIM_LIMIT_REACHED": "Bu haftanın ayırma sınırına ulaştınız.",
+  "errors.CLAIM_LIMIT_REACHED.limit": "Bu haftanın ayırma sınırına ulaştınız ({limit}).",
+  "errors.FIRST_CLAIM_WINDOW": "Haftanın başında katılımcı başına bir bölüm ayrılabilir.",
+  "errors.FIRST_CLAIM_WINDOW.opensAt":
+    "{opensAt} saatine kadar katılımcı başına bir bölüm ayrılabilir, sonra ayırma herkese açılır.",
+  "errors.CLAIM_FAILED": "Ayrılamadı. Lütfen tekrar deneyin.",
+  "errors.NOT_OWNER": "Bu bölüm sizin adınıza ayrılmış değil.",
+  "errors.NOT_CLAIMED": "Bu bölüm ayrılmış değil.",
+  "errors.RELEASE_FAILED": "Ayırma şu anda kaldırılamadı.",
+  "errors.COMPLETE_FAILED": "Okuma durumu güncellenemedi.",
+  "errors.INTENTION_FAILED": "Niyet kaydedilemedi.",
+  "errors.INTENTIONS_FETCH_FAILED": "Niyetleriniz yüklenemedi.",
+  "errors.ASSIGNEE_REQUIRED": "Bir üye seçin ya da okuyucunun adını girin.",
+  "errors.ASSIGN_FAILED": "Bölüm ayrılamadı.",
+
+  "errors.PART_AVAILABLE": "Şu anda boş, doğrudan ayırabilirsiniz.",
+  "errors.ALREADY_HOLDER": "Bu bölüm zaten sizin.",
+  "errors.WAITLIST_FAILED": "Bekleme listesi güncellenemedi.",
+  "errors.WAITLIST_FETCH_FAILED": "Bekleme listesi yüklenemedi.",
+  "errors.SWAP_UNAVAILABLE": "Bu bölüm artık takas edilemez.",
+  "errors.PART_COMPLETED": "Okunmuş bir bölüm takas edilemez.",
+  "errors.SWAP_EXISTS": "Bu teklifi zaten gönderdiniz, yanıt bekleniyor.",
+  "errors.SWAP_NOT_FOUND": "Takas teklifi bulunamadı.",
+  "errors.NOT_RECIPIENT": "Bu teklif size yapılmadı.",
+  "errors.SWAP_NOT_PENDING": "Bu teklif artık geçerli değil.",
+  "errors.SWAP_STALE": "Teklif gönderildikten sonra iki ayırmadan biri değişti, bu yüzden artık geçerli değil.",
+  "errors.SWAP_FAILED": "İstek tamamlanamadı.",
+  "errors.SWAPS_FETCH_FAILED": "Takas teklifleri yüklenemedi.",
+
+  "errors.AUDIT_FETCH_FAILED": "Değişiklik kaydı yüklenemedi.",
+  "errors.INVALID_RANGE": "Seçilen dönem geçerli değil.",
+  "errors.REPORT_FAILED": "Rapor yüklenemedi.",
+
+  "errors.UNEXPECTED_RESPONSE": "Beklenmeyen bir hata oluştu. Lütfen tekrar deneyin.",
+};
+
+export default tr;
@@ -0,0 +1,487 @@
+import type { Catalog } from "./ar";
+
+const ur: Catalog = {
+  "app.profileSyncFailed": "آپ کی پروفائل ہم آہنگ نہیں ہو سکی",
+  "app.resetConfirm": "اس ہفتے کے حصے دوبارہ ترتیب دیے جائیں؟",
+  "app.resetFailed": "ابھی دوبارہ ترتیب نہیں دیا جا سکا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "app.anonymous": "نامعلوم صارف",
+
+  "common.save": "محفوظ کریں",
+  "common.saving": "محفوظ ہو رہا ہے...",
+  "common.edit": "ترمیم",
+  "common.close": "بند کریں",
+  "common.listSeparator": "، ",
+  "common.loading": "لوڈ ہو رہا ہے...",
+  "common.participant": "ایک شریک",
+  "common.member": "رکن",
+
+  "wait.seconds": { one: "{count} سیکنڈ", other: "{count} سیکنڈ" },
+  "wait.minutes": { one: "{count} منٹ", other: "{count} منٹ" },
+  "wait.hours": { one: "{count} گھنٹہ", other: "{count} گھنٹے" },
+  "wait.rateLimited": "کم وقت میں بہت زیادہ درخواستیں۔ {wait} بعد دوبارہ کوشش کریں۔",
+
+  "roles.owner": "مالک",
+  "roles.moderator": "منتظم",
+  "roles.member": "رکن",
+
+  "quran.unit.juz": "پارہ {number}",
+  "quran.unit.hizb.first": "حزب {number} (پارہ {juz} کا پہلا نصف)",
+  "quran.unit.hizb.second": "حزب {number} (پارہ {juz} کا دوسرا نصف)",
+  "quran.unit.rub": "حزب {hizb} کا ربع {quarter}",
+  "quran.units.juz": { one: "پارہ", other: "پارے" },
+  "quran.units.hizb": { one: "حزب", other: "احزاب" },
+  "quran.units.rub": { one: "ربع", other: "ارباع" },
+  "quran.surahStart": "سورۃ {surah}، آیت {ayah}",
+
+  "header.sync.reconnecting": "رابطہ منقطع ہو گیا، دوبارہ کوشش جاری ہے…",
+  "header.sync.catching-up": "فہرست تازہ ہو رہی ہے…",
+  "header.sync.offline": "آف لائن، آخری محفوظ نسخہ دکھایا جا رہا ہے",
+  "header.view.board": "یہ ہفتہ",
+  "header.view.history": "گزشتہ ہفتے",
+  "header.view.stats": "میرے اعداد و شمار",
+  "header.view.devices": "میرے آلات",
+  "header.brand": "ختمہ",
+  "header.group": "حلقہ",
+  "header.addGroup": "کسی اور حلقے میں شامل ہوں",
+  "header.sections": "حصے",
+  "header.language": "زبان",
+  "header.resetting": "دوبارہ ترتیب دیا جا رہا ہے...",
+  "header.reset": "ہفتہ دوبارہ ترتیب دیں",
+  "header.logout": "لاگ آؤٹ",
+
+  "push.denied": "اطلاعات روک دی گئی ہیں۔ آپ براؤزر کی ترتیبات سے اجازت دے سکتے ہیں۔",
+  "push.failed": "اطلاعات کی ترتیبات تبدیل نہیں ہو سکیں۔",
+  "push.disableHint": "اس آلے پر اطلاعات بند کریں",
+  "push.enableHint": "اس آلے پر اطلاعات فعال کریں",
+  "push.enabled": "🔔 اطلاعات فعال ہیں",
+  "push.enable": "🔕 اطلاعات فعال کریں",
+
+  "login.sendFailed": "تصدیقی کوڈ نہیں بھیجا جا سکا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "login.nameRequired": "براہِ کرم اپنا پورا نام درج کریں۔",
+  "login.phoneInvalid": "براہِ کرم بین الاقوامی طرز میں درست فون نمبر درج کریں (مثلاً +923001234567)۔",
+  "login.codeInvalid": "6 ہندسوں کا کوڈ درج کریں۔",
+  "login.failed": "لاگ ان کے دوران خرابی پیش آئی۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "login.welcome": "ملتقی المحبین کے ختمہ میں خوش آمدید",
+  "login.intro": "ہفتہ وار ختمہ میں شامل ہوں اور گروپ کے ساتھ جو حصہ پڑھنا چاہیں اسے محفوظ کریں۔",
+  "login.codeSent": "ہم نے تصدیقی کوڈ اس نمبر پر بھیجا ہے",
+  "login.code": "تصدیقی کوڈ",
+  "login.verifying": "تصدیق ہو رہی ہے...",
+  "login.verify": "لاگ ان",
+  "login.resendIn": "{seconds} سیکنڈ بعد دوبارہ بھیجیں",
+  "login.resend": "کوڈ دوبارہ بھیجیں",
+  "login.changePhone": "نمبر تبدیل کریں",
+  "login.name": "پورا نام",
+  "login.namePlaceholder": "اپنا پورا نام درج کریں",
+  "login.phone": "فون نمبر (بین الاقوامی طرز)",
+  "login.sending": "بھیجا جا رہا ہے...",
+  "login.send": "تصدیقی کوڈ بھیجیں",
+  "login.savedHint": "آپ کی شرکت خود بخود محفوظ ہوتی ہے، اور آپ ختمہ مکمل کرنے کے لیے کسی بھی وقت واپس آ سکتے ہیں۔",
+
+  "joinGroup.inviteRequired": "براہِ کرم دعوتی کوڈ درج کریں۔",
+  "joinGroup.joinFailed": "گروپ میں شامل نہیں ہو سکے۔",
+  "joinGroup.nameRequired": "براہِ کرم گروپ کا نام درج کریں۔",
+  "joinGroup.createFailed": "گروپ نہیں بنایا جا سکا۔",
+  "joinGroup.title": "ختمہ کے حلقے میں شامل ہوں",
+  "joinGroup.subtitle": "حلقے کے منتظم سے دعوتی کوڈ مانگیں، یا نیا حلقہ شروع کریں۔",
+  "joinGroup.inviteCode": "دعوتی کوڈ",
+  "joinGroup.join": "شامل ہوں",
+  "joinGroup.or": "یا",
+  "joinGroup.newName": "نئے حلقے کا نام",
+  "joinGroup.namePlaceholder": "مثلاً نوجوانوں کا حلقہ",
+  "joinGroup.create": "حلقہ بنائیں",
+  "joinGroup.back": "واپس",
+
+  "division.juz": "پاروں کے لحاظ سے",
+  "division.hizb": "احزاب کے لحاظ سے",
+  "division.rub": "حزب کے ارباع کے لحاظ سے",
+  "division.failed": "ختمہ کی تقسیم تبدیل نہیں ہو سکی۔",
+  "division.label": "ختمہ کی تقسیم",
+  "division.locked": "حصے محفوظ ہونا شروع ہو چکے ہیں، اس لیے اس ہفتے تقسیم تبدیل نہیں ہو سکتی۔",
+  "division.hint": "آنے والے ہفتے آخری منتخب تقسیم پر چلیں گے۔ موجودہ تقسیم: {count} {units}۔",
+
+  "cycle.every": { one: "ہر روز ایک نیا ختم", other: "ہر {count} دن میں ایک نیا ختم" },
+  "cycle.weekly": "ہر ہفتے ایک نیا ختم",
+  "cycle.monthly": "ہر ہجری مہینے ایک نیا ختم",
+  "cycle.withOffset": "{cycle} (ہجری تاریخ میں ترمیم: {offset})",
+  "cycle.unitLabel": "نیا ختم",
+  "cycle.unit.day": "چند دنوں بعد",
+  "cycle.unit.week": "ہر ہفتے",
+  "cycle.unit.month": "ہر ہجری مہینے",
+  "cycle.daysLabel": "ایک ختم کے دن",
+  "cycle.daysInvalid": "دنوں کی تعداد 1 سے {max} تک کا پورا عدد ہونی چاہیے۔",
+  "cycle.offsetLabel": "ہجری تاریخ میں ترمیم (دن)",
+  "cycle.hint": "تبدیلی اگلے ختم سے لاگو ہوگی؛ موجودہ ختم کی تاریخیں وہی رہیں گی۔",
+  "cycle.failed": "ختم کا شیڈول محفوظ نہیں ہو سکا۔",
+
+  "claimRules.hoursInvalid": "گھنٹوں کی تعداد مثبت مکمل عدد ہونی چاہیے۔",
+  "claimRules.failed": "آخری وقت محفوظ نہیں ہو سکا۔",
+  "claimRules.deadline": "پڑھنے کا آخری وقت: {deadline}",
+  "claimRules.noDeadline": "پڑھنے کا کوئی آخری وقت نہیں",
+  "claimRules.deadlineLabel": "آخری وقت",
+  "claimRules.holdHours": "محفوظ کرنے کے بعد پڑھنے کی مدت (گھنٹے)",
+  "claimRules.overdue": "وقت گزر جانے پر",
+  "claimRules.flag": "حصے کو تاخیر شدہ نشان زد کریں",
+  "claimRules.release": "حصہ خود بخود آزاد کر دیں",
+
+  "claimPolicy.maxParts": "ہر شریک کے لیے زیادہ سے زیادہ {count}",
+  "claimPolicy.firstHours": {
+    one: "ہفتے کے پہلے گھنٹے میں ہر شریک کے لیے ایک حصہ",
+    other: "ہفتے کے پہلے {count} گھنٹوں میں ہر شریک کے لیے ایک حصہ",
+  },
+  "claimPolicy.summary": "حصے محفوظ کرنے کی حدیں: {rules}",
+  "claimPolicy.summaryExempt": "حصے محفوظ کرنے کی حدیں: {rules} (منتظمین مستثنیٰ)",
+  "claimPolicy.invalid": "قدریں مثبت مکمل اعداد ہونی چاہییں۔",
+  "claimPolicy.failed": "حدیں محفوظ نہیں ہو سکیں۔",
+  "claimPolicy.none": "کوئی حد نہیں",
+  "claimPolicy.maxPartsLabel": "ایک شریک زیادہ سے زیادہ کتنے حصے محفوظ کر سکتا ہے",
+  "claimPolicy.noLimit": "کوئی حد نہیں",
+  "claimPolicy.firstHoursLabel": "ہفتے کے پہلے (گھنٹوں) میں ہر شریک کے لیے صرف ایک حصہ",
+  "claimPolicy.noRestriction": "کوئی پابندی نہیں",
+  "claimPolicy.adminsExempt": "منتظمین کو ان حدوں سے مستثنیٰ رکھیں",
+
+  "weekDetails.failed": "ختمہ کی تفصیلات محفوظ نہیں ہو سکیں۔",
+  "weekDetails.summary": "ختمہ کا عنوان، انتساب اور ختم القرآن کی دعا",
+  "weekDetails.summaryNoDua": "ختمہ کا عنوان اور انتساب (دعا کے بغیر)",
+  "weekDetails.title": "ختمہ کا عنوان",
+  "weekDetails.titlePlaceholder": "مثلاً رمضان کا ختمہ",
+  "weekDetails.dedication": "انتساب",
+  "weekDetails.dedicationPlaceholder": "مثلاً ہمارے مرحوم والد کی روح کے لیے",
+  "weekDetails.closingDua": "ختم القرآن کی دعا",
+  "weekDetails.closingDuaPlaceholder": "ختمہ مکمل ہونے پر سب کو دکھائی جائے گی",
+
+  "intention.notOwner": "{label} اب آپ کے نام محفوظ نہیں ہے۔",
+  "intention.failed": "نیت محفوظ نہیں ہو سکی۔",
+  "intention.dialog": "{label} کی نیت",
+  "intention.heading": "{label} کے لیے میری نیت",
+  "intention.placeholder": "مثلاً میرے بھائی کی شفا کے لیے",
+  "intention.public": "فہرست میں شرکاء کو دکھائیں",
+
+  "swaps.failed": "درخواست مکمل نہیں ہو سکی۔",
+  "swaps.title": "تبادلے کی پیشکشیں",
+  "swaps.incoming": "{from} آپ کو {want} کے بدلے {offer} پیش کر رہے ہیں",
+  "swaps.outgoing": "آپ نے {to} کو {want} کے بدلے {offer} پیش کیا",
+  "swaps.accept": "قبول کریں",
+  "swaps.decline": "مسترد کریں",
+  "swaps.withdraw": "پیشکش واپس لیں",
+
+  "stats.failed": "اعداد و شمار لوڈ نہیں ہو سکے۔",
+  "stats.title": "میرے اعداد و شمار",
+  "stats.allGroups": "تمام حلقے (صرف {group} نہیں)",
+  "stats.partsRead": { one: "حصہ پڑھا", other: "حصے پڑھے" },
+  "stats.weeksAttended": { one: "ہفتہ شرکت کی", other: "ہفتے شرکت کی" },
+  "stats.streak": { one: "ہفتہ مسلسل اب تک", other: "ہفتے مسلسل اب تک" },
+  "stats.mostReadJuz": { one: "سب سے زیادہ پڑھا گیا پارہ (ایک بار)", other: "سب سے زیادہ پڑھا گیا پارہ ({count} بار)" },
+  "stats.noJuzRead": "ابھی کوئی پارہ نہیں پڑھا",
+
+  "devices.unknown": "نامعلوم آلہ",
+  "devices.browser": "براؤزر",
+  "devices.browserOn": "{system} پر {browser}",
+  "devices.loadFailed": "آپ کے آلات لوڈ نہیں ہو سکے۔",
+  "devices.revokeFailed": "آلے سے لاگ آؤٹ نہیں ہو سکا۔",
+  "devices.title": "میرے آلات",
+  "devices.hint": "وہ آلات جن پر آپ لاگ ان ہیں۔ اگر کوئی آلہ آپ کا نہیں تو اس سے لاگ آؤٹ کریں۔",
+  "devices.current": "یہ آلہ",
+  "devices.lastUsed": "آخری استعمال {time}",
+  "devices.revokeConfirm": "اس آلے سے لاگ آؤٹ کریں؟",
+  "devices.revoke": "لاگ آؤٹ",
+  "devices.revokeOthersConfirm": "باقی تمام آلات سے لاگ آؤٹ کریں؟",
+  "devices.revokeOthers": "باقی تمام آلات سے لاگ آؤٹ کریں",
+
+  "report.failed": "رپورٹ لوڈ نہیں ہو سکی۔",
+  "report.title": "شرکت کی رپورٹ",
+  "report.from": "سے",
+  "report.to": "تک",
+  "report.show": "دکھائیں",
+  "report.weeks": { one: "{count} ہفتہ", other: "{count} ہفتے" },
+  "report.completed": "{count} میں ختمہ مکمل ہوا",
+  "report.partsRead": { one: "{count} حصہ پڑھا گیا", other: "{count} حصے پڑھے گئے" },
+  "report.member": "رکن",
+  "report.partsReadColumn": "پڑھے گئے حصے",
+  "report.weeksColumn": "شرکت کے ہفتے",
+  "report.guest": "{name} (کی طرف سے)",
+
+  "history.failed": "گزشتہ ہفتے لوڈ نہیں ہو سکے۔",
+  "history.back": "→ ہفتوں کی فہرست پر واپس",
+  "history.title": "گزشتہ ہفتے",
+  "history.empty": "ابھی کوئی ہفتہ نہیں۔",
+  "history.current": "یہ ہفتہ",
+  "history.completed": "✓ ختمہ مکمل ہوا",
+  "history.counts": "پڑھے گئے {read}/{total} · محفوظ {claimed}/{total}",
+  "history.more": "مزید دکھائیں",
+
+  "roster.failed": "فہرست شیئر کرنے کے لیے تیار نہیں ہو سکی۔",
+  "roster.copied": "فہرست کاپی ہو گئی۔ آپ اسے گفتگو میں چسپاں کر سکتے ہیں۔",
+  "roster.imageSaved": "فہرست کی تصویر ڈاؤن لوڈ ہو گئی۔",
+  "roster.shareText": "متن کے طور پر شیئر کریں",
+  "roster.shareImage": "تصویر کے طور پر شیئر کریں",
+  "roster.downloadCsv": "CSV ڈاؤن لوڈ کریں",
+
+  "reader.dialog": "{label} کی تلاوت",
+  "reader.smaller": "چھوٹا متن",
+  "reader.larger": "بڑا متن",
+  "reader.failed":
+    "متن لوڈ نہیں ہو سکا۔ آف لائن پڑھنے کے لیے محفوظ ہونے کی خاطر ایپ کو ایک بار انٹرنیٹ کے ساتھ کھولیں۔",
+  "reader.previous": "پچھلا",
+  "reader.next": "اگلا",
+  "reader.page": "صفحہ {page} · {total} میں سے {index}",
+  "reader.markDone": "میں {label} کے آخر تک پہنچ گیا، اسے پڑھا ہوا نشان زد کریں",
+  "reader.done": "✓ {label} پڑھا ہوا نشان زد ہو گیا۔",
+  "reader.release": "حصہ آزاد کریں",
+
+  "audit.action.claim": "محفوظ کیا",
+  "audit.action.release": "آزاد کیا",
+  "audit.action.force_release": "منتظم نے آزاد کیا",
+  "audit.action.assign": "منتظم نے سپرد کیا",
+  "audit.action.expire": "مدت ختم ہو گئی",
+  "audit.action.reset": "ہفتہ دوبارہ ترتیب دیا گیا",
+  "audit.action.grant_admin": "منتظم بنایا گیا",
+  "audit.action.revoke_admin": "منتظمی واپس لی گئی",
+  "audit.action.set_role": "رکن کا کردار تبدیل ہوا",
+  "audit.action.revoke_sessions": "رکن کو آلات سے لاگ آؤٹ کیا گیا",
+  "audit.action.set_division": "تقسیم تبدیل ہوئی",
+  "audit.action.waitlist_assign": "انتظار کی فہرست سے سپرد کیا گیا",
+  "audit.action.swap": "شرکاء کے درمیان تبادلہ",
+  "audit.division.juz": "پاروں",
+  "audit.division.hizb": "احزاب",
+  "audit.division.rub": "حزب کے ارباع",
+  "audit.claim": "{part} محفوظ کیا",
+  "audit.release": "{part} آزاد کیا",
+  "audit.forceRelease": "{part} کو {holder} سے آزاد کیا",
+  "audit.move": "{part} کو {from} سے {to} کو منتقل کیا",
+  "audit.assign": "{part} کو {to} کے سپرد کیا",
+  "audit.expire": "مدت ختم ہونے پر {part} کو {holder} سے آزاد کیا گیا",
+  "audit.reset": {
+    one: "ہفتہ {week} دوبارہ ترتیب دیا ({count} محفوظ حصہ)",
+    other: "ہفتہ {week} دوبارہ ترتیب دیا ({count} محفوظ حصے)",
+  },
+  "audit.grantAdmin": "{target} کو منتظم بنایا",
+  "audit.revokeAdmin": "{target} سے منتظمی واپس لی",
+  "audit.revokeSessions": "{target} کو تمام آلات سے لاگ آؤٹ کیا ({count})",
+  "audit.setRole": "{target} کو {role} بنایا",
+  "audit.newRole": "نیا کردار",
+  "audit.waitlistAssign": "{part} انتظار کی فہرست سے {to} کو ملا",
+  "audit.swap": "{part} تبادلے میں {from} سے {to} کو گیا",
+  "audit.setDivision": "ہفتہ {week} کو {division} میں تقسیم کیا",
+  "audit.newUnits": "نئی اکائیوں",
+  "audit.failed": "تبدیلیوں کا ریکارڈ لوڈ نہیں ہو سکا۔",
+  "audit.title": "تبدیلیوں کا ریکارڈ",
+  "audit.hide": "چھپائیں",
+  "audit.show": "دکھائیں",
+  "audit.allActions": "تمام کارروائیاں",
+  "audit.partPlaceholder": "پارہ یا حزب نمبر",
+  "audit.thisWeek": "صرف یہ ہفتہ",
+  "audit.empty": "کوئی تبدیلی درج نہیں۔",
+  "audit.system": "سسٹم",
+  "audit.more": "مزید دکھائیں",
+
+  "adminMenu.membersFailed": "اراکین کی فہرست لوڈ نہیں ہو سکی۔",
+  "adminMenu.holder": "شریک",
+  "adminMenu.notClaimed": "{label} محفوظ نہیں ہے۔",
+  "adminMenu.releaseConfirm": "{label} کو {holder} سے آزاد کریں؟",
+  "adminMenu.releaseFailed": "حصہ آزاد نہیں ہو سکا۔",
+  "adminMenu.moveConfirm": "{label} {holder} کے نام محفوظ ہے۔ منتقل کریں؟",
+  "adminMenu.assignFailed": "حصہ سپرد نہیں ہو سکا۔",
+  "adminMenu.memberRequired": "کوئی رکن منتخب کریں۔",
+  "adminMenu.guestRequired": "براہِ کرم قاری کا نام درج کریں۔",
+  "adminMenu.roleConfirm": "{holder} کا کردار “{role}” میں تبدیل کریں؟",
+  "adminMenu.roleFailed": "کردار تبدیل نہیں ہو سکا۔",
+  "adminMenu.revokeConfirm": "{holder} کو تمام آلات سے لاگ آؤٹ کریں؟ دوبارہ لاگ ان کے لیے نیا تصدیقی کوڈ درکار ہوگا۔",
+  "adminMenu.revokeFailed": "رکن کو لاگ آؤٹ نہیں کیا جا سکا۔",
+  "adminMenu.dialog": "{label} کا انتظام",
+  "adminMenu.claimedBy": "{holder} کے نام محفوظ",
+  "adminMenu.claimedOnBehalf": "{holder} کی طرف سے محفوظ",
+  "adminMenu.open": "دستیاب",
+  "adminMenu.release": "حصہ آزاد کریں",
+  "adminMenu.role": "گروپ میں {holder} کا کردار",
+  "adminMenu.revoke": "تمام آلات سے لاگ آؤٹ کریں",
+  "adminMenu.assignMember": "کسی رکن کے سپرد کریں",
+  "adminMenu.chooseMember": "رکن منتخب کریں",
+  "adminMenu.assign": "سپرد کریں",
+  "adminMenu.guest": "بغیر اکاؤنٹ والے کسی شخص کے لیے محفوظ کریں",
+  "adminMenu.guestPlaceholder": "قاری کا نام",
+  "adminMenu.assignGuest": "ان کی طرف سے محفوظ کریں",
+
+  "requestMenu.notOwner": "جو حصہ آپ پیش کر رہے ہیں وہ اب آپ کا نہیں۔",
+  "requestMenu.waitlistFailed": "انتظار کی فہرست تبدیل نہیں ہو سکی۔",
+  "requestMenu.left": "آپ انتظار کی فہرست سے نکل گئے۔",
+  "requestMenu.joined": "آپ انتظار کی فہرست میں {position} نمبر پر شامل ہو گئے۔",
+  "requestMenu.swapFailed": "تبادلے کی پیشکش نہیں بھیجی جا سکی۔",
+  "requestMenu.swapSent": "تبادلے کی پیشکش {holder} کو بھیج دی گئی۔",
+  "requestMenu.claimedBy": "{holder} کے نام محفوظ",
+  "requestMenu.leave": "انتظار کی فہرست سے نکلیں",
+  "requestMenu.join": "آزاد ہونے تک انتظار کریں اور خود بخود لے لیں",
+  "requestMenu.offer": "اپنے کسی حصے کے بدلے تبادلہ پیش کریں",
+  "requestMenu.send": "پیشکش بھیجیں",
+
+  "board.remaining.days": "{days} دن {hours} گھنٹے",
+  "board.remaining.hours": "{hours} گھنٹے {minutes} منٹ",
+  "board.remaining.minutes": "{minutes} منٹ",
+  "board.refusal.limit": "آپ اس ہفتے کی حد ({limit}) تک پہنچ چکے ہیں، اس لیے {label} محفوظ نہیں کر سکتے۔",
+  "board.refusal.closed": "یہ ہفتہ ختم ہو چکا ہے اور اب حصے محفوظ نہیں ہو سکتے۔",
+  "board.refusal.rateLimited": "آپ نے کم وقت میں کئی حصے محفوظ کیے۔ آپ {label} {wait} بعد محفوظ کر سکتے ہیں۔",
+  "board.refusal.taken": "{label} پہلے سے محفوظ ہے۔ انتظار یا تبادلے کے لیے اسے دبائیں۔",
+  "board.claimFailed": "محفوظ نہیں ہو سکا۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "board.conflict.taken": "{part} محفوظ نہیں ہو سکا: آپ کے دوبارہ آن لائن ہونے سے پہلے کسی اور شریک نے لے لیا۔",
+  "board.conflict.notOwner": "{part} اب آپ کا نہیں، اس لیے آپ کی درخواست لاگو نہیں ہوئی۔",
+  "board.conflict.notMember": "آپ اب اس حلقے کے رکن نہیں، اس لیے {part} کی درخواست نہیں بھیجی گئی۔",
+  "board.conflict.closed":
+    "آپ کے دوبارہ آن لائن ہونے سے پہلے ہفتہ ختم ہو گیا، اس لیے {part} کی درخواست لاگو نہیں ہوئی۔",
+  "board.conflict.limit": "{part} محفوظ نہیں ہو سکا: آپ فی شریک حد تک پہنچ چکے ہیں۔",
+  "board.conflict.failed": "دوبارہ رابطے کے بعد {part} کی درخواست لاگو نہیں ہو سکی۔",
+  "board.notice.expired": "{label} پڑھنے کی مدت ختم ہو گئی، اس لیے آپ کا حصہ آزاد کر دیا گیا۔",
+  "board.notice.assigned": "ایک منتظم نے {label} آپ کے سپرد کیا۔",
+  "board.notice.waitlist": "انتظار کی فہرست میں آپ کی باری آ گئی: {label} اب آپ کا ہے۔",
+  "board.notice.swap": "فہرست کے اوپر آپ کے لیے تبادلے کی نئی پیشکش ہے۔",
+  "board.loadArchivedFailed": "یہ ہفتہ لوڈ نہیں ہو سکا۔",
+  "board.loadFailed": "موجودہ ہفتہ لوڈ نہیں ہو سکا۔",
+  "board.queued": "انٹرنیٹ کنکشن نہیں ہے۔ دوبارہ آن لائن ہونے پر آپ کی درخواست خود بخود بھیج دی جائے گی۔",
+  "board.completeConfirm": "کیا آپ نے {label} پڑھ لیا؟",
+  "board.completeFailed": "پڑھنے کی حالت تبدیل نہیں ہو سکی۔",
+  "board.signInFirst": "براہِ کرم پہلے لاگ ان کریں۔",
+  "board.releaseConfirm": "{label} پڑھا ہوا نشان زد ہے۔ پھر بھی آزاد کریں؟",
+  "board.releaseFailed": "ابھی حصہ آزاد نہیں ہو سکا۔",
+  "board.inviteCode": "دعوتی کوڈ",
+  "board.progress": "محفوظ: {claimed}/{total} · پڑھے گئے: {read}/{total}",
+  "board.week": "ہفتہ: {key}",
+  "board.legend.open": "دستیاب",
+  "board.legend.mine": "آپ کا",
+  "board.legend.others": "دوسروں کے نام محفوظ",
+  "board.legend.read": "پڑھا گیا",
+  "board.closed": "یہ ہفتہ ختم ہو چکا ہے؛ اس کی فہرست صرف دیکھنے کے لیے ہے۔",
+  "board.completed": "الحمد للہ ختمہ مکمل ہو گیا۔ اللہ ہم سے اور آپ سے قبول فرمائے۔",
+  "board.you": "آپ",
+  "board.state.queued": "کنکشن کا انتظار",
+  "board.state.waiting": "آپ اس کی انتظار کی فہرست میں ہیں",
+  "board.state.open": "دستیاب",
+  "board.state.mine": "آپ کا، پڑھنے کے لیے دبائیں",
+  "board.state.claimedBy": "{name} کے نام محفوظ",
+  "board.state.claimed": "محفوظ",
+  "board.cellTitle": "{label}، {start} سے — {state}",
+  "board.overdue": "تاخیر",
+  "board.markRead": "پڑھ لیا؟",
+  "board.markReadShort": "پڑھ لیا؟",
+  "board.read": "✓ پڑھا گیا",
+  "board.manage": "{label} کا انتظام",
+  "board.listTitle": "{units} کے لحاظ سے شرکاء",
+  "board.open": "دستیاب",
+  "board.readNow": "پڑھیں",
+  "board.editIntention": "نیت میں ترمیم",
+  "board.addIntention": "نیت شامل کریں",
+  "board.privateIntention": " (صرف آپ)",
+
+  "errors.BAD_REQUEST": "درخواست درست نہیں۔",
+  "errors.INVALID_BODY": "بھیجا گیا کچھ ڈیٹا درست نہیں۔",
+  "errors.INVALID_QUERY": "تلاش کے معیار درست نہیں۔",
+  "errors.INVALID_PARAMS": "لنک کسی غیر درست چیز کی طرف اشارہ کرتا ہے۔",
+
+  "errors.NO_TOKEN": "براہِ کرم پہلے لاگ ان کریں۔",
+  "errors.BAD_TOKEN": "سیشن ختم ہو گیا۔ براہِ کرم دوبارہ لاگ ان کریں۔",
+  "errors.SESSION_CHECK_FAILED": "سیشن کی تصدیق نہیں ہو سکی۔ دوبارہ کوشش کریں۔",
+  "errors.PHONE_REQUIRED": "براہِ کرم فون نمبر درج کریں۔",
+  "errors.NAME_PHONE_AND_CODE_REQUIRED": "براہِ کرم نام، فون نمبر اور تصدیقی کوڈ درج کریں۔",
+  "errors.OTP_INVALID": "تصدیقی کوڈ غلط ہے۔",
+  "errors.OTP_EXPIRED": "کوڈ کی میعاد ختم ہو گئی۔ نیا کوڈ منگوائیں۔",
+  "errors.OTP_TOO_MANY_ATTEMPTS": "اجازت سے زیادہ کوششیں ہو گئیں۔ نیا کوڈ منگوائیں۔",
+  "errors.OTP_TOO_SOON": "نیا کوڈ منگوانے سے پہلے تھوڑا انتظار کریں۔",
+  "errors.OTP_TOO_SOON.wait": "آپ {wait} بعد نیا کوڈ منگوا سکتے ہیں۔",
+  "errors.OTP_SEND_FAILED": "تصدیقی کوڈ نہیں بھیجا جا سکا۔ دوبارہ کوشش کریں۔",
+  "errors.LOGIN_FAILED": "لاگ ان کے دوران خرابی پیش آئی۔ براہِ کرم دوبارہ کوشش کریں۔",
+  "errors.RATE_LIMITED": "کم وقت میں بہت زیادہ درخواستیں۔ تھوڑا انتظار کر کے دوبارہ کوشش کریں۔",
+  "errors.REFRESH_TOKEN_REQUIRED": "سیشن ختم ہو گیا۔ براہِ کرم دوبارہ لاگ ان کریں۔",
+  "errors.REFRESH_INVALID": "سیشن ختم ہو گیا۔ براہِ کرم دوبارہ لاگ ان کریں۔",
+  "errors.REFRESH_RACED": "سیشن کسی اور ونڈو سے تازہ ہوا۔ دوبارہ کوشش کریں۔",
+  "errors.REFRESH_REUSED": "سیکیورٹی وجوہات سے سیشن ختم کر دیا گیا۔ براہِ کرم دوبارہ لاگ ان کریں۔",
+  "errors.REFRESH_FAILED": "سیشن تازہ نہیں ہو سکا۔ دوبارہ کوشش کریں۔",
+  "errors.LOGOUT_FAILED": "لاگ آؤٹ نہیں ہو سکا۔ دوبارہ کوشش کریں۔",
+  "errors.SESSION_NOT_FOUND": "یہ آلہ اب لاگ ان نہیں ہے۔",
+  "errors.SESSIONS_FETCH_FAILED": "آلات کی فہرست لوڈ نہیں ہو سکی۔",
+  "errors.SESSION_REVOKE_FAILED": "آلے سے لاگ آؤٹ نہیں ہو سکا۔",
+  "errors.SESSIONS_REVOKE_FAILED": "دوسرے آلات سے لاگ آؤٹ نہیں ہو سکا۔",
+  "errors.PROFILE_FAILED": "اکاؤنٹ کی معلومات لوڈ نہیں ہو سکیں۔",
+  "errors.STATS_FAILED": "اعداد و شمار لوڈ نہیں ہو سکے۔",
+  "errors.INVALID_LOCALE": "منتخب زبان معاون نہیں ہے۔",
+
+  "errors.PUSH_DISABLED": "سرور پر اطلاعات فعال نہیں ہیں۔",
+  "errors.INVALID_SUBSCRIPTION": "براؤزر نے اطلاعات کی رکنیت قبول نہیں کی۔",
+  "errors.ENDPOINT_REQUIRED": "براؤزر نے اطلاعات کی رکنیت قبول نہیں کی۔",
+  "errors.SUBSCRIBE_FAILED": "اطلاعات فعال نہیں ہو سکیں۔",
+  "errors.UNSUBSCRIBE_FAILED": "اطلاعات بند نہیں ہو سکیں۔",
+
+  "errors.NOT_MEMBER": "آپ اس گروپ کے رکن نہیں ہیں۔",
+  "errors.NOT_PERMITTED": "آپ کو اس کارروائی کی اجازت نہیں۔",
+  "errors.PERMISSION_CHECK_FAILED": "آپ کی اجازتوں کی تصدیق نہیں ہو سکی۔ دوبارہ کوشش کریں۔",
+  "errors.GROUP_REQUIRED": "پہلے کوئی گروپ منتخب کریں۔",
+  "errors.GROUP_NAME_REQUIRED": "براہِ کرم گروپ کا نام درج کریں۔",
+  "errors.GROUPS_FETCH_FAILED": "گروپ لوڈ نہیں ہو سکے۔",
+  "errors.GROUP_CREATE_FAILED": "گروپ نہیں بنایا جا سکا۔",
+  "errors.GROUP_JOIN_FAILED": "گروپ میں شامل نہیں ہو سکے۔",
+  "errors.INVITE_CODE_REQUIRED": "براہِ کرم دعوتی کوڈ درج کریں۔",
+  "errors.INVITE_CODE_INVALID": "دعوتی کوڈ غلط ہے۔",
+  "errors.INVITE_CODE_FAILED": "دعوتی کوڈ تازہ نہیں ہو سکا۔",
+  "errors.MEMBER_NOT_FOUND": "یہ شریک اب گروپ کا رکن نہیں۔",
+  "errors.MEMBERS_FETCH_FAILED": "اراکین کی فہرست لوڈ نہیں ہو سکی۔",
+  "errors.INVALID_ROLE": "منتخب کردار نامعلوم ہے۔",
+  "errors.LAST_OWNER": "گروپ کے آخری مالک کا کردار تبدیل نہیں ہو سکتا۔ پہلے کسی اور کو مالک بنائیں۔",
+  "errors.ROLE_CHANGE_FAILED": "کردار تبدیل نہیں ہو سکا۔",
+  "errors.JOIN_FAILED": "براہِ راست تازہ کاریاں جاری نہیں رہ سکیں۔",
+
+  "errors.WEEK_REQUIRED": "ہفتہ متعین نہیں کیا گیا۔",
+  "errors.WEEK_NOT_FOUND": "یہ ہفتہ نہیں ملا۔",
+  "errors.WEEK_CLOSED": "یہ ہفتہ ختم ہو چکا ہے۔",
+  "errors.WEEK_FETCH_FAILED": "ہفتے کی معلومات لوڈ نہیں ہو سکیں۔",
+  "errors.WEEKS_FETCH_FAILED": "گزشتہ ہفتے لوڈ نہیں ہو سکے۔",
+  "errors.CHANGES_FETCH_FAILED": "ہفتے کی معلومات تازہ نہیں ہو سکیں۔",
+  "errors.CLAIM_RULES_FAILED": "آخری وقت محفوظ نہیں ہو سکا۔",
+  "errors.CLAIM_POLICY_FAILED": "حدیں محفوظ نہیں ہو سکیں۔",
+  "errors.TEXT_TOO_LONG": "متن اجازت سے زیادہ طویل ہے۔",
+  "errors.TEXT_TOO_LONG.limit": "متن اجازت سے زیادہ طویل ہے (زیادہ سے زیادہ {limit} حروف)۔",
+  "errors.WEEK_DETAILS_FAILED": "ختمہ کی تفصیلات محفوظ نہیں ہو سکیں۔",
+  "errors.INVALID_DIVISION": "تقسیم کا طریقہ نامعلوم ہے۔",
+  "errors.PARTS_CLAIMED": "کسی شریک کے حصہ محفوظ کرنے کے بعد تقسیم تبدیل نہیں ہو سکتی۔",
+  "errors.DIVISION_CHANGE_FAILED": "تقسیم تبدیل نہیں ہو سکی۔",
+  "errors.INVALID_CYCLE": "ختم کی مدت درست نہیں۔",
+  "errors.INVALID_HIJRI_OFFSET": "ہجری تاریخ میں ترمیم -2 سے +2 دن کے درمیان ہونی چاہیے۔",
+  "errors.CALENDAR_CHANGE_FAILED": "ختم کا شیڈول محفوظ نہیں ہو سکا۔",
+  "errors.RESET_FAILED": "ابھی دوبارہ ترتیب نہیں دیا جا سکا۔ دوبارہ کوشش کریں۔",
+  "errors.INVALID_FORMAT": "شیئر کرنے کا طرز نامعلوم ہے۔",
+  "errors.ROSTER_EXPORT_FAILED": "فہرست تیار نہیں ہو سکی۔",
+
+  "errors.PART_NOT_FOUND": "یہ حصہ نہیں ملا۔",
+  "errors.ALREADY_CLAIMED": "یہ حصہ پہلے سے محفوظ ہے۔",
+  "errors.CLAIM_LIMIT_REACHED": "آپ اس ہفتے کی حد تک پہنچ چکے ہیں۔",
+  "errors.CLAIM_LIMIT_REACHED.limit": "آپ اس ہفتے کی حد ({limit}) تک پہنچ چکے ہیں۔",
+  "errors.FIRST_CLAIM_WINDOW": "ہفتے کے آغاز میں ہر شریک کے لیے ایک حصہ کی اجازت ہے۔",
+  "errors.FIRST_CLAIM_WINDOW.opensAt":
+    "{opensAt} تک ہر شریک کے لیے ایک حصہ کی اجازت ہے، اس کے بعد سب کے لیے کھل جائے گا۔",
+  "errors.CLAIM_FAILED": "محفوظ نہیں ہو سکا۔ دوبارہ کوشش کریں۔",
+  "errors.NOT_OWNER": "یہ حصہ آپ کے نام محفوظ نہیں۔",
+  "errors.NOT_CLAIMED": "یہ حصہ محفوظ نہیں ہے۔",
+  "errors.RELEASE_FAILED": "ابھی حصہ آزاد نہیں ہو سکا۔",
+  "errors.COMPLETE_FAILED": "پڑھنے کی حالت تبدیل نہیں ہو سکی۔",
+  "errors.INTENTION_FAILED": "نیت محفوظ نہیں ہو سکی۔",
+  "errors.INTENTIONS_FETCH_FAILED": "آپ کی نیتیں لوڈ نہیں ہو سکیں۔",
+  "errors.ASSIGNEE_REQUIRED": "کوئی رکن منتخب کریں یا قاری کا نام درج کریں۔",
+  "errors.ASSIGN_FAILED": "حصہ محفوظ نہیں ہو سکا۔",
+
+  "errors.PART_AVAILABLE": "یہ اب دستیاب ہے، آپ اسے براہِ راست محفوظ کر سکتے ہیں۔",
+  "errors.ALREADY_HOLDER": "یہ حصہ پہلے ہی آپ کا ہے۔",
+  "errors.WAITLIST_FAILED": "انتظار کی فہرست تبدیل نہیں ہو سکی۔",
+  "errors.WAITLIST_FETCH_FAILED": "انتظار کی فہرست لوڈ نہیں ہو سکی۔",
+  "errors.SWAP_UNAVAILABLE": "اس حصے کا تبادلہ اب ممکن نہیں۔",
+  "errors.PART_COMPLETED": "پڑھے گئے حصے کا تبادلہ نہیں ہو سکتا۔",
+  "errors.SWAP_EXISTS": "آپ یہ پیشکش پہلے بھیج چکے ہیں اور جواب کا انتظار ہے۔",
+  "errors.SWAP_NOT_FOUND": "تبادلے کی پیشکش نہیں ملی۔",
+  "errors.NOT_RECIPIENT": "یہ پیشکش آپ کے لیے نہیں ہے۔",
+  "errors.SWAP_NOT_PENDING": "یہ پیشکش اب قائم نہیں۔",
+  "errors.SWAP_STALE": "پیشکش بھیجنے کے بعد دونوں میں سے ایک حصے کی حالت بدل گئی، اس لیے یہ اب درست نہیں۔",
+  "errors.SWAP_FAILED": "درخواست مکمل نہیں ہو سکی۔",
+  "errors.SWAPS_FETCH_FAILED": "تبادلے کی پیشکشیں لوڈ نہیں ہو سکیں۔",
+
+  "errors.AUDIT_FETCH_FAILED": "تبدیلیوں کا ریکارڈ لوڈ نہیں ہو سکا۔",
+  "errors.INVALID_RANGE": "منتخب مدت درست نہیں۔",
+  "errors.REPORT_FAILED": "رپورٹ لوڈ نہیں ہو سکی۔",
+
+  "errors.UNEXPECTED_RESPONSE": "ایک غیر متوقع خرابی پیش آئی۔ دوبارہ کوشش کریں۔",
+};
+
+export default ur;
@@ -14,8 +14,9 @@ export default defineConfig({
         name: "ختمة",
         short_name: "ختمة",
         description: "تنسيق ختمة أسبوعية مع تحديثات فورية.",
-        lang: "ar",
-        dir: "rtl",
+        // The app speaks several languages and sets lang and dir on <html> at runtime, so the
+        // manifest names neither; undefined keeps out the plugin's default "en".
+        lang: undefined,
         start_url: "/",
         scope: "/",
         display: "standalone",
@@ -28,7 +29,9 @@ export default defineConfig({
         ],
       },
       workbox: {
+        // json covers the reader's Quran text in public/quran, so claimed parts can be read offline.
         globPatterns: ["**/*.{js,css,html,svg,png,ico,txt,json}"],
+        importScripts: ["push-sw.js"],
       },
     }),
   ],